@@ -0,0 +1,56 @@
+import { describe, test, expect } from "bun:test";
+import { Accumulator } from "./aggregate.ts";
+import type { AggregateFunction } from "../sql/parser.ts";
+import type { ColumnValue } from "./btree.ts";
+
+/** 値を順に加えた結果 */
+function aggregate(func: AggregateFunction, values: ColumnValue[]) {
+  const accumulator = new Accumulator(func);
+  for (const value of values) accumulator.add(value);
+  return accumulator.result();
+}
+
+describe("Accumulator", () => {
+  test("NULL を無視して集計する", () => {
+    const values = [3, null, 1, 4, null];
+    expect(aggregate("COUNT", values)).toEqual({ success: true, value: 3 });
+    expect(aggregate("SUM", values)).toEqual({ success: true, value: 8 });
+    expect(aggregate("AVG", values)).toEqual({ success: true, value: 8 / 3 });
+    expect(aggregate("MIN", values)).toEqual({ success: true, value: 1 });
+    expect(aggregate("MAX", values)).toEqual({ success: true, value: 4 });
+  });
+
+  test("値がなければ COUNT は 0、それ以外は NULL", () => {
+    for (const values of [[], [null, null]]) {
+      expect(aggregate("COUNT", values)).toEqual({ success: true, value: 0 });
+      for (const func of ["SUM", "AVG", "MIN", "MAX"] as const) {
+        expect(aggregate(func, values)).toEqual({ success: true, value: null });
+      }
+    }
+  });
+
+  test("MIN / MAX は数値より TEXT を大きいとみなし、SUM は TEXT を数値に直す", () => {
+    const values = ["10", 2, "abc"];
+    expect(aggregate("MIN", values)).toEqual({ success: true, value: 2 });
+    expect(aggregate("MAX", values)).toEqual({ success: true, value: "abc" });
+    expect(aggregate("SUM", values)).toEqual({ success: true, value: 12 });
+  });
+
+  test("整数の SUM が安全な範囲を超えるとエラー", () => {
+    expect(aggregate("SUM", [Number.MAX_SAFE_INTEGER, 1])).toEqual({
+      success: false,
+      error: "integer overflow in SUM()",
+    });
+    expect(aggregate("SUM", [Number.MAX_SAFE_INTEGER, -1])).toEqual({
+      success: true,
+      value: Number.MAX_SAFE_INTEGER - 1,
+    });
+  });
+
+  test("BIGINT だけの SUM は bigint で計算し、64bit を超えるとエラー", () => {
+    expect(aggregate("SUM", [2n ** 62n, null, 2n ** 62n - 1n])).toEqual({ success: true, value: 2n ** 63n - 1n });
+    expect(aggregate("SUM", [2n ** 62n, 2n ** 62n])).toEqual({ success: false, error: "integer overflow in SUM()" });
+    expect(aggregate("SUM", [1n, 0.5, true])).toEqual({ success: true, value: 2.5 });
+    expect(aggregate("AVG", [1n, 2])).toEqual({ success: true, value: 1.5 });
+  });
+});
@@ -0,0 +1,95 @@
+import { compareValues } from "./btree.ts";
+import { isInt64 } from "./value.ts";
+import type { ColumnValue } from "./btree.ts";
+import type { AggregateFunction } from "../sql/parser.ts";
+
+// ============================================================
+// 集約関数
+//
+// グループごと・集約関数の呼び出しごとに Accumulator を1つ作り、
+// 行の値を add() で渡してから result() で結果を取り出す。
+// NULL の扱いは SQL の規則に従う:
+//   - COUNT(*) は行数、COUNT(x) は x が NULL でない行の数 (行がなければ 0)
+//   - SUM / AVG / MIN / MAX は NULL を無視し、NULL でない値が1つもなければ NULL
+//   - SUM / AVG は TEXT を数値に直して足す (数値にならなければ 0)、TRUE / FALSE は 1 / 0
+//   - BIGINT だけを足す SUM は bigint で正確に計算する
+// ============================================================
+
+export type AggregateResult =
+  | { success: true; value: ColumnValue }
+  | { success: false; error: string };
+
+export class Accumulator {
+  private readonly func: AggregateFunction;
+  private count = 0;
+  private sum = 0;
+  private bigSum = 0n; // BIGINT の値の合計 (sum とは別に足す)
+  private bigCount = 0;
+  private extreme: ColumnValue = null; // MIN / MAX のこれまでの値
+
+  constructor(func: AggregateFunction) {
+    this.func = func;
+  }
+
+  /**
+   * 1行分の値を加える (COUNT(*) は行があるたびに NULL 以外の値を渡す)
+   */
+  add(value: ColumnValue): void {
+    if (value === null) return;
+    this.count++;
+
+    switch (this.func) {
+      case "SUM":
+      case "AVG":
+        if (typeof value === "bigint") {
+          this.bigSum += value;
+          this.bigCount++;
+        } else {
+          this.sum += toNumber(value);
+        }
+        break;
+      case "MIN":
+        if (this.extreme === null || compareValues(value, this.extreme) < 0) this.extreme = value;
+        break;
+      case "MAX":
+        if (this.extreme === null || compareValues(value, this.extreme) > 0) this.extreme = value;
+        break;
+    }
+  }
+
+  result(): AggregateResult {
+    switch (this.func) {
+      case "COUNT":
+        return { success: true, value: this.count };
+      case "SUM": {
+        if (this.count === 0) return { success: true, value: null };
+        if (this.bigCount === this.count) {
+          if (!isInt64(this.bigSum)) return { success: false, error: "integer overflow in SUM()" };
+          return { success: true, value: this.bigSum };
+        }
+        // 整数の合計が正確に表せる範囲を超えたら、誤差のある値を返さずにエラーにする
+        const sum = this.sum + Number(this.bigSum);
+        if (Number.isInteger(sum) && !Number.isSafeInteger(sum)) {
+          return { success: false, error: "integer overflow in SUM()" };
+        }
+        return { success: true, value: sum };
+      }
+      case "AVG":
+        return { success: true, value: this.count === 0 ? null : (this.sum + Number(this.bigSum)) / this.count };
+      case "MIN":
+      case "MAX":
+        return { success: true, value: this.extreme };
+    }
+  }
+}
+
+/**
+ * SUM / AVG で足すときの数値 (数値として読めない TEXT と、BLOB・日付は 0)
+ */
+function toNumber(value: Exclude<ColumnValue, bigint | null>): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value !== "string") return 0;
+  const num = Number(value);
+  return Number.isNaN(num) ? 0 : num;
+}
@@ -1,8 +1,9 @@
 import { describe, test, expect, afterEach } from "bun:test";
-import { BTree } from "./btree.ts";
-import type { BTreeRecord } from "./btree.ts";
-import { Pager } from "../storage/pager.ts";
-import { unlinkSync, existsSync } from "node:fs";
+import { BTree, TEACHING_BTREE_OPTIONS, compareKeys } from "./btree.ts";
+import type { BTreeCursor, BTreeKey, BTreeRecord, BTreeOptions, ColumnValue, KeyBound } from "./btree.ts";
+import { CalendarDate } from "./value.ts";
+import { Pager, PAGE_TYPE, FORMAT_VERSION } from "../storage/pager.ts";
+import { unlinkSync, existsSync, openSync, writeSync, closeSync } from "node:fs";
 
 const TEST_DB = "/tmp/test_btree.db";
 
@@ -12,11 +13,12 @@ afterEach(() => {
   }
 });
 
-function createTestTree(): { pager: Pager; tree: BTree } {
+/** 既定では分割・併合を観察しやすい学習用の設定 (各ノード 4 件まで) で作る */
+function createTestTree(options: BTreeOptions = TEACHING_BTREE_OPTIONS): { pager: Pager; tree: BTree } {
   const pagerResult = Pager.open(TEST_DB);
   if (!pagerResult.success) throw new Error(pagerResult.error);
 
-  const treeResult = BTree.create(pagerResult.data);
+  const treeResult = BTree.create(pagerResult.data, options);
   if (!treeResult.success) throw new Error(treeResult.error);
 
   return { pager: pagerResult.data, tree: treeResult.data };
@@ -105,6 +107,34 @@ describe("INSERT + SEARCH", () => {
 
     pager.close();
   });
+
+  test("型ごとの値を書き込み、再オープン後も同じ型で読める (長い BLOB はオーバーフローページ)", () => {
+    const { pager, tree } = createTestTree();
+    const longBlob = Uint8Array.from({ length: 3000 }, (_, i) => i % 256);
+    const values: ColumnValue[] = [
+      2 ** 40,
+      -0.25,
+      -(2n ** 63n),
+      true,
+      new Uint8Array([0, 255]),
+      longBlob,
+      CalendarDate.fromEpochDays(-1),
+      new Date("2024-01-15T00:30:00.123Z"),
+    ];
+    expect(tree.insert({ key: 1, values }).success).toBe(true);
+    const rootPageNum = tree.getRootPageNum();
+    pager.close();
+
+    const pagerResult = Pager.open(TEST_DB);
+    if (!pagerResult.success) throw new Error(pagerResult.error);
+    const result = BTree.open(pagerResult.data, rootPageNum, TEACHING_BTREE_OPTIONS).search(1);
+    const read = result.success ? result.data!.values : [];
+    expect(read).toEqual(values);
+    expect(read[6]).toBeInstanceOf(CalendarDate);
+    expect(read[7]).not.toBeInstanceOf(CalendarDate);
+
+    pagerResult.data.close();
+  });
 });
 
 // ============================================================
@@ -212,6 +242,927 @@ describe("ノード分割", () => {
   });
 });
 
+// ============================================================
+// バイト数による分割 (件数の上限なし)
+// ============================================================
+
+describe("バイト数による分割", () => {
+  test("小さなレコードは 1 ページに多数格納され、分割されない", () => {
+    const { pager, tree } = createTestTree({});
+    const rootBefore = tree.getRootPageNum();
+
+    for (let i = 1; i <= 100; i++) {
+      expect(tree.insert({ key: i, values: [i, `User${i}`] }).success).toBe(true);
+    }
+
+    expect(tree.getRootPageNum()).toBe(rootBefore);
+    const rootPage = pager.readPage(rootBefore);
+    expect(rootPage.success && rootPage.data[0]).toBe(PAGE_TYPE.LEAF_NODE);
+
+    pager.close();
+  });
+
+  test("ページのバイト数を超えるとリーフが分割され、内部ノードも分割される", () => {
+    const { pager, tree } = createTestTree({});
+
+    const count = 8000;
+    const text = "t".repeat(200);
+    for (let i = 1; i <= count; i++) {
+      expect(tree.insert({ key: i, values: [i, text] }).success).toBe(true);
+    }
+
+    // ルート → 内部ノード → リーフ の 3 段になっている
+    const rootPage = pager.readPage(tree.getRootPageNum());
+    if (!rootPage.success) throw new Error(rootPage.error);
+    expect(rootPage.data[0]).toBe(PAGE_TYPE.INTERNAL_NODE);
+    const childPage = pager.readPage(rootPage.data.readUInt32LE(3));
+    expect(childPage.success && childPage.data[0]).toBe(PAGE_TYPE.INTERNAL_NODE);
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (scanResult.success) {
+      expect(scanResult.data.map((r) => r.key)).toEqual(Array.from({ length: count }, (_, i) => i + 1));
+    }
+
+    const searchResult = tree.search(4321);
+    expect(searchResult.success && searchResult.data!.values[0]).toBe(4321);
+
+    pager.close();
+  });
+
+  test("学習用の設定より少ないページ数で格納できる", () => {
+    const records = Array.from({ length: 500 }, (_, i) => ({ key: i + 1, values: [i + 1, `User${i + 1}`] }));
+
+    const { pager: teachingPager, tree: teachingTree } = createTestTree();
+    records.forEach((record) => teachingTree.insert(record));
+    const teachingPages = teachingPager.getHeader().totalPages;
+    teachingPager.close();
+    unlinkSync(TEST_DB);
+
+    const { pager, tree } = createTestTree({});
+    records.forEach((record) => tree.insert(record));
+    expect(pager.getHeader().totalPages * 10).toBeLessThan(teachingPages);
+    pager.close();
+  });
+
+  test("ランダムな削除後も全件が正しく取得できる", () => {
+    const { pager, tree } = createTestTree({});
+
+    const keys = shuffled(Array.from({ length: 3000 }, (_, i) => i + 1), 7);
+    for (const key of keys) {
+      expect(tree.insert({ key, values: [key, "v".repeat(key % 50)] }).success).toBe(true);
+    }
+
+    const deleted = new Set(keys.slice(0, 2000));
+    for (const key of deleted) {
+      expect(tree.delete(key).success).toBe(true);
+    }
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (scanResult.success) {
+      const expected = keys.filter((key) => !deleted.has(key)).sort((a, b) => a - b);
+      expect(scanResult.data.map((r) => r.key)).toEqual(expected);
+    }
+
+    pager.close();
+  });
+});
+
+// ============================================================
+// ルートページの固定
+// ============================================================
+
+describe("ルートページの固定 (fixedRoot)", () => {
+  test("分割・併合してもルートページ番号が変わらない", () => {
+    const { pager, tree } = createTestTree({ ...TEACHING_BTREE_OPTIONS, fixedRoot: true });
+    const rootPageNum = tree.getRootPageNum();
+
+    for (let i = 1; i <= 50; i++) {
+      expect(tree.insert({ key: i, values: [i, `User${i}`] }).success).toBe(true);
+    }
+    expect(tree.getRootPageNum()).toBe(rootPageNum);
+    const rootPage = pager.readPage(rootPageNum);
+    expect(rootPage.success && rootPage.data[0]).toBe(PAGE_TYPE.INTERNAL_NODE);
+
+    for (let i = 1; i <= 48; i++) {
+      expect(tree.delete(i).success).toBe(true);
+    }
+    expect(tree.getRootPageNum()).toBe(rootPageNum);
+    const collapsed = pager.readPage(rootPageNum);
+    expect(collapsed.success && collapsed.data[0]).toBe(PAGE_TYPE.LEAF_NODE);
+
+    const scanResult = tree.scan();
+    expect(scanResult.success && scanResult.data.map((r) => r.key)).toEqual([49, 50]);
+
+    pager.close();
+  });
+});
+
+// ============================================================
+// RANGE SCAN
+// ============================================================
+
+describe("RANGE SCAN", () => {
+  test("整数キーの範囲を端の含む / 含まないを区別して取得できる", () => {
+    const { pager, tree } = createTestTree();
+    for (let i = 1; i <= 30; i++) {
+      tree.insert({ key: i, values: [i] });
+    }
+
+    const keysOf = (result: ReturnType<typeof tree.rangeScan>) => (result.success ? result.data.map((r) => r.key) : null);
+    expect(keysOf(tree.rangeScan({ key: 10, inclusive: true }, { key: 13, inclusive: true }))).toEqual([10, 11, 12, 13]);
+    expect(keysOf(tree.rangeScan({ key: 10, inclusive: false }, { key: 13, inclusive: false }))).toEqual([11, 12]);
+    expect(keysOf(tree.rangeScan(null, { key: 3, inclusive: true }))).toEqual([1, 2, 3]);
+    expect(keysOf(tree.rangeScan({ key: 28, inclusive: true }, null))).toEqual([28, 29, 30]);
+    expect(keysOf(tree.rangeScan({ key: 50, inclusive: true }, null))).toEqual([]);
+
+    pager.close();
+  });
+});
+
+// ============================================================
+// カーソル
+// ============================================================
+
+describe("カーソル", () => {
+  /** next() / prev() で進めながらキーを集める */
+  function collectKeys<K extends BTreeKey>(cursor: BTreeCursor<K>, step: "next" | "prev"): K[] {
+    const keys: K[] = [];
+    while (!cursor.eof()) {
+      keys.push(cursor.key()!);
+      const moveResult = step === "next" ? cursor.next() : cursor.prev();
+      if (!moveResult.success) throw new Error(moveResult.error);
+    }
+    return keys;
+  }
+
+  test("first() から next() で全キーを昇順にたどれる (複数リーフ)", () => {
+    const { pager, tree } = createTestTree();
+    for (const key of shuffled(Array.from({ length: 50 }, (_, i) => i + 1), 7)) {
+      tree.insert({ key, values: [key, `name${key}`] });
+    }
+
+    const cursor = tree.cursor();
+    expect(cursor.first().success).toBe(true);
+    const current = cursor.current();
+    expect(current.success && current.data).toEqual({ key: 1, values: [1, "name1"] });
+    expect(collectKeys(cursor, "next")).toEqual(Array.from({ length: 50 }, (_, i) => i + 1));
+
+    pager.close();
+  });
+
+  test("seek() は指定キー以上 (inclusive: false ならより大きい) の最初のキーに移動する", () => {
+    const { pager, tree } = createTestTree();
+    for (let i = 1; i <= 30; i++) {
+      tree.insert({ key: i * 10, values: [i] });
+    }
+
+    const cursor = tree.cursor();
+    cursor.seek(150);
+    expect(cursor.key()).toBe(150);
+    cursor.seek(150, false);
+    expect(cursor.key()).toBe(160);
+    cursor.seek(155);
+    expect(cursor.key()).toBe(160);
+    cursor.seek(-1);
+    expect(cursor.key()).toBe(10);
+    cursor.seek(300, false);
+    expect(cursor.eof()).toBe(true);
+
+    pager.close();
+  });
+
+  test("prev() はリーフの境界をまたいで降順にたどれる (削除後も)", () => {
+    const { pager, tree } = createTestTree();
+    for (let i = 1; i <= 40; i++) {
+      tree.insert({ key: i, values: [i] });
+    }
+    for (let i = 2; i <= 40; i += 3) {
+      tree.delete(i);
+    }
+    const remaining = Array.from({ length: 40 }, (_, i) => i + 1).filter((k) => (k - 2) % 3 !== 0);
+
+    const cursor = tree.cursor();
+    cursor.seek(40);
+    expect(collectKeys(cursor, "prev")).toEqual([...remaining].reverse());
+
+    // 先頭の前まで戻ったら終端。以降 next() / prev() しても終端のまま
+    expect(cursor.current()).toEqual({ success: true, data: null });
+    expect(cursor.next().success).toBe(true);
+    expect(cursor.eof()).toBe(true);
+
+    pager.close();
+  });
+
+  test("composite キーは先頭部分だけで seek できる", () => {
+    const pagerResult = Pager.open(TEST_DB);
+    if (!pagerResult.success) throw new Error(pagerResult.error);
+    const pager = pagerResult.data;
+    const treeResult = BTree.create<ColumnValue[]>(pager, { ...TEACHING_BTREE_OPTIONS, keyType: "composite" });
+    if (!treeResult.success) throw new Error(treeResult.error);
+    const compositeTree = treeResult.data;
+    for (let group = 1; group <= 5; group++) {
+      for (const name of ["a", "b", "c"]) {
+        compositeTree.insert({ key: [group, name], values: [] });
+      }
+    }
+
+    const cursor = compositeTree.cursor();
+    cursor.seek([3]);
+    expect(cursor.key()).toEqual([3, "a"]);
+    cursor.seek([3], false);
+    expect(cursor.key()).toEqual([4, "a"]);
+    cursor.prev();
+    expect(cursor.key()).toEqual([3, "c"]);
+
+    pager.close();
+  });
+
+  test("空の木では first() も seek() も終端になる", () => {
+    const { pager, tree } = createTestTree();
+
+    const cursor = tree.cursor();
+    expect(cursor.first().success).toBe(true);
+    expect(cursor.eof()).toBe(true);
+    expect(cursor.seek(1).success).toBe(true);
+    expect(cursor.eof()).toBe(true);
+    expect(cursor.key()).toBeNull();
+
+    pager.close();
+  });
+
+  test("last() と iterate() の逆順で、範囲を上端から下端へたどれる", () => {
+    const { pager, tree } = createTestTree();
+    for (let i = 1; i <= 40; i++) {
+      tree.insert({ key: i * 2, values: [i] });
+    }
+    for (let i = 70; i <= 80; i += 2) {
+      tree.delete(i);
+    }
+
+    const cursor = tree.cursor();
+    expect(cursor.last().success).toBe(true);
+    expect(cursor.key()).toBe(68);
+
+    const keysOf = (lower: KeyBound | null, upper: KeyBound | null) =>
+      [...tree.iterate(lower, upper, true)].map((result) => (result.success ? result.data.key : null));
+    expect(keysOf({ key: 10, inclusive: true }, { key: 16, inclusive: true })).toEqual([16, 14, 12, 10]);
+    expect(keysOf({ key: 10, inclusive: false }, { key: 16, inclusive: false })).toEqual([14, 12]);
+    expect(keysOf({ key: 9, inclusive: true }, { key: 15, inclusive: true })).toEqual([14, 12, 10]);
+    expect(keysOf({ key: 60, inclusive: true }, null)).toEqual([68, 66, 64, 62, 60]);
+    expect(keysOf(null, { key: 5, inclusive: true })).toEqual([4, 2]);
+    expect(keysOf(null, { key: 2, inclusive: false })).toEqual([]);
+    expect(keysOf(null, null)).toHaveLength(34);
+
+    pager.close();
+  });
+
+  test("iterate() は読み進めた分のリーフだけを読む", () => {
+    const { pager, tree } = createTestTree();
+    for (let i = 1; i <= 200; i++) {
+      tree.insert({ key: i, values: [i] });
+    }
+    pager.flush();
+
+    const reopened = Pager.open(TEST_DB);
+    if (!reopened.success) throw new Error(reopened.error);
+    const reopenedTree = BTree.open(reopened.data, tree.getRootPageNum(), TEACHING_BTREE_OPTIONS);
+    pager.close();
+
+    const iterator = reopenedTree.iterate(null, null);
+    const first = iterator.next();
+    expect(!first.done && first.value.success && first.value.data.key).toBe(1);
+    const misses = reopened.data.getCacheStats().misses;
+    expect(misses).toBeLessThan(10);
+
+    expect([...iterator].length).toBe(199);
+    expect(reopened.data.getCacheStats().misses).toBeGreaterThan(misses + 20);
+
+    reopened.data.close();
+  });
+});
+
+// ============================================================
+// 整数キーの範囲
+// ============================================================
+
+describe("符号付き 64bit の整数キー", () => {
+  const LARGE_KEYS = [-(2 ** 40), -5_000_000_000, -1, 0, 1, 2 ** 32, 9_007_199_254_740_991];
+
+  test("負のキーと 32bit を超えるキーを分割をまたいで順に並べ、再オープン後も読める", () => {
+    const { pager, tree } = createTestTree();
+    const rootBefore = tree.getRootPageNum();
+    for (const key of shuffled(LARGE_KEYS, 5)) {
+      expect(tree.insert({ key, values: [key] }).success).toBe(true);
+    }
+    const rootPageNum = tree.getRootPageNum();
+    expect(rootPageNum).not.toBe(rootBefore);
+    pager.close();
+
+    const pagerResult = Pager.open(TEST_DB);
+    if (!pagerResult.success) throw new Error(pagerResult.error);
+    const reopened = BTree.open(pagerResult.data, rootPageNum, TEACHING_BTREE_OPTIONS);
+
+    const scanResult = reopened.scan();
+    expect(scanResult.success && scanResult.data.map((r) => r.key)).toEqual(LARGE_KEYS);
+    // i32 に収まらない値も i64 として保存される
+    expect(scanResult.success && scanResult.data.map((r) => r.values[0])).toEqual(LARGE_KEYS);
+
+    const searchResult = reopened.search(-5_000_000_000);
+    expect(searchResult.success && searchResult.data?.values).toEqual([-5_000_000_000]);
+
+    pagerResult.data.close();
+  });
+
+  test("number で正確に表せない整数や小数はキーにできない", () => {
+    const { pager, tree } = createTestTree();
+
+    for (const key of [2 ** 53, 1.5]) {
+      const result = tree.insert({ key, values: [] });
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toContain("Key out of range");
+    }
+
+    pager.close();
+  });
+
+  test("formatVersion 0 のファイルでは従来どおり u32 のキーとして読み書きする", () => {
+    const created = Pager.open(TEST_DB);
+    if (!created.success) throw new Error(created.error);
+    created.data.close();
+
+    // ヘッダーの formatVersion (オフセット 23) を 0 に戻して以前のファイルを再現する
+    const fd = openSync(TEST_DB, "r+");
+    writeSync(fd, Buffer.from([FORMAT_VERSION.LEGACY]), 0, 1, 23);
+    closeSync(fd);
+
+    const pagerResult = Pager.open(TEST_DB);
+    if (!pagerResult.success) throw new Error(pagerResult.error);
+    expect(pagerResult.data.getHeader().formatVersion).toBe(FORMAT_VERSION.LEGACY);
+
+    const treeResult = BTree.create(pagerResult.data, TEACHING_BTREE_OPTIONS);
+    if (!treeResult.success) throw new Error(treeResult.error);
+    const tree = treeResult.data;
+
+    for (let i = 1; i <= 20; i++) {
+      expect(tree.insert({ key: i * 1000, values: [i] }).success).toBe(true);
+    }
+    expect(tree.insert({ key: -1, values: [] }).success).toBe(false);
+    expect(tree.insert({ key: 2 ** 32, values: [] }).success).toBe(false);
+
+    const rootPage = pagerResult.data.readPage(tree.getRootPageNum());
+    expect(rootPage.success && rootPage.data[0]).toBe(PAGE_TYPE.INTERNAL_NODE);
+    const scanResult = tree.scan();
+    expect(scanResult.success && scanResult.data.map((r) => r.key)).toEqual(
+      Array.from({ length: 20 }, (_, i) => (i + 1) * 1000),
+    );
+
+    pagerResult.data.close();
+  });
+});
+
+// ============================================================
+// composite キー
+// ============================================================
+
+describe("composite キー", () => {
+  function createCompositeTree(options: BTreeOptions = {}): { pager: Pager; tree: BTree<ColumnValue[]> } {
+    const pagerResult = Pager.open(TEST_DB);
+    if (!pagerResult.success) throw new Error(pagerResult.error);
+
+    const treeResult = BTree.create<ColumnValue[]>(pagerResult.data, { ...options, keyType: "composite" });
+    if (!treeResult.success) throw new Error(treeResult.error);
+
+    return { pager: pagerResult.data, tree: treeResult.data };
+  }
+
+  test("compareKeys は NULL < 整数 < TEXT、短い先頭部分を小さいとみなす", () => {
+    expect(compareKeys([null], [0])).toBeLessThan(0);
+    expect(compareKeys([100], ["1"])).toBeLessThan(0);
+    expect(compareKeys(["a", 1], ["a", 2])).toBeLessThan(0);
+    expect(compareKeys(["a"], ["a", 1])).toBeLessThan(0);
+    expect(compareKeys(["b"], ["a", 1])).toBeGreaterThan(0);
+    expect(compareKeys([1, "x"], [1, "x"])).toBe(0);
+    expect(compareKeys([-10], [-2])).toBeLessThan(0);
+  });
+
+  test("型の違う値は NULL < 数値 < 日付 < TEXT < BLOB の順で、数値の型の間は値で比べる", () => {
+    expect(compareKeys([2n ** 60n], [1.5])).toBeGreaterThan(0);
+    expect(compareKeys([true], [1])).toBe(0);
+    expect(compareKeys([2 ** 53], [new Date(0)])).toBeLessThan(0);
+    expect(compareKeys([new Date(1)], [new CalendarDate(0)])).toBeGreaterThan(0);
+    expect(compareKeys([new Date(0)], [""])).toBeLessThan(0);
+    expect(compareKeys(["z"], [new Uint8Array()])).toBeLessThan(0);
+    expect(compareKeys([new Uint8Array([1])], [new Uint8Array([1, 0])])).toBeLessThan(0);
+  });
+
+  test("TEXT は BINARY 照合 (コードポイント順 = UTF-8 のバイト順) で並ぶ", () => {
+    // JS の < では "😀" (サロゲートペア) が "\uffff" より小さくなるが、コードポイントでは後ろ
+    expect(compareKeys(["\uffff"], ["😀"])).toBeLessThan(0);
+    expect(compareKeys(["B"], ["a"])).toBeLessThan(0);
+    expect(compareKeys(["abc"], ["abd"])).toBeLessThan(0);
+    expect(compareKeys(["é"], ["z"])).toBeGreaterThan(0);
+
+    const words = ["z", "😀", "\uffff", "é", "A", "a", ""];
+    const byBytes = [...words].sort((a, b) => Buffer.compare(Buffer.from(a), Buffer.from(b)));
+    expect([...words].sort((a, b) => compareKeys([a], [b]))).toEqual(byBytes);
+  });
+
+  test("TEXT のキーで内部ノードを含む木を作り、キー順に走査できる", () => {
+    const { pager, tree } = createCompositeTree();
+
+    const names = shuffled(Array.from({ length: 2000 }, (_, i) => `user-${String(i).padStart(5, "0")}`), 11);
+    for (const [i, name] of names.entries()) {
+      expect(tree.insert({ key: [name, i], values: [] }).success).toBe(true);
+    }
+
+    const rootPage = pager.readPage(tree.getRootPageNum());
+    expect(rootPage.success && rootPage.data[0]).toBe(PAGE_TYPE.INTERNAL_NODE);
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (scanResult.success) {
+      const scanned = scanResult.data.map((r) => r.key[0]);
+      expect(scanned).toEqual([...names].sort());
+    }
+
+    const searchResult = tree.search([names[123], 123]);
+    expect(searchResult.success && searchResult.data?.key).toEqual([names[123], 123]);
+
+    pager.close();
+  });
+
+  test("先頭の要素だけを指定した範囲で取得できる", () => {
+    const { pager, tree } = createCompositeTree(TEACHING_BTREE_OPTIONS);
+
+    for (let rowKey = 1; rowKey <= 40; rowKey++) {
+      tree.insert({ key: [rowKey % 4 === 0 ? null : rowKey % 5, rowKey], values: [] });
+    }
+
+    const rowKeysOf = (result: ReturnType<typeof tree.rangeScan>) =>
+      result.success ? result.data.map((r) => r.key[1]) : null;
+
+    // 値が 2 の行
+    expect(rowKeysOf(tree.rangeScan({ key: [2], inclusive: true }, { key: [2], inclusive: true }))).toEqual([2, 7, 17, 22, 27, 37]);
+    // 値が 3 より大きい行
+    expect(rowKeysOf(tree.rangeScan({ key: [3], inclusive: false }, null))).toEqual([9, 14, 19, 29, 34, 39]);
+    // NULL を除いて値が 1 未満の行
+    expect(rowKeysOf(tree.rangeScan({ key: [null], inclusive: false }, { key: [1], inclusive: false }))).toEqual([5, 10, 15, 25, 30, 35]);
+
+    pager.close();
+  });
+
+  test("長さの違うキーで内部ノードも分割・併合され、残りのキーを正しく引ける", () => {
+    const { pager, tree } = createCompositeTree();
+
+    // 数百バイトのキーで内部ノードにも数件しか入らないようにする
+    const keys = Array.from({ length: 1500 }, (_, i) => [`key-${"x".repeat((i * 37) % 800)}-${i}`, i] as ColumnValue[]);
+    for (const key of keys) {
+      tree.insert({ key, values: [] });
+    }
+    for (const key of shuffled(keys, 5).slice(0, 1400)) {
+      expect(tree.delete(key).success).toBe(true);
+    }
+
+    const scanResult = tree.scan();
+    expect(scanResult.success && scanResult.data.length).toBe(100);
+    if (scanResult.success) {
+      for (const record of scanResult.data) {
+        const searchResult = tree.search(record.key);
+        expect(searchResult.success && searchResult.data !== null).toBe(true);
+      }
+    }
+
+    pager.close();
+  });
+
+  test("キーが大きすぎるとエラー", () => {
+    const { pager, tree } = createCompositeTree();
+
+    const result = tree.insert({ key: ["x".repeat(2000), 1], values: [] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("Key too large");
+    }
+
+    pager.close();
+  });
+
+  test("maxKeySize ちょうどのキーは格納でき、1 バイトでも超えるとエラー", () => {
+    const { pager, tree } = createCompositeTree();
+    const max = tree.maxKeySize();
+    const fits = ["a".repeat(max - 5)]; // 要素数 2 + 型タグ 1 + 長さ 2
+    const tooLarge = ["b".repeat(max - 4)];
+    expect(tree.keySize(fits)).toBe(max);
+
+    expect(tree.insert({ key: fits, values: [] }).success).toBe(true);
+    expect(tree.insert({ key: tooLarge, values: [] })).toEqual({
+      success: false,
+      error: `Key too large: ${max + 1} bytes (max ${max})`,
+    });
+    const searchResult = tree.search(fits);
+    expect(searchResult.success && searchResult.data?.key).toEqual(fits);
+
+    pager.close();
+  });
+});
+
+// ============================================================
+// DROP
+// ============================================================
+
+describe("DROP", () => {
+  test("すべてのページがフリーリストに戻る", () => {
+    const { pager, tree } = createTestTree();
+    const before = pager.getHeader().freePageCount;
+
+    for (let i = 1; i <= 50; i++) {
+      tree.insert({ key: i, values: [i, i === 1 ? "x".repeat(5000) : "small"] });
+    }
+    const usedPages = pager.getHeader().totalPages - 2; // ヘッダーとスキーマページを除く
+
+    expect(tree.drop().success).toBe(true);
+    expect(pager.getHeader().freePageCount).toBe(before + usedPages);
+
+    pager.close();
+  });
+});
+
+// ============================================================
+// UPDATE
+// ============================================================
+
+describe("UPDATE", () => {
+  test("同じキーのレコードをその場で書き換える", () => {
+    const { pager, tree } = createTestTree();
+
+    tree.insert({ key: 1, values: [1, "Alice"] });
+    tree.insert({ key: 2, values: [2, "Bob"] });
+
+    const result = tree.update(2, { key: 2, values: [2, "Bobby"] });
+    expect(result.success).toBe(true);
+
+    const searchResult = tree.search(2);
+    expect(searchResult.success).toBe(true);
+    if (searchResult.success) {
+      expect(searchResult.data!.values).toEqual([2, "Bobby"]);
+    }
+
+    pager.close();
+  });
+
+  test("キーを変更するとレコードが新しい位置に移動する", () => {
+    const { pager, tree } = createTestTree();
+
+    for (let i = 1; i <= 10; i++) {
+      tree.insert({ key: i, values: [i, `User${i}`] });
+    }
+
+    const result = tree.update(3, { key: 42, values: [42, "User3"] });
+    expect(result.success).toBe(true);
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (!scanResult.success) return;
+
+    expect(scanResult.data.map((r) => r.key)).toEqual([1, 2, 4, 5, 6, 7, 8, 9, 10, 42]);
+
+    const oldSearch = tree.search(3);
+    expect(oldSearch.success && oldSearch.data).toBeNull();
+
+    pager.close();
+  });
+
+  test("変更先のキーが既に存在するとエラー", () => {
+    const { pager, tree } = createTestTree();
+
+    tree.insert({ key: 1, values: [1, "Alice"] });
+    tree.insert({ key: 2, values: [2, "Bob"] });
+
+    const result = tree.update(1, { key: 2, values: [2, "Alice"] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("Duplicate key");
+    }
+
+    // 元のレコードは残っている
+    const searchResult = tree.search(1);
+    expect(searchResult.success && searchResult.data).not.toBeNull();
+
+    pager.close();
+  });
+
+  test("存在しないキーの update → エラー", () => {
+    const { pager, tree } = createTestTree();
+
+    const result = tree.update(1, { key: 1, values: [1, "Alice"] });
+    expect(result.success).toBe(false);
+
+    pager.close();
+  });
+
+  test("長い文字列に書き換えた値はオーバーフローページに追い出される", () => {
+    const { pager, tree } = createTestTree();
+
+    for (let i = 1; i <= 3; i++) {
+      tree.insert({ key: i, values: [i, "x"] });
+    }
+    const pagesBefore = pager.getHeader().totalPages;
+
+    // 1.5KB の文字列を 3 件 → リーフには先頭ページ番号だけが残る
+    const longText = "a".repeat(1500);
+    for (let i = 1; i <= 3; i++) {
+      const result = tree.update(i, { key: i, values: [i, longText] });
+      expect(result.success).toBe(true);
+    }
+
+    expect(pager.getHeader().totalPages).toBeGreaterThan(pagesBefore);
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (!scanResult.success) return;
+
+    expect(scanResult.data.map((r) => r.key)).toEqual([1, 2, 3]);
+    expect(scanResult.data.every((r) => r.values[1] === longText)).toBe(true);
+
+    pager.close();
+  });
+
+  test("TEXT を追い出してもリーフに収まらないレコードはエラー", () => {
+    const { pager, tree } = createTestTree();
+
+    tree.insert({ key: 1, values: [1, "Alice"] });
+    const manyColumns = Array.from({ length: 300 }, (_, i) => i);
+    const result = tree.update(1, { key: 1, values: manyColumns });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("too large");
+    }
+
+    pager.close();
+  });
+});
+
+// ============================================================
+// DELETE
+// ============================================================
+
+/** 決定的な疑似乱数でキー配列をシャッフルする */
+function shuffled<T>(keys: T[], seed: number): T[] {
+  const result = [...keys];
+  let state = seed;
+  for (let i = result.length - 1; i > 0; i--) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    const j = state % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+describe("DELETE", () => {
+  test("単一リーフからの delete", () => {
+    const { pager, tree } = createTestTree();
+
+    tree.insert({ key: 1, values: [1, "Alice"] });
+    tree.insert({ key: 2, values: [2, "Bob"] });
+
+    const result = tree.delete(1);
+    expect(result.success).toBe(true);
+
+    const searchResult = tree.search(1);
+    expect(searchResult.success && searchResult.data).toBeNull();
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (scanResult.success) {
+      expect(scanResult.data.map((r) => r.key)).toEqual([2]);
+    }
+
+    pager.close();
+  });
+
+  test("存在しないキーの delete → エラー", () => {
+    const { pager, tree } = createTestTree();
+
+    tree.insert({ key: 1, values: [1, "Alice"] });
+    const result = tree.delete(999);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("Key not found");
+    }
+
+    pager.close();
+  });
+
+  test("兄弟からの借用でリーフの下限を保つ", () => {
+    const { pager, tree } = createTestTree();
+
+    // 5件で分割 → [1,2,3] [4,5]
+    for (let i = 1; i <= 5; i++) {
+      tree.insert({ key: i, values: [i, `User${i}`] });
+    }
+
+    // 右リーフが下限割れ → 左から 3 を借りる
+    expect(tree.delete(5).success).toBe(true);
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (scanResult.success) {
+      expect(scanResult.data.map((r) => r.key)).toEqual([1, 2, 3, 4]);
+    }
+    for (const key of [1, 2, 3, 4]) {
+      const searchResult = tree.search(key);
+      expect(searchResult.success && searchResult.data?.key).toBe(key);
+    }
+
+    pager.close();
+  });
+
+  test("併合でルートが畳まれ、全件削除後は空のリーフに戻る", () => {
+    const { pager, tree } = createTestTree();
+
+    for (let i = 1; i <= 30; i++) {
+      tree.insert({ key: i, values: [i, `User${i}`] });
+    }
+    const splitRoot = tree.getRootPageNum();
+
+    for (let i = 1; i <= 30; i++) {
+      const result = tree.delete(i);
+      expect(result.success).toBe(true);
+    }
+
+    expect(tree.getRootPageNum()).not.toBe(splitRoot);
+
+    const rootPage = pager.readPage(tree.getRootPageNum());
+    expect(rootPage.success).toBe(true);
+    if (rootPage.success) {
+      expect(rootPage.data.readUInt8(0)).toBe(PAGE_TYPE.LEAF_NODE);
+      expect(rootPage.data.readUInt16LE(1)).toBe(0);
+    }
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (scanResult.success) {
+      expect(scanResult.data).toHaveLength(0);
+    }
+
+    pager.close();
+  });
+
+  test("ランダムな順序で削除しても順序と検索結果が保たれる", () => {
+    const { pager, tree } = createTestTree();
+
+    const keys = Array.from({ length: 60 }, (_, i) => i + 1);
+    for (const key of shuffled(keys, 7)) {
+      tree.insert({ key, values: [key, `User${key}`] });
+    }
+
+    const remaining = new Set(keys);
+    for (const key of shuffled(keys, 42).slice(0, 45)) {
+      const result = tree.delete(key);
+      expect(result.success).toBe(true);
+      remaining.delete(key);
+
+      // 右兄弟リンクを辿る scan が残りのキーと一致すること
+      const scanResult = tree.scan();
+      expect(scanResult.success).toBe(true);
+      if (scanResult.success) {
+        expect(scanResult.data.map((r) => r.key)).toEqual(
+          [...remaining].sort((a, b) => a - b),
+        );
+      }
+    }
+
+    for (const key of keys) {
+      const searchResult = tree.search(key);
+      expect(searchResult.success).toBe(true);
+      if (searchResult.success) {
+        expect(searchResult.data !== null).toBe(remaining.has(key));
+      }
+    }
+
+    pager.close();
+  });
+
+  test("削除後に再挿入できる", () => {
+    const { pager, tree } = createTestTree();
+
+    for (let i = 1; i <= 20; i++) {
+      tree.insert({ key: i, values: [i, `User${i}`] });
+    }
+    for (let i = 5; i <= 15; i++) {
+      tree.delete(i);
+    }
+    for (let i = 5; i <= 15; i++) {
+      const result = tree.insert({ key: i, values: [i, `Again${i}`] });
+      expect(result.success).toBe(true);
+    }
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (scanResult.success) {
+      expect(scanResult.data.map((r) => r.key)).toEqual(
+        Array.from({ length: 20 }, (_, i) => i + 1),
+      );
+      expect(scanResult.data[4].values[1]).toBe("Again5");
+    }
+
+    pager.close();
+  });
+});
+
+// ============================================================
+// オーバーフローページ
+// ============================================================
+
+describe("オーバーフローページ", () => {
+  test("数 MB の TEXT を insert → search で読み戻せる", () => {
+    const { pager, tree } = createTestTree();
+
+    const bigText = "0123456789abcdef".repeat(256 * 1024); // 4MB
+    expect(tree.insert({ key: 1, values: [1, bigText, "tail"] }).success).toBe(true);
+
+    const searchResult = tree.search(1);
+    expect(searchResult.success).toBe(true);
+    if (searchResult.success) {
+      expect(searchResult.data!.values[1]).toBe(bigText);
+      expect(searchResult.data!.values[2]).toBe("tail");
+    }
+
+    pager.close();
+  });
+
+  test("中くらいの値が複数あるレコードも格納できる", () => {
+    const { pager, tree } = createTestTree();
+
+    const values = [1, "a".repeat(900), "b".repeat(900), "c".repeat(900), "d".repeat(900), "e".repeat(900)];
+    expect(tree.insert({ key: 1, values }).success).toBe(true);
+
+    const searchResult = tree.search(1);
+    expect(searchResult.success && searchResult.data!.values).toEqual(values);
+
+    pager.close();
+  });
+
+  test("分割・併合でセルが移動してもオーバーフローした値は保たれる", () => {
+    const { pager, tree } = createTestTree();
+
+    const textFor = (i: number) => `${i}:`.padEnd(3000, "x");
+    for (let i = 1; i <= 30; i++) {
+      expect(tree.insert({ key: i, values: [i, textFor(i)] }).success).toBe(true);
+    }
+    for (let i = 1; i <= 30; i += 2) {
+      expect(tree.delete(i).success).toBe(true);
+    }
+
+    const scanResult = tree.scan();
+    expect(scanResult.success).toBe(true);
+    if (!scanResult.success) return;
+
+    expect(scanResult.data.map((r) => r.key)).toEqual(Array.from({ length: 15 }, (_, i) => (i + 1) * 2));
+    expect(scanResult.data.every((r) => r.values[1] === textFor(r.key))).toBe(true);
+
+    pager.close();
+  });
+
+  test("delete / update で不要になったオーバーフローページは再利用される", () => {
+    const { pager, tree } = createTestTree();
+
+    const bigText = "z".repeat(20000);
+    tree.insert({ key: 1, values: [1, bigText] });
+    const pagesAfterInsert = pager.getHeader().totalPages;
+
+    // 書き換え → 古いチェーンが解放され、新しいチェーンに再利用される
+    expect(tree.update(1, { key: 1, values: [1, "y".repeat(20000)] }).success).toBe(true);
+    expect(tree.update(1, { key: 1, values: [1, "w".repeat(20000)] }).success).toBe(true);
+    expect(pager.getHeader().totalPages).toBeLessThanOrEqual(pagesAfterInsert + 5);
+
+    // 削除 → チェーン全体がフリーリストへ
+    expect(tree.delete(1).success).toBe(true);
+    expect(pager.getHeader().freePageCount).toBeGreaterThanOrEqual(5);
+
+    pager.close();
+  });
+
+  test("オーバーフローした値もファイル再オープン後に読める", () => {
+    const { pager: pager1, tree: tree1 } = createTestTree();
+    const rootPageNum = tree1.getRootPageNum();
+    const bigText = "persist".repeat(3000);
+    tree1.insert({ key: 7, values: [7, bigText] });
+    pager1.close();
+
+    const pagerResult = Pager.open(TEST_DB);
+    if (!pagerResult.success) throw new Error(pagerResult.error);
+    const tree2 = BTree.open(pagerResult.data, rootPageNum, TEACHING_BTREE_OPTIONS);
+
+    const searchResult = tree2.search(7);
+    expect(searchResult.success && searchResult.data!.values[1]).toBe(bigText);
+
+    pagerResult.data.close();
+  });
+});
+
 // ============================================================
 // 永続化 (ファイル再オープン)
 // ============================================================
@@ -233,7 +1184,7 @@ describe("永続化", () => {
     expect(pagerResult.success).toBe(true);
     if (!pagerResult.success) return;
 
-    const tree2 = BTree.open(pagerResult.data, rootPageNum);
+    const tree2 = BTree.open(pagerResult.data, rootPageNum, TEACHING_BTREE_OPTIONS);
 
     // search
     const searchResult = tree2.search(2);
@@ -269,7 +1220,7 @@ describe("永続化", () => {
     expect(pagerResult.success).toBe(true);
     if (!pagerResult.success) return;
 
-    const tree2 = BTree.open(pagerResult.data, rootPageNum);
+    const tree2 = BTree.open(pagerResult.data, rootPageNum, TEACHING_BTREE_OPTIONS);
 
     const scanResult = tree2.scan();
     expect(scanResult.success).toBe(true);
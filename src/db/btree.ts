@@ -1,27 +1,98 @@
-import { Pager, PAGE_TYPE } from "../storage/pager.ts";
+import { Pager, PAGE_TYPE, FORMAT_VERSION } from "../storage/pager.ts";
 import type { PageType } from "../storage/pager.ts";
+import { writeOverflowChain, readOverflowChain, freeOverflowChain } from "../storage/overflow.ts";
+import { compareText } from "./collation.ts";
+import { CalendarDate, formatValue } from "./value.ts";
 
 // ============================================================
 // 型定義
 // ============================================================
 
-/** レコードの1カラム分の値 */
-export type ColumnValue = number | string | null;
+/** レコードの1カラム分の値 (JS の型とカラムの型の対応は value.ts を参照) */
+export type ColumnValue = number | string | bigint | boolean | Uint8Array | Date | null;
+
+/**
+ * B+Tree のキー
+ * 整数 (符号付き 64bit) か、カラム値の並び (複合キー)。
+ * テーブルは INTEGER の PRIMARY KEY (またはそれがなければ連番) を整数キーに、
+ * それ以外の PRIMARY KEY とインデックスは複合キーを使う
+ */
+export type BTreeKey = number | ColumnValue[];
 
 /** 1レコード = キー + カラム値の配列 */
-export type BTreeRecord = {
-  key: number;
+export type BTreeRecord<K extends BTreeKey = number> = {
+  key: K;
   values: ColumnValue[];
 };
 
+/**
+ * rangeScan の範囲の端
+ * 複合キーでは先頭の要素だけを指定でき、その要素がすべて一致するキーを端とみなす
+ */
+export type KeyBound<K extends BTreeKey = number> = {
+  key: K;
+  inclusive: boolean;
+};
+
+/**
+ * B+Tree の設定
+ *
+ * 省略時はセルのバイト数とページサイズだけで分割を決め、内部ノードは
+ * ページに収まるだけのキーを持つ。件数の上限を指定すると、バイト数に
+ * 余裕があってもその件数を超えた時点で分割する。
+ */
+export type BTreeOptions = {
+  maxLeafCells?: number; // リーフ1ページの最大セル数
+  maxInternalKeys?: number; // 内部ノード1ページの最大キー数 (ページ容量が上限)
+  fixedRoot?: boolean; // ルートページ番号を変えない (分割・縮小時は中身を移し替える)
+  keyType?: "integer" | "composite"; // キーの形式 (既定は integer)
+};
+
+/** 学習用: 各ノードを 4 件までにして分割・併合を観察しやすくする */
+export const TEACHING_BTREE_OPTIONS: BTreeOptions = {
+  maxLeafCells: 4,
+  maxInternalKeys: 4,
+};
+
 export type BTreeResult<T> =
   | { success: true; data: T }
   | { success: false; error: string };
 
+/** オーバーフローページに追い出した TEXT / BLOB の値 (必要になるまで読み込まない) */
+type OverflowRef = {
+  overflowPage: number; // チェーンの先頭ページ番号
+  length: number; // バイト数 (TEXT は UTF-8)
+  blob: boolean;
+};
+
+/** リーフ上のセル。大きな値は OverflowRef のまま持ち回る */
+type LeafCell = {
+  key: BTreeKey;
+  values: (ColumnValue | OverflowRef)[];
+};
+
+/** 内部ノードのエントリ (キー + そのキー以上の子ページ番号) */
+type InternalEntry = {
+  key: BTreeKey;
+  childPageNum: number;
+};
+
+/** 内部ノードを子ページ番号とキーの配列で表したもの (children.length = keys.length + 1) */
+type InternalNode = {
+  children: number[];
+  keys: BTreeKey[];
+};
+
+/** リーフノードのセルと右兄弟ページ番号 */
+type LeafNode = {
+  cells: LeafCell[];
+  rightSibling: number;
+};
+
 /** 分割が発生した場合の昇格情報 */
 type SplitResult =
   | { split: false }
-  | { split: true; promotedKey: number; newPageNum: number };
+  | { split: true; promotedKey: BTreeKey; newPageNum: number };
 
 // ============================================================
 // ページレイアウト定数
@@ -36,40 +107,76 @@ type SplitResult =
 //   [0]      u8   ページタイプ (0x03)
 //   [1..2]   u16  キー数
 //   [3..6]   u32  最左子ページ番号
-//   [7..]    (キー u32 + 子ページ番号 u32) ペアの配列
+//   [7..]    (キー + 子ページ番号 u32) ペアの配列
+//
+// キーの形式は B+Tree ごとに決まる:
+//   integer:   i64 (8 bytes)。ヘッダーの formatVersion が 0 のファイルは u32 (4 bytes)
+//   composite: u16 要素数 + 各要素 (リーフセルの値と同じ型タグ付き形式)
+// composite のキーは可変長なので、内部ノードもバイト数で分割する
 // ============================================================
 
 const NODE_HEADER_SIZE = 7;
-const INTERNAL_ENTRY_SIZE = 8; // キー(4) + 子ページ番号(4)
+const CHILD_POINTER_SIZE = 4;
+const INTEGER_KEY_SIZE = 8;
+const LEGACY_INTEGER_KEY_SIZE = 4;
+
+// 1セルがリーフ内で使える最大バイト数は (ページ容量 / この値)。
+// これを超えるセルは大きな TEXT / BLOB の値から順にオーバーフローページへ追い出す
+const MIN_CELLS_PER_LEAF = 4;
+
+// セル数の上限を指定しない場合、リーフ (と composite キーの内部ノード) の
+// 使用バイト数がページ容量のこの割合を下回ったら借用・併合する
+// (分割直後の半分より低くして、削除のたびに付け替えが起きないようにする)
+const MIN_LEAF_FILL_RATIO = 1 / 3;
 
 // ============================================================
 // B+Tree クラス
 // ============================================================
 
-export class BTree {
+export class BTree<K extends BTreeKey = number> {
   private pager: Pager;
   private rootPageNum: number;
-  private maxLeafCells: number;
+  private maxLeafCells: number | null; // null = バイト数だけで分割する
   private maxInternalKeys: number;
+  private internalKeyLimited: boolean; // 内部ノードのキー数を件数で管理するか
+  private fixedRoot: boolean;
+  private keyType: "integer" | "composite";
+  private integerKeySize: number; // 整数キーのバイト数 (ファイルの formatVersion で決まる)
 
-  constructor(pager: Pager, rootPageNum: number) {
+  constructor(pager: Pager, rootPageNum: number, options: BTreeOptions = {}) {
     this.pager = pager;
     this.rootPageNum = rootPageNum;
-
-    // 学習目的で小さめにして分割を観察しやすくする
-    this.maxLeafCells = 4;
-    this.maxInternalKeys = 4;
+    this.integerKeySize =
+      pager.getHeader().formatVersion === FORMAT_VERSION.LEGACY ? LEGACY_INTEGER_KEY_SIZE : INTEGER_KEY_SIZE;
+
+    const internalEntrySize = this.integerKeySize + CHILD_POINTER_SIZE;
+    const internalCapacity = Math.floor((pager.getPageSize() - NODE_HEADER_SIZE) / internalEntrySize);
+    this.maxLeafCells = options.maxLeafCells ?? null;
+    this.maxInternalKeys = Math.min(options.maxInternalKeys ?? internalCapacity, internalCapacity);
+    this.fixedRoot = options.fixedRoot ?? false;
+    this.keyType = options.keyType ?? "integer";
+    // 整数キーはエントリが固定長なので件数とバイト数が一致する
+    this.internalKeyLimited = this.keyType === "integer" || options.maxInternalKeys !== undefined;
   }
 
   /**
    * 新しい空の B+Tree を作成し、ルートページを割り当てる
    */
-  static create(pager: Pager): BTreeResult<BTree> {
+  static create<K extends BTreeKey = number>(pager: Pager, options: BTreeOptions = {}): BTreeResult<BTree<K>> {
     const allocResult = pager.allocatePage();
     if (!allocResult.success) return allocResult;
 
-    const rootPageNum = allocResult.data;
+    return BTree.initialize<K>(pager, allocResult.data, options);
+  }
 
+  /**
+   * 確保済みのページを空のリーフとして初期化し、そこをルートとする B+Tree を返す
+   */
+  static initialize<K extends BTreeKey = number>(
+    pager: Pager,
+    rootPageNum: number,
+    options: BTreeOptions = {},
+  ): BTreeResult<BTree<K>> {
     // 空のリーフノードとして初期化
     const page = Buffer.alloc(pager.getPageSize(), 0);
     page.writeUInt8(PAGE_TYPE.LEAF_NODE, 0);
@@ -79,20 +186,51 @@ export class BTree {
     const writeResult = pager.writePage(rootPageNum, page);
     if (!writeResult.success) return writeResult;
 
-    return { success: true, data: new BTree(pager, rootPageNum) };
+    return { success: true, data: new BTree<K>(pager, rootPageNum, options) };
   }
 
   /**
    * 既存の B+Tree をルートページ番号から復元
    */
-  static open(pager: Pager, rootPageNum: number): BTree {
-    return new BTree(pager, rootPageNum);
+  static open<K extends BTreeKey = number>(pager: Pager, rootPageNum: number, options: BTreeOptions = {}): BTree<K> {
+    return new BTree<K>(pager, rootPageNum, options);
   }
 
   getRootPageNum(): number {
     return this.rootPageNum;
   }
 
+  /**
+   * 格納できるキーの最大バイト数
+   * キーはオーバーフローページに追い出せず内部ノードにも書き写すので、
+   * 1セルの上限 (リーフ容量の 1/MIN_CELLS_PER_LEAF) に収まる必要がある。
+   * ページサイズ 4096 では 1018 バイトで、長い TEXT / BLOB を含むキーは格納できない
+   */
+  maxKeySize(): number {
+    return this.maxLocalCellSize() - CHILD_POINTER_SIZE;
+  }
+
+  /** キーをページに書き込んだときのバイト数 (maxKeySize と比べる) */
+  keySize(key: K): number {
+    return encodedKeySize(key, this.integerKeySize);
+  }
+
+  /** リーフの1セルの最大バイト数 (recordSize と比べる) */
+  maxRecordSize(): number {
+    return this.maxLocalCellSize();
+  }
+
+  /**
+   * レコードをリーフに書き込むのに最低限必要なバイト数
+   * (TEXT / BLOB の値をすべてオーバーフローページに追い出した場合。キーは追い出せない)
+   */
+  recordSize(record: BTreeRecord<K>): number {
+    const values = record.values.map((value) =>
+      payloadSize(value) > OVERFLOW_REF_SIZE ? { overflowPage: 0, length: 0, blob: false } : value,
+    );
+    return encodedCellSize({ key: record.key, values }, this.integerKeySize);
+  }
+
   // ============================================================
   // INSERT — パス追跡方式
   //
@@ -103,7 +241,7 @@ export class BTree {
   // 5. ルートまで到達したら新しいルートを作成
   // ============================================================
 
-  insert(record: BTreeRecord): BTreeResult<void> {
+  insert(record: BTreeRecord<K>): BTreeResult<void> {
     // ルートからリーフまでのパスを記録
     const path: number[] = [];
     const findResult = this.findLeafPage(this.rootPageNum, record.key, path);
@@ -121,29 +259,84 @@ export class BTree {
 
     // 重複キーチェック
     for (const cell of cells) {
-      if (cell.key === record.key) {
-        return { success: false, error: `Duplicate key: ${record.key}` };
+      if (compareKeys(cell.key, record.key) === 0) {
+        return { success: false, error: `Duplicate key: ${formatKey(record.key)}` };
       }
     }
 
+    const cellResult = this.toLeafCell(record);
+    if (!cellResult.success) return cellResult;
+
     // ソート済みの位置に挿入
     let insertPos = 0;
-    while (insertPos < cells.length && cells[insertPos].key < record.key) {
+    while (insertPos < cells.length && compareKeys(cells[insertPos].key, record.key) < 0) {
       insertPos++;
     }
-    cells.splice(insertPos, 0, record);
+    cells.splice(insertPos, 0, cellResult.data);
+
+    return this.writeLeafOrSplit(leafPageNum, page.readUInt32LE(3), cells, path);
+  }
+
+  // ============================================================
+  // UPDATE
+  //
+  // キーが変わらない場合はリーフ内のセルをその場で書き換える。
+  // 書き換えでページに収まらなくなったらリーフを分割する。
+  // キーが変わる場合は旧位置から取り除き、新しいキー位置に挿入し直す。
+  // ============================================================
+
+  update(key: K, record: BTreeRecord<K>): BTreeResult<void> {
+    if (compareKeys(record.key, key) !== 0) {
+      // 移動先のキーが既に使われていないか先に確認する
+      const existing = this.search(record.key);
+      if (!existing.success) return existing;
+      if (existing.data !== null) {
+        return { success: false, error: `Duplicate key: ${formatKey(record.key)}` };
+      }
+
+      const deleteResult = this.delete(key);
+      if (!deleteResult.success) return deleteResult;
+      return this.insert(record);
+    }
+
+    const path: number[] = [];
+    const findResult = this.findLeafPage(this.rootPageNum, key, path);
+    if (!findResult.success) return findResult;
+
+    const leafPageNum = findResult.data;
+    const readResult = this.pager.readPage(leafPageNum);
+    if (!readResult.success) return readResult;
+
+    const page = readResult.data;
+    const cells = this.readLeafCells(page, page.readUInt16LE(1));
+    const index = cells.findIndex((cell) => compareKeys(cell.key, key) === 0);
+    if (index === -1) {
+      return { success: false, error: `Key not found: ${formatKey(key)}` };
+    }
+
+    const cellResult = this.toLeafCell(record);
+    if (!cellResult.success) return cellResult;
+    const oldCell = cells[index];
+    cells[index] = cellResult.data;
 
-    // ページに書き戻す
-    const newPage = Buffer.alloc(this.pager.getPageSize(), 0);
-    newPage.writeUInt8(PAGE_TYPE.LEAF_NODE, 0);
-    newPage.writeUInt32LE(page.readUInt32LE(3), 3); // 右兄弟を維持
-    this.writeLeafCellsToBuffer(newPage, cells);
-    const writeResult = this.pager.writePage(leafPageNum, newPage);
+    const writeResult = this.writeLeafOrSplit(leafPageNum, page.readUInt32LE(3), cells, path);
     if (!writeResult.success) return writeResult;
 
-    // 分割が必要か
-    if (cells.length <= this.maxLeafCells) {
-      return { success: true, data: undefined };
+    // 書き換え前の値が使っていたオーバーフローページを解放する
+    return this.freeOverflowPages(oldCell);
+  }
+
+  /**
+   * セル配列をリーフに書き戻す。セル数またはバイトサイズが上限を超えたら分割する
+   */
+  private writeLeafOrSplit(
+    leafPageNum: number,
+    rightSibling: number,
+    cells: LeafCell[],
+    path: number[],
+  ): BTreeResult<void> {
+    if (this.withinLeafCellLimit(cells.length) && this.fitsInLeaf(cells)) {
+      return this.writeLeafNode(leafPageNum, { cells, rightSibling });
     }
 
     // リーフを分割
@@ -157,7 +350,7 @@ export class BTree {
   /**
    * ルートからリーフまで降りながらパスを記録
    */
-  private findLeafPage(pageNum: number, key: number, path: number[]): BTreeResult<number> {
+  private findLeafPage(pageNum: number, key: BTreeKey, path: number[]): BTreeResult<number> {
     const readResult = this.pager.readPage(pageNum);
     if (!readResult.success) return readResult;
 
@@ -178,14 +371,17 @@ export class BTree {
    */
   private splitLeafNode(
     pageNum: number,
-    cells: BTreeRecord[],
-  ): BTreeResult<{ promotedKey: number; newPageNum: number }> {
+    cells: LeafCell[],
+  ): BTreeResult<{ promotedKey: BTreeKey; newPageNum: number }> {
     // 元ページの右兄弟を取得
     const readResult = this.pager.readPage(pageNum);
     if (!readResult.success) return readResult;
     const oldSiblingPageNum = readResult.data.readUInt32LE(3);
 
-    const splitPoint = Math.ceil(cells.length / 2);
+    const splitPoint = this.chooseLeafSplitPoint(cells);
+    if (splitPoint === -1) {
+      return { success: false, error: "Cells do not fit into two leaf pages" };
+    }
     const leftCells = cells.slice(0, splitPoint);
     const rightCells = cells.slice(splitPoint);
     const promotedKey = rightCells[0].key;
@@ -218,7 +414,7 @@ export class BTree {
    */
   private propagateSplit(
     path: number[],
-    promotedKey: number,
+    promotedKey: BTreeKey,
     newChildPageNum: number,
   ): BTreeResult<void> {
     if (path.length === 0) {
@@ -237,24 +433,20 @@ export class BTree {
 
     // ソート済みの位置に挿入
     let insertPos = 0;
-    while (insertPos < entries.length && entries[insertPos].key < promotedKey) {
+    while (insertPos < entries.length && compareKeys(entries[insertPos].key, promotedKey) < 0) {
       insertPos++;
     }
     entries.splice(insertPos, 0, { key: promotedKey, childPageNum: newChildPageNum });
 
-    // 書き戻す
+    // 親がオーバーフローしていなければ書き戻して完了
     const leftmostChild = page.readUInt32LE(3);
-    this.writeInternalNode(page, leftmostChild, entries);
-    const writeResult = this.pager.writePage(parentPageNum, page);
-    if (!writeResult.success) return writeResult;
-
-    // 親がオーバーフローしていなければ完了
-    if (entries.length <= this.maxInternalKeys) {
-      return { success: true, data: undefined };
+    if (this.fitsInInternal(entries.map((e) => e.key))) {
+      this.writeInternalNode(page, leftmostChild, entries);
+      return this.pager.writePage(parentPageNum, page);
     }
 
-    // 内部ノードを分割
-    const splitResult = this.splitInternalNode(parentPageNum);
+    // 内部ノードを分割 (溢れた状態はページに書けないのでメモリ上で分ける)
+    const splitResult = this.splitInternalNode(parentPageNum, leftmostChild, entries);
     if (!splitResult.success) return splitResult;
 
     return this.propagateSplit(path, splitResult.data.promotedKey, splitResult.data.newPageNum);
@@ -265,15 +457,10 @@ export class BTree {
    */
   private splitInternalNode(
     pageNum: number,
-  ): BTreeResult<{ promotedKey: number; newPageNum: number }> {
-    const readResult = this.pager.readPage(pageNum);
-    if (!readResult.success) return readResult;
-
-    const page = readResult.data;
-    const leftmostChild = page.readUInt32LE(3);
-    const entries = this.readInternalEntries(page);
-
-    const splitPoint = Math.floor(entries.length / 2);
+    leftmostChild: number,
+    entries: InternalEntry[],
+  ): BTreeResult<{ promotedKey: BTreeKey; newPageNum: number }> {
+    const splitPoint = this.chooseInternalSplitPoint(entries);
     const promotedKey = entries[splitPoint].key;
 
     const leftEntries = entries.slice(0, splitPoint);
@@ -303,14 +490,27 @@ export class BTree {
 
   /**
    * 新しいルートノードを作成
+   *
+   * fixedRoot の場合は、分割後の左半分 (= 現在のルートページの中身) を
+   * 新しいページに移し、ルートページ自体を内部ノードとして書き直す
    */
   private createNewRoot(
     leftPageNum: number,
-    key: number,
+    key: BTreeKey,
     rightPageNum: number,
   ): BTreeResult<void> {
     const allocResult = this.pager.allocatePage();
     if (!allocResult.success) return allocResult;
+
+    if (this.fixedRoot) {
+      const moveResult = this.copyPage(leftPageNum, allocResult.data);
+      if (!moveResult.success) return moveResult;
+
+      const rootPage = Buffer.alloc(this.pager.getPageSize(), 0);
+      this.writeInternalNode(rootPage, allocResult.data, [{ key, childPageNum: rightPageNum }]);
+      return this.pager.writePage(leftPageNum, rootPage);
+    }
+
     const newRootPageNum = allocResult.data;
 
     const page = Buffer.alloc(this.pager.getPageSize(), 0);
@@ -323,15 +523,347 @@ export class BTree {
     return { success: true, data: undefined };
   }
 
+  // ============================================================
+  // DELETE
+  //
+  // 1. ルートからリーフまでの経路(path)を記録しながら降りる
+  // 2. リーフからセルを削除
+  // 3. リーフが下限を下回ったら兄弟から1件借りる。借りられなければ併合する
+  // 4. 併合で親のキーが減り、親も下限を下回ったら同じ処理を繰り返す
+  // 5. ルート(内部ノード)のキーが0になったら唯一の子を新しいルートにする
+  // ============================================================
+
+  delete(key: K): BTreeResult<void> {
+    const path: number[] = [];
+    const findResult = this.findLeafPage(this.rootPageNum, key, path);
+    if (!findResult.success) return findResult;
+
+    const leafPageNum = findResult.data;
+    const leafResult = this.readLeafNode(leafPageNum);
+    if (!leafResult.success) return leafResult;
+
+    const leaf = leafResult.data;
+    const index = leaf.cells.findIndex((cell) => compareKeys(cell.key, key) === 0);
+    if (index === -1) {
+      return { success: false, error: `Key not found: ${formatKey(key)}` };
+    }
+    const [removed] = leaf.cells.splice(index, 1);
+
+    const freeResult = this.freeOverflowPages(removed);
+    if (!freeResult.success) return freeResult;
+
+    // ルートリーフ、または下限を満たしていればそのまま書き戻す
+    if (path.length === 0 || !this.isLeafUnderfull(leaf.cells)) {
+      return this.writeLeafNode(leafPageNum, leaf);
+    }
+
+    return this.rebalanceLeaf(leafPageNum, leaf, path);
+  }
+
+  /**
+   * 下限を下回ったリーフを兄弟からの借用または併合で立て直す
+   */
+  private rebalanceLeaf(pageNum: number, leaf: LeafNode, path: number[]): BTreeResult<void> {
+    const parentPageNum = path.pop()!;
+    const parentResult = this.readInternalNode(parentPageNum);
+    if (!parentResult.success) return parentResult;
+
+    const parent = parentResult.data;
+    const index = parent.children.indexOf(pageNum);
+
+    let left: LeafNode | null = null;
+    if (index > 0) {
+      const leftResult = this.readLeafNode(parent.children[index - 1]);
+      if (!leftResult.success) return leftResult;
+      left = leftResult.data;
+    }
+
+    let right: LeafNode | null = null;
+    if (index < parent.children.length - 1) {
+      const rightResult = this.readLeafNode(parent.children[index + 1]);
+      if (!rightResult.success) return rightResult;
+      right = rightResult.data;
+    }
+
+    // 左兄弟の最後のセルを借りる (composite キーは区切りキーの長さが変わるので親も確認する)
+    if (left && !this.isLeafUnderfull(left.cells.slice(0, -1))) {
+      const borrowed = [left.cells[left.cells.length - 1], ...leaf.cells];
+      const parentKeys = [...parent.keys];
+      parentKeys[index - 1] = borrowed[0].key;
+      if (this.fitsInLeaf(borrowed) && this.fitsInInternal(parentKeys)) {
+        left.cells.pop();
+        leaf.cells = borrowed;
+        parent.keys = parentKeys;
+        return this.writeNodes([
+          () => this.writeLeafNode(parent.children[index - 1], left!),
+          () => this.writeLeafNode(pageNum, leaf),
+          () => this.writeInternalNodePage(parentPageNum, parent),
+        ]);
+      }
+    }
+
+    // 右兄弟の最初のセルを借りる
+    if (right && !this.isLeafUnderfull(right.cells.slice(1))) {
+      const borrowed = [...leaf.cells, right.cells[0]];
+      const parentKeys = [...parent.keys];
+      parentKeys[index] = right.cells[1].key;
+      if (this.fitsInLeaf(borrowed) && this.fitsInInternal(parentKeys)) {
+        right.cells.shift();
+        leaf.cells = borrowed;
+        parent.keys = parentKeys;
+        return this.writeNodes([
+          () => this.writeLeafNode(parent.children[index + 1], right!),
+          () => this.writeLeafNode(pageNum, leaf),
+          () => this.writeInternalNodePage(parentPageNum, parent),
+        ]);
+      }
+    }
+
+    // 左兄弟に併合する (右兄弟リンクは削除されるページの右兄弟を引き継ぐ)
+    if (left && this.canMergeLeaves(left.cells, leaf.cells)) {
+      const leftPageNum = parent.children[index - 1];
+      const mergeResult = this.writeLeafNode(leftPageNum, {
+        cells: [...left.cells, ...leaf.cells],
+        rightSibling: leaf.rightSibling,
+      });
+      if (!mergeResult.success) return mergeResult;
+
+      const releaseResult = this.releasePage(pageNum);
+      if (!releaseResult.success) return releaseResult;
+
+      parent.keys.splice(index - 1, 1);
+      parent.children.splice(index, 1);
+      return this.rebalanceInternal(parentPageNum, parent, path);
+    }
+
+    // 右兄弟を取り込む
+    if (right && this.canMergeLeaves(leaf.cells, right.cells)) {
+      const rightPageNum = parent.children[index + 1];
+      const mergeResult = this.writeLeafNode(pageNum, {
+        cells: [...leaf.cells, ...right.cells],
+        rightSibling: right.rightSibling,
+      });
+      if (!mergeResult.success) return mergeResult;
+
+      const releaseResult = this.releasePage(rightPageNum);
+      if (!releaseResult.success) return releaseResult;
+
+      parent.keys.splice(index, 1);
+      parent.children.splice(index + 1, 1);
+      return this.rebalanceInternal(parentPageNum, parent, path);
+    }
+
+    // 借用も併合もできない (セルが大きい) 場合は下限割れのまま残す
+    return this.writeLeafNode(pageNum, leaf);
+  }
+
+  /**
+   * 子の併合でキーが減った内部ノードを立て直す
+   */
+  private rebalanceInternal(pageNum: number, node: InternalNode, path: number[]): BTreeResult<void> {
+    if (path.length === 0) {
+      // ルートのキーが 0 になったら唯一の子をルートに昇格させる
+      // (fixedRoot の場合は子の中身をルートページに移す)
+      if (node.keys.length === 0) {
+        if (this.fixedRoot) {
+          const moveResult = this.copyPage(node.children[0], pageNum);
+          if (!moveResult.success) return moveResult;
+          return this.releasePage(node.children[0]);
+        }
+        this.rootPageNum = node.children[0];
+        return this.releasePage(pageNum);
+      }
+      return this.writeInternalNodePage(pageNum, node);
+    }
+
+    if (!this.isInternalUnderfull(node.keys)) {
+      return this.writeInternalNodePage(pageNum, node);
+    }
+
+    const parentPageNum = path.pop()!;
+    const parentResult = this.readInternalNode(parentPageNum);
+    if (!parentResult.success) return parentResult;
+
+    const parent = parentResult.data;
+    const index = parent.children.indexOf(pageNum);
+
+    let left: InternalNode | null = null;
+    if (index > 0) {
+      const leftResult = this.readInternalNode(parent.children[index - 1]);
+      if (!leftResult.success) return leftResult;
+      left = leftResult.data;
+    }
+
+    let right: InternalNode | null = null;
+    if (index < parent.children.length - 1) {
+      const rightResult = this.readInternalNode(parent.children[index + 1]);
+      if (!rightResult.success) return rightResult;
+      right = rightResult.data;
+    }
+
+    // 左兄弟から借りる: 親の区切りキーを下ろし、左兄弟の最後のキーを親に上げる
+    if (
+      left &&
+      !this.isInternalUnderfull(left.keys.slice(0, -1)) &&
+      this.fitsInInternal([parent.keys[index - 1], ...node.keys]) &&
+      this.fitsInInternal(parent.keys.map((key, i) => (i === index - 1 ? left!.keys[left!.keys.length - 1] : key)))
+    ) {
+      node.children.unshift(left.children.pop()!);
+      node.keys.unshift(parent.keys[index - 1]);
+      parent.keys[index - 1] = left.keys.pop()!;
+      return this.writeNodes([
+        () => this.writeInternalNodePage(parent.children[index - 1], left!),
+        () => this.writeInternalNodePage(pageNum, node),
+        () => this.writeInternalNodePage(parentPageNum, parent),
+      ]);
+    }
+
+    // 右兄弟から借りる: 親の区切りキーを下ろし、右兄弟の最初のキーを親に上げる
+    if (
+      right &&
+      !this.isInternalUnderfull(right.keys.slice(1)) &&
+      this.fitsInInternal([...node.keys, parent.keys[index]]) &&
+      this.fitsInInternal(parent.keys.map((key, i) => (i === index ? right!.keys[0] : key)))
+    ) {
+      node.children.push(right.children.shift()!);
+      node.keys.push(parent.keys[index]);
+      parent.keys[index] = right.keys.shift()!;
+      return this.writeNodes([
+        () => this.writeInternalNodePage(parent.children[index + 1], right!),
+        () => this.writeInternalNodePage(pageNum, node),
+        () => this.writeInternalNodePage(parentPageNum, parent),
+      ]);
+    }
+
+    // 左兄弟に併合する (親の区切りキーも一緒に下ろす)
+    if (left && this.fitsInInternal([...left.keys, parent.keys[index - 1], ...node.keys])) {
+      const leftPageNum = parent.children[index - 1];
+      const mergeResult = this.writeInternalNodePage(leftPageNum, {
+        children: [...left.children, ...node.children],
+        keys: [...left.keys, parent.keys[index - 1], ...node.keys],
+      });
+      if (!mergeResult.success) return mergeResult;
+
+      const releaseResult = this.releasePage(pageNum);
+      if (!releaseResult.success) return releaseResult;
+
+      parent.keys.splice(index - 1, 1);
+      parent.children.splice(index, 1);
+      return this.rebalanceInternal(parentPageNum, parent, path);
+    }
+
+    // 右兄弟を取り込む
+    if (right && this.fitsInInternal([...node.keys, parent.keys[index], ...right.keys])) {
+      const rightPageNum = parent.children[index + 1];
+      const mergeResult = this.writeInternalNodePage(pageNum, {
+        children: [...node.children, ...right.children],
+        keys: [...node.keys, parent.keys[index], ...right.keys],
+      });
+      if (!mergeResult.success) return mergeResult;
+
+      const releaseResult = this.releasePage(rightPageNum);
+      if (!releaseResult.success) return releaseResult;
+
+      parent.keys.splice(index, 1);
+      parent.children.splice(index + 1, 1);
+      return this.rebalanceInternal(parentPageNum, parent, path);
+    }
+
+    return this.writeInternalNodePage(pageNum, node);
+  }
+
+  /**
+   * リーフが下限を割っているか
+   * セル数の上限があればその半分、なければ使用バイト数で判定する
+   */
+  private isLeafUnderfull(cells: LeafCell[]): boolean {
+    if (this.maxLeafCells !== null) {
+      return cells.length < Math.ceil(this.maxLeafCells / 2);
+    }
+    return cells.length === 0 || leafBytes(cells, this.integerKeySize) < this.leafCapacity() * MIN_LEAF_FILL_RATIO;
+  }
+
+  private withinLeafCellLimit(cellCount: number): boolean {
+    return this.maxLeafCells === null || cellCount <= this.maxLeafCells;
+  }
+
+  /**
+   * 内部ノードが下限を割っているか
+   * 件数で管理していればキー数の上限の半分、そうでなければ使用バイト数で判定する
+   */
+  private isInternalUnderfull(keys: BTreeKey[]): boolean {
+    if (this.internalKeyLimited) {
+      return keys.length < Math.floor(this.maxInternalKeys / 2);
+    }
+    return keys.length === 0 || internalBytes(keys, this.integerKeySize) < this.internalCapacity() * MIN_LEAF_FILL_RATIO;
+  }
+
+  private fitsInInternal(keys: BTreeKey[]): boolean {
+    return keys.length <= this.maxInternalKeys && internalBytes(keys, this.integerKeySize) <= this.internalCapacity();
+  }
+
+  private internalCapacity(): number {
+    return this.pager.getPageSize() - NODE_HEADER_SIZE;
+  }
+
+  /**
+   * 内部ノードの分割位置 (昇格させるエントリの位置)
+   * 件数で管理していれば中央、そうでなければバイト数の中央
+   */
+  private chooseInternalSplitPoint(entries: InternalEntry[]): number {
+    if (this.internalKeyLimited) {
+      return Math.floor(entries.length / 2);
+    }
+
+    const half = internalBytes(entries.map((e) => e.key), this.integerKeySize) / 2;
+    let total = 0;
+    for (let i = 0; i < entries.length; i++) {
+      total += encodedKeySize(entries[i].key, this.integerKeySize) + CHILD_POINTER_SIZE;
+      if (total >= half) {
+        return Math.min(Math.max(i, 1), entries.length - 2);
+      }
+    }
+    return entries.length - 2;
+  }
+
+  private canMergeLeaves(left: LeafCell[], right: LeafCell[]): boolean {
+    const merged = [...left, ...right];
+    return this.withinLeafCellLimit(merged.length) && this.fitsInLeaf(merged);
+  }
+
+  private copyPage(fromPageNum: number, toPageNum: number): BTreeResult<void> {
+    const readResult = this.pager.readPage(fromPageNum);
+    if (!readResult.success) return readResult;
+    return this.pager.writePage(toPageNum, readResult.data);
+  }
+
+  /**
+   * 併合で不要になったページをフリーリストに戻す
+   */
+  private releasePage(pageNum: number): BTreeResult<void> {
+    return this.pager.freePage(pageNum);
+  }
+
+  /**
+   * 複数ページの書き込みを順に行い、最初の失敗で止める
+   */
+  private writeNodes(writes: (() => BTreeResult<void>)[]): BTreeResult<void> {
+    for (const write of writes) {
+      const result = write();
+      if (!result.success) return result;
+    }
+    return { success: true, data: undefined };
+  }
+
   // ============================================================
   // SEARCH
   // ============================================================
 
-  search(key: number): BTreeResult<BTreeRecord | null> {
+  search(key: K): BTreeResult<BTreeRecord<K> | null> {
     return this.searchInNode(this.rootPageNum, key);
   }
 
-  private searchInNode(pageNum: number, key: number): BTreeResult<BTreeRecord | null> {
+  private searchInNode(pageNum: number, key: K): BTreeResult<BTreeRecord<K> | null> {
     const readResult = this.pager.readPage(pageNum);
     if (!readResult.success) return readResult;
 
@@ -342,8 +874,8 @@ export class BTree {
       const cellCount = page.readUInt16LE(1);
       const cells = this.readLeafCells(page, cellCount);
       for (const cell of cells) {
-        if (cell.key === key) {
-          return { success: true, data: cell };
+        if (compareKeys(cell.key, key) === 0) {
+          return this.resolveCell(cell);
         }
       }
       return { success: true, data: null };
@@ -354,31 +886,83 @@ export class BTree {
   }
 
   // ============================================================
-  // SCAN (全件取得)
+  // SCAN (全件取得) / RANGE SCAN (範囲取得)
+  //
+  // どちらもカーソルでリーフを1枚ずつ読みながらレコードを集める。
+  // 件数が多くて配列にしたくない場合は iterate() で1件ずつ受け取る
   // ============================================================
 
-  scan(): BTreeResult<BTreeRecord[]> {
-    const records: BTreeRecord[] = [];
+  scan(): BTreeResult<BTreeRecord<K>[]> {
+    return this.rangeScan(null, null);
+  }
 
-    const leftmostResult = this.findLeftmostLeaf(this.rootPageNum);
-    if (!leftmostResult.success) return leftmostResult;
+  /**
+   * 下端のキーが入るリーフまで降り、右兄弟をたどりながら上端を超えるまで集める
+   * 端を省略 (null) すると先頭 / 末尾まで。
+   * 複合キーの端は先頭の要素だけで比較する (例: [5] は [5, ...] すべてに一致)
+   */
+  rangeScan(lower: KeyBound<K> | null, upper: KeyBound<K> | null): BTreeResult<BTreeRecord<K>[]> {
+    const records: BTreeRecord<K>[] = [];
+    for (const result of this.iterate(lower, upper)) {
+      if (!result.success) return result;
+      records.push(result.data);
+    }
+    return { success: true, data: records };
+  }
 
-    let currentPageNum: number | null = leftmostResult.data;
+  /**
+   * rangeScan と同じ範囲のレコードを1件ずつ返す
+   * descending なら上端から下端へ逆順に返す。
+   * 読み出しに失敗したらその結果を1つ返して終わる
+   */
+  *iterate(
+    lower: KeyBound<K> | null,
+    upper: KeyBound<K> | null,
+    descending = false,
+  ): Generator<BTreeResult<BTreeRecord<K>>> {
+    const cursor = this.cursor();
+    const startResult = descending ? seekLast(cursor, upper) : seekFirst(cursor, lower);
+    if (!startResult.success) {
+      yield startResult;
+      return;
+    }
 
-    while (currentPageNum !== null && currentPageNum !== 0) {
-      const readResult = this.pager.readPage(currentPageNum);
-      if (!readResult.success) return readResult;
+    // 進む向きの先にある端を超えたら終わる
+    const end = descending ? lower : upper;
+    const direction = descending ? -1 : 1;
+    for (let key = cursor.key(); key !== null; key = cursor.key()) {
+      if (end !== null) {
+        const cmp = compareToBound(key, end.key) * direction;
+        if (cmp > 0 || (cmp === 0 && !end.inclusive)) return;
+      }
 
-      const page = readResult.data;
-      const cellCount = page.readUInt16LE(1);
-      const cells = this.readLeafCells(page, cellCount);
-      records.push(...cells);
+      const currentResult = cursor.current();
+      if (!currentResult.success) {
+        yield currentResult;
+        return;
+      }
+      yield { success: true, data: currentResult.data! };
 
-      const nextPageNum = page.readUInt32LE(3);
-      currentPageNum = nextPageNum === 0 ? null : nextPageNum;
+      const moveResult = descending ? cursor.prev() : cursor.next();
+      if (!moveResult.success) {
+        yield moveResult;
+        return;
+      }
     }
+  }
 
-    return { success: true, data: records };
+  /**
+   * リーフを1枚ずつ読むカーソルを作る (位置は first() / seek() で決める)
+   */
+  cursor(): BTreeCursor<K> {
+    return new BTreeCursor<K>({
+      leftmostLeaf: () => this.findLeftmostLeaf(this.rootPageNum),
+      leafFor: (key) => this.findLeafPage(this.rootPageNum, key, []),
+      leafBefore: (key) => this.findLeafBefore(this.rootPageNum, key),
+      rightmostLeaf: () => this.findLeafBefore(this.rootPageNum, null),
+      readLeaf: (pageNum) => this.readLeafNode(pageNum),
+      resolve: (cell) => this.resolveCell(cell),
+    });
   }
 
   private findLeftmostLeaf(pageNum: number): BTreeResult<number> {
@@ -396,41 +980,126 @@ export class BTree {
     return this.findLeftmostLeaf(leftChildPageNum);
   }
 
+  /**
+   * key より小さいキーのうち最大のものを持つリーフを探す (なければ 0)
+   * リーフは左兄弟を持たないので、カーソルを戻すときはルートから探し直す。
+   * key が null なら最大のキーを持つリーフ (空でない最も右のリーフ) を探す
+   */
+  private findLeafBefore(pageNum: number, key: BTreeKey | null): BTreeResult<number> {
+    const readResult = this.pager.readPage(pageNum);
+    if (!readResult.success) return readResult;
+
+    const page = readResult.data;
+    if ((page.readUInt8(0) as PageType) === PAGE_TYPE.LEAF_NODE) {
+      const cells = this.readLeafCells(page, page.readUInt16LE(1));
+      const hasSmaller = cells.length > 0 && (key === null || compareKeys(cells[0].key, key) < 0);
+      return { success: true, data: hasSmaller ? pageNum : 0 };
+    }
+
+    // key より小さい区切りキーのうち最大のものの右子から、左の子へ順に探す
+    // (削除後も区切りキーは残るので、その子に key より小さいキーがあるとは限らない)
+    const entries = this.readInternalEntries(page);
+    const children = [page.readUInt32LE(3), ...entries.map((e) => e.childPageNum)];
+    let start = 0;
+    while (start < entries.length && (key === null || compareKeys(entries[start].key, key) < 0)) start++;
+
+    for (let i = start; i >= 0; i--) {
+      const result = this.findLeafBefore(children[i], key);
+      if (!result.success || result.data !== 0) return result;
+    }
+    return { success: true, data: 0 };
+  }
+
   // ============================================================
-  // 内部ノードヘルパー
+  // DROP (全ページの解放)
   // ============================================================
 
-  private findChildPage(page: Buffer, key: number): number {
-    const keyCount = page.readUInt16LE(1);
-    const leftmostChild = page.readUInt32LE(3);
+  /**
+   * B+Tree のすべてのページ (オーバーフローページを含む) をフリーリストに戻す
+   * 呼び出し後はこの B+Tree を使ってはいけない
+   */
+  drop(): BTreeResult<void> {
+    if (this.fixedRoot) {
+      return { success: false, error: "Cannot drop a B+Tree with a fixed root page" };
+    }
+    return this.dropPage(this.rootPageNum);
+  }
 
-    for (let i = 0; i < keyCount; i++) {
-      const offset = NODE_HEADER_SIZE + i * INTERNAL_ENTRY_SIZE;
-      const nodeKey = page.readUInt32LE(offset);
+  private dropPage(pageNum: number): BTreeResult<void> {
+    const readResult = this.pager.readPage(pageNum);
+    if (!readResult.success) return readResult;
 
-      if (key < nodeKey) {
-        if (i === 0) return leftmostChild;
-        return page.readUInt32LE(NODE_HEADER_SIZE + (i - 1) * INTERNAL_ENTRY_SIZE + 4);
+    const page = readResult.data;
+    if ((page.readUInt8(0) as PageType) === PAGE_TYPE.LEAF_NODE) {
+      for (const cell of this.readLeafCells(page, page.readUInt16LE(1))) {
+        const freeResult = this.freeOverflowPages(cell);
+        if (!freeResult.success) return freeResult;
+      }
+    } else {
+      const children = [page.readUInt32LE(3), ...this.readInternalEntries(page).map((e) => e.childPageNum)];
+      for (const child of children) {
+        const dropResult = this.dropPage(child);
+        if (!dropResult.success) return dropResult;
       }
     }
 
-    // 全てのキー以上 → 最後の子ページ
-    return page.readUInt32LE(NODE_HEADER_SIZE + (keyCount - 1) * INTERNAL_ENTRY_SIZE + 4);
+    return this.releasePage(pageNum);
+  }
+
+  // ============================================================
+  // 内部ノードヘルパー
+  // ============================================================
+
+  private findChildPage(page: Buffer, key: BTreeKey): number {
+    let childPageNum = page.readUInt32LE(3);
+
+    // key 以下で最大の区切りキーの右子 (なければ最左子)
+    for (const entry of this.readInternalEntries(page)) {
+      if (compareKeys(key, entry.key) < 0) break;
+      childPageNum = entry.childPageNum;
+    }
+
+    return childPageNum;
+  }
+
+  private readInternalNode(pageNum: number): BTreeResult<InternalNode> {
+    const readResult = this.pager.readPage(pageNum);
+    if (!readResult.success) return readResult;
+
+    const page = readResult.data;
+    const entries = this.readInternalEntries(page);
+    return {
+      success: true,
+      data: {
+        children: [page.readUInt32LE(3), ...entries.map((e) => e.childPageNum)],
+        keys: entries.map((e) => e.key),
+      },
+    };
+  }
+
+  private writeInternalNodePage(pageNum: number, node: InternalNode): BTreeResult<void> {
+    const page = Buffer.alloc(this.pager.getPageSize(), 0);
+    this.writeInternalNode(
+      page,
+      node.children[0],
+      node.keys.map((key, i) => ({ key, childPageNum: node.children[i + 1] })),
+    );
+    return this.pager.writePage(pageNum, page);
   }
 
   /**
    * 内部ノードのエントリ(キー+子ページ番号)を読み出す
    */
-  private readInternalEntries(page: Buffer): { key: number; childPageNum: number }[] {
+  private readInternalEntries(page: Buffer): InternalEntry[] {
     const keyCount = page.readUInt16LE(1);
-    const entries: { key: number; childPageNum: number }[] = [];
+    const entries: InternalEntry[] = [];
+    let offset = NODE_HEADER_SIZE;
 
     for (let i = 0; i < keyCount; i++) {
-      const offset = NODE_HEADER_SIZE + i * INTERNAL_ENTRY_SIZE;
-      entries.push({
-        key: page.readUInt32LE(offset),
-        childPageNum: page.readUInt32LE(offset + 4),
-      });
+      const keyResult = this.readKey(page, offset);
+      offset = keyResult.offset;
+      entries.push({ key: keyResult.key, childPageNum: page.readUInt32LE(offset) });
+      offset += CHILD_POINTER_SIZE;
     }
 
     return entries;
@@ -442,97 +1111,687 @@ export class BTree {
   private writeInternalNode(
     page: Buffer,
     leftmostChild: number,
-    entries: { key: number; childPageNum: number }[],
+    entries: InternalEntry[],
   ): void {
     page.writeUInt8(PAGE_TYPE.INTERNAL_NODE, 0);
     page.writeUInt16LE(entries.length, 1);
     page.writeUInt32LE(leftmostChild, 3);
 
-    for (let i = 0; i < entries.length; i++) {
-      const offset = NODE_HEADER_SIZE + i * INTERNAL_ENTRY_SIZE;
-      page.writeUInt32LE(entries[i].key, offset);
-      page.writeUInt32LE(entries[i].childPageNum, offset + 4);
+    let offset = NODE_HEADER_SIZE;
+    for (const entry of entries) {
+      offset = writeKey(page, offset, entry.key, this.integerKeySize);
+      page.writeUInt32LE(entry.childPageNum, offset);
+      offset += CHILD_POINTER_SIZE;
     }
   }
 
+  // ============================================================
+  // リーフノードヘルパー
+  // ============================================================
+
+  private readLeafNode(pageNum: number): BTreeResult<LeafNode> {
+    const readResult = this.pager.readPage(pageNum);
+    if (!readResult.success) return readResult;
+
+    const page = readResult.data;
+    return {
+      success: true,
+      data: {
+        cells: this.readLeafCells(page, page.readUInt16LE(1)),
+        rightSibling: page.readUInt32LE(3),
+      },
+    };
+  }
+
+  private writeLeafNode(pageNum: number, leaf: LeafNode): BTreeResult<void> {
+    const page = Buffer.alloc(this.pager.getPageSize(), 0);
+    page.writeUInt8(PAGE_TYPE.LEAF_NODE, 0);
+    page.writeUInt32LE(leaf.rightSibling, 3);
+    this.writeLeafCellsToBuffer(page, leaf.cells);
+    return this.pager.writePage(pageNum, page);
+  }
+
+  // ============================================================
+  // リーフのサイズ計算
+  // ============================================================
+
+  /**
+   * 分割位置を決める。基本は中央 (セル数の上限があれば件数の中央、
+   * なければバイト数の中央) だが、左右どちらかがページに収まらない
+   * 場合は中央に近い順に収まる位置を探す (-1 = 見つからない)
+   */
+  private chooseLeafSplitPoint(cells: LeafCell[]): number {
+    const middle = this.maxLeafCells !== null ? Math.ceil(cells.length / 2) : byteMiddle(cells, this.integerKeySize);
+    for (let distance = 0; distance < cells.length; distance++) {
+      for (const point of [middle - distance, middle + distance]) {
+        if (point < 1 || point >= cells.length) continue;
+        if (this.fitsInLeaf(cells.slice(0, point)) && this.fitsInLeaf(cells.slice(point))) {
+          return point;
+        }
+      }
+    }
+    return -1;
+  }
+
+  private fitsInLeaf(cells: LeafCell[]): boolean {
+    return leafBytes(cells, this.integerKeySize) <= this.leafCapacity();
+  }
+
+  private leafCapacity(): number {
+    return this.pager.getPageSize() - NODE_HEADER_SIZE;
+  }
+
+  private maxLocalCellSize(): number {
+    return Math.floor(this.leafCapacity() / MIN_CELLS_PER_LEAF);
+  }
+
+  // ============================================================
+  // オーバーフロー
+  //
+  // セルが maxLocalCellSize() を超える場合、大きい TEXT 値から順に
+  // オーバーフローページへ書き出して OverflowRef に置き換える。
+  // 分割・併合でセルを移動するときは OverflowRef のまま書き写すので
+  // チェーンは読み書きされない。値を返すとき (search / scan) にだけ読み込む。
+  // ============================================================
+
+  /**
+   * レコードをリーフに格納する形に変換する (必要ならオーバーフローページに書き出す)
+   */
+  private toLeafCell(record: BTreeRecord<K>): BTreeResult<LeafCell> {
+    const cell: LeafCell = { key: record.key, values: [...record.values] };
+    const maxLocal = this.maxLocalCellSize();
+
+    if (typeof record.key === "number" && !this.isStorableIntegerKey(record.key)) {
+      return { success: false, error: `Key out of range: ${record.key}` };
+    }
+
+    // キーは追い出せないので、キーだけで上限を超えるレコードは格納できない
+    const keySize = this.keySize(record.key);
+    if (keySize > this.maxKeySize()) {
+      return { success: false, error: `Key too large: ${keySize} bytes (max ${this.maxKeySize()})` };
+    }
+
+    // TEXT / BLOB をすべて追い出しても収まらないレコードは、オーバーフローページを書く前に拒否する
+    const size = this.recordSize(record);
+    if (size > maxLocal) {
+      return { success: false, error: `Record too large: ${size} bytes (max ${maxLocal})` };
+    }
+
+    const largeIndexes = cell.values
+      .map((value, i) => ({ i, size: payloadSize(value) }))
+      .filter(({ size }) => size > OVERFLOW_REF_SIZE)
+      .sort((a, b) => b.size - a.size);
+
+    for (const { i } of largeIndexes) {
+      if (encodedCellSize(cell, this.integerKeySize) <= maxLocal) break;
+
+      const value = cell.values[i] as string | Uint8Array;
+      const blob = value instanceof Uint8Array;
+      const data = blob ? Buffer.from(value) : Buffer.from(value, "utf-8");
+      const chainResult = writeOverflowChain(this.pager, data);
+      if (!chainResult.success) return chainResult;
+      cell.values[i] = { overflowPage: chainResult.data, length: data.length, blob };
+    }
+    return { success: true, data: cell };
+  }
+
+  /**
+   * オーバーフローページに追い出した値を読み込んでレコードに戻す
+   */
+  private resolveCell(cell: LeafCell): BTreeResult<BTreeRecord<K>> {
+    const values: ColumnValue[] = [];
+    for (const value of cell.values) {
+      if (!isOverflowRef(value)) {
+        values.push(value);
+        continue;
+      }
+
+      const readResult = readOverflowChain(this.pager, value.overflowPage, value.length);
+      if (!readResult.success) return readResult;
+      values.push(value.blob ? new Uint8Array(readResult.data) : readResult.data.toString("utf-8"));
+    }
+    return { success: true, data: { key: cell.key as K, values } };
+  }
+
+  private freeOverflowPages(cell: LeafCell): BTreeResult<void> {
+    for (const value of cell.values) {
+      if (!isOverflowRef(value)) continue;
+
+      const freeResult = freeOverflowChain(this.pager, value.overflowPage);
+      if (!freeResult.success) return freeResult;
+    }
+    return { success: true, data: undefined };
+  }
+
   // ============================================================
   // リーフセルのシリアライズ / デシリアライズ
   //
   // セル形式:
-  //   [key]        u32 (4 bytes)
+  //   [key]        整数キーは i64 (旧形式は u32)、composite キーは内部ノードと同じ形式
   //   [valueCount] u16 (2 bytes)
   //   [values...]  各値:
-  //     型タグ u8: 0x00=NULL, 0x01=INTEGER, 0x02=TEXT
-  //     INTEGER: i32 (4 bytes, LE)
-  //     TEXT:    u16 長さ + N bytes UTF-8
+  //     型タグ u8: 0x00=NULL, 0x01=INTEGER, 0x02=TEXT, 0x03=TEXT (オーバーフロー),
+  //                0x04=INTEGER (64bit), 0x05=REAL, 0x06=BIGINT, 0x07=BOOLEAN,
+  //                0x08=BLOB, 0x09=BLOB (オーバーフロー), 0x0a=DATE, 0x0b=TIMESTAMP
+  //     INTEGER: i32 (4 bytes, LE)。i32 に収まらない値は 0x04 で i64 (8 bytes, LE)
+  //     REAL:    f64 (8 bytes, LE)。整数の値は INTEGER と同じ形式で書く
+  //     BIGINT:  i64 (8 bytes, LE)
+  //     BOOLEAN: u8 (0 / 1)
+  //     TEXT / BLOB: u16 長さ + N bytes (TEXT は UTF-8)
+  //     TEXT / BLOB (オーバーフロー): u32 バイト数 + u32 先頭オーバーフローページ番号
+  //     DATE:      i32 UTC の 1970-01-01 からの日数
+  //     TIMESTAMP: i64 UTC の 1970-01-01 からのミリ秒
   // ============================================================
 
-  private readLeafCells(page: Buffer, cellCount: number): BTreeRecord[] {
-    const cells: BTreeRecord[] = [];
+  private readLeafCells(page: Buffer, cellCount: number): LeafCell[] {
+    const cells: LeafCell[] = [];
     let offset = NODE_HEADER_SIZE;
 
     for (let i = 0; i < cellCount; i++) {
-      const key = page.readUInt32LE(offset);
-      offset += 4;
-
-      const valueCount = page.readUInt16LE(offset);
-      offset += 2;
-
-      const values: ColumnValue[] = [];
-      for (let j = 0; j < valueCount; j++) {
-        const typeTag = page.readUInt8(offset);
-        offset += 1;
-
-        if (typeTag === 0x00) {
-          values.push(null);
-        } else if (typeTag === 0x01) {
-          values.push(page.readInt32LE(offset));
-          offset += 4;
-        } else if (typeTag === 0x02) {
-          const strLen = page.readUInt16LE(offset);
-          offset += 2;
-          values.push(page.toString("utf-8", offset, offset + strLen));
-          offset += strLen;
-        }
-      }
+      const keyResult = this.readKey(page, offset);
+      const valuesResult = readValues(page, keyResult.offset);
+      offset = valuesResult.offset;
 
-      cells.push({ key, values });
+      cells.push({ key: keyResult.key, values: valuesResult.values });
     }
 
     return cells;
   }
 
-  private writeLeafCellsToBuffer(page: Buffer, cells: BTreeRecord[]): void {
+  private writeLeafCellsToBuffer(page: Buffer, cells: LeafCell[]): void {
     page.writeUInt16LE(cells.length, 1);
 
     let offset = NODE_HEADER_SIZE;
 
     for (const cell of cells) {
-      page.writeUInt32LE(cell.key, offset);
-      offset += 4;
+      offset = writeKey(page, offset, cell.key, this.integerKeySize);
+      offset = writeValues(page, offset, cell.values);
+    }
+  }
+
+  private readKey(page: Buffer, offset: number): { key: BTreeKey; offset: number } {
+    if (this.keyType === "integer") {
+      const key =
+        this.integerKeySize === LEGACY_INTEGER_KEY_SIZE
+          ? page.readUInt32LE(offset)
+          : Number(page.readBigInt64LE(offset));
+      return { key, offset: offset + this.integerKeySize };
+    }
+
+    const valuesResult = readValues(page, offset);
+    return { key: valuesResult.values as ColumnValue[], offset: valuesResult.offset };
+  }
+
+  /**
+   * 整数キーとして書き込めるか
+   * JS の number で正確に扱える範囲に限り、旧形式のファイルでは u32 に収まる値だけ
+   */
+  private isStorableIntegerKey(key: number): boolean {
+    if (!Number.isSafeInteger(key)) return false;
+    return this.integerKeySize !== LEGACY_INTEGER_KEY_SIZE || (key >= 0 && key <= 0xffffffff);
+  }
+}
+
+// ============================================================
+// カーソル
+//
+// 読み込んだリーフ1枚とその中の位置だけを持ち、レコードを1件ずつ返す。
+// next() は右兄弟ポインタをたどる。リーフは左兄弟を持たないので、
+// prev() でリーフの先頭より前に戻るときはルートから探し直す。
+// オーバーフローページの値は current() で読むまで読み込まない。
+// カーソルを開いたまま木を書き換えた場合、その後の位置は保証しない
+// ============================================================
+
+/** カーソルが木を読むための BTree の内部操作 (BTree.cursor() が渡す) */
+type CursorSource<K extends BTreeKey> = {
+  leftmostLeaf(): BTreeResult<number>;
+  leafFor(key: K): BTreeResult<number>;
+  leafBefore(key: BTreeKey): BTreeResult<number>; // 0 = なし
+  rightmostLeaf(): BTreeResult<number>; // 0 = 空の木
+  readLeaf(pageNum: number): BTreeResult<LeafNode>;
+  resolve(cell: LeafCell): BTreeResult<BTreeRecord<K>>;
+};
+
+export class BTreeCursor<K extends BTreeKey = number> {
+  private source: CursorSource<K>;
+  private leaf: LeafNode | null = null; // 現在のリーフ (null = 終端)
+  private index = 0; // リーフ内のセル位置
+
+  constructor(source: CursorSource<K>) {
+    this.source = source;
+  }
+
+  /**
+   * 最小のキーに移動する (空の木なら終端)
+   */
+  first(): BTreeResult<void> {
+    const leafResult = this.source.leftmostLeaf();
+    if (!leafResult.success) return leafResult;
+    return this.moveToLeaf(leafResult.data, "first");
+  }
+
+  /**
+   * 最大のキーに移動する (空の木なら終端)
+   */
+  last(): BTreeResult<void> {
+    const leafResult = this.source.rightmostLeaf();
+    if (!leafResult.success) return leafResult;
+    return this.moveToLeaf(leafResult.data, "last");
+  }
+
+  /**
+   * key 以上 (inclusive が false なら key より大きい) の最初のキーに移動する
+   * 複合キーは key の要素数だけ比較する (例: [5] は [5, ...] すべてに一致)
+   */
+  seek(key: K, inclusive = true): BTreeResult<void> {
+    const leafResult = this.source.leafFor(key);
+    if (!leafResult.success) return leafResult;
+
+    const moveResult = this.moveToLeaf(leafResult.data, "first");
+    if (!moveResult.success) return moveResult;
+
+    // key より小さいキーは左のリーフにあるので、このリーフから先へ進めばよい
+    for (let current = this.key(); current !== null; current = this.key()) {
+      const cmp = compareToBound(current, key);
+      if (cmp > 0 || (cmp === 0 && inclusive)) break;
+
+      const nextResult = this.next();
+      if (!nextResult.success) return nextResult;
+    }
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * 次のキーに移動する (最後のキーの次は終端)
+   */
+  next(): BTreeResult<void> {
+    if (this.leaf === null) return { success: true, data: undefined };
+
+    this.index++;
+    if (this.index < this.leaf.cells.length) return { success: true, data: undefined };
+    return this.moveToLeaf(this.leaf.rightSibling, "first");
+  }
 
-      page.writeUInt16LE(cell.values.length, offset);
+  /**
+   * 前のキーに移動する (最初のキーの前は終端)
+   */
+  prev(): BTreeResult<void> {
+    if (this.leaf === null) return { success: true, data: undefined };
+
+    if (this.index > 0) {
+      this.index--;
+      return { success: true, data: undefined };
+    }
+
+    const leafResult = this.source.leafBefore(this.leaf.cells[0].key);
+    if (!leafResult.success) return leafResult;
+    return this.moveToLeaf(leafResult.data, "last");
+  }
+
+  /**
+   * 現在位置のレコード (終端なら null)
+   */
+  current(): BTreeResult<BTreeRecord<K> | null> {
+    if (this.leaf === null) return { success: true, data: null };
+    return this.source.resolve(this.leaf.cells[this.index]);
+  }
+
+  /**
+   * 現在位置のキー (終端なら null)。オーバーフローページを読まずに済む
+   */
+  key(): K | null {
+    return this.leaf === null ? null : (this.leaf.cells[this.index].key as K);
+  }
+
+  eof(): boolean {
+    return this.leaf === null;
+  }
+
+  /**
+   * リーフを読み込み、その先頭 / 末尾のセルに移動する (0 なら終端)
+   * 空のリーフ (空の木のルート) は飛ばす
+   */
+  private moveToLeaf(pageNum: number, position: "first" | "last"): BTreeResult<void> {
+    let current = pageNum;
+    while (current !== 0) {
+      const leafResult = this.source.readLeaf(current);
+      if (!leafResult.success) return leafResult;
+
+      const leaf = leafResult.data;
+      if (leaf.cells.length > 0) {
+        this.leaf = leaf;
+        this.index = position === "first" ? 0 : leaf.cells.length - 1;
+        return { success: true, data: undefined };
+      }
+      current = position === "first" ? leaf.rightSibling : 0;
+    }
+
+    this.leaf = null;
+    return { success: true, data: undefined };
+  }
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * 下端を満たす最初のキーにカーソルを移動する (null なら先頭)
+ */
+function seekFirst<K extends BTreeKey>(cursor: BTreeCursor<K>, lower: KeyBound<K> | null): BTreeResult<void> {
+  return lower === null ? cursor.first() : cursor.seek(lower.key, lower.inclusive);
+}
+
+/**
+ * 上端を満たす最後のキーにカーソルを移動する (null なら末尾)
+ * 上端を超える最初のキーまで進めてから1つ戻る
+ */
+function seekLast<K extends BTreeKey>(cursor: BTreeCursor<K>, upper: KeyBound<K> | null): BTreeResult<void> {
+  if (upper === null) return cursor.last();
+
+  const seekResult = cursor.seek(upper.key, !upper.inclusive);
+  if (!seekResult.success) return seekResult;
+  return cursor.eof() ? cursor.last() : cursor.prev();
+}
+
+/** リーフ上の OverflowRef のバイト数 (型タグを除く) */
+const OVERFLOW_REF_SIZE = 8;
+
+function isOverflowRef(value: ColumnValue | OverflowRef): value is OverflowRef {
+  return typeof value === "object" && value !== null && "overflowPage" in value;
+}
+
+/** オーバーフローページに追い出せる値のバイト数 (TEXT / BLOB 以外は 0) */
+function payloadSize(value: ColumnValue | OverflowRef): number {
+  if (typeof value === "string") return Buffer.byteLength(value, "utf-8");
+  return value instanceof Uint8Array ? value.length : 0;
+}
+
+/**
+ * キーの大小を比較する (負: a < b, 0: 等しい, 正: a > b)
+ *
+ * composite キーは先頭の要素から順に比較し、一方が他方の先頭部分に
+ * 一致する場合は短いほうを小さいとする。値の順序は compareValues で決める。
+ */
+export function compareKeys(a: BTreeKey, b: BTreeKey): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+
+  const left = typeof a === "number" ? [a] : a;
+  const right = typeof b === "number" ? [b] : b;
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const cmp = compareValues(left[i], right[i]);
+    if (cmp !== 0) return cmp;
+  }
+  return left.length - right.length;
+}
+
+/**
+ * 値を1つ比較する
+ * 型の順序は NULL < 数値 (INTEGER / REAL / BIGINT / BOOLEAN) < 日付 < TEXT < BLOB。
+ * BOOLEAN は 0 / 1 として比べ、TEXT 同士は BINARY 照合、BLOB 同士はバイト列の辞書順で比べる
+ */
+export function compareValues(a: ColumnValue, b: ColumnValue): number {
+  if (valueRank(a) !== valueRank(b)) return valueRank(a) - valueRank(b);
+  if (a === null || b === null) return 0;
+  if (typeof a === "string") return compareText(a, b as string);
+  if (a instanceof Uint8Array) return Buffer.compare(a, b as Uint8Array);
+  if (a instanceof Date) return a.getTime() - (b as Date).getTime();
+
+  // number と bigint はそのまま < で比べられる
+  const x = typeof a === "boolean" ? Number(a) : (a as number | bigint);
+  const y = typeof b === "boolean" ? Number(b) : (b as number | bigint);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function valueRank(value: ColumnValue): number {
+  if (value === null) return 0;
+  if (typeof value === "string") return 3;
+  if (value instanceof Uint8Array) return 4;
+  if (value instanceof Date) return 2;
+  return 1;
+}
+
+/**
+ * rangeScan の端とキーを比較する (composite キーは端の要素数だけ比較する)
+ */
+function compareToBound(key: BTreeKey, bound: BTreeKey): number {
+  if (typeof key === "number" || typeof bound === "number") {
+    return compareKeys(key, bound);
+  }
+  return compareKeys(key.slice(0, bound.length), bound);
+}
+
+/** エラーメッセージ用のキー表記 */
+export function formatKey(key: BTreeKey): string {
+  if (typeof key === "number") return String(key);
+  return `(${key.map((v) => (typeof v === "string" ? `'${v}'` : formatValue(v))).join(", ")})`;
+}
+
+function internalBytes(keys: BTreeKey[], integerKeySize: number): number {
+  let total = 0;
+  for (const key of keys) {
+    total += encodedKeySize(key, integerKeySize) + CHILD_POINTER_SIZE;
+  }
+  return total;
+}
+
+function leafBytes(cells: LeafCell[], integerKeySize: number): number {
+  let total = 0;
+  for (const cell of cells) {
+    total += encodedCellSize(cell, integerKeySize);
+  }
+  return total;
+}
+
+/**
+ * 累積バイト数が全体の半分に達する位置 (少なくとも 1 セルずつ残す)
+ */
+function byteMiddle(cells: LeafCell[], integerKeySize: number): number {
+  const half = leafBytes(cells, integerKeySize) / 2;
+  let total = 0;
+  for (let i = 0; i < cells.length; i++) {
+    total += encodedCellSize(cells[i], integerKeySize);
+    if (total >= half) {
+      return Math.min(Math.max(i + 1, 1), cells.length - 1);
+    }
+  }
+  return cells.length - 1;
+}
+
+/**
+ * セルをリーフに書き込んだときのバイト数
+ */
+function encodedCellSize(cell: LeafCell, integerKeySize: number): number {
+  return encodedKeySize(cell.key, integerKeySize) + encodedValuesSize(cell.values);
+}
+
+function encodedKeySize(key: BTreeKey, integerKeySize: number): number {
+  return typeof key === "number" ? integerKeySize : encodedValuesSize(key);
+}
+
+function encodedValuesSize(values: (ColumnValue | OverflowRef)[]): number {
+  let size = 2; // valueCount
+  for (const value of values) {
+    size += 1; // 型タグ
+    if (typeof value === "number") {
+      size += isInt32(value) ? 4 : 8;
+    } else if (typeof value === "bigint") {
+      size += 8;
+    } else if (typeof value === "boolean") {
+      size += 1;
+    } else if (typeof value === "string" || value instanceof Uint8Array) {
+      size += 2 + payloadSize(value);
+    } else if (value instanceof CalendarDate) {
+      size += 4;
+    } else if (value instanceof Date) {
+      size += 8;
+    } else if (value !== null) {
+      size += OVERFLOW_REF_SIZE;
+    }
+  }
+  return size;
+}
+
+/**
+ * キーを書き込み、次のオフセットを返す
+ * (number なら i64 または旧形式の u32、配列なら composite 形式)
+ */
+function writeKey(page: Buffer, offset: number, key: BTreeKey, integerKeySize: number): number {
+  if (typeof key !== "number") {
+    return writeValues(page, offset, key);
+  }
+
+  if (integerKeySize === LEGACY_INTEGER_KEY_SIZE) {
+    page.writeUInt32LE(key, offset);
+  } else {
+    page.writeBigInt64LE(BigInt(key), offset);
+  }
+  return offset + integerKeySize;
+}
+
+/** i32 の形式 (0x01) で書ける数値か */
+function isInt32(value: number): boolean {
+  return Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff;
+}
+
+/** リーフセルの値の型タグ */
+const VALUE_TAG = {
+  NULL: 0x00,
+  INTEGER: 0x01,
+  TEXT: 0x02,
+  TEXT_OVERFLOW: 0x03,
+  INTEGER64: 0x04,
+  REAL: 0x05,
+  BIGINT: 0x06,
+  BOOLEAN: 0x07,
+  BLOB: 0x08,
+  BLOB_OVERFLOW: 0x09,
+  DATE: 0x0a,
+  TIMESTAMP: 0x0b,
+} as const;
+
+/**
+ * u16 の要素数 + 型タグ付きの値の並びを書き込み、次のオフセットを返す
+ */
+function writeValues(page: Buffer, offset: number, values: (ColumnValue | OverflowRef)[]): number {
+  page.writeUInt16LE(values.length, offset);
+  offset += 2;
+
+  for (const value of values) {
+    if (value === null) {
+      page.writeUInt8(VALUE_TAG.NULL, offset);
+      offset += 1;
+    } else if (typeof value === "number" && isInt32(value)) {
+      page.writeUInt8(VALUE_TAG.INTEGER, offset);
+      page.writeInt32LE(value, offset + 1);
+      offset += 5;
+    } else if (typeof value === "number" && Number.isSafeInteger(value)) {
+      page.writeUInt8(VALUE_TAG.INTEGER64, offset);
+      page.writeBigInt64LE(BigInt(value), offset + 1);
+      offset += 9;
+    } else if (typeof value === "number") {
+      page.writeUInt8(VALUE_TAG.REAL, offset);
+      page.writeDoubleLE(value, offset + 1);
+      offset += 9;
+    } else if (typeof value === "bigint") {
+      page.writeUInt8(VALUE_TAG.BIGINT, offset);
+      page.writeBigInt64LE(value, offset + 1);
+      offset += 9;
+    } else if (typeof value === "boolean") {
+      page.writeUInt8(VALUE_TAG.BOOLEAN, offset);
+      page.writeUInt8(value ? 1 : 0, offset + 1);
       offset += 2;
+    } else if (value instanceof CalendarDate) {
+      page.writeUInt8(VALUE_TAG.DATE, offset);
+      page.writeInt32LE(value.epochDays, offset + 1);
+      offset += 5;
+    } else if (value instanceof Date) {
+      page.writeUInt8(VALUE_TAG.TIMESTAMP, offset);
+      page.writeBigInt64LE(BigInt(value.getTime()), offset + 1);
+      offset += 9;
+    } else if (isOverflowRef(value)) {
+      page.writeUInt8(value.blob ? VALUE_TAG.BLOB_OVERFLOW : VALUE_TAG.TEXT_OVERFLOW, offset);
+      page.writeUInt32LE(value.length, offset + 1);
+      page.writeUInt32LE(value.overflowPage, offset + 5);
+      offset += 9;
+    } else {
+      const blob = value instanceof Uint8Array;
+      page.writeUInt8(blob ? VALUE_TAG.BLOB : VALUE_TAG.TEXT, offset);
+      const data = blob ? Buffer.from(value) : Buffer.from(value, "utf-8");
+      page.writeUInt16LE(data.length, offset + 1);
+      data.copy(page, offset + 3);
+      offset += 3 + data.length;
+    }
+  }
 
-      for (const value of cell.values) {
-        if (value === null) {
-          page.writeUInt8(0x00, offset);
-          offset += 1;
-        } else if (typeof value === "number") {
-          page.writeUInt8(0x01, offset);
-          offset += 1;
-          page.writeInt32LE(value, offset);
-          offset += 4;
-        } else {
-          page.writeUInt8(0x02, offset);
-          offset += 1;
-          const strBuf = Buffer.from(value, "utf-8");
-          page.writeUInt16LE(strBuf.length, offset);
-          offset += 2;
-          strBuf.copy(page, offset);
-          offset += strBuf.length;
-        }
+  return offset;
+}
+
+function readValues(page: Buffer, offset: number): { values: (ColumnValue | OverflowRef)[]; offset: number } {
+  const valueCount = page.readUInt16LE(offset);
+  offset += 2;
+
+  const values: (ColumnValue | OverflowRef)[] = [];
+  for (let j = 0; j < valueCount; j++) {
+    const typeTag = page.readUInt8(offset);
+    offset += 1;
+
+    switch (typeTag) {
+      case VALUE_TAG.NULL:
+        values.push(null);
+        break;
+      case VALUE_TAG.INTEGER:
+        values.push(page.readInt32LE(offset));
+        offset += 4;
+        break;
+      case VALUE_TAG.INTEGER64:
+        values.push(Number(page.readBigInt64LE(offset)));
+        offset += 8;
+        break;
+      case VALUE_TAG.REAL:
+        values.push(page.readDoubleLE(offset));
+        offset += 8;
+        break;
+      case VALUE_TAG.BIGINT:
+        values.push(page.readBigInt64LE(offset));
+        offset += 8;
+        break;
+      case VALUE_TAG.BOOLEAN:
+        values.push(page.readUInt8(offset) !== 0);
+        offset += 1;
+        break;
+      case VALUE_TAG.DATE:
+        values.push(CalendarDate.fromEpochDays(page.readInt32LE(offset)));
+        offset += 4;
+        break;
+      case VALUE_TAG.TIMESTAMP:
+        values.push(new Date(Number(page.readBigInt64LE(offset))));
+        offset += 8;
+        break;
+      case VALUE_TAG.TEXT:
+      case VALUE_TAG.BLOB: {
+        const length = page.readUInt16LE(offset);
+        offset += 2;
+        const end = offset + length;
+        // BLOB はページのバッファを共有しないように写し取る
+        const blob = typeTag === VALUE_TAG.BLOB;
+        values.push(blob ? new Uint8Array(page.subarray(offset, end)) : page.toString("utf-8", offset, end));
+        offset = end;
+        break;
       }
+      case VALUE_TAG.TEXT_OVERFLOW:
+      case VALUE_TAG.BLOB_OVERFLOW:
+        values.push({
+          length: page.readUInt32LE(offset),
+          overflowPage: page.readUInt32LE(offset + 4),
+          blob: typeTag === VALUE_TAG.BLOB_OVERFLOW,
+        });
+        offset += 8;
+        break;
     }
   }
+
+  return { values, offset };
 }
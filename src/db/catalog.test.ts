@@ -0,0 +1,169 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { Catalog, renderCreateTableSql } from "./catalog.ts";
+import { Pager, PAGE_TYPE } from "../storage/pager.ts";
+import { parse } from "../sql/parser.ts";
+import type { CreateTableStatement } from "../sql/parser.ts";
+import { unlinkSync, existsSync } from "node:fs";
+
+const TEST_DB = "/tmp/test_catalog.db";
+
+afterEach(() => {
+  if (existsSync(TEST_DB)) {
+    unlinkSync(TEST_DB);
+  }
+});
+
+function openPager(): Pager {
+  const result = Pager.open(TEST_DB);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+function openCatalog(pager: Pager): Catalog {
+  const result = Catalog.open(pager);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+/** 旧形式のスキーマページに users(id INTEGER PRIMARY KEY, name TEXT NOT NULL) を書く */
+function writeLegacySchemaPage(pager: Pager, rootPageNum: number): void {
+  const page = Buffer.alloc(pager.getPageSize(), 0);
+  let offset = 0;
+  page.writeUInt8(PAGE_TYPE.SCHEMA, offset++);
+  page.writeUInt16LE(1, offset);
+  offset += 2;
+
+  const writeString = (value: string) => {
+    page.writeUInt16LE(value.length, offset);
+    offset += 2;
+    offset += page.write(value, offset, "utf-8");
+  };
+
+  writeString("users");
+  page.writeUInt16LE(2, offset);
+  offset += 2;
+  writeString("id");
+  page.writeUInt8(0x01, offset++); // INTEGER
+  page.writeUInt8(0x01, offset++); // PRIMARY KEY
+  writeString("name");
+  page.writeUInt8(0x02, offset++); // TEXT
+  page.writeUInt8(0x02, offset++); // NOT NULL
+  page.writeUInt32LE(rootPageNum, offset);
+
+  pager.writePage(pager.getHeader().schemaPage, page);
+}
+
+// ============================================================
+// 登録と読み出し
+// ============================================================
+
+describe("Catalog", () => {
+  test("新規ファイルのスキーマページは空のカタログになる", () => {
+    const pager = openPager();
+    const catalog = openCatalog(pager);
+
+    const page = pager.readPage(pager.getHeader().schemaPage);
+    expect(page.success && page.data[0]).toBe(PAGE_TYPE.LEAF_NODE);
+    const listResult = catalog.list();
+    expect(listResult.success && listResult.data).toEqual([]);
+
+    pager.close();
+  });
+
+  test("add / setRootPage / remove", () => {
+    const pager = openPager();
+    const catalog = openCatalog(pager);
+
+    const addResult = catalog.add({ type: "table", name: "t", tblName: "t", rootPage: 5, sql: "CREATE TABLE t (a INTEGER)" });
+    expect(addResult.success).toBe(true);
+    if (!addResult.success) return;
+
+    expect(catalog.setRootPage(addResult.data, 9).success).toBe(true);
+    const listResult = catalog.list();
+    expect(listResult.success && listResult.data).toEqual([
+      { id: addResult.data, type: "table", name: "t", tblName: "t", rootPage: 9, sql: "CREATE TABLE t (a INTEGER)" },
+    ]);
+
+    expect(catalog.remove(addResult.data).success).toBe(true);
+    const afterRemove = catalog.list();
+    expect(afterRemove.success && afterRemove.data).toEqual([]);
+
+    pager.close();
+  });
+
+  test("1ページに収まらない数のオブジェクトを登録してもルートページは変わらない", () => {
+    const pager = openPager();
+    const catalog = openCatalog(pager);
+    const schemaPage = pager.getHeader().schemaPage;
+
+    const columns = Array.from({ length: 30 }, (_, i) => `column_with_a_long_name_${i} TEXT`).join(", ");
+    for (let i = 0; i < 100; i++) {
+      const addResult = catalog.add({
+        type: "table",
+        name: `table_${i}`,
+        tblName: `table_${i}`,
+        rootPage: 100 + i,
+        sql: `CREATE TABLE table_${i} (${columns})`,
+      });
+      expect(addResult.success).toBe(true);
+    }
+    expect(pager.getHeader().schemaPage).toBe(schemaPage);
+    pager.close();
+
+    const reopened = openPager();
+    const listResult = openCatalog(reopened).list();
+    expect(listResult.success).toBe(true);
+    if (listResult.success) {
+      expect(listResult.data).toHaveLength(100);
+      expect(listResult.data[99].name).toBe("table_99");
+    }
+    reopened.close();
+  });
+
+  test("旧形式のスキーマページは B+Tree に移行される", () => {
+    const pager = openPager();
+    writeLegacySchemaPage(pager, 7);
+
+    const catalog = openCatalog(pager);
+    const listResult = catalog.list();
+    expect(listResult.success).toBe(true);
+    if (!listResult.success) return;
+
+    expect(listResult.data).toHaveLength(1);
+    const entry = listResult.data[0];
+    expect(entry.name).toBe("users");
+    expect(entry.rootPage).toBe(7);
+    expect(entry.sql).toBe("CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)");
+
+    pager.close();
+  });
+});
+
+describe("renderCreateTableSql", () => {
+  test("組み立てた SQL を解析すると同じカラム定義になる", () => {
+    const parsed = parse("CREATE TABLE t (id INTEGER PRIMARY KEY, email TEXT NOT NULL UNIQUE, note TEXT);");
+    if (!parsed.success) throw new Error(parsed.error);
+    const stmt = parsed.statement as CreateTableStatement;
+
+    const reparsed = parse(renderCreateTableSql(stmt.tableName, stmt.columns));
+    expect(reparsed.success).toBe(true);
+    if (reparsed.success) {
+      expect((reparsed.statement as CreateTableStatement).columns).toEqual(stmt.columns);
+    }
+  });
+
+  test("DEFAULT と CHECK も SQL に書き戻す", () => {
+    const parsed = parse(
+      "CREATE TABLE t (a INTEGER DEFAULT -1 CHECK (a > 0), b REAL DEFAULT (1 + 2), " +
+        "c TIMESTAMP DEFAULT CURRENT_TIMESTAMP, UNIQUE (a, b), CHECK (a < b));",
+    );
+    if (!parsed.success) throw new Error(parsed.error);
+    const stmt = parsed.statement as CreateTableStatement;
+
+    const sql = renderCreateTableSql(stmt.tableName, stmt.columns, stmt.tableConstraints);
+    expect(sql).toBe(
+      "CREATE TABLE t (a INTEGER DEFAULT -1 CHECK (a > 0), b REAL DEFAULT (1 + 2), " +
+        "c TIMESTAMP DEFAULT CURRENT_TIMESTAMP, UNIQUE (a, b), CHECK (a < b))",
+    );
+  });
+});
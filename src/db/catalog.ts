@@ -0,0 +1,252 @@
+import { PAGE_TYPE } from "../storage/pager.ts";
+import type { Pager } from "../storage/pager.ts";
+import { BTree } from "./btree.ts";
+import type { BTreeOptions, BTreeResult } from "./btree.ts";
+import { renderExpression } from "../sql/parser.ts";
+import type { ColumnDef, Expression, TableConstraint } from "../sql/parser.ts";
+
+// ============================================================
+// スキーマカタログ (sqlight_schema)
+//
+// テーブルなどのオブジェクト定義を、ヘッダーの schemaPage をルートとする
+// 通常の B+Tree に1オブジェクト1行で保存する (SQLite の sqlite_master 相当)。
+// ルートページ番号は固定 (fixedRoot) なので、ヘッダーを書き換える必要はない。
+//
+// 行の形式: キー = 連番, 値 = [type, name, tbl_name, rootpage, sql]
+// ============================================================
+
+export const SCHEMA_TABLE_NAME = "sqlight_schema";
+
+/** SELECT * FROM sqlight_schema で見えるカラム */
+export const SCHEMA_TABLE_COLUMNS: ColumnDef[] = [
+  { name: "type", type: "TEXT", constraints: [] },
+  { name: "name", type: "TEXT", constraints: [] },
+  { name: "tbl_name", type: "TEXT", constraints: [] },
+  { name: "rootpage", type: "INTEGER", constraints: [] },
+  { name: "sql", type: "TEXT", constraints: [] },
+];
+
+export type CatalogObjectType = "table" | "index" | "view";
+
+export type CatalogEntry = {
+  id: number; // カタログ B+Tree 上のキー
+  type: CatalogObjectType;
+  name: string;
+  tblName: string; // 対象テーブル名 (テーブル自身ならその名前)
+  rootPage: number;
+  sql: string; // 元の CREATE 文
+};
+
+export class Catalog {
+  private tree: BTree;
+
+  private constructor(tree: BTree) {
+    this.tree = tree;
+  }
+
+  /**
+   * schemaPage のカタログを開く
+   *
+   * schemaPage が旧形式のスキーマページ (1ページにバイナリで詰めたもの)
+   * なら、その場で B+Tree に作り直して各テーブルを行として移す
+   */
+  static open(pager: Pager, options: BTreeOptions = {}): BTreeResult<Catalog> {
+    const schemaPage = pager.getHeader().schemaPage;
+    const treeOptions: BTreeOptions = { ...options, fixedRoot: true };
+
+    const readResult = pager.readPage(schemaPage);
+    if (!readResult.success) return readResult;
+
+    if (readResult.data.readUInt8(0) !== PAGE_TYPE.SCHEMA) {
+      return { success: true, data: new Catalog(BTree.open(pager, schemaPage, treeOptions)) };
+    }
+
+    const legacyTables = readLegacySchemaPage(readResult.data);
+    const treeResult = BTree.initialize(pager, schemaPage, treeOptions);
+    if (!treeResult.success) return treeResult;
+
+    const catalog = new Catalog(treeResult.data);
+    for (const table of legacyTables) {
+      const addResult = catalog.add({
+        type: "table",
+        name: table.name,
+        tblName: table.name,
+        rootPage: table.rootPageNum,
+        sql: renderCreateTableSql(table.name, table.columns),
+      });
+      if (!addResult.success) return addResult;
+    }
+
+    return { success: true, data: catalog };
+  }
+
+  /**
+   * カタログ本体の B+Tree (sqlight_schema テーブルとして読み出すのに使う)
+   */
+  getTree(): BTree {
+    return this.tree;
+  }
+
+  list(): BTreeResult<CatalogEntry[]> {
+    const scanResult = this.tree.scan();
+    if (!scanResult.success) return scanResult;
+
+    return {
+      success: true,
+      data: scanResult.data.map(({ key, values }) => ({
+        id: key,
+        type: values[0] as CatalogObjectType,
+        name: values[1] as string,
+        tblName: values[2] as string,
+        rootPage: values[3] as number,
+        sql: values[4] as string,
+      })),
+    };
+  }
+
+  /**
+   * オブジェクトを登録し、割り当てたキーを返す
+   */
+  add(entry: Omit<CatalogEntry, "id">): BTreeResult<number> {
+    const scanResult = this.tree.scan();
+    if (!scanResult.success) return scanResult;
+
+    const id = scanResult.data.reduce((max, record) => Math.max(max, record.key), 0) + 1;
+    const insertResult = this.tree.insert({ key: id, values: toValues(entry) });
+    if (!insertResult.success) return insertResult;
+
+    return { success: true, data: id };
+  }
+
+  setRootPage(id: number, rootPage: number): BTreeResult<void> {
+    const searchResult = this.tree.search(id);
+    if (!searchResult.success) return searchResult;
+    if (searchResult.data === null) {
+      return { success: false, error: `Catalog entry ${id} not found` };
+    }
+
+    const values = [...searchResult.data.values];
+    values[3] = rootPage;
+    return this.tree.update(id, { key: id, values });
+  }
+
+  remove(id: number): BTreeResult<void> {
+    return this.tree.delete(id);
+  }
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+function toValues(entry: Omit<CatalogEntry, "id">): (string | number)[] {
+  return [entry.type, entry.name, entry.tblName, entry.rootPage, entry.sql];
+}
+
+/**
+ * カラム定義から CREATE TABLE 文を組み立てる (元の SQL がない場合に使う)
+ */
+export function renderCreateTableSql(
+  tableName: string,
+  columns: ColumnDef[],
+  tableConstraints: TableConstraint[] = [],
+): string {
+  const columnSqls = columns.map((col) => {
+    const parts = [col.name, col.type];
+    if (col.constraints.includes("PRIMARY_KEY")) parts.push("PRIMARY KEY");
+    if (col.constraints.includes("NOT_NULL")) parts.push("NOT NULL");
+    if (col.constraints.includes("UNIQUE")) parts.push("UNIQUE");
+    if (col.defaultValue) parts.push(`DEFAULT ${renderDefault(col.defaultValue)}`);
+    if (col.check) parts.push(`CHECK (${renderExpression(col.check)})`);
+    return parts.join(" ");
+  });
+  const constraintSqls = tableConstraints.map((constraint) => {
+    if (constraint.type === "CHECK") return `CHECK (${renderExpression(constraint.expression)})`;
+    return `${constraint.type === "UNIQUE" ? "UNIQUE" : "PRIMARY KEY"} (${constraint.columns.join(", ")})`;
+  });
+  return `CREATE TABLE ${tableName} (${[...columnSqls, ...constraintSqls].join(", ")})`;
+}
+
+/** リテラルと CURRENT_TIMESTAMP 以外の DEFAULT の式は括弧で包む */
+function renderDefault(expr: Expression): string {
+  const sql = renderExpression(expr);
+  const bare = expr.type === "LITERAL" || (expr.type === "FUNCTION" && expr.name === "CURRENT_TIMESTAMP");
+  return bare ? sql : `(${sql})`;
+}
+
+/**
+ * インデックス定義から CREATE INDEX 文を組み立てる (元の SQL がない場合に使う)
+ */
+export function renderCreateIndexSql(indexName: string, tableName: string, columns: string[], unique: boolean): string {
+  return `CREATE ${unique ? "UNIQUE " : ""}INDEX ${indexName} ON ${tableName} (${columns.join(", ")})`;
+}
+
+// ============================================================
+// 旧形式のスキーマページ (読み込みのみ)
+//
+// [0]      u8   ページタイプ (0x01 = Schema)
+// [1..2]   u16  テーブル数
+// [3..]    テーブルエントリの配列:
+//   - テーブル名: u16(長さ) + UTF-8
+//   - カラム数: u16
+//   - カラム定義の配列:
+//     - カラム名: u16(長さ) + UTF-8
+//     - 型: u8 (0x01=INTEGER, 0x02=TEXT)
+//     - 制約フラグ: u8 (bit0=PRIMARY_KEY, bit1=NOT_NULL, bit2=UNIQUE)
+//   - ルートページ番号: u32
+// ============================================================
+
+const LEGACY_COLUMN_TYPES: { [key: number]: "INTEGER" | "TEXT" } = {
+  0x01: "INTEGER",
+  0x02: "TEXT",
+};
+
+function readLegacySchemaPage(page: Buffer): { name: string; columns: ColumnDef[]; rootPageNum: number }[] {
+  const tables: { name: string; columns: ColumnDef[]; rootPageNum: number }[] = [];
+  const tableCount = page.readUInt16LE(1);
+  let offset = 3;
+
+  for (let i = 0; i < tableCount; i++) {
+    // テーブル名
+    const nameLen = page.readUInt16LE(offset);
+    offset += 2;
+    const name = page.toString("utf-8", offset, offset + nameLen);
+    offset += nameLen;
+
+    // カラム数
+    const colCount = page.readUInt16LE(offset);
+    offset += 2;
+
+    const columns: ColumnDef[] = [];
+    for (let j = 0; j < colCount; j++) {
+      // カラム名
+      const colNameLen = page.readUInt16LE(offset);
+      offset += 2;
+      const colName = page.toString("utf-8", offset, offset + colNameLen);
+      offset += colNameLen;
+
+      // 型
+      const typeTag = page.readUInt8(offset);
+      offset += 1;
+      const colType = LEGACY_COLUMN_TYPES[typeTag] ?? "TEXT";
+
+      // 制約フラグ
+      const constraintFlags = page.readUInt8(offset);
+      offset += 1;
+      const constraints: ColumnDef["constraints"] = [];
+      if (constraintFlags & 0x01) constraints.push("PRIMARY_KEY");
+      if (constraintFlags & 0x02) constraints.push("NOT_NULL");
+      if (constraintFlags & 0x04) constraints.push("UNIQUE");
+
+      columns.push({ name: colName, type: colType, constraints });
+    }
+
+    // ルートページ番号
+    const rootPageNum = page.readUInt32LE(offset);
+    offset += 4;
+
+    tables.push({ name, columns, rootPageNum });
+  }
+
+  return tables;
+}
@@ -0,0 +1,32 @@
+// ============================================================
+// 照合順序 (collation)
+//
+// TEXT の大小は BINARY 照合で決める: Unicode のコードポイント順
+// (= UTF-8 のバイト列を先頭から比べた順)。JS の < は UTF-16 の
+// コード単位で比べるため、サロゲートペア (U+10000 以上) と
+// U+E000..U+FFFF の順序が逆になる。B+Tree のキーの並びと WHERE の
+// 比較が食い違わないよう、TEXT の比較はすべてこの関数を通す。
+// ============================================================
+
+/**
+ * TEXT を BINARY 照合で比較する (負: a < b, 0: 等しい, 正: a > b)
+ */
+export function compareText(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const ca = a.charCodeAt(i);
+    const cb = b.charCodeAt(i);
+    if (ca !== cb) return codePointOrder(ca) - codePointOrder(cb);
+  }
+  return a.length - b.length;
+}
+
+/**
+ * UTF-16 のコード単位を、コードポイント順に並ぶ値に写す
+ * サロゲート (0xD800..0xDFFF) を 0xFFFF より後ろへ、0xE000..0xFFFF を前へずらす
+ */
+function codePointOrder(codeUnit: number): number {
+  if (codeUnit >= 0xd800 && codeUnit <= 0xdfff) return codeUnit + 0x2000;
+  if (codeUnit >= 0xe000) return codeUnit - 0x800;
+  return codeUnit;
+}
@@ -1,13 +1,20 @@
 import { describe, test, expect, afterEach } from "bun:test";
 import { Database } from "./database.ts";
 import { parse } from "../sql/parser.ts";
-import { unlinkSync, existsSync } from "node:fs";
+import { unlinkSync, existsSync, statSync, copyFileSync } from "node:fs";
+import { Pager } from "../storage/pager.ts";
+import { BTree, TEACHING_BTREE_OPTIONS } from "./btree.ts";
 
 const TEST_DB = "/tmp/test_database.db";
+const CRASH_DB = "/tmp/test_database_crash.db";
 
 afterEach(() => {
-  if (existsSync(TEST_DB)) {
-    unlinkSync(TEST_DB);
+  for (const db of [TEST_DB, CRASH_DB]) {
+    for (const path of [db, `${db}-journal`, `${db}-wal`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
   }
 });
 
@@ -24,6 +31,25 @@ function openDb(): Database {
   return result.db;
 }
 
+/** users (id, name = 'User<id>', age) に count 行を入れる */
+function createUsers(db: Database, count: number): void {
+  exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER);");
+  exec(db, "BEGIN;");
+  for (let i = 1; i <= count; i++) {
+    exec(db, `INSERT INTO users (id, name, age) VALUES (${i}, 'User${i}', ${20 + (i % 30)});`);
+  }
+  exec(db, "COMMIT;");
+}
+
+/** 開き直した直後に1文を実行し、その間に読んだページ数を返す */
+function pageReads(sql: string) {
+  const db = openDb();
+  const result = exec(db, sql);
+  const stats = db.getCacheStats();
+  db.close();
+  return { result, reads: stats.hits + stats.misses };
+}
+
 // ============================================================
 // CREATE TABLE
 // ============================================================
@@ -259,61 +285,2437 @@ describe("SELECT", () => {
 });
 
 // ============================================================
-// 永続化 (DB再起動)
+// WHERE の式
 // ============================================================
 
-describe("永続化", () => {
-  test("DB再起動後もデータが残る", () => {
-    // データを書き込んで閉じる
-    const db1 = openDb();
-    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
-    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
-    exec(db1, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
-    db1.close();
+describe("WHERE の式", () => {
+  /** id 1〜5 のうち 2 と 4 の nickname を NULL にしたテーブル */
+  function createMembers(db: Database): void {
+    exec(db, "CREATE TABLE members (id INTEGER PRIMARY KEY, nickname TEXT, age INTEGER);");
+    exec(db, "INSERT INTO members (id, nickname, age) VALUES (1, 'ann', 20);");
+    exec(db, "INSERT INTO members (id, age) VALUES (2, 30);");
+    exec(db, "INSERT INTO members (id, nickname, age) VALUES (3, 'bob', 40);");
+    exec(db, "INSERT INTO members (id, age) VALUES (4, 50);");
+    exec(db, "INSERT INTO members (id, nickname, age) VALUES (5, 'cat', 60);");
+  }
 
-    // 再オープン
-    const db2 = openDb();
-    const result = exec(db2, "SELECT * FROM users;");
-    expect(result.success).toBe(true);
-    if (!result.success) return;
+  function idsOf(db: Database, sql: string) {
+    const result = exec(db, sql);
+    if (!result.success) throw new Error(result.error);
+    return result.records!.map((r) => r.id);
+  }
 
-    expect(result.records).toHaveLength(2);
-    expect(result.records![0]).toEqual({ id: 1, name: "Alice" });
-    expect(result.records![1]).toEqual({ id: 2, name: "Bob" });
-    db2.close();
+  test("OR / NOT / 括弧を組み合わせられる", () => {
+    const db = openDb();
+    createMembers(db);
+
+    expect(idsOf(db, "SELECT id FROM members WHERE id = 1 OR id = 5;")).toEqual([1, 5]);
+    expect(idsOf(db, "SELECT id FROM members WHERE age < 30 OR age > 40 AND id != 5;")).toEqual([1, 4]);
+    expect(idsOf(db, "SELECT id FROM members WHERE (age < 30 OR age > 40) AND id != 5;")).toEqual([1, 4]);
+    expect(idsOf(db, "SELECT id FROM members WHERE NOT (id = 1 OR id = 2) AND age <= 50;")).toEqual([3, 4]);
+    expect(idsOf(db, "SELECT id FROM members WHERE id > 1 AND id < 4;")).toEqual([2, 3]);
+    db.close();
   });
 
-  test("DB再起動後もスキーマ(複数テーブル)が残る", () => {
+  test("NULL との比較は UNKNOWN になり、NOT しても一致しない", () => {
+    const db = openDb();
+    createMembers(db);
+
+    expect(idsOf(db, "SELECT id FROM members WHERE nickname = 'ann';")).toEqual([1]);
+    expect(idsOf(db, "SELECT id FROM members WHERE nickname != 'ann';")).toEqual([3, 5]);
+    expect(idsOf(db, "SELECT id FROM members WHERE NOT (nickname = 'ann');")).toEqual([3, 5]);
+    // UNKNOWN OR 真 = 真、UNKNOWN AND 偽 = 偽 (NOT で真になる)
+    expect(idsOf(db, "SELECT id FROM members WHERE nickname = 'x' OR id = 2;")).toEqual([2]);
+    expect(idsOf(db, "SELECT id FROM members WHERE NOT (nickname = 'x' AND id = 9);")).toEqual([1, 2, 3, 4, 5]);
+    // UNKNOWN AND 真 = UNKNOWN なので NOT しても一致しない
+    expect(idsOf(db, "SELECT id FROM members WHERE NOT (nickname = 'x' AND id = 2);")).toEqual([1, 3, 4, 5]);
+    db.close();
+  });
+
+  test("IS [NOT] NULL と IS [NOT] DISTINCT FROM は NULL を値として比べ、UNKNOWN にならない", () => {
+    const db = openDb();
+    createMembers(db);
+
+    expect(idsOf(db, "SELECT id FROM members WHERE nickname IS NULL;")).toEqual([2, 4]);
+    expect(idsOf(db, "SELECT id FROM members WHERE NOT nickname IS NOT NULL OR id = 1;")).toEqual([1, 2, 4]);
+    expect(idsOf(db, "SELECT id FROM members WHERE nickname IS DISTINCT FROM 'ann';")).toEqual([2, 3, 4, 5]);
+    expect(idsOf(db, "SELECT id FROM members WHERE nickname IS NOT DISTINCT FROM NULL;")).toEqual([2, 4]);
+    // = NULL はどの行にも一致せず、NOT しても UNKNOWN のまま
+    expect(idsOf(db, "SELECT id FROM members WHERE nickname = NULL OR NOT (id = NULL);")).toEqual([]);
+
+    const result = exec(db, "SELECT id, nickname IS NULL AS missing, NULL AS nothing FROM members WHERE id <= 2;");
+    expect(result.success && result.records).toEqual([
+      { id: 1, missing: 0, nothing: null },
+      { id: 2, missing: 1, nothing: null },
+    ]);
+    db.close();
+  });
+
+  test("INSERT / UPDATE に NULL を書け、NOT NULL のカラムではエラー", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, age INTEGER, email TEXT UNIQUE);");
+
+    expect(exec(db, "INSERT INTO users (id, name, age, email) VALUES (1, 'Alice', NULL, NULL);").success).toBe(true);
+    expect(exec(db, "INSERT INTO users (id, name, age, email) VALUES (2, 'Bob', 30, NULL);").success).toBe(true);
+    expect(exec(db, "INSERT INTO users (id, name) VALUES (3, NULL);")).toEqual({
+      success: false,
+      error: "Column 'name' cannot be null",
+    });
+    expect(exec(db, "UPDATE users SET age = NULL WHERE age IS NOT NULL;")).toEqual({
+      success: true,
+      message: "1 row(s) updated",
+    });
+    expect(exec(db, "UPDATE users SET name = NULL;").success).toBe(false);
+    expect(idsOf(db, "SELECT id FROM users WHERE age IS NULL AND email IS NULL;")).toEqual([1, 2]);
+    db.close();
+  });
+
+  test("UPDATE / DELETE でも式で対象を選べる", () => {
+    const db = openDb();
+    createMembers(db);
+
+    const updated = exec(db, "UPDATE members SET age = 0 WHERE id = 1 OR NOT (age < 50);");
+    expect(updated.success && updated.message).toBe("3 row(s) updated");
+    expect(idsOf(db, "SELECT id FROM members WHERE age = 0;")).toEqual([1, 4, 5]);
+
+    const deleted = exec(db, "DELETE FROM members WHERE age = 0 AND (id = 4 OR id = 5);");
+    expect(deleted.success && deleted.message).toBe("2 row(s) deleted");
+    expect(idsOf(db, "SELECT id FROM members;")).toEqual([1, 2, 3]);
+    db.close();
+  });
+
+  test("WHERE に存在しないカラムがあるとエラー", () => {
+    const db = openDb();
+    createMembers(db);
+
+    for (const sql of [
+      "SELECT * FROM members WHERE id = 1 OR email = 'a';",
+      "UPDATE members SET age = 1 WHERE NOT email = 'a';",
+      "DELETE FROM members WHERE (email = 'a');",
+    ]) {
+      const result = exec(db, sql);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toBe("Column 'email' does not exist in table 'members'");
+    }
+    db.close();
+  });
+});
+
+// ============================================================
+// 算術演算・組み込み関数・CASE
+// ============================================================
+
+describe("算術演算・組み込み関数・CASE", () => {
+  /** id 1〜5 のうち 2 と 4 の nickname を NULL にしたテーブル */
+  function createMembers(db: Database): void {
+    exec(db, "CREATE TABLE members (id INTEGER PRIMARY KEY, nickname TEXT, age INTEGER);");
+    exec(db, "INSERT INTO members (id, nickname, age) VALUES (1, 'ann', 20);");
+    exec(db, "INSERT INTO members (id, age) VALUES (2, 30);");
+    exec(db, "INSERT INTO members (id, nickname, age) VALUES (3, 'bob', 40);");
+    exec(db, "INSERT INTO members (id, age) VALUES (4, 50);");
+    exec(db, "INSERT INTO members (id, nickname, age) VALUES (5, 'cat', 60);");
+  }
+
+  function select(db: Database, sql: string) {
+    const result = exec(db, sql);
+    if (!result.success) throw new Error(result.error);
+    return result.records;
+  }
+
+  test("SELECT の式を計算し、別名をカラム名にする", () => {
+    const db = openDb();
+    createMembers(db);
+
+    const sql = "SELECT id, age * 2 + 1 AS x, UPPER(nickname) || '!' shout, COALESCE(nickname, '-') FROM members";
+    expect(select(db, `${sql} WHERE id <= 2;`)).toEqual([
+      { id: 1, x: 41, shout: "ANN!", "COALESCE(nickname, '-')": "ann" },
+      { id: 2, x: 61, shout: null, "COALESCE(nickname, '-')": "-" },
+    ]);
+    expect(select(db, "SELECT -age / 7, SUBSTR(nickname, 2) FROM members WHERE id = 3;")).toEqual([
+      { "-age / 7": -5, "SUBSTR(nickname, 2)": "ob" },
+    ]);
+    db.close();
+  });
+
+  test("REAL のカラムや小数のリテラルを含む / は、値が整数でも切り捨てない", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE m (id INTEGER PRIMARY KEY, r REAL, n INTEGER);");
+    exec(db, "INSERT INTO m (id, r, n) VALUES (1, 7, 7);");
+    exec(db, "INSERT INTO m (id, r, n) VALUES (2, 8, 8);");
+
+    expect(select(db, "SELECT 7.0 / 2, 7 / 2.0, 7 / 2, 1e1 / 4 FROM m WHERE id = 1;")).toEqual([
+      { "7.0 / 2": 3.5, "7 / 2.0": 3.5, "7 / 2": 3, "10.0 / 4": 2.5 },
+    ]);
+    expect(select(db, "SELECT r / 2 AS a, n / 2 AS b, -r / 2 AS c, (n + r) / 4 AS d FROM m WHERE id = 1;")).toEqual([
+      { a: 3.5, b: 3, c: -3.5, d: 3.5 },
+    ]);
+    expect(select(db, "SELECT id FROM m WHERE r / 2 = 3.5;")).toEqual([{ id: 1 }]);
+    expect(select(db, "SELECT SUM(r) / 4 AS s, SUM(n) / 4 AS t, AVG(n) / 2 AS u FROM m;")).toEqual([
+      { s: 3.75, t: 3, u: 3.75 },
+    ]);
+
+    exec(db, "UPDATE m SET n = r / 2 * 2, r = r / 2 WHERE id = 1;");
+    expect(select(db, "SELECT r, n FROM m WHERE id = 1;")).toEqual([{ r: 3.5, n: 7 }]);
+    db.close();
+  });
+
+  test("WHERE で関数と算術演算を使い、ORDER BY で別名を参照できる", () => {
+    const db = openDb();
+    createMembers(db);
+
+    const sql = "SELECT id, age % 40 AS r FROM members WHERE LENGTH(nickname) = 3 AND age / 20 >= 1";
+    expect(select(db, `${sql} ORDER BY r DESC, id;`)).toEqual([
+      { id: 1, r: 20 },
+      { id: 5, r: 20 },
+      { id: 3, r: 0 },
+    ]);
+    // 別名はテーブルのカラムより優先する
+    expect(select(db, "SELECT id, -id AS age FROM members WHERE id < 4 ORDER BY age;")).toEqual([
+      { id: 3, age: -3 },
+      { id: 2, age: -2 },
+      { id: 1, age: -1 },
+    ]);
+    db.close();
+  });
+
+  test("CASE は最初に一致した WHEN の値を返し、一致しなければ ELSE か NULL", () => {
+    const db = openDb();
+    createMembers(db);
+
+    const simple = select(db, "SELECT CASE nickname WHEN 'ann' THEN 1 WHEN 'bob' THEN 2 END AS c FROM members;");
+    expect(simple!.map((r) => r.c)).toEqual([1, null, 2, null, null]);
+
+    const searched = select(db, "SELECT id FROM members WHERE CASE WHEN age > 45 THEN 0 ELSE 1 END = 1;");
+    expect(searched!.map((r) => r.id)).toEqual([1, 2, 3]);
+    db.close();
+  });
+
+  test("GROUP BY と集約関数の結果にも式を使える", () => {
+    const db = openDb();
+    createMembers(db);
+
+    const band = "CASE WHEN age < 40 THEN 'young' ELSE 'old' END";
+    const grouped = `SELECT ${band} AS band, COUNT(*) AS n FROM members GROUP BY ${band} ORDER BY n DESC;`;
+    expect(select(db, grouped)).toEqual([
+      { band: "old", n: 3 },
+      { band: "young", n: 2 },
+    ]);
+    expect(select(db, "SELECT SUM(age) / COUNT(*) AS average, MAX(age) - MIN(age) AS spread FROM members;")).toEqual([
+      { average: 40, spread: 40 },
+    ]);
+
+    const ungrouped = exec(db, "SELECT UPPER(nickname), COUNT(*) FROM members GROUP BY age;");
+    expect(ungrouped.success).toBe(false);
+    if (!ungrouped.success) {
+      expect(ungrouped.error).toBe("Column 'nickname' must appear in GROUP BY or be used in an aggregate function");
+    }
+    const missing = exec(db, "SELECT ABS(email) FROM members;");
+    expect(missing.success).toBe(false);
+    if (!missing.success) expect(missing.error).toBe("Column 'email' does not exist in table 'members'");
+    db.close();
+  });
+});
+
+// ============================================================
+// カラムの型
+// ============================================================
+
+describe("カラムの型", () => {
+  const COLUMNS = "id INTEGER PRIMARY KEY, big BIGINT, price REAL, ok BOOLEAN, data BLOB, day DATE, at TIMESTAMP";
+
+  function select(db: Database, sql: string) {
+    const result = exec(db, sql);
+    if (!result.success) throw new Error(result.error);
+    return result.records;
+  }
+
+  test("値をカラムの型に変換して書き込み、開き直しても同じ型で読める", () => {
+    let db = openDb();
+    exec(db, `CREATE TABLE items (${COLUMNS});`);
+    const values = "'7', 9223372036854775807, 3, 1, X'00FF', '2024-01-15T23:30:00-01:00', '2024-01-15 09:30:00+09:00'";
+    expect(exec(db, `INSERT INTO items (id, big, price, ok, data, day, at) VALUES (${values});`).success).toBe(true);
+    exec(db, `UPDATE items SET data = X'${"AB".repeat(5000)}', ok = 'false' WHERE id = 7;`);
+    db.close();
+
+    db = openDb();
+    const [row] = select(db, "SELECT * FROM items;")!;
+    expect(row).toEqual({
+      id: 7,
+      big: 2n ** 63n - 1n,
+      price: 3,
+      ok: false,
+      data: new Uint8Array(5000).fill(0xab),
+      day: new Date("2024-01-16T00:00:00Z"),
+      at: new Date("2024-01-15T00:30:00Z"),
+    });
+    expect(String(row.day)).toBe("2024-01-16");
+    db.close();
+  });
+
+  test("カラムの型に変換できない値はエラー", () => {
+    const db = openDb();
+    exec(db, `CREATE TABLE items (${COLUMNS});`);
+
+    for (const [column, value] of [
+      ["id", "1.5"],
+      ["big", "9223372036854775808"],
+      ["ok", "'yes'"],
+      ["data", "'00FF'"],
+      ["day", "'2023-02-29'"],
+      ["at", "1700000000"],
+    ]) {
+      const result = exec(db, `INSERT INTO items (id, ${column}) VALUES (1, ${value});`);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toStartWith("Invalid ");
+    }
+    exec(db, "INSERT INTO items (id) VALUES (1);");
+    const update = exec(db, "UPDATE items SET price = 'abc';");
+    expect(update).toEqual({ success: false, error: "Invalid REAL value for column 'price': abc" });
+    db.close();
+  });
+
+  test("日付は ISO-8601 の TEXT と比べられ、インデックスの範囲と ORDER BY にも使える", () => {
     const db1 = openDb();
-    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
-    exec(db1, "CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);");
-    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
-    exec(db1, "INSERT INTO posts (id, title) VALUES (1, 'Hello');");
+    exec(db1, "CREATE TABLE events (id INTEGER PRIMARY KEY, day DATE, ok BOOLEAN, big BIGINT);");
+    exec(db1, "CREATE INDEX events_day ON events (day);");
+    exec(db1, "BEGIN;");
+    for (let i = 1; i <= 300; i++) {
+      const day = new Date(Date.UTC(2024, 0, i)).toISOString().slice(0, 10);
+      exec(db1, `INSERT INTO events (id, day, ok, big) VALUES (${i}, '${day}', ${i % 2 === 0}, ${i}000000000000);`);
+    }
+    exec(db1, "COMMIT;");
     db1.close();
 
-    const db2 = openDb();
-    const usersResult = exec(db2, "SELECT * FROM users;");
-    const postsResult = exec(db2, "SELECT * FROM posts;");
-    expect(usersResult.success).toBe(true);
-    expect(postsResult.success).toBe(true);
-    if (usersResult.success) expect(usersResult.records).toHaveLength(1);
-    if (postsResult.success) expect(postsResult.records).toHaveLength(1);
-    db2.close();
+    const result = Database.open(TEST_DB, { sort: { memoryBudget: 4 * 1024 } });
+    if (!result.success) throw new Error(result.error);
+    const db = result.db!;
+
+    const range = "FROM events WHERE day >= '2024-02-28' AND day < '2024-03-02T12:00:00Z'";
+    expect(select(db, `EXPLAIN QUERY PLAN SELECT id ${range};`)!.map((r) => r.detail)).toEqual([
+      "SEARCH events USING INDEX events_day (day>=? AND day<?)",
+    ]);
+    expect(select(db, `SELECT id, day || '' AS d ${range};`)).toEqual([
+      { id: 59, d: "2024-02-28" },
+      { id: 60, d: "2024-02-29" },
+      { id: 61, d: "2024-03-01" },
+    ]);
+
+    const sorted = select(db, "SELECT id FROM events WHERE ok ORDER BY day DESC;")!;
+    expect(sorted.map((r) => r.id)).toEqual(Array.from({ length: 150 }, (_, i) => 300 - 2 * i));
+    const totals = "SELECT SUM(big) AS total, MAX(big) - 1 AS almost FROM events WHERE day < '2024-01-03';";
+    expect(select(db, totals)).toEqual([{ total: 3000000000000n, almost: 1999999999999n }]);
+    db.close();
   });
+});
 
-  test("DB再起動後にデータ追加できる", () => {
+// ============================================================
+// ORDER BY / LIMIT / OFFSET
+// ============================================================
+
+describe("ORDER BY / LIMIT / OFFSET", () => {
+  function rowsOf(db: Database, sql: string) {
+    const result = exec(db, sql);
+    if (!result.success) throw new Error(result.error);
+    return result.records!;
+  }
+
+  test("複数カラム・ASC / DESC で並べ替え、NULL は最小として扱う", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE pets (id INTEGER PRIMARY KEY, kind TEXT, age INTEGER);");
+    exec(db, "INSERT INTO pets (id, kind, age) VALUES (1, 'dog', 3);");
+    exec(db, "INSERT INTO pets (id, kind, age) VALUES (2, 'cat', 5);");
+    exec(db, "INSERT INTO pets (id, kind) VALUES (3, 'dog');");
+    exec(db, "INSERT INTO pets (id, kind, age) VALUES (4, 'cat', 1);");
+    exec(db, "INSERT INTO pets (id, age) VALUES (5, 2);");
+
+    const idsOf = (sql: string) => rowsOf(db, sql).map((r) => r.id);
+    expect(idsOf("SELECT id FROM pets ORDER BY age;")).toEqual([3, 4, 5, 1, 2]);
+    expect(idsOf("SELECT id FROM pets ORDER BY kind, age DESC;")).toEqual([5, 2, 4, 1, 3]);
+    expect(idsOf("SELECT id FROM pets ORDER BY kind DESC, age;")).toEqual([3, 1, 4, 2, 5]);
+    expect(idsOf("SELECT id FROM pets WHERE age > 1 ORDER BY age DESC;")).toEqual([2, 1, 5]);
+    db.close();
+  });
+
+  test("LIMIT / OFFSET で一部の行だけを返す", () => {
+    const db = openDb();
+    createUsers(db, 50);
+
+    const idsOf = (sql: string) => rowsOf(db, sql).map((r) => r.id);
+    expect(idsOf("SELECT id FROM users LIMIT 3;")).toEqual([1, 2, 3]);
+    expect(idsOf("SELECT id FROM users LIMIT 3 OFFSET 10;")).toEqual([11, 12, 13]);
+    expect(idsOf("SELECT id FROM users ORDER BY id DESC LIMIT 2 OFFSET 1;")).toEqual([49, 48]);
+    expect(idsOf("SELECT id FROM users ORDER BY age, id DESC LIMIT 4;")).toEqual([30, 31, 1, 32]);
+    expect(idsOf("SELECT id FROM users WHERE id > 45 LIMIT 10;")).toEqual([46, 47, 48, 49, 50]);
+    expect(idsOf("SELECT id FROM users LIMIT 0;")).toEqual([]);
+    expect(idsOf("SELECT id FROM users LIMIT -1 OFFSET 48;")).toEqual([49, 50]);
+    db.close();
+  });
+
+  test("PRIMARY KEY 順の ORDER BY は並べ替えず、LIMIT 分だけ読む", () => {
+    const db = openDb();
+    createUsers(db, 3000);
+    db.close();
+
+    const opened = pageReads("SELECT id FROM users WHERE id = 0;");
+    const ascending = pageReads("SELECT id FROM users ORDER BY id LIMIT 3;");
+    const descending = pageReads("SELECT id FROM users ORDER BY id DESC LIMIT 3;");
+    const bounded = pageReads("SELECT id FROM users WHERE id < 2000 ORDER BY id DESC LIMIT 2;");
+    const sorted = pageReads("SELECT id FROM users ORDER BY name LIMIT 3;");
+
+    expect(ascending.result.success && ascending.result.records).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(descending.result.success && descending.result.records).toEqual([{ id: 3000 }, { id: 2999 }, { id: 2998 }]);
+    expect(bounded.result.success && bounded.result.records).toEqual([{ id: 1999 }, { id: 1998 }]);
+    expect(sorted.result.success && sorted.result.records).toEqual([{ id: 1 }, { id: 10 }, { id: 100 }]);
+    for (const reads of [ascending.reads, descending.reads, bounded.reads]) {
+      expect(reads - opened.reads).toBeLessThanOrEqual(4);
+    }
+    expect(ascending.reads * 5).toBeLessThan(sorted.reads);
+  });
+
+  test("メモリの上限を超える ORDER BY は一時ファイルに書き出して並べる", () => {
     const db1 = openDb();
-    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
-    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    createUsers(db1, 2000);
     db1.close();
 
-    const db2 = openDb();
-    exec(db2, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
-    const result = exec(db2, "SELECT * FROM users;");
-    expect(result.success).toBe(true);
-    if (result.success) {
-      expect(result.records).toHaveLength(2);
+    const result = Database.open(TEST_DB, { sort: { memoryBudget: 16 * 1024 } });
+    if (!result.success) throw new Error(result.error);
+    const db = result.db!;
+
+    const rows = rowsOf(db, "SELECT id, age FROM users ORDER BY age DESC, name;");
+    expect(rows).toHaveLength(2000);
+    const expected = Array.from({ length: 2000 }, (_, i) => ({ id: i + 1, age: 20 + ((i + 1) % 30) })).sort(
+      (a, b) => b.age - a.age || (`User${a.id}` < `User${b.id}` ? -1 : 1),
+    );
+    expect(rows).toEqual(expected);
+    db.close();
+  });
+
+  test("存在しないカラムで並べ替えるとエラー", () => {
+    const db = openDb();
+    createUsers(db, 3);
+
+    const result = exec(db, "SELECT id FROM users ORDER BY email;");
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toBe("Column 'email' does not exist in table 'users'");
+    db.close();
+  });
+});
+
+describe("集約関数 / GROUP BY / HAVING", () => {
+  function rowsOf(db: Database, sql: string) {
+    const result = exec(db, sql);
+    if (!result.success) throw new Error(result.error);
+    return result.records!;
+  }
+
+  function createStaff(db: Database) {
+    exec(db, "CREATE TABLE staff (id INTEGER PRIMARY KEY, dept TEXT, salary INTEGER);");
+    exec(db, "INSERT INTO staff (id, dept, salary) VALUES (1, 'dev', 300);");
+    exec(db, "INSERT INTO staff (id, dept, salary) VALUES (2, 'sales', 200);");
+    exec(db, "INSERT INTO staff (id, dept) VALUES (3, 'dev');");
+    exec(db, "INSERT INTO staff (id, dept, salary) VALUES (4, 'dev', 500);");
+    exec(db, "INSERT INTO staff (id, salary) VALUES (5, 100);");
+    exec(db, "INSERT INTO staff (id, dept) VALUES (6, 'ops');");
+  }
+
+  test("COUNT(*) は行数、COUNT(col) は NULL でない値の数を数える", () => {
+    const db = openDb();
+    createStaff(db);
+
+    expect(rowsOf(db, "SELECT COUNT(*), COUNT(salary), count(dept) FROM staff;")).toEqual([
+      { "COUNT(*)": 6, "COUNT(salary)": 4, "COUNT(dept)": 5 },
+    ]);
+    expect(rowsOf(db, "SELECT COUNT(*) FROM staff WHERE salary > 250;")).toEqual([{ "COUNT(*)": 2 }]);
+    db.close();
+  });
+
+  test("SUM / AVG / MIN / MAX は NULL を無視し、値がなければ NULL を返す", () => {
+    const db = openDb();
+    createStaff(db);
+
+    expect(rowsOf(db, "SELECT SUM(salary), AVG(salary), MIN(salary), MAX(dept) FROM staff;")).toEqual([
+      { "SUM(salary)": 1100, "AVG(salary)": 275, "MIN(salary)": 100, "MAX(dept)": "sales" },
+    ]);
+    // 一致する行がなくても1行返り、COUNT は 0、それ以外は NULL
+    expect(rowsOf(db, "SELECT COUNT(*), SUM(salary), AVG(salary), MIN(salary) FROM staff WHERE id > 100;")).toEqual([
+      { "COUNT(*)": 0, "SUM(salary)": null, "AVG(salary)": null, "MIN(salary)": null },
+    ]);
+    // 値がすべて NULL のグループも同じ
+    expect(rowsOf(db, "SELECT dept, COUNT(salary), SUM(salary) FROM staff WHERE dept = 'ops' GROUP BY dept;")).toEqual([
+      { dept: "ops", "COUNT(salary)": 0, "SUM(salary)": null },
+    ]);
+    db.close();
+  });
+
+  test("GROUP BY でグループごとに集計し、NULL も1つのグループになる", () => {
+    const db = openDb();
+    createStaff(db);
+
+    expect(rowsOf(db, "SELECT dept, COUNT(*), SUM(salary) FROM staff GROUP BY dept;")).toEqual([
+      { dept: null, "COUNT(*)": 1, "SUM(salary)": 100 },
+      { dept: "dev", "COUNT(*)": 3, "SUM(salary)": 800 },
+      { dept: "ops", "COUNT(*)": 1, "SUM(salary)": null },
+      { dept: "sales", "COUNT(*)": 1, "SUM(salary)": 200 },
+    ]);
+    // GROUP BY があれば、一致する行がないときは0行
+    expect(rowsOf(db, "SELECT dept, COUNT(*) FROM staff WHERE id > 100 GROUP BY dept;")).toEqual([]);
+    db.close();
+  });
+
+  test("HAVING でグループを絞り込み、集約結果で並べ替える", () => {
+    const db = openDb();
+    createStaff(db);
+    exec(db, "INSERT INTO staff (id, dept, salary) VALUES (7, 'sales', 400);");
+
+    const having = "SELECT dept, COUNT(*) FROM staff GROUP BY dept HAVING COUNT(*) > 1 ORDER BY COUNT(*) DESC;";
+    expect(rowsOf(db, having)).toEqual([
+      { dept: "dev", "COUNT(*)": 3 },
+      { dept: "sales", "COUNT(*)": 2 },
+    ]);
+    expect(rowsOf(db, "SELECT dept FROM staff GROUP BY dept HAVING MAX(salary) >= 400 AND dept != 'dev';")).toEqual([
+      { dept: "sales" },
+    ]);
+    expect(rowsOf(db, "SELECT dept, AVG(salary) FROM staff GROUP BY dept ORDER BY AVG(salary) DESC LIMIT 2;")).toEqual([
+      { dept: "dev", "AVG(salary)": 400 },
+      { dept: "sales", "AVG(salary)": 300 },
+    ]);
+    db.close();
+  });
+
+  test("HAVING でも SELECT の別名を使え、同じ名前のカラムがあればカラムを優先する", () => {
+    const db = openDb();
+    createStaff(db);
+
+    const aliased = "SELECT dept, COUNT(*) AS total FROM staff GROUP BY dept HAVING total > 1 AND total < 5;";
+    expect(rowsOf(db, aliased)).toEqual([{ dept: "dev", total: 3 }]);
+    const shadowed = "SELECT dept, MAX(salary) AS salary FROM staff GROUP BY dept HAVING MAX(salary) > 250;";
+    expect(rowsOf(db, shadowed)).toEqual([{ dept: "dev", salary: 500 }]);
+    const ungrouped = "SELECT dept, MAX(salary) AS salary FROM staff GROUP BY dept HAVING salary > 250;";
+    expect(() => rowsOf(db, ungrouped)).toThrow("Column 'salary' must appear in GROUP BY");
+  });
+
+  test("大きな表でもハッシュでグループにまとめる", () => {
+    const db = openDb();
+    createUsers(db, 600);
+
+    const rows = rowsOf(db, "SELECT age, COUNT(*), MIN(id) FROM users GROUP BY age;");
+    expect(rows).toHaveLength(30);
+    expect(rows[0]).toEqual({ age: 20, "COUNT(*)": 20, "MIN(id)": 30 });
+    expect(rows[29]).toEqual({ age: 49, "COUNT(*)": 20, "MIN(id)": 29 });
+    db.close();
+  });
+
+  test("集約の規則に反する SELECT はエラー", () => {
+    const db = openDb();
+    createStaff(db);
+
+    const errorOf = (sql: string) => {
+      const result = exec(db, sql);
+      return result.success ? null : result.error;
+    };
+    expect(errorOf("SELECT dept, salary FROM staff GROUP BY dept;")).toBe(
+      "Column 'salary' must appear in GROUP BY or be used in an aggregate function",
+    );
+    expect(errorOf("SELECT id, COUNT(*) FROM staff;")).toBe(
+      "Column 'id' must appear in GROUP BY or be used in an aggregate function",
+    );
+    expect(errorOf("SELECT COUNT(*) FROM staff WHERE COUNT(*) > 1;")).toBe(
+      "Aggregate functions are not allowed in WHERE",
+    );
+    expect(errorOf("SELECT COUNT(*) FROM staff GROUP BY COUNT(*);")).toBe(
+      "Aggregate functions are not allowed in GROUP BY",
+    );
+    expect(errorOf("SELECT SUM(COUNT(*)) FROM staff;")).toBe("Aggregate functions cannot be nested");
+    expect(errorOf("SELECT SUM(bonus) FROM staff;")).toBe("Column 'bonus' does not exist in table 'staff'");
+    expect(errorOf("DELETE FROM staff WHERE COUNT(*) > 1;")).toBe("Aggregate functions are not allowed in WHERE");
+    db.close();
+  });
+});
+
+describe("JOIN", () => {
+  function rowsOf(db: Database, sql: string) {
+    const result = exec(db, sql);
+    if (!result.success) throw new Error(result.error);
+    return result.records!;
+  }
+
+  /** users 5 行と、それを参照する orders (存在しないユーザーや NULL も含む) */
+  function createOrders(db: Database) {
+    createUsers(db, 5);
+    exec(db, "CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, amount INTEGER);");
+    exec(db, "INSERT INTO orders (id, user_id, amount) VALUES (1, 2, 100);");
+    exec(db, "INSERT INTO orders (id, user_id, amount) VALUES (2, 1, 50);");
+    exec(db, "INSERT INTO orders (id, user_id, amount) VALUES (3, 2, 300);");
+    exec(db, "INSERT INTO orders (id, user_id, amount) VALUES (4, 9, 10);");
+    exec(db, "INSERT INTO orders (id, amount) VALUES (5, 20);");
+  }
+
+  test("INNER JOIN で ON に一致する行だけをつなぐ (別名と修飾したカラム)", () => {
+    const db = openDb();
+    createOrders(db);
+
+    expect(rowsOf(db, "SELECT o.id, u.name, o.amount FROM orders o JOIN users AS u ON u.id = o.user_id;")).toEqual([
+      { "o.id": 1, "u.name": "User2", "o.amount": 100 },
+      { "o.id": 2, "u.name": "User1", "o.amount": 50 },
+      { "o.id": 3, "u.name": "User2", "o.amount": 300 },
+    ]);
+    expect(
+      rowsOf(
+        db,
+        "SELECT name, amount FROM users INNER JOIN orders ON users.id = orders.user_id " +
+          "WHERE amount >= 100 ORDER BY amount DESC;",
+      ),
+    ).toEqual([
+      { name: "User2", amount: 300 },
+      { name: "User2", amount: 100 },
+    ]);
+    db.close();
+  });
+
+  test("LEFT JOIN は一致する行がなければ NULL でつなぎ、WHERE は結合後に絞り込む", () => {
+    const db = openDb();
+    createOrders(db);
+
+    const pairsOf = (sql: string) => rowsOf(db, sql).map((r) => [r["u.id"], r["o.amount"]]);
+    expect(pairsOf("SELECT u.id, o.amount FROM users u LEFT JOIN orders o ON o.user_id = u.id;")).toEqual([
+      [1, 50],
+      [2, 100],
+      [2, 300],
+      [3, null],
+      [4, null],
+      [5, null],
+    ]);
+    expect(
+      pairsOf("SELECT u.id, o.amount FROM users u LEFT OUTER JOIN orders o ON o.user_id = u.id AND o.amount > 100;"),
+    ).toEqual([
+      [1, null],
+      [2, 300],
+      [3, null],
+      [4, null],
+      [5, null],
+    ]);
+    expect(
+      pairsOf("SELECT u.id, o.amount FROM users u LEFT JOIN orders o ON o.user_id = u.id WHERE o.amount > 100;"),
+    ).toEqual([[2, 300]]);
+    db.close();
+  });
+
+  test("SELECT * は全テーブルのカラムを「テーブル.カラム」の名前で返す", () => {
+    const db = openDb();
+    createOrders(db);
+
+    const result = exec(db, "SELECT * FROM users u JOIN orders o ON o.id = u.id LIMIT 1;");
+    expect(result.success && result.columns).toEqual(["u.id", "u.name", "u.age", "o.id", "o.user_id", "o.amount"]);
+    expect(result.success && result.records).toEqual([
+      { "u.id": 1, "u.name": "User1", "u.age": 21, "o.id": 1, "o.user_id": 2, "o.amount": 100 },
+    ]);
+    db.close();
+  });
+
+  test("3つのテーブルの結合と集約", () => {
+    const db = openDb();
+    createOrders(db);
+    exec(db, "CREATE TABLE items (order_id INTEGER, product TEXT);");
+    exec(db, "CREATE INDEX idx_items_order ON items (order_id);");
+    exec(db, "INSERT INTO items (order_id, product) VALUES (3, 'pen');");
+    exec(db, "INSERT INTO items (order_id, product) VALUES (1, 'ink');");
+    exec(db, "INSERT INTO items (order_id, product) VALUES (3, 'cap');");
+    exec(db, "INSERT INTO items (order_id, product) VALUES (2, 'pad');");
+
+    expect(
+      rowsOf(
+        db,
+        "SELECT u.name, i.product FROM users u JOIN orders o ON o.user_id = u.id " +
+          "JOIN items i ON i.order_id = o.id ORDER BY i.product;",
+      ),
+    ).toEqual([
+      { "u.name": "User2", "i.product": "cap" },
+      { "u.name": "User2", "i.product": "ink" },
+      { "u.name": "User1", "i.product": "pad" },
+      { "u.name": "User2", "i.product": "pen" },
+    ]);
+    expect(
+      rowsOf(
+        db,
+        "SELECT u.name, COUNT(o.id), SUM(o.amount) FROM users u LEFT JOIN orders o ON o.user_id = u.id " +
+          "GROUP BY u.name HAVING COUNT(o.id) > 0;",
+      ),
+    ).toEqual([
+      { "u.name": "User1", "COUNT(o.id)": 1, "SUM(o.amount)": 50 },
+      { "u.name": "User2", "COUNT(o.id)": 2, "SUM(o.amount)": 400 },
+    ]);
+    db.close();
+  });
+
+  test("ハッシュ結合は = と同じく数値として読める TEXT を数値と等しいとみなし、NULL は結合しない", () => {
+    const db = openDb();
+    createUsers(db, 3);
+    exec(db, "CREATE TABLE codes (code TEXT, label TEXT);");
+    exec(db, "INSERT INTO codes (code, label) VALUES ('2', 'two');");
+    exec(db, "INSERT INTO codes (code, label) VALUES ('x', 'ex');");
+    exec(db, "INSERT INTO codes (label) VALUES ('none');");
+    exec(db, "INSERT INTO codes (code, label) VALUES ('1', 'one');");
+
+    expect(rowsOf(db, "SELECT users.id, label FROM users JOIN codes ON codes.code = users.id;")).toEqual([
+      { "users.id": 1, label: "one" },
+      { "users.id": 2, label: "two" },
+    ]);
+    db.close();
+  });
+
+  test("結合カラムにインデックスがあれば引き、なければハッシュ表を1回だけ作る", () => {
+    const db = openDb();
+    createUsers(db, 3000);
+    exec(db, "CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, amount INTEGER);");
+    for (let i = 1; i <= 5; i++) {
+      exec(db, `INSERT INTO orders (id, user_id, amount) VALUES (${i}, ${i * 500}, ${20 + i});`);
     }
-    db2.close();
+    db.close();
+
+    const countOf = (result: ReturnType<typeof exec>) => result.success && result.records![0]["COUNT(*)"];
+    const ages = Array.from({ length: 3000 }, (_, i) => 20 + ((i + 1) % 30));
+    const amounts = Array.from({ length: 5 }, (_, i) => 21 + i);
+
+    const indexed = pageReads("SELECT COUNT(*) FROM orders o JOIN users u ON u.id = o.user_id;");
+    const hashed = pageReads("SELECT COUNT(*) FROM orders o JOIN users u ON u.age = o.amount;");
+    const looped = pageReads("SELECT COUNT(*) FROM orders o JOIN users u ON u.age > o.amount;");
+
+    expect(countOf(indexed.result)).toBe(5);
+    expect(countOf(hashed.result)).toBe(amounts.reduce((n, a) => n + ages.filter((age) => age === a).length, 0));
+    expect(countOf(looped.result)).toBe(amounts.reduce((n, a) => n + ages.filter((age) => age > a).length, 0));
+    expect(indexed.reads).toBeLessThan(hashed.reads);
+    expect(hashed.reads * 3).toBeLessThan(looped.reads);
+  });
+
+  test("別名は1テーブルの SELECT でも使える", () => {
+    const db = openDb();
+    createUsers(db, 3);
+
+    expect(rowsOf(db, "SELECT u.name FROM users u WHERE u.id = 2;")).toEqual([{ "u.name": "User2" }]);
+    expect(rowsOf(db, "SELECT users.age, COUNT(*) FROM users GROUP BY age ORDER BY users.age DESC LIMIT 1;")).toEqual([
+      { "users.age": 23, "COUNT(*)": 1 },
+    ]);
+    db.close();
+  });
+
+  test("テーブルやカラムを解決できなければエラー", () => {
+    const db = openDb();
+    createOrders(db);
+
+    const errorOf = (sql: string) => {
+      const result = exec(db, sql);
+      return result.success ? null : result.error;
+    };
+    expect(errorOf("SELECT id FROM users JOIN orders ON users.id = orders.user_id;")).toBe("Column 'id' is ambiguous");
+    expect(errorOf("SELECT * FROM users JOIN nope ON users.id = nope.id;")).toBe("Table 'nope' does not exist");
+    expect(errorOf("SELECT * FROM users JOIN users ON users.id = users.id;")).toBe(
+      "Table 'users' is specified more than once (use an alias)",
+    );
+    expect(errorOf("SELECT u.email FROM users u JOIN orders o ON o.user_id = u.id;")).toBe(
+      "Column 'u.email' does not exist",
+    );
+    expect(errorOf("SELECT * FROM users u JOIN orders o ON o.user_id = x.id JOIN users x ON x.id = o.id;")).toBe(
+      "Column 'x.id' cannot be used before its table is joined",
+    );
+    expect(errorOf("SELECT * FROM users u JOIN orders o ON COUNT(*) > 1;")).toBe(
+      "Aggregate functions are not allowed in ON",
+    );
+    db.close();
+  });
+});
+
+// ============================================================
+// EXPLAIN / EXPLAIN QUERY PLAN
+// ============================================================
+
+describe("EXPLAIN", () => {
+  /** EXPLAIN QUERY PLAN の detail と est_rows を "detail: rows" の形で返す */
+  function queryPlan(db: Database, sql: string) {
+    const result = exec(db, `EXPLAIN QUERY PLAN ${sql}`);
+    if (!result.success) throw new Error(result.error);
+    return result.records!.map((r) => `${r.detail}: ${r.est_rows}`);
+  }
+
+  test("EXPLAIN QUERY PLAN でテーブルの読み方と見積もりの行数を表示する", () => {
+    const db = openDb();
+    createUsers(db, 10);
+    exec(db, "CREATE TABLE accounts (id INTEGER PRIMARY KEY, email TEXT UNIQUE);");
+    exec(db, "CREATE INDEX idx_age ON users (age);");
+
+    expect(queryPlan(db, "SELECT * FROM users;")).toEqual(["SCAN users: 1000"]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE id = 5;")).toEqual([
+      "SEARCH users USING PRIMARY KEY (id=?): 1",
+    ]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE age > 20 AND age <= 30;")).toEqual([
+      "SEARCH users USING INDEX idx_age (age>? AND age<=?): 63",
+    ]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE age = 25 AND name = 'x';")).toEqual([
+      "SEARCH users USING INDEX idx_age (age=?): 1",
+    ]);
+    expect(queryPlan(db, "SELECT * FROM accounts WHERE email = 'a@example.com';")).toEqual([
+      "SEARCH accounts USING INDEX sqlight_autoindex_accounts_1 (email=?): 1",
+    ]);
+    // 値はカラムの型に変換して範囲に使い、変換できなければ範囲を絞れない
+    expect(queryPlan(db, "SELECT * FROM users WHERE id = '5';")).toEqual(["SEARCH users USING PRIMARY KEY (id=?): 1"]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE id = '5.5';")).toEqual(["SCAN users: 1"]);
+    db.close();
+  });
+
+  test("結合の方法と、ハッシュ表・外部ソートを使う箇所を実行する順に表示する", () => {
+    const db = openDb();
+    createUsers(db, 10);
+    exec(db, "CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, amount INTEGER);");
+
+    expect(queryPlan(db, "SELECT * FROM orders o JOIN users u ON u.id = o.user_id;")).toEqual([
+      "SCAN orders AS o: 1000",
+      "SEARCH users AS u USING PRIMARY KEY (id=?): 1000",
+    ]);
+    expect(
+      queryPlan(db, "SELECT u.name, COUNT(*) FROM users u LEFT JOIN orders o ON o.user_id = u.id GROUP BY u.name;"),
+    ).toEqual([
+      "SCAN users AS u: 1000",
+      "SEARCH orders AS o USING HASH TABLE (user_id=?) (LEFT JOIN): 10000",
+      "USE HASH TABLE FOR GROUP BY: 1000",
+    ]);
+    expect(queryPlan(db, "SELECT * FROM users u JOIN orders o ON o.amount > u.age ORDER BY u.id DESC;")).toEqual([
+      "SCAN users AS u (DESC): 1000",
+      "SCAN orders AS o: 250000",
+    ]);
+    expect(queryPlan(db, "SELECT * FROM users ORDER BY name LIMIT 5;")).toEqual([
+      "SCAN users: 1000",
+      "USE EXTERNAL SORT FOR ORDER BY: 1000",
+    ]);
+    db.close();
+  });
+
+  test("EXPLAIN で演算子の木を親子関係とともに表示する", () => {
+    const db = openDb();
+    createUsers(db, 10);
+
+    const sql =
+      "SELECT age, COUNT(*) FROM users WHERE id > 3 GROUP BY age HAVING COUNT(*) >= 1 ORDER BY age LIMIT 2 OFFSET 1;";
+    const result = exec(db, `EXPLAIN ${sql}`);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.columns).toEqual(["id", "parent", "operator", "detail", "est_rows"]);
+    expect(result.records!.map((r) => [r.id, r.parent, r.operator, r.detail, r.est_rows])).toEqual([
+      [1, 0, "LIMIT", "LIMIT 2 OFFSET 1", 2],
+      [2, 1, "  PROJECT", "age, COUNT(*)", 6],
+      [3, 2, "    SORT", "ORDER BY age", 6],
+      [4, 3, "      FILTER", "COUNT(*) >= 1", 6],
+      [5, 4, "        AGGREGATE", "GROUP BY age: COUNT(*)", 25],
+      [6, 5, "          SCAN", "SEARCH users USING PRIMARY KEY (id>?) WHERE id > 3", 250],
+    ]);
+
+    // 同じ SELECT は計画どおりに実行される (id 4..10 の age は 24..30)
+    expect(exec(db, sql)).toMatchObject({
+      records: [
+        { age: 25, "COUNT(*)": 1 },
+        { age: 26, "COUNT(*)": 1 },
+      ],
+    });
+    db.close();
+  });
+
+  test("計画を立てられない SELECT はエラー", () => {
+    const db = openDb();
+    createUsers(db, 1);
+
+    expect(exec(db, "EXPLAIN SELECT * FROM missing;")).toEqual({
+      success: false,
+      error: "Table 'missing' does not exist",
+    });
+    expect(exec(db, "EXPLAIN QUERY PLAN SELECT nope FROM users;")).toEqual({
+      success: false,
+      error: "Column 'nope' does not exist in table 'users'",
+    });
+    db.close();
+  });
+});
+
+// ============================================================
+// ANALYZE
+// ============================================================
+
+describe("ANALYZE", () => {
+  function queryPlan(db: Database, sql: string) {
+    const result = exec(db, `EXPLAIN QUERY PLAN ${sql}`);
+    if (!result.success) throw new Error(result.error);
+    return result.records!.map((r) => `${r.detail}: ${r.est_rows}`);
+  }
+
+  test("統計を sqlight_stat に保存し、開き直しても見積もりに使う", () => {
+    let db = openDb();
+    createUsers(db, 300);
+    expect(queryPlan(db, "SELECT * FROM users WHERE age = 25;")).toEqual(["SCAN users: 10"]);
+
+    expect(exec(db, "ANALYZE users;")).toEqual({ success: true, message: "1 table(s) analyzed" });
+    expect(exec(db, "SELECT col, row_count, distinct_count, null_count, histogram FROM sqlight_stat;")).toMatchObject({
+      records: [
+        {
+          col: "id",
+          row_count: 300,
+          distinct_count: 300,
+          null_count: 0,
+          histogram: "[1,30,60,90,120,150,180,210,240,270,300]",
+        },
+        { col: "name", row_count: 300, distinct_count: 300, null_count: 0 },
+        {
+          col: "age",
+          row_count: 300,
+          distinct_count: 30,
+          null_count: 0,
+          histogram: "[20,22,25,28,31,34,37,40,43,46,49]",
+        },
+      ],
+    });
+    db.close();
+
+    db = openDb();
+    expect(queryPlan(db, "SELECT * FROM users;")).toEqual(["SCAN users: 300"]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE age = 25;")).toEqual(["SCAN users: 10"]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE age = 99;")).toEqual(["SCAN users: 0"]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE age > 46;")).toEqual(["SCAN users: 30"]);
+    db.close();
+  });
+
+  test("統計があれば、見積もった行数で全件走査とインデックスを選び分ける", () => {
+    const db = openDb();
+    createUsers(db, 300);
+    exec(db, "CREATE INDEX idx_age ON users (age);");
+
+    // 統計がなければ、範囲を絞れるインデックスを使う
+    expect(queryPlan(db, "SELECT * FROM users WHERE age > 20;")).toEqual([
+      "SEARCH users USING INDEX idx_age (age>?): 250",
+    ]);
+
+    exec(db, "ANALYZE;");
+    // ほぼすべての行に一致するなら、インデックスから1行ずつ引くより全件走査のほうが安い
+    expect(queryPlan(db, "SELECT * FROM users WHERE age > 22;")).toEqual(["SCAN users: 270"]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE age > 48;")).toEqual([
+      "SEARCH users USING INDEX idx_age (age>?): 10",
+    ]);
+    expect(queryPlan(db, "SELECT * FROM users WHERE id > 290;")).toEqual([
+      "SEARCH users USING PRIMARY KEY (id>?): 10",
+    ]);
+
+    // 選んだ読み方でも結果は変わらない
+    expect(exec(db, "SELECT COUNT(*) FROM users WHERE age > 22;")).toMatchObject({ records: [{ "COUNT(*)": 270 }] });
+    expect(exec(db, "SELECT COUNT(*) FROM users WHERE age > 48;")).toMatchObject({ records: [{ "COUNT(*)": 10 }] });
+    db.close();
+  });
+
+  test("ANALYZE し直すと統計を置き換え、取り消せば元の統計に戻る", () => {
+    const db = openDb();
+    createUsers(db, 10);
+    exec(db, "CREATE TABLE tags (id INTEGER PRIMARY KEY, label TEXT);");
+    exec(db, "INSERT INTO tags (id, label) VALUES (1, 'a');");
+    exec(db, "INSERT INTO tags (id) VALUES (2);");
+
+    expect(exec(db, "ANALYZE;")).toEqual({ success: true, message: "2 table(s) analyzed" });
+    expect(exec(db, "SELECT null_count FROM sqlight_stat WHERE tbl = 'tags' AND col = 'label';")).toMatchObject({
+      records: [{ null_count: 1 }],
+    });
+
+    exec(db, "DELETE FROM users WHERE id > 4;");
+    exec(db, "ANALYZE users;");
+    expect(exec(db, "SELECT col, row_count FROM sqlight_stat WHERE tbl = 'users';")).toMatchObject({
+      records: [
+        { col: "id", row_count: 4 },
+        { col: "name", row_count: 4 },
+        { col: "age", row_count: 4 },
+      ],
+    });
+
+    exec(db, "BEGIN;");
+    exec(db, "DELETE FROM users WHERE id > 1;");
+    exec(db, "ANALYZE users;");
+    expect(queryPlan(db, "SELECT * FROM users;")).toEqual(["SCAN users: 1"]);
+    exec(db, "ROLLBACK;");
+    expect(queryPlan(db, "SELECT * FROM users;")).toEqual(["SCAN users: 4"]);
+    db.close();
+  });
+
+  test("sqlight_stat は書き換えられず、sqlight_ で始まる名前のテーブルは作れない", () => {
+    const db = openDb();
+    createUsers(db, 1);
+    exec(db, "ANALYZE;");
+
+    expect(exec(db, "INSERT INTO sqlight_stat (tbl) VALUES ('users');")).toEqual({
+      success: false,
+      error: "Table 'sqlight_stat' may not be modified",
+    });
+    expect(exec(db, "DELETE FROM sqlight_stat;")).toEqual({
+      success: false,
+      error: "Table 'sqlight_stat' may not be modified",
+    });
+    expect(exec(db, "CREATE INDEX idx_stat ON sqlight_stat (tbl);")).toEqual({
+      success: false,
+      error: "Table 'sqlight_stat' may not be indexed",
+    });
+    expect(exec(db, "ANALYZE sqlight_stat;")).toEqual({
+      success: false,
+      error: "Table 'sqlight_stat' may not be analyzed",
+    });
+    expect(exec(db, "ANALYZE missing;")).toEqual({ success: false, error: "Table 'missing' does not exist" });
+    expect(exec(db, "CREATE TABLE sqlight_stat2 (id INTEGER);")).toEqual({
+      success: false,
+      error: "Object name reserved for internal use: sqlight_stat2",
+    });
+    db.close();
+  });
+});
+
+// ============================================================
+// UPDATE
+// ============================================================
+
+describe("UPDATE", () => {
+  test("WHERE に一致するレコードだけ更新される", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    exec(db, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
+
+    const result = exec(db, "UPDATE users SET name = 'Bobby' WHERE id = 2;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.message).toContain("1 row(s) updated");
+    }
+
+    const selectResult = exec(db, "SELECT * FROM users;");
+    expect(selectResult.success).toBe(true);
+    if (!selectResult.success) return;
+
+    expect(selectResult.records).toEqual([
+      { id: 1, name: "Alice" },
+      { id: 2, name: "Bobby" },
+    ]);
+    db.close();
+  });
+
+  test("WHERE なしで全レコードが更新される", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER);");
+    exec(db, "INSERT INTO users (id, name, age) VALUES (1, 'Alice', 20);");
+    exec(db, "INSERT INTO users (id, name, age) VALUES (2, 'Bob', 25);");
+
+    const result = exec(db, "UPDATE users SET age = 30, name = 'X';");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.message).toContain("2 row(s) updated");
+    }
+
+    const selectResult = exec(db, "SELECT * FROM users WHERE age = 30;");
+    expect(selectResult.success).toBe(true);
+    if (selectResult.success) {
+      expect(selectResult.records).toHaveLength(2);
+    }
+    db.close();
+  });
+
+  test("SET の式は更新前の行の値で行ごとに評価する", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE y (id INTEGER PRIMARY KEY, v INTEGER, w INTEGER);");
+    for (let i = 1; i <= 4; i++) {
+      exec(db, `INSERT INTO y (id, v, w) VALUES (${i}, ${i * 10}, ${i});`);
+    }
+
+    const result = exec(db, "UPDATE y SET v = 10 - 1 WHERE id = 1;");
+    expect(result.success && result.message).toBe("1 row(s) updated");
+    exec(db, "UPDATE y SET v = w, w = v + 1 WHERE id >= 3;");
+
+    const rows = exec(db, "SELECT v, w FROM y;");
+    expect(rows.success && rows.records).toEqual([
+      { v: 9, w: 1 },
+      { v: 20, w: 2 },
+      { v: 3, w: 31 },
+      { v: 4, w: 41 },
+    ]);
+
+    for (const [sql, error] of [
+      ["UPDATE y SET v = missing + 1;", "Column 'missing' does not exist in table 'y'"],
+      ["UPDATE y SET v = COUNT(*);", "Aggregate functions are not allowed in SET"],
+      ["UPDATE y SET v = 'x' || v;", "Invalid INTEGER value for column 'v': x9"],
+    ]) {
+      const failed = exec(db, sql);
+      expect(failed.success).toBe(false);
+      if (!failed.success) expect(failed.error).toBe(error);
+    }
+    db.close();
+  });
+
+  test("型が合わない値でエラー", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, age INTEGER);");
+    exec(db, "INSERT INTO users (id, age) VALUES (1, 20);");
+
+    const result = exec(db, "UPDATE users SET age = 'old' WHERE id = 1;");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("Invalid INTEGER value");
+    }
+    db.close();
+  });
+
+  test("NOT NULL カラムは UPDATE 後も検証される", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, nickname TEXT);");
+    exec(db, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+
+    // nickname は NULL のまま、name は NOT NULL を満たしている
+    const ok = exec(db, "UPDATE users SET name = 'Alicia' WHERE id = 1;");
+    expect(ok.success).toBe(true);
+    db.close();
+  });
+
+  test("存在しないカラムの UPDATE でエラー", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+
+    const result = exec(db, "UPDATE users SET age = 1;");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("does not exist");
+    }
+    db.close();
+  });
+
+  test("PRIMARY KEY を変更するとキー位置が移動する", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= 6; i++) {
+      exec(db, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+
+    const result = exec(db, "UPDATE users SET id = 100 WHERE id = 2;");
+    expect(result.success).toBe(true);
+
+    const selectResult = exec(db, "SELECT id FROM users;");
+    expect(selectResult.success).toBe(true);
+    if (!selectResult.success) return;
+
+    expect(selectResult.records!.map((r) => r.id)).toEqual([1, 3, 4, 5, 6, 100]);
+    db.close();
+  });
+
+  test("既存の PRIMARY KEY に変更するとエラー", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    exec(db, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
+
+    const result = exec(db, "UPDATE users SET id = 1 WHERE id = 2;");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("Duplicate PRIMARY KEY");
+    }
+    db.close();
+  });
+
+  test("大きくなったレコードで分割が起きても永続化される", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);");
+    for (let i = 1; i <= 3; i++) {
+      exec(db1, `INSERT INTO notes (id, body) VALUES (${i}, 'short');`);
+    }
+    const longText = "z".repeat(1500);
+    const result = exec(db1, `UPDATE notes SET body = '${longText}';`);
+    expect(result.success).toBe(true);
+    db1.close();
+
+    const db2 = openDb();
+    const selectResult = exec(db2, "SELECT * FROM notes;");
+    expect(selectResult.success).toBe(true);
+    if (selectResult.success) {
+      expect(selectResult.records).toHaveLength(3);
+      expect(selectResult.records!.every((r) => r.body === longText)).toBe(true);
+    }
+    db2.close();
+  });
+});
+
+// ============================================================
+// DELETE
+// ============================================================
+
+describe("DELETE", () => {
+  test("WHERE に一致するレコードだけ削除される", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    exec(db, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
+    exec(db, "INSERT INTO users (id, name) VALUES (3, 'Charlie');");
+
+    const result = exec(db, "DELETE FROM users WHERE id >= 2;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.message).toContain("2 row(s) deleted");
+    }
+
+    const selectResult = exec(db, "SELECT * FROM users;");
+    expect(selectResult.success).toBe(true);
+    if (selectResult.success) {
+      expect(selectResult.records).toEqual([{ id: 1, name: "Alice" }]);
+    }
+    db.close();
+  });
+
+  test("WHERE に未対応の演算子を書いた DELETE / UPDATE は解析エラーになり、行は変わらない", () => {
+    const db = openDb();
+    createUsers(db, 5);
+
+    expect(() => exec(db, "DELETE FROM users WHERE id BETWEEN 1 AND 10;")).toThrow("Invalid DELETE syntax");
+    expect(() => exec(db, "UPDATE users SET age = 0 WHERE id IN (1, 2);")).toThrow("Invalid UPDATE syntax");
+
+    const rows = exec(db, "SELECT COUNT(*) AS n FROM users WHERE age > 0;");
+    expect(rows.success && rows.records).toEqual([{ n: 5 }]);
+    db.close();
+  });
+
+  test("WHERE なしで全件削除", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= 20; i++) {
+      exec(db, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+
+    const result = exec(db, "DELETE FROM users;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.message).toContain("20 row(s) deleted");
+    }
+
+    const selectResult = exec(db, "SELECT * FROM users;");
+    expect(selectResult.success).toBe(true);
+    if (selectResult.success) {
+      expect(selectResult.records).toHaveLength(0);
+    }
+    db.close();
+  });
+
+  test("存在しないテーブルの DELETE でエラー", () => {
+    const db = openDb();
+    const result = exec(db, "DELETE FROM nonexistent;");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toContain("does not exist");
+    }
+    db.close();
+  });
+
+  test("削除・挿入を繰り返しても解放ページが再利用されファイルが伸び続けない", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+
+    const fillAndClear = () => {
+      for (let i = 1; i <= 40; i++) {
+        exec(db, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+      }
+      exec(db, "DELETE FROM users;");
+    };
+
+    fillAndClear();
+    const sizeAfterFirst = statSync(TEST_DB).size;
+    fillAndClear();
+    fillAndClear();
+    expect(statSync(TEST_DB).size).toBe(sizeAfterFirst);
+    db.close();
+  });
+
+  test("削除結果が DB 再起動後も残る", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= 20; i++) {
+      exec(db1, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+    exec(db1, "DELETE FROM users WHERE id > 3;");
+    db1.close();
+
+    const db2 = openDb();
+    const result = exec(db2, "SELECT id FROM users;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.records!.map((r) => r.id)).toEqual([1, 2, 3]);
+    }
+
+    // 削除後も挿入できる
+    const insertResult = exec(db2, "INSERT INTO users (id, name) VALUES (10, 'New');");
+    expect(insertResult.success).toBe(true);
+    db2.close();
+  });
+});
+
+// ============================================================
+// インデックス
+// ============================================================
+
+describe("インデックス", () => {
+  test("インデックスの有無で SELECT の結果が変わらない", () => {
+    const db = openDb();
+    createUsers(db, 200);
+
+    const queries = [
+      "SELECT id FROM users WHERE age = 25;",
+      "SELECT id FROM users WHERE age > 45;",
+      "SELECT id FROM users WHERE age <= 21;",
+      "SELECT id FROM users WHERE age >= 48 AND name = 'User28';",
+      "SELECT id FROM users WHERE name = 'User7';",
+      "SELECT id FROM users WHERE age != 25;",
+    ];
+    const before = queries.map((sql) => exec(db, sql));
+
+    expect(exec(db, "CREATE INDEX idx_age ON users (age);").success).toBe(true);
+    expect(exec(db, "CREATE INDEX idx_name_age ON users (name, age);").success).toBe(true);
+
+    queries.forEach((sql, i) => {
+      expect(exec(db, sql)).toEqual(before[i]);
+    });
+    db.close();
+  });
+
+  test("インデックスを使う検索は全件走査より読むページが少ない", () => {
+    const db = openDb();
+    createUsers(db, 3000);
+
+    exec(db, "CREATE INDEX idx_name ON users (name);");
+    db.close();
+
+    const indexed = pageReads("SELECT id FROM users WHERE name = 'User1234';");
+    pageReads("DROP INDEX idx_name;");
+    const scanned = pageReads("SELECT id FROM users WHERE name = 'User1234';");
+
+    expect(indexed.result.success && indexed.result.records).toEqual([{ id: 1234 }]);
+    expect(scanned.result).toEqual(indexed.result);
+    expect(indexed.reads * 5).toBeLessThan(scanned.reads);
+  });
+
+  test("INSERT / UPDATE / DELETE でインデックスが保守される", () => {
+    const db = openDb();
+    createUsers(db, 50);
+    exec(db, "CREATE INDEX idx_age ON users (age);");
+
+    exec(db, "INSERT INTO users (id, name, age) VALUES (100, 'New', 99);");
+    exec(db, "UPDATE users SET age = 99 WHERE id = 1;");
+    exec(db, "UPDATE users SET id = 300 WHERE id = 3;");
+    exec(db, "DELETE FROM users WHERE age = 22;");
+
+    const result = exec(db, "SELECT id FROM users WHERE age = 99;");
+    expect(result.success && result.records).toEqual([{ id: 1 }, { id: 100 }]);
+
+    const moved = exec(db, "SELECT id, age FROM users WHERE age = 22;");
+    expect(moved.success && moved.records).toEqual([]);
+
+    const movedKey = exec(db, "SELECT id FROM users WHERE age = 23;");
+    expect(movedKey.success && movedKey.records!.map((r) => r.id)).toEqual([33, 300]);
+    db.close();
+  });
+
+  test("インデックスは再オープン後も使える", () => {
+    const db1 = openDb();
+    createUsers(db1, 100);
+    exec(db1, "CREATE INDEX idx_age ON users (age);");
+    db1.close();
+
+    const db2 = openDb();
+    exec(db2, "INSERT INTO users (id, name, age) VALUES (101, 'Late', 25);");
+    const result = exec(db2, "SELECT id FROM users WHERE age = 25;");
+    expect(result.success && result.records!.map((r) => r.id)).toEqual([5, 35, 65, 95, 101]);
+
+    const schemaResult = exec(db2, "SELECT type, name, tbl_name, sql FROM sqlight_schema WHERE type = 'index';");
+    expect(schemaResult.success && schemaResult.records).toEqual([
+      { type: "index", name: "idx_age", tbl_name: "users", sql: "CREATE INDEX idx_age ON users (age)" },
+    ]);
+    db2.close();
+  });
+
+  test("UNIQUE インデックスは重複を拒否し、文ごと取り消す", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT);");
+    exec(db, "INSERT INTO users (id, email) VALUES (1, 'a@example.com');");
+    exec(db, "CREATE UNIQUE INDEX idx_email ON users (email);");
+
+    const result = exec(db, "INSERT INTO users (id, email) VALUES (2, 'a@example.com');");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("UNIQUE constraint failed: users.email");
+    }
+
+    const rows = exec(db, "SELECT * FROM users;");
+    expect(rows.success && rows.records!.length).toBe(1);
+
+    exec(db, "INSERT INTO users (id, email) VALUES (3, 'b@example.com');");
+    expect(exec(db, "UPDATE users SET email = 'a@example.com' WHERE id = 3;").success).toBe(false);
+    db.close();
+  });
+
+  test("既存の行に重複があると UNIQUE インデックスは作れない", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE t (id INTEGER PRIMARY KEY, v INTEGER);");
+    exec(db, "INSERT INTO t (id, v) VALUES (1, 5);");
+    exec(db, "INSERT INTO t (id, v) VALUES (2, 5);");
+
+    expect(exec(db, "CREATE UNIQUE INDEX idx_v ON t (v);").success).toBe(false);
+    expect(exec(db, "CREATE INDEX idx_v ON t (v);").success).toBe(true);
+    db.close();
+  });
+
+  test("CREATE INDEX / DROP INDEX のエラー", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE t (id INTEGER PRIMARY KEY, v INTEGER);");
+
+    expect(exec(db, "CREATE INDEX idx ON missing (v);").success).toBe(false);
+    expect(exec(db, "CREATE INDEX idx ON t (missing);").success).toBe(false);
+    expect(exec(db, "CREATE INDEX idx ON t (v, v);").success).toBe(false);
+    expect(exec(db, "CREATE INDEX idx ON sqlight_schema (name);").success).toBe(false);
+    expect(exec(db, "DROP INDEX idx;").success).toBe(false);
+
+    expect(exec(db, "CREATE INDEX idx ON t (v);").success).toBe(true);
+    const duplicate = exec(db, "CREATE INDEX idx ON t (id);");
+    expect(duplicate.success).toBe(false);
+    if (!duplicate.success) {
+      expect(duplicate.error).toContain("already exists");
+    }
+    db.close();
+  });
+
+  test("DROP INDEX でページが解放されカタログから消える", () => {
+    const db = openDb();
+    createUsers(db, 500);
+    exec(db, "CREATE INDEX idx_name ON users (name);");
+
+    const result = exec(db, "DROP INDEX idx_name;");
+    expect(result.success).toBe(true);
+
+    const schemaResult = exec(db, "SELECT name FROM sqlight_schema;");
+    expect(schemaResult.success && schemaResult.records).toEqual([{ name: "users" }]);
+
+    // 解放したページは次のインデックスで再利用される
+    const sizeBefore = statSync(TEST_DB).size;
+    exec(db, "CREATE INDEX idx_name ON users (name);");
+    db.close();
+    expect(statSync(TEST_DB).size).toBe(sizeBefore);
+  });
+});
+
+// ============================================================
+// PRIMARY KEY による検索
+// ============================================================
+
+describe("PRIMARY KEY による検索", () => {
+  test("PRIMARY KEY の比較条件で全件走査と同じ結果を返す", () => {
+    const db = openDb();
+    createUsers(db, 100);
+
+    const idsOf = (sql: string) => {
+      const result = exec(db, sql);
+      return result.success ? result.records!.map((r) => r.id) : null;
+    };
+
+    expect(idsOf("SELECT id FROM users WHERE id = 42;")).toEqual([42]);
+    expect(idsOf("SELECT id FROM users WHERE id = 500;")).toEqual([]);
+    expect(idsOf("SELECT id FROM users WHERE id < 4;")).toEqual([1, 2, 3]);
+    expect(idsOf("SELECT id FROM users WHERE id <= 4;")).toEqual([1, 2, 3, 4]);
+    expect(idsOf("SELECT id FROM users WHERE id > 97;")).toEqual([98, 99, 100]);
+    expect(idsOf("SELECT id FROM users WHERE id >= 97;")).toEqual([97, 98, 99, 100]);
+    expect(idsOf("SELECT id FROM users WHERE id > 10 AND age = 21;")).toEqual([31, 61, 91]);
+    // 型の違う値は従来どおり変換して比較する (キーの範囲は使わない)
+    expect(idsOf("SELECT id FROM users WHERE id = '7';")).toEqual([7]);
+
+    expect(exec(db, "UPDATE users SET age = 0 WHERE id >= 99;").success).toBe(true);
+    expect(idsOf("SELECT id FROM users WHERE age = 0;")).toEqual([99, 100]);
+    expect(exec(db, "DELETE FROM users WHERE id <= 10;").success).toBe(true);
+    expect(idsOf("SELECT id FROM users WHERE id < 12;")).toEqual([11]);
+    db.close();
+  });
+
+  test("PRIMARY KEY の検索は木の高さ程度のページしか読まない", () => {
+    const db = openDb();
+    createUsers(db, 3000);
+    db.close();
+
+    const opened = pageReads("SELECT id FROM users WHERE id = 0;");
+    const point = pageReads("SELECT name FROM users WHERE id = 1500;");
+    const range = pageReads("SELECT id FROM users WHERE id > 2995;");
+    const bounded = pageReads("SELECT id FROM users WHERE id > 1495 AND 1500 >= id;");
+    const scanned = pageReads("SELECT name FROM users WHERE name = 'User1500';");
+
+    expect(point.result.success && point.result.records).toEqual([{ name: "User1500" }]);
+    expect(range.result.success && range.result.records).toHaveLength(5);
+    expect(bounded.result.success && bounded.result.records).toEqual([1496, 1497, 1498, 1499, 1500].map((id) => ({ id })));
+    // 該当なしの検索 (開いて木を1回降りるだけ) との差が数ページに収まる
+    expect(point.reads - opened.reads).toBeLessThanOrEqual(4);
+    expect(range.reads - opened.reads).toBeLessThanOrEqual(4);
+    expect(bounded.reads - opened.reads).toBeLessThanOrEqual(4);
+    expect(point.reads * 5).toBeLessThan(scanned.reads);
+  });
+
+  test("複合 PRIMARY KEY の先頭カラムの条件で範囲を絞れる", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE members (tenant_id INTEGER, email TEXT, PRIMARY KEY (tenant_id, email));");
+    for (const tenant of [1, 2, 3]) {
+      for (const email of ["c@example.com", "a@example.com", "b@example.com"]) {
+        exec(db, `INSERT INTO members (tenant_id, email) VALUES (${tenant}, '${email}');`);
+      }
+    }
+
+    const rowsOf = (sql: string) => {
+      const result = exec(db, sql);
+      return result.success ? result.records!.map((r) => `${r.tenant_id}:${r.email}`) : null;
+    };
+
+    expect(rowsOf("SELECT * FROM members WHERE tenant_id = 2;")).toEqual([
+      "2:a@example.com",
+      "2:b@example.com",
+      "2:c@example.com",
+    ]);
+    expect(rowsOf("SELECT * FROM members WHERE tenant_id = 2 AND email > 'a@example.com';")).toEqual([
+      "2:b@example.com",
+      "2:c@example.com",
+    ]);
+    expect(rowsOf("SELECT * FROM members WHERE tenant_id > 2 AND email = 'a@example.com';")).toEqual(["3:a@example.com"]);
+    expect(rowsOf("SELECT * FROM members WHERE email = 'b@example.com';")).toEqual([
+      "1:b@example.com",
+      "2:b@example.com",
+      "3:b@example.com",
+    ]);
+    db.close();
+  });
+});
+
+// ============================================================
+// UNIQUE 制約
+// ============================================================
+
+describe("UNIQUE 制約", () => {
+  test("UNIQUE カラムに同じ値を INSERT するとエラー", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE);");
+    exec(db, "INSERT INTO users (id, email) VALUES (1, 'a@example.com');");
+
+    const result = exec(db, "INSERT INTO users (id, email) VALUES (2, 'a@example.com');");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("UNIQUE constraint failed: users.email");
+    }
+
+    const rows = exec(db, "SELECT id FROM users;");
+    expect(rows.success && rows.records).toEqual([{ id: 1 }]);
+    db.close();
+  });
+
+  test("UNIQUE カラムの長い値は、キーに収まれば重複を判定し、収まらなければ書き込む前に拒否する", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE, bio TEXT);");
+    const fits = "a".repeat(1000);
+    const tooLong = "b".repeat(1300); // 約 1.3KB
+
+    expect(exec(db, `INSERT INTO users (id, email) VALUES (1, '${fits}');`).success).toBe(true);
+    expect(exec(db, `INSERT INTO users (id, email) VALUES (2, '${fits}');`)).toEqual({
+      success: false,
+      error: "UNIQUE constraint failed: users.email",
+    });
+    const error = "Key too large for index 'sqlight_autoindex_users_1' on users.email: 1310 bytes (max 1018)";
+    expect(exec(db, `INSERT INTO users (id, email) VALUES (3, '${tooLong}');`)).toEqual({ success: false, error });
+    expect(exec(db, `UPDATE users SET email = '${tooLong}' WHERE id = 1;`)).toEqual({ success: false, error });
+
+    // UNIQUE でないカラムの長い値はオーバーフローページに入る
+    const insertResult = exec(db, `INSERT INTO users (id, email, bio) VALUES (4, 'c@example.com', '${tooLong}');`);
+    expect(insertResult.success).toBe(true);
+    const rows = exec(db, "SELECT id, LENGTH(email) AS n FROM users;");
+    expect(rows.success && rows.records).toEqual([
+      { id: 1, n: 1000 },
+      { id: 4, n: 13 },
+    ]);
+    db.close();
+  });
+
+  test("NULL は UNIQUE カラムに何件でも入る", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE);");
+    expect(exec(db, "INSERT INTO users (id) VALUES (1);").success).toBe(true);
+    expect(exec(db, "INSERT INTO users (id) VALUES (2);").success).toBe(true);
+    db.close();
+  });
+
+  test("UPDATE で重複する値にするとエラー", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE);");
+    exec(db, "INSERT INTO users (id, email) VALUES (1, 'a@example.com');");
+    exec(db, "INSERT INTO users (id, email) VALUES (2, 'b@example.com');");
+
+    expect(exec(db, "UPDATE users SET email = 'a@example.com' WHERE id = 2;").success).toBe(false);
+    expect(exec(db, "UPDATE users SET email = 'c@example.com' WHERE id = 2;").success).toBe(true);
+    expect(exec(db, "INSERT INTO users (id, email) VALUES (3, 'b@example.com');").success).toBe(true);
+    db.close();
+  });
+
+  test("複数カラムの UNIQUE は組み合わせで判定する", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE members (id INTEGER PRIMARY KEY, team_id INTEGER, email TEXT, UNIQUE (team_id, email));");
+    expect(exec(db, "INSERT INTO members (id, team_id, email) VALUES (1, 1, 'a@example.com');").success).toBe(true);
+    expect(exec(db, "INSERT INTO members (id, team_id, email) VALUES (2, 2, 'a@example.com');").success).toBe(true);
+
+    const result = exec(db, "INSERT INTO members (id, team_id, email) VALUES (3, 1, 'a@example.com');");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("UNIQUE constraint failed: members.team_id, members.email");
+    }
+    db.close();
+  });
+
+  test("自動インデックスがカタログに登録され、再オープン後も制約が効く", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE, name TEXT, UNIQUE (name, id));");
+    exec(db1, "INSERT INTO users (id, email, name) VALUES (1, 'a@example.com', 'Alice');");
+
+    const schemaResult = exec(db1, "SELECT name, tbl_name FROM sqlight_schema WHERE type = 'index';");
+    expect(schemaResult.success && schemaResult.records).toEqual([
+      { name: "sqlight_autoindex_users_1", tbl_name: "users" },
+      { name: "sqlight_autoindex_users_2", tbl_name: "users" },
+    ]);
+    db1.close();
+
+    const db2 = openDb();
+    expect(exec(db2, "INSERT INTO users (id, email) VALUES (2, 'a@example.com');").success).toBe(false);
+    db2.close();
+  });
+
+  test("自動インデックスは DROP できず、sqlight_ で始まる名前は使えない", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT UNIQUE);");
+
+    expect(exec(db, "DROP INDEX sqlight_autoindex_users_1;").success).toBe(false);
+    expect(exec(db, "CREATE INDEX sqlight_idx ON users (email);").success).toBe(false);
+    db.close();
+  });
+
+  test("テーブル制約に存在しないカラムを書くとエラー", () => {
+    const db = openDb();
+    const result = exec(db, "CREATE TABLE t (a INTEGER, UNIQUE (a, missing));");
+    expect(result.success).toBe(false);
+
+    const tables = exec(db, "SELECT name FROM sqlight_schema;");
+    expect(tables.success && tables.records).toEqual([]);
+    db.close();
+  });
+});
+
+// ============================================================
+// DEFAULT / CHECK 制約
+// ============================================================
+
+describe("DEFAULT / CHECK 制約", () => {
+  const ORDERS =
+    "CREATE TABLE orders (id INTEGER PRIMARY KEY, qty INTEGER DEFAULT 1 CHECK (qty > 0), " +
+    "status TEXT DEFAULT 'new', price REAL DEFAULT (1.5 * 2), at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, " +
+    "CHECK (qty * price <= 100));";
+
+  test("省略したカラムは DEFAULT の値をカラムの型に変換して入れ、開き直しても定義が残る", () => {
+    let db = openDb();
+    exec(db, ORDERS);
+    const before = Date.now();
+    exec(db, "INSERT INTO orders (id) VALUES (1);");
+    exec(db, "INSERT INTO orders (id, status) VALUES (2, NULL);");
+    db.close();
+
+    db = openDb();
+    exec(db, "INSERT INTO orders (id, qty) VALUES (3, '2');");
+    const result = exec(db, "SELECT id, qty, status, price, at FROM orders;");
+    if (!result.success) throw new Error(result.error);
+    expect(result.records!.map(({ at, ...row }) => row)).toEqual([
+      { id: 1, qty: 1, status: "new", price: 3 },
+      { id: 2, qty: 1, status: null, price: 3 },
+      { id: 3, qty: 2, status: "new", price: 3 },
+    ]);
+    for (const { at } of result.records!) {
+      expect(at).toBeInstanceOf(Date);
+      expect((at as Date).getTime()).toBeGreaterThanOrEqual(before);
+    }
+    db.close();
+  });
+
+  test("CHECK が偽になる INSERT / UPDATE はエラーになり、NULL (UNKNOWN) は通る", () => {
+    const db = openDb();
+    exec(db, ORDERS);
+    exec(db, "INSERT INTO orders (id, qty) VALUES (1, 5);");
+
+    for (const [sql, error] of [
+      ["INSERT INTO orders (id, qty) VALUES (2, 0);", "CHECK constraint failed: qty > 0"],
+      ["INSERT INTO orders (id, qty) VALUES (2, 40);", "CHECK constraint failed: qty * price <= 100"],
+      ["UPDATE orders SET qty = -1 WHERE id = 1;", "CHECK constraint failed: qty > 0"],
+    ]) {
+      const result = exec(db, sql);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toBe(error);
+    }
+    expect(exec(db, "INSERT INTO orders (id, qty) VALUES (2, NULL);").success).toBe(true);
+
+    const rows = exec(db, "SELECT id, qty FROM orders;");
+    expect(rows.success && rows.records).toEqual([
+      { id: 1, qty: 5 },
+      { id: 2, qty: null },
+    ]);
+    db.close();
+  });
+
+  test("DEFAULT にカラムを、CHECK に他のテーブルのカラムや集約関数を書くとエラー", () => {
+    const db = openDb();
+    for (const [sql, error] of [
+      ["CREATE TABLE t (a INTEGER, b INTEGER DEFAULT (a + 1));", "Default value of column 'b' is not constant"],
+      ["CREATE TABLE t (a INTEGER CHECK (b > 0));", "Column 'b' does not exist in table 't'"],
+      ["CREATE TABLE t (a INTEGER, CHECK (COUNT(*) < 10));", "Aggregate functions are not allowed in CHECK"],
+    ]) {
+      const result = exec(db, sql);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toBe(error);
+    }
+
+    db.close();
+  });
+
+  test("DEFAULT の値がカラムの型に変換できなければ CREATE TABLE の時点でエラー", () => {
+    const db = openDb();
+    for (const [sql, error] of [
+      ["CREATE TABLE t (a INTEGER DEFAULT 'abc');", "Invalid INTEGER value for column 'a': abc"],
+      ["CREATE TABLE t (a BOOLEAN DEFAULT (1 + 1));", "Invalid BOOLEAN value for column 'a': 2"],
+      ["CREATE TABLE t (a INTEGER DEFAULT CURRENT_TIMESTAMP);", "Invalid INTEGER value for column 'a': "],
+    ]) {
+      const result = exec(db, sql);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toStartWith(error);
+    }
+    expect(exec(db, "CREATE TABLE t (a INTEGER DEFAULT '42', d DATE DEFAULT CURRENT_TIMESTAMP);").success).toBe(true);
+
+    const tables = exec(db, "SELECT name FROM sqlight_schema;");
+    expect(tables.success && tables.records).toEqual([{ name: "t" }]);
+    db.close();
+  });
+});
+
+// ============================================================
+// PRIMARY KEY の型 (複合キー・TEXT・負の整数)
+// ============================================================
+
+describe("PRIMARY KEY の型", () => {
+  test("複合 PRIMARY KEY は組み合わせで一意になり、キー順に並ぶ", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE members (tenant_id INTEGER, email TEXT, name TEXT, PRIMARY KEY (tenant_id, email));");
+    exec(db, "INSERT INTO members (tenant_id, email, name) VALUES (2, 'a@example.com', 'A2');");
+    exec(db, "INSERT INTO members (tenant_id, email, name) VALUES (1, 'b@example.com', 'B1');");
+    exec(db, "INSERT INTO members (tenant_id, email, name) VALUES (1, 'a@example.com', 'A1');");
+
+    const duplicate = exec(db, "INSERT INTO members (tenant_id, email, name) VALUES (1, 'a@example.com', 'X');");
+    expect(duplicate.success).toBe(false);
+    if (!duplicate.success) {
+      expect(duplicate.error).toBe("Duplicate PRIMARY KEY value: (1, 'a@example.com')");
+    }
+
+    // キーの一部を省略すると NULL になるので拒否する
+    const missing = exec(db, "INSERT INTO members (tenant_id, name) VALUES (3, 'C');");
+    expect(missing.success).toBe(false);
+    if (!missing.success) {
+      expect(missing.error).toBe("Column 'email' cannot be null");
+    }
+
+    const rows = exec(db, "SELECT name FROM members;");
+    expect(rows.success && rows.records).toEqual([{ name: "A1" }, { name: "B1" }, { name: "A2" }]);
+    db.close();
+
+    const reopened = openDb();
+    const found = exec(reopened, "SELECT name FROM members WHERE tenant_id = 1 AND email = 'b@example.com';");
+    expect(found.success && found.records).toEqual([{ name: "B1" }]);
+    reopened.close();
+  });
+
+  test("TEXT の PRIMARY KEY は BINARY 照合の順に並ぶ", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE tags (name TEXT PRIMARY KEY, weight INTEGER);");
+    for (const [name, weight] of [["b", 1], ["B", 2], ["😀", 3], ["\uffff", 4], ["a", 5]] as const) {
+      expect(exec(db, `INSERT INTO tags (name, weight) VALUES ('${name}', ${weight});`).success).toBe(true);
+    }
+    expect(exec(db, "INSERT INTO tags (name, weight) VALUES ('a', 9);").success).toBe(false);
+
+    const rows = exec(db, "SELECT weight FROM tags;");
+    expect(rows.success && rows.records).toEqual([{ weight: 2 }, { weight: 5 }, { weight: 1 }, { weight: 4 }, { weight: 3 }]);
+
+    // WHERE の比較もキーと同じ順序で判定する
+    const greater = exec(db, "SELECT weight FROM tags WHERE name > '\uffff';");
+    expect(greater.success && greater.records).toEqual([{ weight: 3 }]);
+    db.close();
+  });
+
+  test("負の整数や 32bit を超える整数を PRIMARY KEY にできる", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE events (id INTEGER PRIMARY KEY, label TEXT);");
+    for (const id of [5000000000, -7, 0, -5000000000]) {
+      expect(exec(db, `INSERT INTO events (id, label) VALUES (${id}, 'e${id}');`).success).toBe(true);
+    }
+
+    const rows = exec(db, "SELECT id FROM events;");
+    expect(rows.success && rows.records).toEqual([{ id: -5000000000 }, { id: -7 }, { id: 0 }, { id: 5000000000 }]);
+
+    const negative = exec(db, "SELECT label FROM events WHERE id < 0;");
+    expect(negative.success && negative.records).toEqual([{ label: "e-5000000000" }, { label: "e-7" }]);
+
+    const tooLarge = exec(db, "INSERT INTO events (id, label) VALUES (9007199254740993, 'x');");
+    expect(tooLarge.success).toBe(false);
+    db.close();
+  });
+
+  test("INTEGER の PRIMARY KEY は ±(2^53 - 1) まで、64bit 全体を使うなら BIGINT の PRIMARY KEY にする", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE events (id INTEGER PRIMARY KEY, label TEXT);");
+    expect(exec(db, "INSERT INTO events (id, label) VALUES (9007199254740991, 'max');").success).toBe(true);
+    expect(exec(db, "INSERT INTO events (id, label) VALUES (-9007199254740991, 'min');").success).toBe(true);
+    for (const id of ["9007199254740992", "-9007199254740993", "9223372036854775807"]) {
+      expect(exec(db, `INSERT INTO events (id, label) VALUES (${id}, 'x');`)).toEqual({
+        success: false,
+        error: `Invalid INTEGER value for column 'id': ${id}`,
+      });
+    }
+
+    exec(db, "CREATE TABLE big_events (id BIGINT PRIMARY KEY, label TEXT);");
+    for (const id of ["9223372036854775807", "9007199254740993", "-9223372036854775808"]) {
+      expect(exec(db, `INSERT INTO big_events (id, label) VALUES (${id}, 'e');`).success).toBe(true);
+    }
+    const rows = exec(db, "SELECT id FROM big_events WHERE id > 9007199254740992;");
+    expect(rows.success && rows.records).toEqual([{ id: 9007199254740993n }, { id: 9223372036854775807n }]);
+    db.close();
+  });
+
+  test("複合キーの一部を UPDATE すると行が移動し、インデックスも付け替わる", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE members (tenant_id INTEGER, email TEXT, name TEXT, PRIMARY KEY (tenant_id, email));");
+    exec(db, "CREATE INDEX idx_name ON members (name);");
+    exec(db, "INSERT INTO members (tenant_id, email, name) VALUES (1, 'a@example.com', 'Alice');");
+    exec(db, "INSERT INTO members (tenant_id, email, name) VALUES (1, 'b@example.com', 'Bob');");
+    exec(db, "INSERT INTO members (tenant_id, email, name) VALUES (2, 'a@example.com', 'Carol');");
+
+    // 移動先が既存の行と重なる
+    expect(exec(db, "UPDATE members SET tenant_id = 2 WHERE tenant_id = 1;").success).toBe(false);
+
+    // 複数行のキーが変わっても、変更後のキーどうしが重ならなければよい
+    const moved = exec(db, "UPDATE members SET tenant_id = 3 WHERE tenant_id = 1;");
+    expect(moved.success).toBe(true);
+
+    const bob = exec(db, "SELECT tenant_id, email FROM members WHERE name = 'Bob';");
+    expect(bob.success && bob.records).toEqual([{ tenant_id: 3, email: "b@example.com" }]);
+
+    expect(exec(db, "DELETE FROM members WHERE name = 'Alice';").success).toBe(true);
+    const rows = exec(db, "SELECT name FROM members;");
+    expect(rows.success && rows.records).toEqual([{ name: "Carol" }, { name: "Bob" }]);
+    db.close();
+  });
+
+  test("PRIMARY KEY をカラム制約とテーブル制約の両方に書くとエラー", () => {
+    const db = openDb();
+    const result = exec(db, "CREATE TABLE t (a INTEGER PRIMARY KEY, b TEXT, PRIMARY KEY (a, b));");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("Table can only have one PRIMARY KEY");
+    }
+    db.close();
+  });
+});
+
+// ============================================================
+// ストリーミング読み出し (query)
+// ============================================================
+
+describe("ストリーミング読み出し (query)", () => {
+  function query(db: Database, sql: string) {
+    const parsed = parse(sql);
+    if (!parsed.success || parsed.statement.type !== "SELECT") throw new Error(`Not a SELECT: ${sql}`);
+    return db.query(parsed.statement);
+  }
+
+  test("execute と同じ行を同じ順序で返す", () => {
+    const db = openDb();
+    createUsers(db, 100);
+    exec(db, "CREATE INDEX idx_age ON users (age);");
+
+    for (const sql of [
+      "SELECT * FROM users;",
+      "SELECT name, id FROM users WHERE id >= 40 AND id < 45;",
+      "SELECT id FROM users WHERE age = 25;",
+      "SELECT id FROM users WHERE name = 'User7';",
+    ]) {
+      const result = query(db, sql);
+      expect(result.success).toBe(true);
+      if (!result.success) continue;
+
+      const executed = exec(db, sql);
+      expect(executed.success && executed.columns).toEqual(result.stream.columns);
+      expect([...result.stream.rows]).toEqual(executed.success ? executed.records! : []);
+      expect(result.stream.error).toBeNull();
+    }
+
+    db.close();
+  });
+
+  test("行は読み進めたときに読まれる", () => {
+    const db1 = openDb();
+    createUsers(db1, 2000);
+    db1.close();
+
+    const db = openDb();
+    const result = query(db, "SELECT * FROM users;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    // 先頭の1行だけならルートから左端のリーフまでしか読まない
+    const first = result.stream.rows.next();
+    expect(first.done).toBe(false);
+    expect(first.value).toEqual({ id: 1, name: "User1", age: 21 });
+    const stats = db.getCacheStats();
+    expect(stats.hits + stats.misses).toBeLessThan(10);
+
+    let count = 1;
+    for (const _ of result.stream.rows) count++;
+    expect(count).toBe(2000);
+    expect(result.stream.error).toBeNull();
+
+    db.close();
+  });
+
+  test("存在しないテーブルやカラムはイテレータを返さずにエラーになる", () => {
+    const db = openDb();
+    createUsers(db, 3);
+
+    const noTable = query(db, "SELECT * FROM missing;");
+    expect(noTable.success).toBe(false);
+    if (!noTable.success) expect(noTable.error).toBe("Table 'missing' does not exist");
+
+    const noColumn = query(db, "SELECT email FROM users;");
+    expect(noColumn.success).toBe(false);
+    if (!noColumn.success) expect(noColumn.error).toBe("Column 'email' does not exist in table 'users'");
+
+    db.close();
+  });
+});
+
+// ============================================================
+// 大きな値
+// ============================================================
+
+describe("大きな値", () => {
+  test("1 ページを超える TEXT を INSERT / UPDATE して読み戻せる", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE docs (id INTEGER PRIMARY KEY, body TEXT);");
+
+    const body = "lorem ipsum ".repeat(100000); // 約 1.2MB
+    expect(exec(db1, `INSERT INTO docs (id, body) VALUES (1, '${body}');`).success).toBe(true);
+    expect(exec(db1, `INSERT INTO docs (id, body) VALUES (2, 'short');`).success).toBe(true);
+    expect(exec(db1, `UPDATE docs SET body = '${body}!' WHERE id = 2;`).success).toBe(true);
+    db1.close();
+
+    const db2 = openDb();
+    const result = exec(db2, "SELECT body FROM docs;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.records!.map((r) => r.body)).toEqual([body, `${body}!`]);
+    }
+    db2.close();
+  });
+
+  test("キーに入る値が大きすぎる行は、書き込む前に対象のカラムを示すエラーで拒否する", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE codes (code TEXT PRIMARY KEY, body TEXT);");
+    exec(db, "CREATE TABLE notes (id INTEGER PRIMARY KEY, tag TEXT, body TEXT);");
+    exec(db, "CREATE INDEX idx_notes_tag ON notes (tag, id);");
+
+    // ページサイズ 4096 ではキーは 1018 バイト、キーと追い出せない値を合わせたセルは 1022 バイトまで
+    expect(exec(db, `INSERT INTO codes (code, body) VALUES ('${"k".repeat(1001)}', 'ok');`).success).toBe(true);
+    expect(exec(db, `INSERT INTO codes (code, body) VALUES ('${"k".repeat(1002)}', 'ok');`)).toEqual({
+      success: false,
+      error: "Key too large for PRIMARY KEY on codes.code: row is 1023 bytes with the key (max 1022)",
+    });
+    expect(exec(db, `INSERT INTO codes (code, body) VALUES ('${"k".repeat(1300)}', 'ok');`)).toEqual({
+      success: false,
+      error: "Key too large for PRIMARY KEY on codes.code: 1305 bytes (max 1018)",
+    });
+
+    // インデックスのキーは [tag, id, 行キー]。キーでないカラムの長い値はオーバーフローページに入る
+    expect(exec(db, `INSERT INTO notes (id, tag, body) VALUES (1, 'a', '${"b".repeat(5000)}');`).success).toBe(true);
+    expect(exec(db, `INSERT INTO notes (id, tag, body) VALUES (2, '${"t".repeat(1500)}', 'x');`)).toEqual({
+      success: false,
+      error: "Key too large for index 'idx_notes_tag' on notes.tag, notes.id: 1515 bytes (max 1018)",
+    });
+    expect(exec(db, `UPDATE notes SET tag = '${"t".repeat(1500)}' WHERE id = 1;`).success).toBe(false);
+    const rows = exec(db, "SELECT id, tag, LENGTH(body) AS n FROM notes;");
+    expect(rows.success && rows.records).toEqual([{ id: 1, tag: "a", n: 5000 }]);
+
+    exec(db, `INSERT INTO codes (code, body) VALUES ('long', '${"v".repeat(1500)}');`);
+    expect(exec(db, "CREATE INDEX idx_codes_body ON codes (body);")).toEqual({
+      success: false,
+      error: "Key too large for index 'idx_codes_body' on codes.body: 1512 bytes (max 1018)",
+    });
+    db.close();
+  });
+});
+
+// ============================================================
+// B+Tree のノードサイズ
+// ============================================================
+
+describe("B+Tree のノードサイズ", () => {
+  function insertUsers(db: Database, count: number): void {
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= count; i++) {
+      exec(db, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+  }
+
+  test("既定ではページのバイト数で分割され、学習用の設定より少ないページで済む", () => {
+    const db1 = openDb();
+    insertUsers(db1, 50);
+    db1.close();
+    const defaultSize = statSync(TEST_DB).size;
+    unlinkSync(TEST_DB);
+
+    const result = Database.open(TEST_DB, { btree: TEACHING_BTREE_OPTIONS });
+    if (!result.success || !result.db) throw new Error("open failed");
+    insertUsers(result.db, 50);
+
+    const selectResult = exec(result.db, "SELECT id FROM users WHERE id > 45;");
+    expect(selectResult.success && selectResult.records!.map((r) => r.id)).toEqual([46, 47, 48, 49, 50]);
+    result.db.close();
+
+    expect(statSync(TEST_DB).size).toBeGreaterThan(defaultSize * 5);
+  });
+});
+
+// ============================================================
+// スキーマカタログ
+// ============================================================
+
+describe("スキーマカタログ", () => {
+  test("SELECT * FROM sqlight_schema でテーブル定義が見える", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db, "CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT NOT NULL);");
+
+    const result = exec(db, "SELECT * FROM sqlight_schema;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.columns).toEqual(["type", "name", "tbl_name", "rootpage", "sql"]);
+    expect(result.records!.map((r) => [r.type, r.name, r.tbl_name, r.sql])).toEqual([
+      ["table", "users", "users", "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)"],
+      ["table", "posts", "posts", "CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT NOT NULL)"],
+    ]);
+    expect(typeof result.records![0].rootpage).toBe("number");
+    db.close();
+  });
+
+  test("sqlight_schema は書き換えられない", () => {
+    const db = openDb();
+    expect(exec(db, "INSERT INTO sqlight_schema (type, name) VALUES ('table', 'x');").success).toBe(false);
+    expect(exec(db, "DELETE FROM sqlight_schema;").success).toBe(false);
+    expect(exec(db, "UPDATE sqlight_schema SET name = 'x';").success).toBe(false);
+    expect(exec(db, "CREATE TABLE sqlight_schema (id INTEGER);").success).toBe(false);
+    db.close();
+  });
+
+  test("多数のテーブルを作っても再オープン後にすべて使える", () => {
+    const db1 = openDb();
+    const columns = Array.from({ length: 20 }, (_, i) => `a_rather_long_column_name_${i} TEXT`).join(", ");
+    for (let i = 0; i < 60; i++) {
+      expect(exec(db1, `CREATE TABLE t${i} (id INTEGER PRIMARY KEY, ${columns});`).success).toBe(true);
+      exec(db1, `INSERT INTO t${i} (id, a_rather_long_column_name_0) VALUES (${i}, 'v${i}');`);
+    }
+    db1.close();
+
+    const db2 = openDb();
+    for (const i of [0, 31, 59]) {
+      const result = exec(db2, `SELECT a_rather_long_column_name_0 FROM t${i};`);
+      expect(result.success && result.records).toEqual([{ a_rather_long_column_name_0: `v${i}` }]);
+    }
+    const schemaResult = exec(db2, "SELECT name FROM sqlight_schema;");
+    expect(schemaResult.success && schemaResult.records!.length).toBe(60);
+    db2.close();
+  });
+
+  test("ルートページの変化がカタログに反映される", () => {
+    const result = Database.open(TEST_DB, { btree: TEACHING_BTREE_OPTIONS });
+    if (!result.success || !result.db) throw new Error("open failed");
+    const db1 = result.db;
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= 10; i++) {
+      exec(db1, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+
+    const schemaResult = exec(db1, "SELECT rootpage FROM sqlight_schema;");
+    expect(schemaResult.success && schemaResult.records![0].rootpage).not.toBe(2);
+    db1.close();
+
+    const db2 = openDb();
+    const selectResult = exec(db2, "SELECT id FROM users;");
+    expect(selectResult.success && selectResult.records!.length).toBe(10);
+    db2.close();
+  });
+});
+
+// ============================================================
+// 永続化 (DB再起動)
+// ============================================================
+
+describe("永続化", () => {
+  test("DB再起動後もデータが残る", () => {
+    // データを書き込んで閉じる
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    exec(db1, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
+    db1.close();
+
+    // 再オープン
+    const db2 = openDb();
+    const result = exec(db2, "SELECT * FROM users;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.records).toHaveLength(2);
+    expect(result.records![0]).toEqual({ id: 1, name: "Alice" });
+    expect(result.records![1]).toEqual({ id: 2, name: "Bob" });
+    db2.close();
+  });
+
+  test("DB再起動後もスキーマ(複数テーブル)が残る", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db1, "CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);");
+    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    exec(db1, "INSERT INTO posts (id, title) VALUES (1, 'Hello');");
+    db1.close();
+
+    const db2 = openDb();
+    const usersResult = exec(db2, "SELECT * FROM users;");
+    const postsResult = exec(db2, "SELECT * FROM posts;");
+    expect(usersResult.success).toBe(true);
+    expect(postsResult.success).toBe(true);
+    if (usersResult.success) expect(usersResult.records).toHaveLength(1);
+    if (postsResult.success) expect(postsResult.records).toHaveLength(1);
+    db2.close();
+  });
+
+  test("DB再起動後にデータ追加できる", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    db1.close();
+
+    const db2 = openDb();
+    exec(db2, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
+    const result = exec(db2, "SELECT * FROM users;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.records).toHaveLength(2);
+    }
+    db2.close();
+  });
+});
+
+// ============================================================
+// BEGIN / COMMIT / ROLLBACK
+// ============================================================
+
+describe("トランザクション", () => {
+  test("COMMIT した変更は DB 再起動後も残る", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    expect(exec(db1, "BEGIN;").success).toBe(true);
+    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    exec(db1, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
+    const commitResult = exec(db1, "COMMIT;");
+    expect(commitResult.success).toBe(true);
+    if (commitResult.success) {
+      expect(commitResult.message).toContain("committed");
+    }
+    db1.close();
+
+    const db2 = openDb();
+    const result = exec(db2, "SELECT * FROM users;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.records).toHaveLength(2);
+    }
+    db2.close();
+  });
+
+  test("ROLLBACK で BEGIN 前の行・テーブル・ルートページに戻る", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+
+    exec(db, "BEGIN;");
+    // 分割を起こしてルートページを変える
+    for (let i = 2; i <= 20; i++) {
+      exec(db, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+    exec(db, "UPDATE users SET name = 'Alicia' WHERE id = 1;");
+    exec(db, "CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT);");
+
+    // トランザクション内では変更が見える
+    const inside = exec(db, "SELECT * FROM users;");
+    expect(inside.success && inside.records).toHaveLength(20);
+
+    const rollbackResult = exec(db, "ROLLBACK;");
+    expect(rollbackResult.success).toBe(true);
+
+    const users = exec(db, "SELECT * FROM users;");
+    expect(users.success).toBe(true);
+    if (users.success) {
+      expect(users.records).toEqual([{ id: 1, name: "Alice" }]);
+    }
+
+    const posts = exec(db, "SELECT * FROM posts;");
+    expect(posts.success).toBe(false);
+
+    // ロールバック後も書き込める
+    expect(exec(db, "INSERT INTO users (id, name) VALUES (2, 'Bob');").success).toBe(true);
+    db.close();
+  });
+
+  test("トランザクション内で失敗した文だけが取り消される", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+
+    exec(db, "BEGIN;");
+    exec(db, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    const failed = exec(db, "INSERT INTO users (id, name) VALUES (1, 'Duplicate');");
+    expect(failed.success).toBe(false);
+    exec(db, "INSERT INTO users (id, name) VALUES (2, 'Bob');");
+    exec(db, "COMMIT;");
+
+    const result = exec(db, "SELECT * FROM users;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.records).toEqual([
+        { id: 1, name: "Alice" },
+        { id: 2, name: "Bob" },
+      ]);
+    }
+    db.close();
+  });
+
+  test("COMMIT せずに閉じた変更は破棄される", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db1, "BEGIN;");
+    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    db1.close();
+
+    const db2 = openDb();
+    const result = exec(db2, "SELECT * FROM users;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.records).toHaveLength(0);
+    }
+    db2.close();
+  });
+
+  test("BEGIN の二重実行やトランザクション外の COMMIT / ROLLBACK はエラー", () => {
+    const db = openDb();
+    expect(exec(db, "COMMIT;").success).toBe(false);
+    expect(exec(db, "ROLLBACK;").success).toBe(false);
+
+    expect(exec(db, "BEGIN;").success).toBe(true);
+    const nested = exec(db, "BEGIN;");
+    expect(nested.success).toBe(false);
+    if (!nested.success) {
+      expect(nested.error).toContain("within a transaction");
+    }
+    expect(exec(db, "COMMIT;").success).toBe(true);
+    db.close();
+  });
+});
+
+// ============================================================
+// クラッシュリカバリ (ロールバックジャーナル)
+// ============================================================
+
+describe("クラッシュリカバリ", () => {
+  test("文の実行後にジャーナルが残らない", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+    expect(existsSync(`${TEST_DB}-journal`)).toBe(false);
+    db.close();
+  });
+
+  test("分割途中でクラッシュしても再オープン時に元の状態に戻る", () => {
+    const db1 = openDb();
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= 4; i++) {
+      exec(db1, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+    db1.close();
+
+    // スキーマ上のルートページ (ページ2) に分割を起こす挿入を行い、
+    // コミット前のディスク状態をコピーする
+    const pagerResult = Pager.open(TEST_DB);
+    if (!pagerResult.success) throw new Error(pagerResult.error);
+    const pager = pagerResult.data;
+    pager.begin();
+    const tree = BTree.open(pager, 2, TEACHING_BTREE_OPTIONS);
+    expect(tree.insert({ key: 5, values: [5, "User5"] }).success).toBe(true);
+    expect(tree.getRootPageNum()).not.toBe(2);
+
+    copyFileSync(TEST_DB, CRASH_DB);
+    copyFileSync(`${TEST_DB}-journal`, `${CRASH_DB}-journal`);
+    pager.rollback();
+    pager.close();
+
+    const result = Database.open(CRASH_DB);
+    if (!result.success || !result.db) throw new Error("open failed");
+    const db2 = result.db;
+
+    const selectResult = exec(db2, "SELECT id FROM users;");
+    expect(selectResult.success).toBe(true);
+    if (selectResult.success) {
+      expect(selectResult.records!.map((r) => r.id)).toEqual([1, 2, 3, 4]);
+    }
+
+    // 復旧後も通常どおり書き込める
+    expect(exec(db2, "INSERT INTO users (id, name) VALUES (5, 'User5');").success).toBe(true);
+    db2.close();
+  });
+});
+
+// ============================================================
+// WAL モード
+// ============================================================
+
+describe("WAL モード", () => {
+  test("PRAGMA journal_mode で切り替えと問い合わせができる", () => {
+    const db = openDb();
+
+    const queryResult = exec(db, "PRAGMA journal_mode;");
+    expect(queryResult.success).toBe(true);
+    if (queryResult.success) {
+      expect(queryResult.records).toEqual([{ journal_mode: "delete" }]);
+    }
+
+    const setResult = exec(db, "PRAGMA journal_mode = WAL;");
+    expect(setResult.success).toBe(true);
+    if (setResult.success) {
+      expect(setResult.records).toEqual([{ journal_mode: "wal" }]);
+    }
+
+    expect(exec(db, "PRAGMA journal_mode = MEMORY;").success).toBe(false);
+    expect(exec(db, "PRAGMA page_size;").success).toBe(false);
+    db.close();
+  });
+
+  test("WAL モードでもコミット・ロールバック・再オープンが動く", () => {
+    const db1 = openDb();
+    exec(db1, "PRAGMA journal_mode = WAL;");
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= 6; i++) {
+      exec(db1, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+
+    exec(db1, "BEGIN;");
+    exec(db1, "DELETE FROM users WHERE id > 3;");
+    // 重複キーの文だけが取り消される
+    expect(exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Dup');").success).toBe(false);
+    exec(db1, "ROLLBACK;");
+
+    expect(existsSync(`${TEST_DB}-journal`)).toBe(false);
+    db1.close();
+
+    const db2 = openDb();
+    const result = exec(db2, "SELECT id FROM users;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.records!.map((r) => r.id)).toEqual([1, 2, 3, 4, 5, 6]);
+    }
+    expect(exec(db2, "PRAGMA journal_mode;").success && existsSync(`${TEST_DB}-wal`)).toBe(true);
+    db2.close();
+  });
+
+  test("CHECKPOINT で WAL の内容が本体に書き戻される", () => {
+    const db = openDb();
+    exec(db, "PRAGMA journal_mode = WAL;");
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+
+    const result = exec(db, "CHECKPOINT;");
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.message).toMatch(/^[1-9]\d* frame\(s\) checkpointed$/);
+    }
+
+    exec(db, "BEGIN;");
+    expect(exec(db, "CHECKPOINT;").success).toBe(false);
+    exec(db, "COMMIT;");
+    db.close();
+  });
+
+  test("チェックポイント前にクラッシュしてもコミット済みの行は残る", () => {
+    const db1 = openDb();
+    exec(db1, "PRAGMA journal_mode = WAL;");
+    exec(db1, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    exec(db1, "INSERT INTO users (id, name) VALUES (1, 'Alice');");
+
+    copyFileSync(TEST_DB, CRASH_DB);
+    copyFileSync(`${TEST_DB}-wal`, `${CRASH_DB}-wal`);
+    db1.close();
+
+    const result = Database.open(CRASH_DB);
+    if (!result.success || !result.db) throw new Error("open failed");
+    const selectResult = exec(result.db, "SELECT name FROM users;");
+    expect(selectResult.success).toBe(true);
+    if (selectResult.success) {
+      expect(selectResult.records).toEqual([{ name: "Alice" }]);
+    }
+    result.db.close();
+  });
+});
+
+// ============================================================
+// ページキャッシュ
+// ============================================================
+
+describe("ページキャッシュ", () => {
+  test("主キー検索を繰り返すと内部ノードがキャッシュから読まれる", () => {
+    const db = openDb();
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= 30; i++) {
+      exec(db, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+
+    const before = db.getCacheStats();
+    for (let i = 1; i <= 30; i++) {
+      exec(db, `SELECT name FROM users WHERE id = ${i};`);
+    }
+    const after = db.getCacheStats();
+
+    expect(after.misses).toBe(before.misses);
+    expect(after.hits).toBeGreaterThan(before.hits);
+    db.close();
+  });
+
+  test("キャッシュが小さくても結果は変わらない", () => {
+    const result = Database.open(TEST_DB, { cacheSize: 1 });
+    if (!result.success || !result.db) throw new Error("open failed");
+    const db = result.db;
+
+    exec(db, "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);");
+    for (let i = 1; i <= 30; i++) {
+      exec(db, `INSERT INTO users (id, name) VALUES (${i}, 'User${i}');`);
+    }
+    exec(db, "DELETE FROM users WHERE id > 20;");
+
+    const selectResult = exec(db, "SELECT id FROM users;");
+    expect(selectResult.success).toBe(true);
+    if (selectResult.success) {
+      expect(selectResult.records!.length).toBe(20);
+    }
+    expect(db.getCacheStats().evictions).toBeGreaterThan(0);
+    db.close();
   });
 });
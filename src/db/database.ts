@@ -1,13 +1,79 @@
-import { Pager, PAGE_TYPE } from "../storage/pager.ts";
-import { BTree } from "./btree.ts";
-import type { ColumnValue } from "./btree.ts";
+import { Pager } from "../storage/pager.ts";
+import type { PagerOptions } from "../storage/pager.ts";
+import type { CacheStats } from "../storage/cache.ts";
+import { BTree, compareKeys, compareValues, formatKey } from "./btree.ts";
+import {
+  Catalog,
+  SCHEMA_TABLE_NAME,
+  SCHEMA_TABLE_COLUMNS,
+  renderCreateTableSql,
+  renderCreateIndexSql,
+} from "./catalog.ts";
+import { SecondaryIndex } from "./secondary-index.ts";
+import { ExternalSorter } from "./sorter.ts";
+import { Accumulator } from "./aggregate.ts";
+import { arithmetic, callFunction, negative } from "./scalar.ts";
+import {
+  DEFAULT_TABLE_ROWS,
+  accessCost,
+  comparisonSelectivity,
+  estimateGroups,
+  explainPlan,
+  explainQueryPlan,
+  roundRows,
+  selectivity,
+} from "./plan.ts";
+import {
+  STAT_TABLE_NAME,
+  STAT_TABLE_SQL,
+  StatsCollector,
+  columnSelectivity,
+  equalSelectivity,
+  statsFromRows,
+  statsToRows,
+} from "./stats.ts";
+import type { Row, SorterOptions } from "./sorter.ts";
+import type {
+  AccessPath,
+  AggregateCall,
+  ColumnCondition,
+  ComparisonEstimator,
+  JoinStrategy,
+  KeyRange,
+  OutputColumn,
+  PlanNode,
+  PlanNodeOf,
+  ScanNode,
+} from "./plan.ts";
+import type { IndexKey } from "./secondary-index.ts";
+import type { TableStats } from "./stats.ts";
+import type { BTreeKey, BTreeRecord, BTreeResult, BTreeOptions, ColumnValue, KeyBound } from "./btree.ts";
 import type {
   Statement,
   CreateTableStatement,
+  CreateIndexStatement,
+  DropIndexStatement,
   InsertStatement,
   SelectStatement,
+  UpdateStatement,
+  DeleteStatement,
+  TransactionStatement,
+  PragmaStatement,
+  AnalyzeStatement,
+  ExplainStatement,
   ColumnDef,
+  ColumnType,
+  TableConstraint,
+  BinaryOperator,
+  ComparisonOperator,
+  Expression,
+  JoinClause,
+  LiteralValue,
+  OrderByItem,
+  SelectItem,
 } from "../sql/parser.ts";
+import { isComparisonOperator, parse, renderExpression } from "../sql/parser.ts";
+import { CalendarDate, castValue, formatValue, parseTimestamp, valueToText } from "./value.ts";
 
 // ============================================================
 // 型定義
@@ -17,40 +83,58 @@ export type Record = {
   [columnName: string]: ColumnValue;
 };
 
+export type DatabaseOptions = PagerOptions & {
+  btree?: BTreeOptions; // テーブルの B+Tree のノードサイズ設定
+  sort?: SorterOptions; // ORDER BY の外部ソートの設定 (メモリの上限など)
+};
+
 export type QueryResult =
   | { success: true; message: string; columns?: string[]; records?: Record[] }
   | { success: false; error: string };
 
-/** スキーマ上のテーブル情報 */
+/**
+ * query() が返す行の列
+ * rows を進めるたびに B+Tree から1行ずつ読む。途中で読み出しに失敗すると
+ * rows はそこで終わり、error にメッセージが入る
+ */
+export type RowStream = {
+  columns: string[];
+  rows: IterableIterator<Record>;
+  error: string | null;
+};
+
+export type StreamResult =
+  | { success: true; stream: RowStream }
+  | { success: false; error: string };
+
+/**
+ * スキーマ上のテーブル情報
+ *
+ * B+Tree のキー (行キー) は PRIMARY KEY で決まる。INTEGER 1カラムの
+ * PRIMARY KEY ならその値、PRIMARY KEY がなければ連番の整数キー。
+ * それ以外 (TEXT や複数カラム) は PRIMARY KEY の値の並びを複合キーにする
+ */
 type TableSchema = {
   name: string;
   columns: ColumnDef[];
+  tableConstraints: TableConstraint[];
   rootPageNum: number;
+  catalogId: number; // sqlight_schema 上の行のキー
 };
 
-// ============================================================
-// スキーマページのシリアライズ形式
-//
-// [0]      u8   ページタイプ (0x01 = Schema)
-// [1..2]   u16  テーブル数
-// [3..]    テーブルエントリの配列:
-//   - テーブル名: u16(長さ) + UTF-8
-//   - カラム数: u16
-//   - カラム定義の配列:
-//     - カラム名: u16(長さ) + UTF-8
-//     - 型: u8 (0x01=INTEGER, 0x02=TEXT)
-//     - 制約フラグ: u8 (bit0=PRIMARY_KEY, bit1=NOT_NULL, bit2=UNIQUE)
-//   - ルートページ番号: u32
-// ============================================================
-
-const COLUMN_TYPE_MAP: { [key: string]: number } = {
-  INTEGER: 0x01,
-  TEXT: 0x02,
-};
-
-const COLUMN_TYPE_REVERSE: { [key: number]: "INTEGER" | "TEXT" } = {
-  0x01: "INTEGER",
-  0x02: "TEXT",
+/** UNIQUE 制約のために自動で作るインデックスの名前の接頭辞 (後ろに <テーブル名>_<連番>) */
+const AUTOINDEX_PREFIX = "sqlight_autoindex_";
+
+/** 結合の読み方を選ぶときに「カラム = 値」の値として使う、カラムの型ごとの仮の値 */
+const SAMPLE_VALUES: { [type in ColumnType]: LiteralValue } = {
+  INTEGER: 0,
+  BIGINT: 0n,
+  REAL: 0,
+  BOOLEAN: false,
+  TEXT: "",
+  BLOB: new Uint8Array(),
+  DATE: new CalendarDate(0),
+  TIMESTAMP: new Date(0),
 };
 
 // ============================================================
@@ -59,55 +143,298 @@ const COLUMN_TYPE_REVERSE: { [key: number]: "INTEGER" | "TEXT" } = {
 
 export class Database {
   private pager: Pager;
+  private btreeOptions: BTreeOptions;
+  private sortOptions: SorterOptions;
+  private catalog!: Catalog;
   private tables: Map<string, TableSchema> = new Map();
-  private btrees: Map<string, BTree> = new Map();
+  private btrees: Map<string, BTree<BTreeKey>> = new Map();
+  private indexes: Map<string, SecondaryIndex> = new Map();
+  private stats: Map<string, TableStats> = new Map(); // ANALYZE したテーブルの統計
 
-  private constructor(pager: Pager) {
+  private constructor(pager: Pager, btreeOptions: BTreeOptions, sortOptions: SorterOptions) {
     this.pager = pager;
+    this.btreeOptions = btreeOptions;
+    this.sortOptions = sortOptions;
   }
 
   /**
    * データベースを開く（なければ新規作成）
    */
-  static open(filePath: string): QueryResult & { db?: Database } {
-    const pagerResult = Pager.open(filePath);
+  static open(filePath: string, options: DatabaseOptions = {}): QueryResult & { db?: Database } {
+    const pagerResult = Pager.open(filePath, undefined, options);
     if (!pagerResult.success) {
       return { success: false, error: pagerResult.error };
     }
 
-    const db = new Database(pagerResult.data);
+    const db = new Database(pagerResult.data, options.btree ?? {}, options.sort ?? {});
+
+    // カタログを開く (旧形式のスキーマページはここで B+Tree に移行される)
+    const catalogResult = db.openCatalog();
+    if (!catalogResult.success) {
+      pagerResult.data.close();
+      return catalogResult;
+    }
 
-    // スキーマページからテーブル情報を読み込む
+    // カタログからテーブル情報を読み込む
     const loadResult = db.loadSchema();
     if (!loadResult.success) {
       pagerResult.data.close();
       return loadResult;
     }
 
+    // 自動インデックスがない UNIQUE 制約 (以前の形式で作ったテーブル) に作る
+    const autoIndexResult = db.createMissingAutoIndexes();
+    if (!autoIndexResult.success) {
+      pagerResult.data.close();
+      return autoIndexResult;
+    }
+
     return { success: true, message: "Database opened", db };
   }
 
   /**
    * Statement を実行する
+   *
+   * BEGIN していなければ1文を1トランザクションとして実行し、失敗したら
+   * ジャーナルから書き戻して実行前の状態に戻す (メモリ上のスキーマも読み直す)。
+   * BEGIN 済みなら文単位のセーブポイントを張り、失敗した文だけを取り消す
    */
   execute(stmt: Statement): QueryResult {
+    if (stmt.type === "BEGIN" || stmt.type === "COMMIT" || stmt.type === "ROLLBACK") {
+      return this.executeTransaction(stmt);
+    }
+    if (stmt.type === "PRAGMA") {
+      return this.executePragma(stmt);
+    }
+    if (stmt.type === "CHECKPOINT") {
+      return this.executeCheckpoint();
+    }
+    if (stmt.type === "EXPLAIN") {
+      return this.executeExplain(stmt);
+    }
+
+    if (this.pager.isInTransaction()) {
+      return this.executeInTransaction(stmt);
+    }
+
+    const beginResult = this.pager.begin();
+    if (!beginResult.success) {
+      return { success: false, error: beginResult.error };
+    }
+
+    const result = this.executeStatement(stmt);
+    if (!result.success) {
+      const rollbackResult = this.rollbackPager();
+      if (!rollbackResult.success) return rollbackResult;
+      return result;
+    }
+
+    const commitResult = this.pager.commit();
+    if (!commitResult.success) {
+      return { success: false, error: commitResult.error };
+    }
+
+    return result;
+  }
+
+  /**
+   * SELECT を実行し、一致した行を1行ずつ読み出すイテレータを返す
+   *
+   * execute() と違って結果を配列に集めないので、大きな結果も
+   * リーフ1枚分程度のメモリで読み進められる。行はイテレータを進めたときに
+   * 読むため、読み終わる前に書き込みを行った場合の結果は保証しない。
+   *
+   * 先に演算子の木 (実行計画、EXPLAIN で表示できる) を組み立て、それを実行する。
+   * ORDER BY が行キーの順序 (PRIMARY KEY の先頭からのカラムをすべて ASC
+   * またはすべて DESC) と一致すれば B+Tree をその向きにたどるだけで並び、
+   * LIMIT に達したところで読むのをやめる。一致しなければ一致した行をすべて
+   * 外部ソートにかけてから返す。集約関数や GROUP BY があれば、先にすべての行を
+   * グループにまとめてから返す。JOIN があれば FROM のテーブルの行ごとに
+   * 結合する行を探す (結合しても FROM のテーブルの順序は保たれる)
+   */
+  query(stmt: SelectStatement): StreamResult {
+    const planResult = this.planQuery(stmt);
+    if (!planResult.success) {
+      return planResult;
+    }
+
+    const { root, columns, context } = planResult.data;
+    const rowResults = this.runPlan(root, context);
+    function* toRecords(): Generator<Record> {
+      for (const result of rowResults) {
+        if (!result.success) {
+          stream.error = result.error;
+          return;
+        }
+
+        const record: Record = {};
+        for (const [i, column] of columns.entries()) {
+          record[column] = result.data[i];
+        }
+        yield record;
+      }
+    }
+    const stream: RowStream = { columns, rows: toRecords(), error: null };
+
+    return { success: true, stream };
+  }
+
+  /**
+   * ページキャッシュの統計 (ヒット / ミス / 追い出し回数など) を返す
+   */
+  getCacheStats(): CacheStats {
+    return this.pager.getCacheStats();
+  }
+
+  /**
+   * データベースを閉じる
+   */
+  close(): void {
+    this.pager.close();
+  }
+
+  private executeStatement(stmt: Statement): QueryResult {
     switch (stmt.type) {
       case "CREATE_TABLE":
         return this.executeCreate(stmt);
+      case "CREATE_INDEX":
+        return this.executeCreateIndex(stmt);
+      case "DROP_INDEX":
+        return this.executeDropIndex(stmt);
       case "INSERT":
         return this.executeInsert(stmt);
       case "SELECT":
         return this.executeSelect(stmt);
+      case "UPDATE":
+        return this.executeUpdate(stmt);
+      case "DELETE":
+        return this.executeDelete(stmt);
+      case "ANALYZE":
+        return this.executeAnalyze(stmt);
       default:
         return { success: false, error: `Unsupported statement type: ${(stmt as Statement).type}` };
     }
   }
 
+  // ============================================================
+  // BEGIN / COMMIT / ROLLBACK
+  // ============================================================
+
+  private executeTransaction(stmt: TransactionStatement): QueryResult {
+    switch (stmt.type) {
+      case "BEGIN": {
+        if (this.pager.isInTransaction()) {
+          return { success: false, error: "Cannot start a transaction within a transaction" };
+        }
+        const beginResult = this.pager.begin();
+        if (!beginResult.success) {
+          return { success: false, error: beginResult.error };
+        }
+        return { success: true, message: "Transaction started" };
+      }
+      case "COMMIT": {
+        if (!this.pager.isInTransaction()) {
+          return { success: false, error: "No active transaction" };
+        }
+        const commitResult = this.pager.commit();
+        if (!commitResult.success) {
+          return { success: false, error: commitResult.error };
+        }
+        return { success: true, message: "Transaction committed" };
+      }
+      case "ROLLBACK": {
+        if (!this.pager.isInTransaction()) {
+          return { success: false, error: "No active transaction" };
+        }
+        const rollbackResult = this.rollbackPager();
+        if (!rollbackResult.success) return rollbackResult;
+        return { success: true, message: "Transaction rolled back" };
+      }
+    }
+  }
+
+  // ============================================================
+  // PRAGMA / CHECKPOINT
+  // ============================================================
+
+  private executePragma(stmt: PragmaStatement): QueryResult {
+    if (stmt.name !== "journal_mode") {
+      return { success: false, error: `Unknown pragma: ${stmt.name}` };
+    }
+
+    if (stmt.value !== null) {
+      const mode = stmt.value.toUpperCase();
+      if (mode !== "WAL" && mode !== "DELETE") {
+        return { success: false, error: `Unsupported journal mode: ${stmt.value}` };
+      }
+      const setResult = this.pager.setJournalMode(mode);
+      if (!setResult.success) {
+        return { success: false, error: setResult.error };
+      }
+    }
+
+    const journalMode = this.pager.getJournalMode().toLowerCase();
+    return {
+      success: true,
+      message: `journal_mode = ${journalMode}`,
+      columns: ["journal_mode"],
+      records: [{ journal_mode: journalMode }],
+    };
+  }
+
+  private executeCheckpoint(): QueryResult {
+    const checkpointResult = this.pager.checkpoint();
+    if (!checkpointResult.success) {
+      return { success: false, error: checkpointResult.error };
+    }
+    return { success: true, message: `${checkpointResult.data} frame(s) checkpointed` };
+  }
+
   /**
-   * データベースを閉じる
+   * BEGIN 済みのトランザクション内で1文を実行する
    */
-  close(): void {
-    this.pager.close();
+  private executeInTransaction(stmt: Statement): QueryResult {
+    const savepointResult = this.pager.beginStatement();
+    if (!savepointResult.success) {
+      return { success: false, error: savepointResult.error };
+    }
+
+    const result = this.executeStatement(stmt);
+    if (!result.success) {
+      const rollbackResult = this.pager.rollbackStatement();
+      if (!rollbackResult.success) {
+        return { success: false, error: rollbackResult.error };
+      }
+      const reloadResult = this.reloadSchema();
+      if (!reloadResult.success) return reloadResult;
+      return result;
+    }
+
+    this.pager.endStatement();
+    return result;
+  }
+
+  /**
+   * Pager をロールバックし、ディスク上の状態からスキーマを読み直す
+   */
+  private rollbackPager(): QueryResult {
+    const rollbackResult = this.pager.rollback();
+    if (!rollbackResult.success) {
+      return { success: false, error: rollbackResult.error };
+    }
+
+    return this.reloadSchema();
+  }
+
+  /**
+   * メモリ上のテーブル・インデックス情報と統計、B+Tree (ルートページ番号) を破棄して読み直す
+   */
+  private reloadSchema(): QueryResult {
+    this.tables.clear();
+    this.btrees.clear();
+    this.indexes.clear();
+    this.stats.clear();
+    return this.loadSchema();
   }
 
   // ============================================================
@@ -115,43 +442,275 @@ export class Database {
   // ============================================================
 
   private executeCreate(stmt: CreateTableStatement): QueryResult {
+    if (stmt.tableName.toLowerCase().startsWith("sqlight_")) {
+      return { success: false, error: `Object name reserved for internal use: ${stmt.tableName}` };
+    }
+    return this.createTable(stmt);
+  }
+
+  private createTable(stmt: CreateTableStatement): QueryResult {
     const tableName = stmt.tableName.toLowerCase();
 
     if (this.tables.has(tableName)) {
       return { success: false, error: `Table '${stmt.tableName}' already exists` };
     }
 
-    // PRIMARY KEY は最大1つ
-    const pkCount = stmt.columns.filter((c) =>
-      c.constraints.includes("PRIMARY_KEY"),
-    ).length;
+    // PRIMARY KEY は最大1つ (カラム制約とテーブル制約を合わせて)
+    const pkCount =
+      stmt.columns.filter((c) => c.constraints.includes("PRIMARY_KEY")).length +
+      stmt.tableConstraints.filter((c) => c.type === "PRIMARY_KEY").length;
     if (pkCount > 1) {
       return { success: false, error: "Table can only have one PRIMARY KEY" };
     }
 
-    // B+Tree を作成
-    const treeResult = BTree.create(this.pager);
+    // テーブル制約のカラムが定義されているか
+    for (const constraint of stmt.tableConstraints) {
+      if (constraint.type === "CHECK") continue;
+      for (const [i, col] of constraint.columns.entries()) {
+        if (!stmt.columns.some((c) => c.name.toLowerCase() === col.toLowerCase())) {
+          return { success: false, error: `Column '${col}' does not exist in table '${stmt.tableName}'` };
+        }
+        if (constraint.columns.slice(0, i).some((c) => c.toLowerCase() === col.toLowerCase())) {
+          return { success: false, error: `Column '${col}' appears more than once in constraint` };
+        }
+      }
+    }
+
+    // DEFAULT と CHECK の式を確かめる
+    const expressionError = findConstraintExpressionError(stmt);
+    if (expressionError) {
+      return { success: false, error: expressionError };
+    }
+
+    // B+Tree を作成 (キーの形式は PRIMARY KEY で決まる)
+    const treeResult = BTree.create<BTreeKey>(this.pager, { ...this.btreeOptions, keyType: rowKeyType(stmt) });
     if (!treeResult.success) {
       return { success: false, error: treeResult.error };
     }
 
     const tree = treeResult.data;
-    const schema: TableSchema = {
+
+    // カタログに登録
+    const addResult = this.catalog.add({
+      type: "table",
+      name: stmt.tableName,
+      tblName: stmt.tableName,
+      rootPage: tree.getRootPageNum(),
+      sql: stmt.sql ?? renderCreateTableSql(stmt.tableName, stmt.columns, stmt.tableConstraints),
+    });
+    if (!addResult.success) {
+      return { success: false, error: addResult.error };
+    }
+
+    this.tables.set(tableName, {
       name: stmt.tableName,
       columns: stmt.columns,
+      tableConstraints: stmt.tableConstraints,
       rootPageNum: tree.getRootPageNum(),
-    };
-
-    this.tables.set(tableName, schema);
+      catalogId: addResult.data,
+    });
     this.btrees.set(tableName, tree);
 
-    // スキーマページを更新
-    const saveResult = this.saveSchema();
-    if (!saveResult.success) return saveResult;
+    const autoIndexResult = this.createAutoIndexes(tableName);
+    if (!autoIndexResult.success) return autoIndexResult;
 
     return { success: true, message: `Table '${stmt.tableName}' created` };
   }
 
+  /**
+   * テーブルの UNIQUE 制約ごとに UNIQUE インデックスを作る (既にあるものは飛ばす)
+   *
+   * 書き込み時の重複チェックはこのインデックスの挿入で行われる
+   */
+  private createAutoIndexes(tableName: string): QueryResult {
+    const schema = this.tables.get(tableName)!;
+
+    for (const [i, columns] of uniqueColumnSets(schema).entries()) {
+      const indexName = `${AUTOINDEX_PREFIX}${schema.name}_${i + 1}`;
+      if (this.indexes.has(indexName.toLowerCase())) continue;
+
+      const createResult = this.createIndex({
+        type: "CREATE_INDEX",
+        indexName,
+        tableName: schema.name,
+        columns,
+        unique: true,
+      });
+      if (!createResult.success) return createResult;
+    }
+
+    return { success: true, message: "Auto indexes created" };
+  }
+
+  /**
+   * 自動インデックスが足りないテーブルがあれば1トランザクションでまとめて作る
+   */
+  private createMissingAutoIndexes(): QueryResult {
+    const missing = [...this.tables.entries()].filter(([, schema]) =>
+      uniqueColumnSets(schema).some((_, i) => !this.indexes.has(`${AUTOINDEX_PREFIX}${schema.name}_${i + 1}`.toLowerCase())),
+    );
+    if (missing.length === 0) {
+      return { success: true, message: "No auto indexes missing" };
+    }
+
+    const beginResult = this.pager.begin();
+    if (!beginResult.success) {
+      return { success: false, error: beginResult.error };
+    }
+
+    for (const [tableName] of missing) {
+      const createResult = this.createAutoIndexes(tableName);
+      if (!createResult.success) {
+        this.pager.rollback();
+        return createResult;
+      }
+    }
+
+    const commitResult = this.pager.commit();
+    if (!commitResult.success) {
+      return { success: false, error: commitResult.error };
+    }
+    return { success: true, message: "Auto indexes created" };
+  }
+
+  // ============================================================
+  // CREATE INDEX / DROP INDEX
+  // ============================================================
+
+  private executeCreateIndex(stmt: CreateIndexStatement): QueryResult {
+    if (stmt.indexName.toLowerCase().startsWith("sqlight_")) {
+      return { success: false, error: `Object name reserved for internal use: ${stmt.indexName}` };
+    }
+    return this.createIndex(stmt);
+  }
+
+  private createIndex(stmt: CreateIndexStatement): QueryResult {
+    const indexName = stmt.indexName.toLowerCase();
+    const tableName = stmt.tableName.toLowerCase();
+
+    const schema = this.tables.get(tableName);
+    if (!schema) {
+      return { success: false, error: `Table '${stmt.tableName}' does not exist` };
+    }
+    if (isSystemTable(tableName)) {
+      return { success: false, error: `Table '${schema.name}' may not be indexed` };
+    }
+    if (this.indexes.has(indexName)) {
+      return { success: false, error: `Index '${stmt.indexName}' already exists` };
+    }
+
+    const columnsResult = resolveIndexColumns(schema, stmt.columns);
+    if (!columnsResult.success) return columnsResult;
+
+    const indexResult = SecondaryIndex.create(
+      this.pager,
+      {
+        name: stmt.indexName,
+        tableName: schema.name,
+        columns: columnsResult.columns,
+        columnIndexes: columnsResult.columnIndexes,
+        unique: stmt.unique,
+        rowKeyType: rowKeyType(schema),
+      },
+      this.btreeOptions,
+    );
+    if (!indexResult.success) {
+      return { success: false, error: indexResult.error };
+    }
+    const index = indexResult.data;
+
+    // 既存の行をすべてインデックスに登録する
+    const scanResult = this.btrees.get(tableName)!.scan();
+    if (!scanResult.success) {
+      return { success: false, error: scanResult.error };
+    }
+    for (const record of scanResult.data) {
+      const insertResult = index.insert(record.key, record.values);
+      if (!insertResult.success) {
+        return { success: false, error: insertResult.error };
+      }
+    }
+
+    // カタログに登録
+    index.schema.rootPageNum = index.getTree().getRootPageNum();
+    const addResult = this.catalog.add({
+      type: "index",
+      name: stmt.indexName,
+      tblName: schema.name,
+      rootPage: index.schema.rootPageNum,
+      sql: stmt.sql ?? renderCreateIndexSql(stmt.indexName, schema.name, columnsResult.columns, stmt.unique),
+    });
+    if (!addResult.success) {
+      return { success: false, error: addResult.error };
+    }
+    index.schema.catalogId = addResult.data;
+
+    this.indexes.set(indexName, index);
+    return { success: true, message: `Index '${stmt.indexName}' created` };
+  }
+
+  private executeDropIndex(stmt: DropIndexStatement): QueryResult {
+    const indexName = stmt.indexName.toLowerCase();
+    const index = this.indexes.get(indexName);
+    if (!index) {
+      return { success: false, error: `Index '${stmt.indexName}' does not exist` };
+    }
+    if (indexName.startsWith(AUTOINDEX_PREFIX)) {
+      return { success: false, error: `Index '${stmt.indexName}' belongs to a UNIQUE constraint and cannot be dropped` };
+    }
+
+    const dropResult = index.getTree().drop();
+    if (!dropResult.success) {
+      return { success: false, error: dropResult.error };
+    }
+
+    const removeResult = this.catalog.remove(index.schema.catalogId);
+    if (!removeResult.success) {
+      return { success: false, error: removeResult.error };
+    }
+
+    this.indexes.delete(indexName);
+    return { success: true, message: `Index '${stmt.indexName}' dropped` };
+  }
+
+  /**
+   * テーブルに張られたインデックスの一覧
+   */
+  private tableIndexes(tableName: string): SecondaryIndex[] {
+    return [...this.indexes.values()].filter((index) => index.schema.tableName.toLowerCase() === tableName);
+  }
+
+  /**
+   * 行キーとインデックスのキーが B+Tree に格納できる大きさか、書き込む前に検証する (問題なければ null)
+   * キーはオーバーフローページに追い出せないので、長い TEXT / BLOB を PRIMARY KEY や
+   * インデックス (UNIQUE を含む) のカラムに入れた行は、テーブルを触る前にここで拒否する
+   */
+  private findKeySizeError(schema: TableSchema, key: BTreeKey, values: ColumnValue[]): string | null {
+    const tableName = schema.name.toLowerCase();
+    const tree = this.btrees.get(tableName)!;
+    if (rowKeyType(schema) === "composite") {
+      // テーブルのセルはキーに加えて値も持つ (キーのカラムの値は値の側にもあり、そちらは追い出せる)
+      const columns = primaryKeyColumns(schema).map((i) => `${schema.name}.${schema.columns[i].name}`);
+      const keySize = tree.keySize(key);
+      if (keySize > tree.maxKeySize()) {
+        return `Key too large for PRIMARY KEY on ${columns.join(", ")}: ${keySize} bytes (max ${tree.maxKeySize()})`;
+      }
+      const recordSize = tree.recordSize({ key, values });
+      if (recordSize > tree.maxRecordSize()) {
+        return (
+          `Key too large for PRIMARY KEY on ${columns.join(", ")}: ` +
+          `row is ${recordSize} bytes with the key (max ${tree.maxRecordSize()})`
+        );
+      }
+    }
+
+    for (const index of this.tableIndexes(tableName)) {
+      const sizeResult = index.checkKeySize(key, values);
+      if (!sizeResult.success) return sizeResult.error;
+    }
+    return null;
+  }
+
   // ============================================================
   // INSERT INTO
   // ============================================================
@@ -162,6 +721,9 @@ export class Database {
     if (!schema) {
       return { success: false, error: `Table '${stmt.tableName}' does not exist` };
     }
+    if (isSystemTable(tableName)) {
+      return { success: false, error: `Table '${schema.name}' may not be modified` };
+    }
 
     const tree = this.btrees.get(tableName);
     if (!tree) {
@@ -182,9 +744,9 @@ export class Database {
       columnMap.set(schema.columns[i].name.toLowerCase(), i);
     }
 
-    // スキーマ順の値配列を作る (未指定カラムは null)
+    // スキーマ順の値配列を作る (未指定カラムは DEFAULT の値、DEFAULT がなければ null)
     const values: ColumnValue[] = new Array(schema.columns.length).fill(null);
-    let keyValue: number | null = null;
+    const specified = new Set<number>();
 
     for (let i = 0; i < stmt.columns.length; i++) {
       const colIdx = columnMap.get(stmt.columns[i].toLowerCase());
@@ -199,51 +761,61 @@ export class Database {
       const converted = convertValue(colDef, rawValue);
       if (!converted.success) return converted;
       values[colIdx] = converted.value;
+      specified.add(colIdx);
+    }
 
-      // PRIMARY KEY カラムからキーを取得
-      if (colDef.constraints.includes("PRIMARY_KEY")) {
-        if (typeof converted.value !== "number") {
-          return { success: false, error: `PRIMARY KEY column '${colDef.name}' must be INTEGER` };
-        }
-        keyValue = converted.value;
-      }
+    for (const [colIdx, colDef] of schema.columns.entries()) {
+      if (specified.has(colIdx) || !colDef.defaultValue) continue;
+      const converted = convertValue(colDef, evaluateConstant(colDef.defaultValue));
+      if (!converted.success) return converted;
+      values[colIdx] = converted.value;
     }
 
-    // NOT NULL チェック
-    for (let i = 0; i < schema.columns.length; i++) {
-      const colDef = schema.columns[i];
-      if (colDef.constraints.includes("NOT_NULL") && values[i] === null) {
-        return { success: false, error: `Column '${colDef.name}' cannot be null` };
-      }
+    // NOT NULL と CHECK のチェック
+    const nullColumn = findNullViolation(schema, values);
+    if (nullColumn) {
+      return { success: false, error: `Column '${nullColumn.name}' cannot be null` };
+    }
+    const failedCheck = findCheckViolation(schema, values);
+    if (failedCheck) {
+      return { success: false, error: `CHECK constraint failed: ${renderExpression(failedCheck)}` };
     }
 
-    // PRIMARY KEY がない場合は auto-increment 的に連番を生成
-    if (keyValue === null) {
-      const scanResult = tree.scan();
-      if (!scanResult.success) {
-        return { success: false, error: scanResult.error };
+    // 整数の行キーで PRIMARY KEY の値がない場合は auto-increment 的に連番を生成
+    let key = rowKeyOf(schema, values);
+    if (key === null) {
+      const keyResult = nextRowKey(tree);
+      if (!keyResult.success) {
+        return { success: false, error: keyResult.error };
       }
-      keyValue = scanResult.data.length > 0
-        ? Math.max(...scanResult.data.map((r) => r.key)) + 1
-        : 1;
+      key = keyResult.data;
+    }
+    const keySizeError = this.findKeySizeError(schema, key, values);
+    if (keySizeError) {
+      return { success: false, error: keySizeError };
     }
 
     // B+Tree に挿入
-    const insertResult = tree.insert({ key: keyValue, values });
+    const insertResult = tree.insert({ key, values });
     if (!insertResult.success) {
       if (insertResult.error.includes("Duplicate key")) {
-        return { success: false, error: `Duplicate PRIMARY KEY value: ${keyValue}` };
+        return { success: false, error: `Duplicate PRIMARY KEY value: ${formatKey(key)}` };
       }
       return { success: false, error: insertResult.error };
     }
 
-    // ルートページが変わった可能性があるのでスキーマを更新
-    const currentSchema = this.tables.get(tableName)!;
-    if (currentSchema.rootPageNum !== tree.getRootPageNum()) {
-      currentSchema.rootPageNum = tree.getRootPageNum();
-      this.saveSchema();
+    // インデックスに登録 (UNIQUE 違反なら文ごと取り消される)
+    for (const index of this.tableIndexes(tableName)) {
+      const indexResult = index.insert(key, values);
+      if (!indexResult.success) {
+        return { success: false, error: indexResult.error };
+      }
     }
 
+    // ルートページが変わった可能性があるのでスキーマを更新
+    const syncResult = this.syncRootPages(tableName);
+    if (!syncResult.success) return syncResult;
+
     return { success: true, message: "1 row inserted" };
   }
 
@@ -252,268 +824,2365 @@ export class Database {
   // ============================================================
 
   private executeSelect(stmt: SelectStatement): QueryResult {
+    const queryResult = this.query(stmt);
+    if (!queryResult.success) return queryResult;
+
+    const { stream } = queryResult;
+    const records = [...stream.rows];
+    if (stream.error !== null) {
+      return { success: false, error: stream.error };
+    }
+
+    return {
+      success: true,
+      message: `${records.length} row(s) found`,
+      columns: stream.columns,
+      records,
+    };
+  }
+
+  /**
+   * SELECT の実行計画を行として返す (SELECT 自体は実行しない)
+   *
+   * EXPLAIN は演算子の木のすべてのノードを、EXPLAIN QUERY PLAN はテーブルの
+   * 読み方とハッシュ表・外部ソートを使う箇所だけを、見積もりの行数とともに返す
+   */
+  private executeExplain(stmt: ExplainStatement): QueryResult {
+    const planResult = this.planQuery(stmt.statement);
+    if (!planResult.success) return planResult;
+
+    const { root } = planResult.data;
+    if (stmt.queryPlan) {
+      const records = explainQueryPlan(root).map((row) => ({ id: row.id, detail: row.detail, est_rows: row.rows }));
+      return {
+        success: true,
+        message: `${records.length} row(s) found`,
+        columns: ["id", "detail", "est_rows"],
+        records,
+      };
+    }
+
+    const records = explainPlan(root).map((row) => ({
+      id: row.id,
+      parent: row.parent,
+      operator: row.operator,
+      detail: row.detail,
+      est_rows: row.rows,
+    }));
+    return {
+      success: true,
+      message: `${records.length} row(s) found`,
+      columns: ["id", "parent", "operator", "detail", "est_rows"],
+      records,
+    };
+  }
+
+  // ============================================================
+  // UPDATE
+  // ============================================================
+
+  private executeUpdate(stmt: UpdateStatement): QueryResult {
     const tableName = stmt.tableName.toLowerCase();
     const schema = this.tables.get(tableName);
     if (!schema) {
       return { success: false, error: `Table '${stmt.tableName}' does not exist` };
     }
+    if (isSystemTable(tableName)) {
+      return { success: false, error: `Table '${schema.name}' may not be modified` };
+    }
 
     const tree = this.btrees.get(tableName);
     if (!tree) {
       return { success: false, error: `B+Tree not found for table '${stmt.tableName}'` };
     }
 
-    // 全レコードを取得
-    const scanResult = tree.scan();
-    if (!scanResult.success) {
-      return { success: false, error: scanResult.error };
+    const columnMap = new Map<string, number>();
+    for (let i = 0; i < schema.columns.length; i++) {
+      columnMap.set(schema.columns[i].name.toLowerCase(), i);
     }
 
-    // カラム名リストを決定
-    const allColumnNames = schema.columns.map((c) => c.name);
-    const isSelectAll = stmt.columns.length === 1 && stmt.columns[0] === "*";
-
-    const selectedColumns: string[] = isSelectAll
-      ? allColumnNames
-      : stmt.columns.map((col) => {
-          // 大文字小文字を無視してマッチ
-          const found = allColumnNames.find(
-            (c) => c.toLowerCase() === col.toLowerCase(),
-          );
-          return found ?? col;
-        });
+    // SET 句のカラムと式を検証する (式は行ごとに評価して型変換する)
+    const scope = columnScope([{ name: schema.name, tableName, schema }]);
+    const assignments: { colIdx: number; value: Expression }[] = [];
+    const keyColumns = primaryKeyColumns(schema);
+    let pkAssigned = false;
+    for (const assignment of stmt.assignments) {
+      const colIdx = columnMap.get(assignment.column.toLowerCase());
+      if (colIdx === undefined) {
+        return { success: false, error: `Column '${assignment.column}' does not exist in table '${stmt.tableName}'` };
+      }
 
-    // 存在しないカラムのチェック
-    if (!isSelectAll) {
-      for (const col of selectedColumns) {
-        if (!allColumnNames.find((c) => c.toLowerCase() === col.toLowerCase())) {
-          return { success: false, error: `Column '${col}' does not exist in table '${stmt.tableName}'` };
-        }
+      const columnError = findColumnError(scope, assignment.value);
+      if (columnError) {
+        return { success: false, error: columnError };
+      }
+      if (containsAggregate(assignment.value)) {
+        return { success: false, error: "Aggregate functions are not allowed in SET" };
       }
-    }
 
-    // B+Tree のレコードを Record 形式に変換
-    let records: Record[] = scanResult.data.map((btreeRecord) => {
-      const record: Record = {};
-      for (let i = 0; i < allColumnNames.length; i++) {
-        record[allColumnNames[i]] = btreeRecord.values[i] ?? null;
+      if (keyColumns.includes(colIdx)) {
+        pkAssigned = true;
       }
-      return record;
-    });
+      assignments.push({ colIdx, value: localize(bindRealArithmetic(scope, assignment.value)) });
+    }
 
-    // WHERE フィルタリング
-    if (Object.keys(stmt.where).length > 0) {
-      records = records.filter((record) => {
-        for (const [col, condition] of Object.entries(stmt.where)) {
-          const actualCol = allColumnNames.find(
-            (c) => c.toLowerCase() === col.toLowerCase(),
-          );
-          if (!actualCol) return false;
+    // WHERE に一致するレコードを集める
+    const rowsResult = this.findRows(tableName, stmt.where);
+    if (!rowsResult.success) {
+      return { success: false, error: rowsResult.error };
+    }
 
-          const recordValue = record[actualCol];
-          if (!matchesCondition(recordValue, condition.operator, condition.value)) {
-            return false;
-          }
-        }
-        return true;
+    // 更新後のレコードを組み立てて、書き込み前に制約をすべて検証する
+    // SET の式はどれも更新前の行の値で評価する (SET a = b, b = a は値を入れ替える)
+    const positions = columnPositions(schema);
+    const updates: {
+      oldKey: BTreeKey;
+      oldValues: ColumnValue[];
+      record: BTreeRecord<BTreeKey>;
+      keyChanged: boolean;
+    }[] = [];
+    for (const btreeRecord of rowsResult.data) {
+      const oldValues = schema.columns.map((_, i) => btreeRecord.values[i] ?? null);
+      const values = [...oldValues];
+      for (const { colIdx, value } of assignments) {
+        const converted = convertValue(schema.columns[colIdx], evaluate(value, positions, oldValues));
+        if (!converted.success) return converted;
+        values[colIdx] = converted.value;
+      }
+      const newKey = pkAssigned ? (rowKeyOf(schema, values) ?? btreeRecord.key) : btreeRecord.key;
+      const keyChanged = compareKeys(newKey, btreeRecord.key) !== 0;
+      updates.push({
+        oldKey: btreeRecord.key,
+        oldValues: btreeRecord.values,
+        record: { key: newKey, values },
+        keyChanged,
       });
     }
 
-    // 指定カラムだけに絞る
-    const projectedRecords = records.map((record) => {
-      const projected: Record = {};
-      for (const col of selectedColumns) {
-        projected[col] = record[col] ?? null;
+    for (const { record } of updates) {
+      const nullColumn = findNullViolation(schema, record.values);
+      if (nullColumn) {
+        return { success: false, error: `Column '${nullColumn.name}' cannot be null` };
       }
-      return projected;
-    });
+      const failedCheck = findCheckViolation(schema, record.values);
+      if (failedCheck) {
+        return { success: false, error: `CHECK constraint failed: ${renderExpression(failedCheck)}` };
+      }
+      const keySizeError = this.findKeySizeError(schema, record.key, record.values);
+      if (keySizeError) {
+        return { success: false, error: keySizeError };
+      }
+    }
+
+    // 同じキーを複数レコードの PRIMARY KEY に設定することはできない
+    if (pkAssigned) {
+      const newKeys = updates.map(({ record }) => record.key).sort(compareKeys);
+      for (let i = 1; i < newKeys.length; i++) {
+        if (compareKeys(newKeys[i - 1], newKeys[i]) === 0) {
+          return { success: false, error: `Duplicate PRIMARY KEY value: ${formatKey(newKeys[i])}` };
+        }
+      }
+    }
+
+    // キーが変わる行は先にすべて取り除いてから入れ直す
+    // (更新後のキーが別の更新対象の元のキーと同じでも衝突しないように)
+    for (const { oldKey, keyChanged } of updates) {
+      if (!keyChanged) continue;
+      const deleteResult = tree.delete(oldKey);
+      if (!deleteResult.success) {
+        return { success: false, error: deleteResult.error };
+      }
+    }
+
+    // B+Tree のセルを書き換え、キーか対象カラムが変わったインデックスを付け替える
+    const indexes = this.tableIndexes(tableName);
+    for (const { oldKey, oldValues, record, keyChanged } of updates) {
+      const writeResult = keyChanged ? tree.insert(record) : tree.update(oldKey, record);
+      if (!writeResult.success) {
+        if (writeResult.error.includes("Duplicate key")) {
+          return { success: false, error: `Duplicate PRIMARY KEY value: ${formatKey(record.key)}` };
+        }
+        return { success: false, error: writeResult.error };
+      }
+
+      for (const index of indexes) {
+        if (!keyChanged && !index.affects(oldValues, record.values)) continue;
+
+        const deleteResult = index.delete(oldKey, oldValues);
+        if (!deleteResult.success) {
+          return { success: false, error: deleteResult.error };
+        }
+        const insertResult = index.insert(record.key, record.values);
+        if (!insertResult.success) {
+          return { success: false, error: insertResult.error };
+        }
+      }
+    }
+
+    // 分割でルートページが変わった可能性があるのでスキーマを更新
+    const syncResult = this.syncRootPages(tableName);
+    if (!syncResult.success) return syncResult;
+
+    return { success: true, message: `${updates.length} row(s) updated` };
+  }
+
+  // ============================================================
+  // DELETE
+  // ============================================================
+
+  private executeDelete(stmt: DeleteStatement): QueryResult {
+    const tableName = stmt.tableName.toLowerCase();
+    const schema = this.tables.get(tableName);
+    if (!schema) {
+      return { success: false, error: `Table '${stmt.tableName}' does not exist` };
+    }
+    if (isSystemTable(tableName)) {
+      return { success: false, error: `Table '${schema.name}' may not be modified` };
+    }
+
+    const tree = this.btrees.get(tableName);
+    if (!tree) {
+      return { success: false, error: `B+Tree not found for table '${stmt.tableName}'` };
+    }
+
+    // WHERE に一致するレコードを集める
+    const rowsResult = this.findRows(tableName, stmt.where);
+    if (!rowsResult.success) {
+      return { success: false, error: rowsResult.error };
+    }
+
+    const indexes = this.tableIndexes(tableName);
+    for (const { key, values } of rowsResult.data) {
+      const deleteResult = tree.delete(key);
+      if (!deleteResult.success) {
+        return { success: false, error: deleteResult.error };
+      }
+
+      for (const index of indexes) {
+        const indexResult = index.delete(key, values);
+        if (!indexResult.success) {
+          return { success: false, error: indexResult.error };
+        }
+      }
+    }
+
+    // 併合でルートページが変わった可能性があるのでスキーマを更新
+    const syncResult = this.syncRootPages(tableName);
+    if (!syncResult.success) return syncResult;
+
+    return { success: true, message: `${rowsResult.data.length} row(s) deleted` };
+  }
+
+  // ============================================================
+  // ANALYZE
+  // ============================================================
+
+  /**
+   * テーブル (指定がなければシステムテーブル以外のすべて) を全件読んで統計を集め、
+   * sqlight_stat の行を置き換える。sqlight_stat は最初の ANALYZE で作る
+   */
+  private executeAnalyze(stmt: AnalyzeStatement): QueryResult {
+    let tableNames: string[];
+    if (stmt.tableName !== null) {
+      const tableName = stmt.tableName.toLowerCase();
+      const schema = this.tables.get(tableName);
+      if (!schema) {
+        return { success: false, error: `Table '${stmt.tableName}' does not exist` };
+      }
+      if (isSystemTable(tableName)) {
+        return { success: false, error: `Table '${schema.name}' may not be analyzed` };
+      }
+      tableNames = [tableName];
+    } else {
+      tableNames = [...this.tables.keys()].filter((tableName) => !isSystemTable(tableName));
+    }
+
+    if (!this.tables.has(STAT_TABLE_NAME)) {
+      const parsed = parse(STAT_TABLE_SQL);
+      if (!parsed.success || parsed.statement.type !== "CREATE_TABLE") {
+        return { success: false, error: `Invalid schema SQL for '${STAT_TABLE_NAME}'` };
+      }
+      const createResult = this.createTable(parsed.statement);
+      if (!createResult.success) return createResult;
+    }
+
+    for (const tableName of tableNames) {
+      const schema = this.tables.get(tableName)!;
+      const collector = new StatsCollector(schema.columns.length, this.sortOptions);
+      for (const result of this.iterateRows(tableName, null)) {
+        if (!result.success) {
+          collector.close();
+          return { success: false, error: result.error };
+        }
+        collector.add(padValues(result.data.values, schema.columns.length));
+      }
+
+      const stats = collector.result();
+      const writeResult = this.writeStats(schema, stats);
+      if (!writeResult.success) return writeResult;
+      this.stats.set(tableName, stats);
+    }
+
+    return { success: true, message: `${tableNames.length} table(s) analyzed` };
+  }
+
+  /**
+   * sqlight_stat にあるテーブルの統計の行を、新しい統計の行に置き換える
+   */
+  private writeStats(schema: TableSchema, stats: TableStats): QueryResult {
+    const tree = this.btrees.get(STAT_TABLE_NAME)!;
+
+    const oldRows = this.findRows(STAT_TABLE_NAME, equalsLiteral({ type: "COLUMN", name: "tbl" }, schema.name));
+    if (!oldRows.success) {
+      return { success: false, error: oldRows.error };
+    }
+    for (const { key } of oldRows.data) {
+      const deleteResult = tree.delete(key);
+      if (!deleteResult.success) {
+        return { success: false, error: deleteResult.error };
+      }
+    }
+
+    for (const values of statsToRows(schema.name, schema.columns, stats)) {
+      const keyResult = nextRowKey(tree);
+      if (!keyResult.success) {
+        return { success: false, error: keyResult.error };
+      }
+      const insertResult = tree.insert({ key: keyResult.data, values });
+      if (!insertResult.success) {
+        return { success: false, error: insertResult.error };
+      }
+    }
+
+    return this.syncRootPages(STAT_TABLE_NAME);
+  }
+
+  // ============================================================
+  // 行の検索
+  // ============================================================
+
+  /**
+   * WHERE に一致するレコードを行キー順 (descending なら逆順) に1件ずつ返す
+   * (読み方は chooseAccessPath() で選ぶ)
+   */
+  private iterateRows(
+    tableName: string,
+    where: Expression | null,
+    descending = false,
+  ): Generator<BTreeResult<BTreeRecord<BTreeKey>>> {
+    return this.readRows(tableName, this.chooseAccessPath(tableName, where), where, descending);
+  }
+
+  /**
+   * WHERE でテーブルを読む方法を選ぶ
+   *
+   * ANALYZE したテーブルは、全件走査・PRIMARY KEY の範囲走査・インデックスのうち
+   * 統計で見積もったコスト (accessCost()) が最も小さいものを選ぶ。統計がなければ、
+   * PRIMARY KEY の条件で範囲を絞れればテーブルの B+Tree を範囲走査し
+   * (1件なら O(log n) ページ)、インデックスのほうが多くのカラムで絞れれば
+   * それで行キーを集める。どちらもなければ全件を走査する
+   */
+  private chooseAccessPath(tableName: string, where: Expression | null): AccessPath {
+    const schema = this.tables.get(tableName)!;
+
+    // 範囲を絞るのに使えるのは、AND で繋がった「カラム 比較演算子 値」の条件だけ
+    const conditions = where ? columnConditions(columnPositions(schema), where) : [];
+    const keyRange = keyRangeFor(schema, primaryKeyColumns(schema), conditions);
+    const indexScans = indexScansFor(schema, this.tableIndexes(tableName), conditions);
+
+    const stats = this.stats.get(tableName);
+    if (stats) {
+      // コストが同じなら先に挙げたものを選ぶ
+      const candidates: AccessPath[] = [
+        { type: "FULL_SCAN" },
+        ...(keyRange ? [{ type: "PRIMARY_KEY" as const, range: keyRange }] : []),
+        ...indexScans,
+      ];
+      const costs = candidates.map((path) => {
+        const matched = path.type === "FULL_SCAN" ? 1 : rangeSelectivity(stats, path.range.conditions);
+        return accessCost(path.type, stats.rowCount, stats.rowCount * matched);
+      });
+      return candidates[costs.indexOf(Math.min(...costs))];
+    }
+
+    // 最も多くのカラムで絞れるインデックス (同じなら先に作ったもの)
+    const indexScan = indexScans.reduce<(typeof indexScans)[number] | null>(
+      (best, scan) => (scan.range.score > (best?.range.score ?? 0) ? scan : best),
+      null,
+    );
+    if (keyRange !== null && keyRange.score >= (indexScan?.range.score ?? 0)) {
+      return { type: "PRIMARY_KEY", range: keyRange };
+    }
+    return indexScan ?? { type: "FULL_SCAN" };
+  }
+
+  /**
+   * 計画した読み方の走査範囲を、実際の条件で組み立て直す
+   * (値の型が合わないなどで範囲を作れなければ、改めて読み方を選ぶ)
+   */
+  private bindAccessPath(tableName: string, path: AccessPath, where: Expression | null): AccessPath {
+    if (path.type === "FULL_SCAN") return path;
+
+    const schema = this.tables.get(tableName)!;
+    const conditions = where ? columnConditions(columnPositions(schema), where) : [];
+    const columns = path.type === "PRIMARY_KEY" ? primaryKeyColumns(schema) : path.index.schema.columnIndexes;
+    const range = keyRangeFor(schema, columns, conditions);
+    return range === null ? this.chooseAccessPath(tableName, where) : { ...path, range };
+  }
+
+  /**
+   * 読み方 (path) に従ってテーブルを読み、WHERE 全体で絞り込んだレコードを行キー順
+   * (descending なら逆順) に1件ずつ返す。読み出しに失敗したらその結果を1つ返して終わる
+   */
+  private *readRows(
+    tableName: string,
+    path: AccessPath,
+    where: Expression | null,
+    descending = false,
+  ): Generator<BTreeResult<BTreeRecord<BTreeKey>>> {
+    const schema = this.tables.get(tableName)!;
+    const tree = this.btrees.get(tableName)!;
+    const positions = columnPositions(schema);
+
+    let candidates: Iterable<BTreeResult<BTreeRecord<BTreeKey>>>;
+    if (path.type === "PRIMARY_KEY") {
+      // テーブルの B+Tree を下端まで降りて、上端まで葉をたどる
+      const { lower, upper } = path.range;
+      candidates = tree.iterate(toRowKeyBound(schema, lower), toRowKeyBound(schema, upper), descending);
+    } else if (path.type === "FULL_SCAN") {
+      candidates = tree.iterate(null, null, descending);
+    } else {
+      // 行キーの順に返すため、インデックスから集めた行キーは並べ替えてから引く
+      const keysResult = path.index.findRowKeys(path.range.lower, path.range.upper);
+      if (!keysResult.success) {
+        yield keysResult;
+        return;
+      }
+      const rowKeys = keysResult.data.sort(compareKeys);
+      candidates = lookupRows(tree, descending ? rowKeys.reverse() : rowKeys);
+    }
+
+    for (const result of candidates) {
+      if (!result.success) {
+        yield result;
+        return;
+      }
+      if (where === null || isTrue(evaluate(where, positions, result.data.values))) {
+        yield result;
+      }
+    }
+  }
+
+  /**
+   * WHERE に一致するレコードをすべて集める (書き換える前に対象を確定させる UPDATE / DELETE 用)
+   */
+  private findRows(tableName: string, where: Expression | null): BTreeResult<BTreeRecord<BTreeKey>[]> {
+    const schema = this.tables.get(tableName)!;
+    const scope = columnScope([{ name: schema.name, tableName, schema }]);
+    const checkError = where && checkWhere(scope, where);
+    if (checkError) {
+      return { success: false, error: checkError };
+    }
+
+    const records: BTreeRecord<BTreeKey>[] = [];
+    for (const result of this.iterateRows(tableName, where && localize(bindRealArithmetic(scope, where)))) {
+      if (!result.success) return result;
+      records.push(result.data);
+    }
+    return { success: true, data: records };
+  }
+
+  /**
+   * FROM / JOIN のテーブル名を解決し、式から参照できるカラムの表を作る
+   */
+  private selectScope(stmt: SelectStatement): BTreeResult<ColumnScope> {
+    const tables: Omit<ScopeTable, "offset">[] = [];
+    for (const ref of [{ tableName: stmt.tableName, alias: stmt.alias }, ...stmt.joins]) {
+      const tableName = ref.tableName.toLowerCase();
+      const schema = this.tables.get(tableName);
+      if (!schema) {
+        return { success: false, error: `Table '${ref.tableName}' does not exist` };
+      }
+
+      const name = ref.alias ?? ref.tableName;
+      if (tables.some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+        return { success: false, error: `Table '${name}' is specified more than once (use an alias)` };
+      }
+      tables.push({ name, tableName, schema });
+    }
+
+    return { success: true, data: columnScope(tables) };
+  }
+
+  // ============================================================
+  // 実行計画の組み立て
+  // ============================================================
+
+  /**
+   * SELECT のテーブルと式を確かめ、実行計画を立てる
+   */
+  private planQuery(stmt: SelectStatement): BTreeResult<SelectPlan> {
+    const scopeResult = this.selectScope(stmt);
+    if (!scopeResult.success) {
+      return scopeResult;
+    }
+    const scope = scopeResult.data;
+
+    // 算術演算に REAL の印を付けてから、出力カラムや集約を組み立てる
+    stmt = bindRealSelect(scope, stmt);
+
+    // SELECT の項目を出力カラムにする (* は全テーブルの全カラムに展開)
+    const outputs = selectOutputs(scope, stmt.columns);
+    stmt = {
+      ...stmt,
+      having: stmt.having && resolveHavingAliases(scope, stmt.having, stmt.columns),
+      orderBy: resolveAliases(stmt.orderBy, stmt.columns),
+    };
+    const checkError = checkSelect(scope, stmt, outputs);
+    if (checkError !== null) {
+      return { success: false, error: checkError };
+    }
+
+    return { success: true, data: this.planSelect(stmt, scope, outputs) };
+  }
+
+  /**
+   * SELECT の演算子の木を組み立てる
+   *
+   * FROM のテーブルを WHERE のうちそのテーブルだけの条件で読み、JOIN のテーブルを
+   * 順に結合してから、読むときに使わなかった WHERE の条件で絞る。
+   * 集約があれば AGGREGATE (と HAVING の FILTER) を、ORDER BY が FROM のテーブルの
+   * 行キーの順序と一致しなければ SORT を重ね、最後に PROJECT と LIMIT を置く
+   */
+  private planSelect(stmt: SelectStatement, scope: ColumnScope, outputs: OutputColumn[]): SelectPlan {
+    const conditions = stmt.where ? conjuncts(stmt.where) : [];
+    const grouped = isGrouped(stmt, outputs);
+
+    // 集約せず ORDER BY が行キーの順序と一致すれば、B+Tree をその向きにたどるだけで並ぶ
+    // (結合しても FROM のテーブルの順序は保たれる)
+    const keyOrder = grouped ? null : rowKeyOrder(scope.tables[0].schema, scope.positions, stmt.orderBy);
+
+    // applied = 読むときに確かめ済みの条件、estimated = JOIN の行数の見積もりに使った条件
+    const applied = new Set(conditions.filter((c) => referencesOnly(scope, c, 0)));
+    const estimated = new Set<Expression>();
+    let node: PlanNode = this.planScan(scope.tables[0], [...applied], keyOrder === "DESC");
+    for (const [i, join] of stmt.joins.entries()) {
+      const where = join.joinType === "INNER" ? conditions : [];
+      for (const c of where.filter((c) => referencesOnly(scope, c, i + 1))) applied.add(c);
+      for (const c of where.filter((c) => !referencesOnly(scope, c, i + 1) && lastTableOf(scope, c) === i + 1)) {
+        estimated.add(c);
+      }
+      node = this.planJoin(node, scope, i + 1, join, where);
+    }
+
+    // 結合のキーに使った条件も、ハッシュ表で見つけた行が本当に一致するかをここで確かめる
+    const remaining = conditions.filter((c) => !applied.has(c));
+    if (remaining.length > 0) {
+      const ratio = remaining.filter((c) => !estimated.has(c)).reduce((r, c) => r * selectivity(c, node.rows), 1);
+      node = { type: "FILTER", predicate: conjoin(remaining)!, input: node, rows: roundRows(node.rows * ratio) };
+    }
+
+    // 集約すると、行は「グループの最初の行 + 集約関数の値」になる (同じ形の呼び出しは1回だけ計算する)
+    const width = scope.tables.reduce((sum, table) => sum + table.schema.columns.length, 0);
+    const aggregatePositions = new Map<Expression, number>();
+    if (grouped) {
+      const aggregates: AggregateCall[] = [];
+      for (const call of resultExpressions(stmt, outputs).flatMap(collectAggregates)) {
+        let i = aggregates.findIndex((a) => sameExpression(scope.positions, a, call));
+        if (i === -1) i = aggregates.push(call) - 1;
+        aggregatePositions.set(call, width + i);
+      }
+      const rows = estimateGroups(node.rows, stmt.groupBy);
+      node = { type: "AGGREGATE", groupBy: stmt.groupBy, aggregates, input: node, rows };
+      if (stmt.having) {
+        const rows = roundRows(node.rows * selectivity(stmt.having, node.rows));
+        node = { type: "FILTER", predicate: stmt.having, input: node, rows };
+      }
+    }
+
+    if (stmt.orderBy.length > 0 && keyOrder === null) {
+      node = { type: "SORT", orderBy: stmt.orderBy, input: node, rows: node.rows };
+    }
+    node = { type: "PROJECT", outputs, input: node, rows: node.rows };
+
+    const limit = stmt.limit !== null && stmt.limit >= 0 ? stmt.limit : null;
+    const offset = Math.max(stmt.offset, 0);
+    if (limit !== null || offset > 0) {
+      const rows = Math.min(limit ?? Infinity, Math.max(node.rows - offset, 0));
+      node = { type: "LIMIT", limit, offset, input: node, rows };
+    }
+
+    return {
+      root: node,
+      columns: outputs.map((o) => o.name),
+      context: { positions: scope.positions, width, aggregates: aggregatePositions },
+    };
+  }
+
+  /**
+   * テーブル単体の条件 (conditions) で読む SCAN を作る
+   */
+  private planScan(table: ScopeTable, conditions: Expression[], descending: boolean): ScanNode {
+    const filter = conjoin(conditions.map(localize));
+    const tableRows = this.estimateTableRows(table.tableName);
+    const estimator = this.comparisonEstimator(table.tableName, localColumnIndex(table.schema));
+    return {
+      type: "SCAN",
+      tableName: table.tableName,
+      label: scanLabel(table),
+      width: table.schema.columns.length,
+      path: this.chooseAccessPath(table.tableName, filter),
+      filter,
+      descending,
+      rows: roundRows(tableRows * (filter ? selectivity(filter, tableRows, estimator) : 1)),
+    };
+  }
+
+  /**
+   * 結合済みの行 (outer) に scope.tables[tableIdx] を結合する JOIN を作る
+   *
+   * 探し方は joinStrategy() が決める。インデックス付きネステッドループでは、結合の
+   * キーの値を仮に置いて内側の読み方を選んでおき、実行時に外側の行の値で範囲を作る
+   */
+  private planJoin(
+    outer: PlanNode,
+    scope: ColumnScope,
+    tableIdx: number,
+    join: JoinClause,
+    where: Expression[],
+  ): PlanNode {
+    const inner = scope.tables[tableIdx];
+    const plan = joinStrategy(scope, tableIdx, join, where, this.tableIndexes(inner.tableName));
+
+    const tableRows = this.estimateTableRows(inner.tableName);
+    const localEstimator = this.comparisonEstimator(inner.tableName, localColumnIndex(inner.schema));
+    const filteredRows = tableRows * (plan.innerWhere ? selectivity(plan.innerWhere, tableRows, localEstimator) : 1);
+
+    // 結合の条件は修飾したまま見積もる (外側のテーブルのカラムは値とみなす)
+    const colIdxOf = (expr: Expression) =>
+      expr.type === "COLUMN" && tableIndexOf(scope, expr) === tableIdx
+        ? scope.positions.get(columnKey(expr))! - inner.offset
+        : null;
+    const joinEstimator = this.comparisonEstimator(inner.tableName, colIdxOf);
+
+    let path: AccessPath;
+    let innerRows = filteredRows;
+    if (plan.strategy === "INDEX_NESTED_LOOP") {
+      // 値は読み方を選ぶための仮のもの (カラムの型に合わせないと範囲に使われない)
+      const colIdx = columnPositions(inner.schema).get(columnKey(plan.innerKeys[0] as ColumnRef))!;
+      const seek = equalsLiteral(plan.innerKeys[0], SAMPLE_VALUES[inner.schema.columns[colIdx].type]);
+      path = this.chooseAccessPath(inner.tableName, conjoin([seek, ...(plan.innerWhere ? [plan.innerWhere] : [])]));
+      innerRows = filteredRows * selectivity(plan.keyConditions[0], tableRows, joinEstimator);
+    } else {
+      path = this.chooseAccessPath(inner.tableName, plan.innerWhere);
+    }
+
+    // 外側の1行に結合する行数 = 内側の条件に一致する行数 × 結合の条件の絞り込み率
+    const joinConditions = [...conjuncts(join.on), ...where].filter(
+      (c) => !referencesOnly(scope, c, tableIdx) && lastTableOf(scope, c) === tableIdx,
+    );
+    const matches = joinConditions.reduce((rows, c) => rows * selectivity(c, tableRows, joinEstimator), filteredRows);
+
+    return {
+      type: "JOIN",
+      joinType: join.joinType,
+      strategy: plan.strategy,
+      on: join.on,
+      innerKeys: plan.innerKeys,
+      outerKeys: plan.outerKeys,
+      outer,
+      inner: {
+        type: "SCAN",
+        tableName: inner.tableName,
+        label: scanLabel(inner),
+        width: inner.schema.columns.length,
+        path,
+        filter: plan.innerWhere,
+        descending: false,
+        rows: roundRows(innerRows),
+      },
+      rows: roundRows(outer.rows * (join.joinType === "LEFT" ? Math.max(matches, 1) : matches)),
+    };
+  }
+
+  /**
+   * テーブルの行数の見積もり (統計がなければ一律の値)
+   */
+  private estimateTableRows(tableName: string): number {
+    return this.stats.get(tableName)?.rowCount ?? DEFAULT_TABLE_ROWS;
+  }
+
+  /**
+   * テーブルのカラムに対する比較の絞り込み率を、一意なカラムと統計から見積もる関数を作る
+   * colIdxOf は、式がこのテーブルのカラムならその位置を、そうでなければ null を返す
+   */
+  private comparisonEstimator(tableName: string, colIdxOf: (expr: Expression) => number | null): ComparisonEstimator {
+    const schema = this.tables.get(tableName)!;
+    const unique = uniqueColumns(schema, this.tableIndexes(tableName));
+    const stats = this.stats.get(tableName) ?? null;
+    return (condition) => {
+      const comparison = columnComparison(condition, colIdxOf);
+      return comparison && comparisonEstimate(schema, unique, stats, comparison);
+    };
+  }
+
+  // ============================================================
+  // 実行計画の実行
+  // ============================================================
+
+  /**
+   * 演算子の木を実行し、根の演算子が返す行を1行ずつ返す
+   * 読み出しに失敗したらその結果を1つ返して終わる
+   */
+  private *runPlan(node: PlanNode, context: PlanContext): Generator<BTreeResult<Row>> {
+    const { positions, aggregates } = context;
+    switch (node.type) {
+      case "SCAN":
+        yield* mapRows(this.readRows(node.tableName, node.path, node.filter, node.descending), (record) =>
+          padValues(record.values, node.width),
+        );
+        return;
+      case "JOIN":
+        yield* this.runJoin(node, context);
+        return;
+      case "FILTER":
+        for (const result of this.runPlan(node.input, context)) {
+          if (!result.success) {
+            yield result;
+            return;
+          }
+          if (isTrue(evaluate(node.predicate, positions, result.data, aggregates))) {
+            yield result;
+          }
+        }
+        return;
+      case "AGGREGATE":
+        yield* this.runAggregate(node, context);
+        return;
+      case "SORT":
+        yield* this.runSort(node, context);
+        return;
+      case "PROJECT":
+        yield* mapRows(this.runPlan(node.input, context), (values) =>
+          node.outputs.map((o) => evaluate(o.expression, positions, values, aggregates)),
+        );
+        return;
+      case "LIMIT":
+        yield* limitRows(this.runPlan(node.input, context), node.limit, node.offset);
+        return;
+    }
+  }
+
+  /**
+   * 外側の行の1行ごとに、内側のテーブルから ON に一致する行を探してつなぐ
+   *
+   *   - インデックス付きネステッドループ: 結合カラムが PRIMARY KEY かインデックスの先頭なら、
+   *     外側の行の値でそのつど B+Tree を引く
+   *   - ハッシュ結合: 等号の条件はあるがインデックスを使えなければ、内側のテーブルを
+   *     1回だけ読んでハッシュ表を作り、外側の行ごとに引く
+   *   - ネステッドループ: 等号の条件がなければ、外側の行ごとに内側のテーブルを読む
+   * LEFT JOIN で一致する行がなければ、内側のカラムを NULL にした行を返す
+   */
+  private *runJoin(node: PlanNodeOf<"JOIN">, context: PlanContext): Generator<BTreeResult<Row>> {
+    const { inner } = node;
+    const positions = context.positions;
+    const innerPositions = columnPositions(this.tables.get(inner.tableName)!);
+
+    let hashTable: Map<string, Row[]> | null = null;
+    for (const outerResult of this.runPlan(node.outer, context)) {
+      if (!outerResult.success) {
+        yield outerResult;
+        return;
+      }
+      const outer = outerResult.data;
+      const outerKey = node.outerKeys.map((expr) => evaluate(expr, positions, outer));
+
+      let candidates: Iterable<BTreeResult<Row>>;
+      if (outerKey.includes(null)) {
+        // NULL は等号の条件に一致しない
+        candidates = [];
+      } else if (node.strategy === "INDEX_NESTED_LOOP") {
+        const seek = equalsLiteral(node.innerKeys[0], outerKey[0]!);
+        const where = conjoin([seek, ...(inner.filter ? [inner.filter] : [])]);
+        const path = this.bindAccessPath(inner.tableName, inner.path, where);
+        candidates = mapRows(this.readRows(inner.tableName, path, where), (record) =>
+          padValues(record.values, inner.width),
+        );
+      } else if (node.strategy === "HASH") {
+        if (hashTable === null) {
+          const buildResult = buildHashTable(this.runPlan(inner, context), (values) =>
+            node.innerKeys.map((expr) => evaluate(expr, innerPositions, values)),
+          );
+          if (!buildResult.success) {
+            yield buildResult;
+            return;
+          }
+          hashTable = buildResult.data;
+        }
+        candidates = (hashTable.get(hashKey(outerKey)) ?? []).map((values) => ({ success: true, data: values }));
+      } else {
+        candidates = this.runPlan(inner, context);
+      }
+
+      let matched = false;
+      for (const innerResult of candidates) {
+        if (!innerResult.success) {
+          yield innerResult;
+          return;
+        }
+        const row = [...outer, ...innerResult.data];
+        if (isTrue(evaluate(node.on, positions, row))) {
+          matched = true;
+          yield { success: true, data: row };
+        }
+      }
+      if (!matched && node.joinType === "LEFT") {
+        yield { success: true, data: [...outer, ...padValues([], inner.width)] };
+      }
+    }
+  }
+
+  /**
+   * 行を GROUP BY の値ごとにハッシュ表でまとめ、集約関数をグループごとに計算する
+   *
+   * グループは GROUP BY の値の順に「グループの最初の行 + 集約関数の値」の形で返す。
+   * GROUP BY がなければ、行がなくても全体を1グループとして1行返す
+   */
+  private *runAggregate(node: PlanNodeOf<"AGGREGATE">, context: PlanContext): Generator<BTreeResult<Row>> {
+    const { positions, width } = context;
+    const { groupBy, aggregates } = node;
+
+    const groups = new Map<string, Group>();
+    for (const result of this.runPlan(node.input, context)) {
+      if (!result.success) {
+        yield result;
+        return;
+      }
+
+      const values = result.data;
+      const groupKey = groupBy.map((expr) => evaluate(expr, positions, values));
+      const hash = groupHash(groupKey);
+      let group = groups.get(hash);
+      if (!group) {
+        group = { key: groupKey, values, accumulators: aggregates.map((a) => new Accumulator(a.func)) };
+        groups.set(hash, group);
+      }
+      for (const [i, aggregate] of aggregates.entries()) {
+        group.accumulators[i].add(aggregate.argument === null ? 1 : evaluate(aggregate.argument, positions, values));
+      }
+    }
+
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set("[]", { key: [], values: [], accumulators: aggregates.map((a) => new Accumulator(a.func)) });
+    }
+
+    const ordered = [...groups.values()].sort((a, b) => compareKeys(a.key, b.key));
+    for (const group of ordered) {
+      const row = [...padValues(group.values, width)];
+      for (const accumulator of group.accumulators) {
+        const result = accumulator.result();
+        if (!result.success) {
+          yield result;
+          return;
+        }
+        row.push(result.value);
+      }
+      yield { success: true, data: row };
+    }
+  }
+
+  /**
+   * 行を ORDER BY の順に並べ替える
+   * ORDER BY の値を先頭に付けて外部ソートにかけ (行が多ければ一時ファイルに書き出しながら並べる)、
+   * その値を外して返す
+   */
+  private *runSort(node: PlanNodeOf<"SORT">, context: PlanContext): Generator<BTreeResult<Row>> {
+    const { orderBy } = node;
+    const descending = orderBy.map((item) => item.direction === "DESC");
+    const sorter = new ExternalSorter((a, b) => compareSortKeys(a, b, descending), this.sortOptions);
+    for (const result of this.runPlan(node.input, context)) {
+      if (!result.success) {
+        sorter.close();
+        yield result;
+        return;
+      }
+      const values = result.data;
+      const sortKey = orderBy.map((item) => evaluate(item.expression, context.positions, values, context.aggregates));
+      sorter.add([...sortKey, ...values]);
+    }
+
+    for (const row of sorter.sorted()) {
+      yield { success: true, data: row.slice(orderBy.length) };
+    }
+  }
+
+  // ============================================================
+  // スキーマ読み書き
+  // ============================================================
+
+  /**
+   * カタログを開く。旧形式からの移行で書き込みが起きるのでトランザクションで包む
+   */
+  private openCatalog(): QueryResult {
+    const beginResult = this.pager.begin();
+    if (!beginResult.success) {
+      return { success: false, error: beginResult.error };
+    }
+
+    const catalogResult = Catalog.open(this.pager, this.btreeOptions);
+    if (!catalogResult.success) {
+      this.pager.rollback();
+      return { success: false, error: catalogResult.error };
+    }
+
+    const commitResult = this.pager.commit();
+    if (!commitResult.success) {
+      return { success: false, error: commitResult.error };
+    }
+
+    this.catalog = catalogResult.data;
+    return { success: true, message: "Catalog opened" };
+  }
+
+  /**
+   * テーブルとそのインデックスの B+Tree のルートページが変わっていればカタログに反映する
+   */
+  private syncRootPages(tableName: string): QueryResult {
+    const targets: { schema: { rootPageNum: number; catalogId: number }; rootPageNum: number }[] = [
+      { schema: this.tables.get(tableName)!, rootPageNum: this.btrees.get(tableName)!.getRootPageNum() },
+      ...this.tableIndexes(tableName).map((index) => ({
+        schema: index.schema,
+        rootPageNum: index.getTree().getRootPageNum(),
+      })),
+    ];
+
+    for (const { schema, rootPageNum } of targets) {
+      if (schema.rootPageNum === rootPageNum) continue;
+
+      const setResult = this.catalog.setRootPage(schema.catalogId, rootPageNum);
+      if (!setResult.success) {
+        return { success: false, error: setResult.error };
+      }
+      schema.rootPageNum = rootPageNum;
+    }
+
+    return { success: true, message: "Root pages synced" };
+  }
+
+  /**
+   * カタログの各テーブルの CREATE 文を解析し直してテーブル情報を組み立てる
+   */
+  private loadSchema(): QueryResult {
+    const listResult = this.catalog.list();
+    if (!listResult.success) {
+      return { success: false, error: listResult.error };
+    }
+
+    // カタログ自身も読み取り専用のテーブルとして見せる
+    this.tables.set(SCHEMA_TABLE_NAME, {
+      name: SCHEMA_TABLE_NAME,
+      columns: SCHEMA_TABLE_COLUMNS,
+      tableConstraints: [],
+      rootPageNum: this.pager.getHeader().schemaPage,
+      catalogId: 0,
+    });
+    this.btrees.set(SCHEMA_TABLE_NAME, this.catalog.getTree());
+
+    // インデックスは必ず対象テーブルより後に登録されているので、登録順に読めばよい
+    for (const entry of listResult.data) {
+      const parsed = parse(entry.sql);
+
+      if (entry.type === "table" && parsed.success && parsed.statement.type === "CREATE_TABLE") {
+        const tableLower = entry.name.toLowerCase();
+        this.tables.set(tableLower, {
+          name: entry.name,
+          columns: parsed.statement.columns,
+          tableConstraints: parsed.statement.tableConstraints,
+          rootPageNum: entry.rootPage,
+          catalogId: entry.id,
+        });
+        this.btrees.set(
+          tableLower,
+          BTree.open<BTreeKey>(this.pager, entry.rootPage, {
+            ...this.btreeOptions,
+            keyType: rowKeyType(parsed.statement),
+          }),
+        );
+        continue;
+      }
+
+      if (entry.type === "index" && parsed.success && parsed.statement.type === "CREATE_INDEX") {
+        const schema = this.tables.get(entry.tblName.toLowerCase());
+        const columnsResult = schema ? resolveIndexColumns(schema, parsed.statement.columns) : null;
+        if (schema && columnsResult?.success) {
+          const index = SecondaryIndex.open(
+            this.pager,
+            {
+              name: entry.name,
+              tableName: schema.name,
+              columns: columnsResult.columns,
+              columnIndexes: columnsResult.columnIndexes,
+              unique: parsed.statement.unique,
+              rowKeyType: rowKeyType(schema),
+              rootPageNum: entry.rootPage,
+              catalogId: entry.id,
+            },
+            this.btreeOptions,
+          );
+          this.indexes.set(entry.name.toLowerCase(), index);
+          continue;
+        }
+      }
+
+      return { success: false, error: `Invalid schema SQL for '${entry.name}': ${entry.sql}` };
+    }
+
+    return this.loadStats();
+  }
+
+  /**
+   * sqlight_stat からテーブルの統計を読み込む (まだ ANALYZE していなければ何もしない)
+   */
+  private loadStats(): QueryResult {
+    const tree = this.btrees.get(STAT_TABLE_NAME);
+    if (!tree) {
+      return { success: true, message: "Schema loaded" };
+    }
+
+    const scanResult = tree.scan();
+    if (!scanResult.success) {
+      return { success: false, error: scanResult.error };
+    }
+
+    const rowsByTable = new Map<string, ColumnValue[][]>();
+    for (const { values } of scanResult.data) {
+      if (typeof values[0] !== "string") continue;
+      const rows = rowsByTable.get(values[0].toLowerCase()) ?? [];
+      rows.push(values);
+      rowsByTable.set(values[0].toLowerCase(), rows);
+    }
+
+    for (const [tableName, rows] of rowsByTable) {
+      const schema = this.tables.get(tableName);
+      const stats = schema && !isSystemTable(tableName) ? statsFromRows(schema.columns, rows) : null;
+      if (stats) this.stats.set(tableName, stats);
+    }
+
+    return { success: true, message: "Schema loaded" };
+  }
+}
 
-    return {
-      success: true,
-      message: `${projectedRecords.length} row(s) found`,
-      columns: selectedColumns,
-      records: projectedRecords,
-    };
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+function convertValue(
+  colDef: ColumnDef,
+  raw: LiteralValue | null,
+): { success: true; value: ColumnValue } | { success: false; error: string } {
+  const value = castValue(colDef.type, raw);
+  if (value === undefined) {
+    return { success: false, error: `Invalid ${colDef.type} value for column '${colDef.name}': ${formatValue(raw)}` };
   }
+  return { success: true, value };
+}
 
-  // ============================================================
-  // スキーマ読み書き
-  // ============================================================
+/**
+ * PRIMARY KEY のカラムの位置 (カラム制約かテーブル制約のどちらか。なければ空)
+ */
+function primaryKeyColumns(schema: Pick<TableSchema, "columns" | "tableConstraints">): number[] {
+  const constraint = schema.tableConstraints.find((c) => c.type === "PRIMARY_KEY");
+  if (constraint) {
+    return constraint.columns.map((col) => schema.columns.findIndex((c) => c.name.toLowerCase() === col.toLowerCase()));
+  }
 
-  private loadSchema(): QueryResult {
-    const header = this.pager.getHeader();
-    const readResult = this.pager.readPage(header.schemaPage);
-    if (!readResult.success) {
-      return { success: false, error: readResult.error };
+  const colIdx = schema.columns.findIndex((c) => c.constraints.includes("PRIMARY_KEY"));
+  return colIdx === -1 ? [] : [colIdx];
+}
+
+/**
+ * テーブルの B+Tree のキーの形式
+ */
+function rowKeyType(schema: Pick<TableSchema, "columns" | "tableConstraints">): "integer" | "composite" {
+  const keyColumns = primaryKeyColumns(schema);
+  if (keyColumns.length === 0) return "integer";
+  return keyColumns.length === 1 && schema.columns[keyColumns[0]].type === "INTEGER" ? "integer" : "composite";
+}
+
+/**
+ * 行の値から B+Tree のキーを組み立てる
+ * 整数の行キーで PRIMARY KEY の値がない場合 (PRIMARY KEY がない、または省略された) は null
+ */
+function rowKeyOf(schema: TableSchema, values: ColumnValue[]): BTreeKey | null {
+  const keyColumns = primaryKeyColumns(schema);
+  if (rowKeyType(schema) === "composite") {
+    return keyColumns.map((i) => values[i] ?? null);
+  }
+  return keyColumns.length === 1 ? ((values[keyColumns[0]] ?? null) as number | null) : null;
+}
+
+/**
+ * NULL にできないのに NULL になっているカラムを返す (なければ null)
+ * 複合キーの PRIMARY KEY のカラムは行キーの一部なので NOT NULL として扱う
+ */
+function findNullViolation(schema: TableSchema, values: ColumnValue[]): ColumnDef | null {
+  const compositeKeyColumns = rowKeyType(schema) === "composite" ? primaryKeyColumns(schema) : [];
+  for (let i = 0; i < schema.columns.length; i++) {
+    const colDef = schema.columns[i];
+    const notNull = colDef.constraints.includes("NOT_NULL") || compositeKeyColumns.includes(i);
+    if (notNull && values[i] === null) return colDef;
+  }
+  return null;
+}
+
+/**
+ * CHECK 制約の式のうち、行の値に対して偽になるものを返す (なければ null)
+ * SQL の CHECK と同じく、結果が NULL (UNKNOWN) なら違反としない
+ */
+function findCheckViolation(schema: TableSchema, values: ColumnValue[]): Expression | null {
+  const scope = columnScope([{ name: schema.name, tableName: schema.name.toLowerCase(), schema }]);
+  return (
+    checkExpressions(schema).find(
+      (check) => isTrue(evaluate(bindRealArithmetic(scope, check), scope.positions, values)) === false,
+    ) ?? null
+  );
+}
+
+/**
+ * カラムを参照しない式 (DEFAULT) を評価する
+ */
+function evaluateConstant(expr: Expression): ColumnValue {
+  return evaluate(bindRealArithmetic(columnScope([]), expr), new Map(), []);
+}
+
+/** CHECK 制約の式 (カラム制約をカラム定義順に、続けてテーブル制約の順に並べる) */
+function checkExpressions(schema: Pick<TableSchema, "columns" | "tableConstraints">): Expression[] {
+  return [
+    ...schema.columns.flatMap((c) => (c.check ? [c.check] : [])),
+    ...schema.tableConstraints.flatMap((c) => (c.type === "CHECK" ? [c.expression] : [])),
+  ];
+}
+
+/**
+ * CREATE TABLE の DEFAULT と CHECK の式を確かめる (問題なければ null)
+ * DEFAULT はカラムを参照できず、CHECK はそのテーブルのカラムだけを参照できる。どちらも集約関数は使えない。
+ * DEFAULT は定数なのでここで評価し、カラムの型に変換できない値 (INTEGER の 'abc' など) も拒否する
+ */
+function findConstraintExpressionError(stmt: CreateTableStatement): string | null {
+  for (const column of stmt.columns) {
+    const defaultValue = column.defaultValue;
+    if (!defaultValue) continue;
+    if (columnsOf(defaultValue).length > 0 || containsAggregate(defaultValue)) {
+      return `Default value of column '${column.name}' is not constant`;
+    }
+    const converted = convertValue(column, evaluateConstant(defaultValue));
+    if (!converted.success) return converted.error;
+  }
+
+  const positions = columnPositions(stmt);
+  for (const check of checkExpressions(stmt)) {
+    const column = columnsOf(check).find((c) => c.table !== undefined || !positions.has(columnKey(c)));
+    if (column) {
+      return `Column '${renderExpression(column)}' does not exist in table '${stmt.tableName}'`;
+    }
+    if (containsAggregate(check)) return "Aggregate functions are not allowed in CHECK";
+  }
+  return null;
+}
+
+/**
+ * UNIQUE 制約のカラムの組をカラム定義順、テーブル制約の順に並べる
+ * (PRIMARY KEY は行キーで一意なのでカラムの UNIQUE は数えない)
+ */
+function uniqueColumnSets(schema: TableSchema): string[][] {
+  const columnSets = schema.columns
+    .filter((c) => c.constraints.includes("UNIQUE") && !c.constraints.includes("PRIMARY_KEY"))
+    .map((c) => [c.name]);
+  const constraintSets = schema.tableConstraints
+    .filter((constraint) => constraint.type === "UNIQUE")
+    .map((constraint) => constraint.columns);
+  return [...columnSets, ...constraintSets];
+}
+
+/**
+ * インデックスの対象カラム名をテーブル定義と照合し、位置を求める
+ */
+function resolveIndexColumns(
+  schema: TableSchema,
+  columns: string[],
+): { success: true; columns: string[]; columnIndexes: number[] } | { success: false; error: string } {
+  const resolved: string[] = [];
+  const columnIndexes: number[] = [];
+
+  for (const col of columns) {
+    const colIdx = schema.columns.findIndex((c) => c.name.toLowerCase() === col.toLowerCase());
+    if (colIdx === -1) {
+      return { success: false, error: `Column '${col}' does not exist in table '${schema.name}'` };
+    }
+    if (columnIndexes.includes(colIdx)) {
+      return { success: false, error: `Column '${col}' appears more than once in index` };
+    }
+    resolved.push(schema.columns[colIdx].name);
+    columnIndexes.push(colIdx);
+  }
+
+  return { success: true, columns: resolved, columnIndexes };
+}
+
+/** 値 比較演算子 カラム の形を カラム 比較演算子 値 に直すときの演算子 */
+const FLIPPED_OPERATORS: { [operator in ComparisonOperator]: ComparisonOperator } = {
+  "=": "=",
+  "!=": "!=",
+  ">": "<",
+  "<": ">",
+  ">=": "<=",
+  "<=": ">=",
+};
+
+/**
+ * WHERE を AND で分解し、カラムと値を比べる条件を取り出す
+ * OR や NOT の中の条件は行を絞り込む範囲に使えないので拾わない
+ * (NULL との比較はどの行にも一致しないが、範囲にはせずに WHERE の判定に任せる)
+ */
+function columnConditions(positions: Map<string, number>, where: Expression): ColumnCondition[] {
+  if (where.type !== "BINARY") return [];
+  if (where.operator === "AND") {
+    return [...columnConditions(positions, where.left), ...columnConditions(positions, where.right)];
+  }
+
+  const { left, right, operator } = where;
+  if (!isComparisonOperator(operator)) return [];
+  if (left.type === "COLUMN" && right.type === "LITERAL" && right.value !== null) {
+    return [{ colIdx: positions.get(columnKey(left))!, operator, value: right.value }];
+  }
+  if (left.type === "LITERAL" && left.value !== null && right.type === "COLUMN") {
+    return [{ colIdx: positions.get(columnKey(right))!, operator: FLIPPED_OPERATORS[operator], value: left.value }];
+  }
+  return [];
+}
+
+/**
+ * キーのカラム (columnIndexes の順) に対する WHERE の条件から走査範囲を作る
+ * (先頭カラムに条件がなく範囲を絞れなければ null)
+ *
+ * 先頭カラムから順に = の条件を拾い、続くカラムに範囲条件
+ * (<, <=, >, >=) があればそれも使う。同じカラムに範囲条件が複数あれば
+ * 最も狭い下端・上端を選ぶ。値はカラムの型に変換して使い (comparableValue)、
+ * 変換するとキーの並び順と比較方法が食い違う条件は使わない
+ */
+function keyRangeFor(schema: TableSchema, columnIndexes: number[], conditions: ColumnCondition[]): KeyRange | null {
+  const equals: ColumnCondition[] = [];
+  const constraints: string[] = [];
+  let ranges: ColumnCondition[] = [];
+
+  for (const colIdx of columnIndexes) {
+    const usable = conditions.flatMap((condition) => {
+      if (condition.colIdx !== colIdx) return [];
+      const value = comparableValue(schema.columns[colIdx], condition.value);
+      return value === undefined ? [] : [{ ...condition, value }];
+    });
+    const equal = usable.find((condition) => condition.operator === "=");
+    if (equal) {
+      equals.push(equal);
+      constraints.push(`${schema.columns[colIdx].name}=?`);
+      continue;
+    }
+    ranges = usable.filter((condition) => condition.operator !== "!=");
+    break;
+  }
+
+  const score = equals.length * 2 + (ranges.length > 0 ? 1 : 0);
+  if (score === 0) return null;
+
+  const prefixKey = equals.map((equal) => equal.value);
+  let lower: KeyBound<ColumnValue[]> | null = null;
+  let upper: KeyBound<ColumnValue[]> | null = null;
+  for (const range of ranges) {
+    const bound = { key: [...prefixKey, range.value], inclusive: range.operator === ">=" || range.operator === "<=" };
+    if (range.operator === ">" || range.operator === ">=") {
+      if (lower === null || isNarrowerBound(bound, lower, 1)) lower = bound;
+    } else if (upper === null || isNarrowerBound(bound, upper, -1)) {
+      upper = bound;
     }
+  }
+
+  if (ranges.length > 0) {
+    const name = schema.columns[ranges[0].colIdx].name;
+    if (lower) constraints.push(`${name}${lower.inclusive ? ">=" : ">"}?`);
+    if (upper) constraints.push(`${name}${upper.inclusive ? "<=" : "<"}?`);
+  }
+
+  // NULL はどの比較にも一致しないので、範囲条件の下端がなくても NULL の後ろから始める
+  const prefix = equals.length > 0 ? { key: prefixKey, inclusive: true } : null;
+  const nullsExcluded = ranges.length > 0 ? { key: [...prefixKey, null], inclusive: false } : prefix;
+  return {
+    lower: lower ?? nullsExcluded,
+    upper: upper ?? prefix,
+    score,
+    constraint: constraints.join(" AND "),
+    conditions: [...equals, ...ranges],
+  };
+}
+
+/**
+ * bound が current より範囲を狭めるか (direction: 下端なら 1、上端なら -1)
+ */
+function isNarrowerBound(
+  bound: KeyBound<ColumnValue[]>,
+  current: KeyBound<ColumnValue[]>,
+  direction: 1 | -1,
+): boolean {
+  const cmp = compareKeys(bound.key, current.key) * direction;
+  return cmp > 0 || (cmp === 0 && !bound.inclusive);
+}
+
+/**
+ * WHERE で範囲を絞れるインデックスとその走査範囲
+ */
+function indexScansFor(
+  schema: TableSchema,
+  indexes: SecondaryIndex[],
+  conditions: ColumnCondition[],
+): (AccessPath & { type: "INDEX" })[] {
+  return indexes.flatMap((index) => {
+    const range = keyRangeFor(schema, index.schema.columnIndexes, conditions);
+    return range ? [{ type: "INDEX" as const, index, range }] : [];
+  });
+}
+
+/**
+ * 走査範囲に使った条件に一致する行の割合を、カラムごとの統計で見積もる
+ * (統計のないカラムは演算子ごとの決まった値)
+ */
+function rangeSelectivity(stats: TableStats, conditions: ColumnCondition[]): number {
+  let result = 1;
+  for (const colIdx of new Set(conditions.map((condition) => condition.colIdx))) {
+    const columnConditions = conditions.filter((condition) => condition.colIdx === colIdx);
+    const column = stats.columns[colIdx];
+    result *= column
+      ? columnSelectivity(column, stats.rowCount, columnConditions)
+      : columnConditions.reduce((s, c) => s * comparisonSelectivity(c.operator, stats.rowCount), 1);
+  }
+  return result;
+}
+
+/**
+ * 値が決まれば行が1行に決まるカラムの位置 (1カラムの PRIMARY KEY と UNIQUE インデックスのカラム)
+ */
+function uniqueColumns(schema: TableSchema, indexes: SecondaryIndex[]): Set<number> {
+  const columnSets = [
+    primaryKeyColumns(schema),
+    ...indexes.filter((index) => index.schema.unique).map((index) => index.schema.columnIndexes),
+  ];
+  return new Set(columnSets.filter((columns) => columns.length === 1).map((columns) => columns[0]));
+}
+
+/** 「テーブルのカラム 比較演算子 そのテーブルを参照しない式」の形の条件 */
+type ColumnComparison = {
+  colIdx: number;
+  operator: ComparisonOperator;
+  value: Expression;
+};
+
+/**
+ * 比較の条件をカラムが左辺の形にして返す (その形にならなければ null)
+ * colIdxOf は、式が対象のテーブルのカラムならその位置を、そうでなければ null を返す
+ */
+function columnComparison(
+  condition: Expression & { type: "BINARY" },
+  colIdxOf: (expr: Expression) => number | null,
+): ColumnComparison | null {
+  const { left, right, operator } = condition;
+  if (!isComparisonOperator(operator)) return null;
+
+  const isValue = (expr: Expression) => columnsOf(expr).every((c) => colIdxOf(c) === null);
+  const leftIdx = colIdxOf(left);
+  if (leftIdx !== null && isValue(right)) return { colIdx: leftIdx, operator, value: right };
+  const rightIdx = colIdxOf(right);
+  if (rightIdx !== null && isValue(left)) {
+    return { colIdx: rightIdx, operator: FLIPPED_OPERATORS[operator], value: left };
+  }
+  return null;
+}
 
-    const page = readResult.data;
-    const tableCount = page.readUInt16LE(1);
-    let offset = 3;
+/**
+ * カラムに対する比較の絞り込み率を見積もる (見積もれなければ null)
+ * 一意なカラムの = は1行だけに一致する。統計があれば、値がリテラルならカラムの型に変換して
+ * ヒストグラムで、実行時に決まる値との = なら値の種類数で見積もる
+ */
+function comparisonEstimate(
+  schema: TableSchema,
+  unique: Set<number>,
+  stats: TableStats | null,
+  comparison: ColumnComparison,
+): number | null {
+  const { colIdx, operator, value } = comparison;
+  // NULL との比較はどの行にも一致しない
+  if (value.type === "LITERAL" && value.value === null) return 0;
+  if (operator === "=" && unique.has(colIdx)) {
+    return 1 / Math.max(stats?.rowCount ?? DEFAULT_TABLE_ROWS, 1);
+  }
+
+  const column = stats?.columns[colIdx];
+  if (!stats || !column) return null;
+  if (value.type === "LITERAL") {
+    const literal = comparableValue(schema.columns[colIdx], value.value);
+    return literal === undefined ? null : columnSelectivity(column, stats.rowCount, [{ operator, value: literal }]);
+  }
+  return operator === "=" ? equalSelectivity(column, stats.rowCount) : null;
+}
+
+/**
+ * 修飾を外したテーブル単体の条件で、カラムの位置を引く関数
+ */
+function localColumnIndex(schema: TableSchema): (expr: Expression) => number | null {
+  const positions = columnPositions(schema);
+  return (expr) => (expr.type === "COLUMN" ? (positions.get(expr.name.toLowerCase()) ?? null) : null);
+}
+
+/**
+ * 実行計画に表示するテーブルの名前 (別名があれば「テーブル名 AS 別名」)
+ */
+function scanLabel(table: ScopeTable): string {
+  return table.name.toLowerCase() === table.tableName ? table.schema.name : `${table.schema.name} AS ${table.name}`;
+}
 
-    for (let i = 0; i < tableCount; i++) {
-      // テーブル名
-      const nameLen = page.readUInt16LE(offset);
-      offset += 2;
-      const name = page.toString("utf-8", offset, offset + nameLen);
-      offset += nameLen;
+/**
+ * 整数の行キーのテーブルで、次に割り当てる行キー (最大のキー + 1、空なら 1)
+ * 右端の葉だけを読む
+ */
+function nextRowKey(tree: BTree<BTreeKey>): BTreeResult<number> {
+  const cursor = tree.cursor();
+  const lastResult = cursor.last();
+  if (!lastResult.success) return lastResult;
+
+  const lastKey = cursor.key();
+  return { success: true, data: lastKey === null ? 1 : (lastKey as number) + 1 };
+}
+
+/** 利用者が書き換えられないシステムテーブル (カタログと統計) か */
+function isSystemTable(tableName: string): boolean {
+  return tableName === SCHEMA_TABLE_NAME || tableName === STAT_TABLE_NAME;
+}
 
-      // カラム数
-      const colCount = page.readUInt16LE(offset);
-      offset += 2;
+/**
+ * PRIMARY KEY のカラムに対する走査範囲の端を、テーブルの B+Tree のキーの端に直す
+ * 整数の行キーは NULL にならないので、NULL の後ろから始める下端は「下端なし」と同じ
+ */
+function toRowKeyBound(schema: TableSchema, bound: KeyBound<ColumnValue[]> | null): KeyBound<BTreeKey> | null {
+  if (bound === null || rowKeyType(schema) === "composite") return bound;
 
-      const columns: ColumnDef[] = [];
-      for (let j = 0; j < colCount; j++) {
-        // カラム名
-        const colNameLen = page.readUInt16LE(offset);
-        offset += 2;
-        const colName = page.toString("utf-8", offset, offset + colNameLen);
-        offset += colNameLen;
+  const value = bound.key[0];
+  return value === null || value === undefined ? null : { key: value as number, inclusive: bound.inclusive };
+}
 
-        // 型
-        const typeTag = page.readUInt8(offset);
-        offset += 1;
-        const colType = COLUMN_TYPE_REVERSE[typeTag] ?? "TEXT";
+// ============================================================
+// 結合 (JOIN)
+// ============================================================
 
-        // 制約フラグ
-        const constraintFlags = page.readUInt8(offset);
-        offset += 1;
-        const constraints: ColumnDef["constraints"] = [];
-        if (constraintFlags & 0x01) constraints.push("PRIMARY_KEY");
-        if (constraintFlags & 0x02) constraints.push("NOT_NULL");
-        if (constraintFlags & 0x04) constraints.push("UNIQUE");
+/** JOIN のテーブル (内側) から、外側の1行に結合する行を探す方法 */
+type JoinPlan = {
+  strategy: JoinStrategy;
+  innerWhere: Expression | null; // 内側のテーブルだけで判定できる条件 (修飾を外したもの)
+  innerKeys: Expression[]; // 等号の条件の内側のカラム (修飾を外したもの)
+  outerKeys: Expression[]; // innerKeys と等しくなる外側の式
+  keyConditions: Expression[]; // innerKeys と outerKeys を取り出した等号の条件 (修飾したまま)
+};
 
-        columns.push({ name: colName, type: colType, constraints });
+/**
+ * scope.tables[tableIdx] を結合する方法を決める
+ *
+ * ON (INNER JOIN なら WHERE も) を AND で分解し、「内側のカラム = 外側の式」の
+ * 条件を探す。その内側のカラムが PRIMARY KEY かインデックスの先頭なら
+ * インデックス付きネステッドループ、そうでなければハッシュ結合、
+ * 等号の条件がなければネステッドループにする
+ */
+function joinStrategy(
+  scope: ColumnScope,
+  tableIdx: number,
+  join: JoinClause,
+  where: Expression[],
+  indexes: SecondaryIndex[],
+): JoinPlan {
+  const inner = scope.tables[tableIdx];
+  const conditions = [...conjuncts(join.on), ...where];
+  const innerWhere = conjoin(conditions.filter((c) => referencesOnly(scope, c, tableIdx)).map(localize));
+
+  // 外側の式 = 結合済みのテーブルのカラムを1つ以上参照し、内側のカラムを参照しない式
+  const isOuter = (expr: Expression) => {
+    const columns = columnsOf(expr);
+    return columns.length > 0 && columns.every((column) => tableIndexOf(scope, column) < tableIdx);
+  };
+  const equalities: { inner: Expression & { type: "COLUMN" }; outer: Expression; condition: Expression }[] = [];
+  for (const condition of conditions) {
+    if (condition.type !== "BINARY" || condition.operator !== "=") continue;
+    for (const [a, b] of [
+      [condition.left, condition.right],
+      [condition.right, condition.left],
+    ]) {
+      if (a.type === "COLUMN" && tableIndexOf(scope, a) === tableIdx && isOuter(b)) {
+        equalities.push({ inner: a, outer: b, condition });
+        break;
       }
+    }
+  }
 
-      // ルートページ番号
-      const rootPageNum = page.readUInt32LE(offset);
-      offset += 4;
+  const colIdxOf = (column: Expression & { type: "COLUMN" }) => scope.positions.get(columnKey(column))! - inner.offset;
+  const seek =
+    equalities.find((e) => colIdxOf(e.inner) === primaryKeyColumns(inner.schema)[0]) ??
+    equalities.find((e) => indexes.some((index) => index.schema.columnIndexes[0] === colIdxOf(e.inner)));
+  if (seek) {
+    return {
+      strategy: "INDEX_NESTED_LOOP",
+      innerWhere,
+      innerKeys: [localize(seek.inner)],
+      outerKeys: [seek.outer],
+      keyConditions: [seek.condition],
+    };
+  }
+  if (equalities.length > 0) {
+    return {
+      strategy: "HASH",
+      innerWhere,
+      innerKeys: equalities.map((e) => localize(e.inner)),
+      outerKeys: equalities.map((e) => e.outer),
+      keyConditions: equalities.map((e) => e.condition),
+    };
+  }
+  return { strategy: "NESTED_LOOP", innerWhere, innerKeys: [], outerKeys: [], keyConditions: [] };
+}
 
-      const tableLower = name.toLowerCase();
-      this.tables.set(tableLower, { name, columns, rootPageNum });
-      this.btrees.set(tableLower, BTree.open(this.pager, rootPageNum));
+/**
+ * 内側のテーブルの行を、等号の条件のキーでまとめたハッシュ表を作る (キーに NULL を含む行は入れない)
+ */
+function buildHashTable(
+  rows: Iterable<BTreeResult<Row>>,
+  keyOf: (values: Row) => ColumnValue[],
+): BTreeResult<Map<string, Row[]>> {
+  const table = new Map<string, Row[]>();
+  for (const result of rows) {
+    if (!result.success) return result;
+
+    const key = keyOf(result.data);
+    if (key.includes(null)) continue;
+    const hash = hashKey(key);
+    const bucket = table.get(hash);
+    if (bucket) {
+      bucket.push(result.data);
+    } else {
+      table.set(hash, [result.data]);
     }
+  }
+  return { success: true, data: table };
+}
 
-    return { success: true, message: "Schema loaded" };
+/**
+ * ハッシュ結合のキー
+ * = は数値と数値として読める TEXT を数値で比べるので、その TEXT は数値に直してから並べる
+ * (異なる TEXT が同じキーになることはあるが、見つけた行は ON で改めて確かめる)
+ */
+function hashKey(values: ColumnValue[]): string {
+  return JSON.stringify(values.map(hashValue));
+}
+
+/**
+ * 比較で等しくなる値を同じ表記にする
+ * (数値として読める TEXT・TRUE / FALSE・bigint は数値、BLOB は16進数)。
+ * DATE との比較では時刻が切り捨てられるので、日付と日付として読める TEXT は UTC の日付にする
+ * (同じ表記の値が比較で等しいとは限らないので、結合の条件は改めて確かめる)
+ */
+function hashValue(value: ColumnValue): string | number | null {
+  if (typeof value === "string") {
+    if (!Number.isNaN(Number(value))) return Number(value);
+    const timestamp = parseTimestamp(value);
+    return timestamp ? new CalendarDate(timestamp.getTime()).toJSON() : value;
+  }
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "bigint") return Number(value);
+  if (value instanceof Date) return new CalendarDate(value.getTime()).toJSON();
+  if (value instanceof Uint8Array) return formatValue(value);
+  return value;
+}
+
+/**
+ * GROUP BY の値の組をハッシュ表のキーにする (型の違う値は別のグループにする)
+ * JSON にできない値は [型, 表記] の配列にする
+ */
+function groupHash(values: ColumnValue[]): string {
+  return JSON.stringify(
+    values.map((value) => {
+      if (typeof value === "bigint") return ["BIGINT", String(value)];
+      if (value instanceof Uint8Array) return ["BLOB", valueToText(value)];
+      if (value instanceof Date) return [value instanceof CalendarDate ? "DATE" : "TIMESTAMP", value.getTime()];
+      return value;
+    }),
+  );
+}
+
+/**
+ * 「カラム = 値」の条件を作る (インデックス付きネステッドループで外側の行の値を当てはめる)
+ */
+function equalsLiteral(column: Expression, value: LiteralValue): Expression {
+  return { type: "BINARY", operator: "=", left: column, right: { type: "LITERAL", value } };
+}
+
+/**
+ * 式が scope.tables[tableIdx] のカラムだけを参照するか
+ */
+function referencesOnly(scope: ColumnScope, expr: Expression, tableIdx: number): boolean {
+  return columnsOf(expr).every((column) => tableIndexOf(scope, column) === tableIdx);
+}
+
+/**
+ * 式が参照するカラムのうち、最も後に結合するテーブルの番号 (カラムを参照しなければ -1)
+ */
+function lastTableOf(scope: ColumnScope, expr: Expression): number {
+  return Math.max(-1, ...columnsOf(expr).map((column) => tableIndexOf(scope, column)));
+}
+
+/**
+ * 式を AND で分解する
+ */
+function conjuncts(expr: Expression): Expression[] {
+  if (expr.type === "BINARY" && expr.operator === "AND") {
+    return [...conjuncts(expr.left), ...conjuncts(expr.right)];
+  }
+  return [expr];
+}
+
+/**
+ * 式を AND でつなぐ (なければ null)
+ */
+function conjoin(exprs: Expression[]): Expression | null {
+  if (exprs.length === 0) return null;
+  return exprs.reduce((left, right) => ({ type: "BINARY", operator: "AND", left, right }));
+}
+
+/**
+ * カラムの修飾を外し、テーブル単体に対する式にする (iterateRows に渡す WHERE 用)
+ */
+function localize(expr: Expression): Expression {
+  return mapColumns(expr, (column) => ({ type: "COLUMN", name: column.name }));
+}
+
+/**
+ * 式の中のカラム参照 (集約関数の引数の中も含む) を mapper の結果に置き換える
+ */
+function mapColumns(expr: Expression, mapper: (column: ColumnRef) => Expression): Expression {
+  return expr.type === "COLUMN" ? mapper(expr) : mapChildren(expr, (e) => mapColumns(e, mapper));
+}
+
+/**
+ * 式の直下の子の式を map の結果に置き換える
+ */
+function mapChildren(expr: Expression, map: (expr: Expression) => Expression): Expression {
+  switch (expr.type) {
+    case "COLUMN":
+    case "LITERAL":
+      return expr;
+    case "UNARY":
+      return { ...expr, operand: map(expr.operand) };
+    case "BINARY":
+      return { ...expr, left: map(expr.left), right: map(expr.right) };
+    case "AGGREGATE":
+      return { ...expr, argument: expr.argument && map(expr.argument) };
+    case "FUNCTION":
+      return { ...expr, args: expr.args.map(map) };
+    case "CASE":
+      return mapCase(expr, map);
+  }
+}
+
+/**
+ * CASE の各部分の式を変換する
+ */
+function mapCase(
+  expr: Expression & { type: "CASE" },
+  transform: (expr: Expression) => Expression,
+): Expression & { type: "CASE" } {
+  return {
+    type: "CASE",
+    operand: expr.operand && transform(expr.operand),
+    branches: expr.branches.map((b) => ({ when: transform(b.when), then: transform(b.then) })),
+    elseResult: expr.elseResult && transform(expr.elseResult),
+  };
+}
+
+/**
+ * CASE の各部分の式を順に並べる (operand, WHEN, THEN, ..., ELSE)
+ */
+function caseParts(expr: Expression & { type: "CASE" }): Expression[] {
+  return [
+    ...(expr.operand ? [expr.operand] : []),
+    ...expr.branches.flatMap((b) => [b.when, b.then]),
+    ...(expr.elseResult ? [expr.elseResult] : []),
+  ];
+}
+
+/**
+ * 演算子・関数・CASE の直下にある式 (集約関数の引数は含めない)
+ */
+function childExpressions(expr: Expression): Expression[] {
+  switch (expr.type) {
+    case "UNARY":
+      return [expr.operand];
+    case "BINARY":
+      return [expr.left, expr.right];
+    case "FUNCTION":
+      return expr.args;
+    case "CASE":
+      return caseParts(expr);
+    default:
+      return [];
   }
+}
+
+/**
+ * 行の値をテーブルのカラム数にそろえる (カラムの追加前に書いた行は短い)
+ */
+function padValues(values: ColumnValue[], width: number): Row {
+  return values.length >= width ? values : [...values, ...new Array<ColumnValue>(width - values.length).fill(null)];
+}
+
+/** 実行計画 (演算子の木) と、それを実行するのに要る情報 */
+type SelectPlan = {
+  root: PlanNode;
+  columns: string[]; // 結果のカラム名
+  context: PlanContext;
+};
+
+/** 演算子の木の中で式を評価するための情報 */
+type PlanContext = {
+  positions: Map<string, number>; // カラム参照 → 結合した行の中の位置 (ColumnScope.positions)
+  width: number; // 結合した行のカラム数
+  aggregates: Map<Expression, number>; // 集約関数の呼び出し → AGGREGATE が返す行の中の位置
+};
 
-  private saveSchema(): QueryResult {
-    const header = this.pager.getHeader();
-    const page = Buffer.alloc(this.pager.getPageSize(), 0);
+type ColumnRef = Expression & { type: "COLUMN" };
 
-    page.writeUInt8(PAGE_TYPE.SCHEMA, 0);
-    page.writeUInt16LE(this.tables.size, 1);
+/** GROUP BY でまとめた行のグループ */
+type Group = {
+  key: Row; // GROUP BY の値
+  values: Row; // グループの最初の行 (GROUP BY のカラムを読むのに使う)
+  accumulators: Accumulator[]; // 集約関数の呼び出しごとの途中結果
+};
+
+/**
+ * SELECT の項目を出力カラムにする
+ * * は全テーブルの全カラムに展開し (JOIN があれば「テーブル.カラム」の名前にする)、
+ * 別名があれば別名を、カラムはテーブル定義の表記を、それ以外の式は SQL に書き直したもの (例: COUNT(*)) を名前にする
+ */
+function selectOutputs(scope: ColumnScope, items: SelectItem[]): OutputColumn[] {
+  const joined = scope.tables.length > 1;
+  return items.flatMap((item): OutputColumn[] => {
+    if (item.type === "ALL") {
+      return scope.tables.flatMap((table) =>
+        table.schema.columns.map((c) => ({
+          name: joined ? `${table.name}.${c.name}` : c.name,
+          expression: { type: "COLUMN", table: table.name, name: c.name },
+        })),
+      );
+    }
+
+    const expr = item.expression;
+    if (item.alias !== null) return [{ name: item.alias, expression: expr }];
+    const position = expr.type === "COLUMN" ? scope.positions.get(columnKey(expr)) : undefined;
+    if (expr.type !== "COLUMN" || position === undefined) {
+      return [{ name: renderExpression(expr), expression: expr }];
+    }
+    const table = scope.tables[tableIndexAt(scope, position)];
+    const name = table.schema.columns[position - table.offset].name;
+    return [{ name: expr.table === undefined ? name : `${expr.table}.${name}`, expression: expr }];
+  });
+}
 
-    let offset = 3;
+/**
+ * SELECT の式がテーブルと集約の規則に合っているかを確かめる (問題なければ null)
+ *
+ * 集約のある SELECT では、集約関数の外に書くカラムは GROUP BY に
+ * 書いたものでなければならない (グループの中で値が1つに決まらないため)
+ */
+function checkSelect(scope: ColumnScope, stmt: SelectStatement, outputs: OutputColumn[]): string | null {
+  const results = resultExpressions(stmt, outputs);
+
+  for (const expr of [...results, ...stmt.groupBy]) {
+    const columnError = findColumnError(scope, expr);
+    if (columnError) return columnError;
+    if (collectAggregates(expr).some((a) => a.argument !== null && containsAggregate(a.argument))) {
+      return "Aggregate functions cannot be nested";
+    }
+  }
 
-    for (const schema of this.tables.values()) {
-      // テーブル名
-      const nameBuf = Buffer.from(schema.name, "utf-8");
-      page.writeUInt16LE(nameBuf.length, offset);
-      offset += 2;
-      nameBuf.copy(page, offset);
-      offset += nameBuf.length;
+  // ON で参照できるのは、そのテーブルとそれより前に結合したテーブルだけ
+  for (const [i, join] of stmt.joins.entries()) {
+    const columnError = findColumnError(scope, join.on);
+    if (columnError) return columnError;
+    if (containsAggregate(join.on)) return "Aggregate functions are not allowed in ON";
+    const later = columnsOf(join.on).find((column) => tableIndexOf(scope, column) > i + 1);
+    if (later) return `Column '${renderExpression(later)}' cannot be used before its table is joined`;
+  }
 
-      // カラム数
-      page.writeUInt16LE(schema.columns.length, offset);
-      offset += 2;
+  const whereError = stmt.where && checkWhere(scope, stmt.where);
+  if (whereError) return whereError;
+  if (stmt.groupBy.some(containsAggregate)) {
+    return "Aggregate functions are not allowed in GROUP BY";
+  }
 
-      for (const col of schema.columns) {
-        // カラム名
-        const colNameBuf = Buffer.from(col.name, "utf-8");
-        page.writeUInt16LE(colNameBuf.length, offset);
-        offset += 2;
-        colNameBuf.copy(page, offset);
-        offset += colNameBuf.length;
+  if (!isGrouped(stmt, outputs)) return null;
 
-        // 型
-        page.writeUInt8(COLUMN_TYPE_MAP[col.type] ?? 0x02, offset);
-        offset += 1;
+  for (const expr of results) {
+    const ungrouped = findUngroupedColumn(scope.positions, expr, stmt.groupBy);
+    if (ungrouped) return `Column '${ungrouped}' must appear in GROUP BY or be used in an aggregate function`;
+  }
+  return null;
+}
 
-        // 制約フラグ
-        let flags = 0;
-        if (col.constraints.includes("PRIMARY_KEY")) flags |= 0x01;
-        if (col.constraints.includes("NOT_NULL")) flags |= 0x02;
-        if (col.constraints.includes("UNIQUE")) flags |= 0x04;
-        page.writeUInt8(flags, offset);
-        offset += 1;
+/**
+ * ORDER BY に書いた SELECT の別名を、その式に置き換える (テーブルのカラムより別名を優先する)
+ */
+function resolveAliases(orderBy: OrderByItem[], items: SelectItem[]): OrderByItem[] {
+  return orderBy.map((item) => {
+    const expr = item.expression;
+    if (expr.type !== "COLUMN" || expr.table !== undefined) return item;
+    for (const selected of items) {
+      if (selected.type === "EXPRESSION" && selected.alias?.toLowerCase() === expr.name.toLowerCase()) {
+        return { ...item, expression: selected.expression };
       }
+    }
+    return item;
+  });
+}
+
+/**
+ * HAVING に書いた SELECT の別名を、その式に置き換える
+ * (WHERE と同じくテーブルのカラムを優先し、同じ名前のカラムがないときだけ別名とみなす)
+ */
+function resolveHavingAliases(scope: ColumnScope, having: Expression, items: SelectItem[]): Expression {
+  return mapColumns(having, (column) => {
+    const key = columnKey(column);
+    if (column.table !== undefined || scope.positions.has(key) || scope.ambiguous.has(key)) return column;
+    const selected = items.find(
+      (item) => item.type === "EXPRESSION" && item.alias?.toLowerCase() === column.name.toLowerCase(),
+    );
+    return selected?.type === "EXPRESSION" ? selected.expression : column;
+  });
+}
 
-      // ルートページ番号
-      page.writeUInt32LE(schema.rootPageNum, offset);
-      offset += 4;
+/**
+ * グループごとに評価する式 (出力カラム・HAVING・ORDER BY)
+ */
+function resultExpressions(stmt: SelectStatement, outputs: OutputColumn[]): Expression[] {
+  return [
+    ...outputs.map((o) => o.expression),
+    ...(stmt.having ? [stmt.having] : []),
+    ...stmt.orderBy.map((item) => item.expression),
+  ];
+}
+
+/**
+ * 行をグループにまとめる SELECT か (GROUP BY / HAVING か集約関数がある)
+ */
+function isGrouped(stmt: SelectStatement, outputs: OutputColumn[]): boolean {
+  return stmt.groupBy.length > 0 || stmt.having !== null || resultExpressions(stmt, outputs).some(containsAggregate);
+}
+
+/**
+ * WHERE の式を確かめる (問題なければ null)
+ */
+function checkWhere(scope: ColumnScope, where: Expression): string | null {
+  const columnError = findColumnError(scope, where);
+  if (columnError) return columnError;
+  if (containsAggregate(where)) return "Aggregate functions are not allowed in WHERE";
+  return null;
+}
+
+/**
+ * ORDER BY が行キーの順序と一致するなら、たどる向きを返す (一致しなければ null)
+ * PRIMARY KEY の先頭からのカラムを同じ向きで並べた場合だけ一致する
+ * (positions は FROM のテーブルのカラムが先頭に来る表なので、位置はそのテーブル上の位置と同じ)
+ */
+function rowKeyOrder(
+  schema: TableSchema,
+  positions: Map<string, number>,
+  orderBy: OrderByItem[],
+): "ASC" | "DESC" | null {
+  if (orderBy.length === 0) return "ASC";
+
+  const keyColumns = primaryKeyColumns(schema);
+  const direction = orderBy[0].direction;
+  const matches =
+    orderBy.length <= keyColumns.length &&
+    orderBy.every(
+      (item, i) =>
+        item.expression.type === "COLUMN" &&
+        positions.get(columnKey(item.expression)) === keyColumns[i] &&
+        item.direction === direction,
+    );
+  return matches ? direction : null;
+}
+
+/**
+ * 先頭に付けた ORDER BY の値で2行を比較する (NULL < 数値 < TEXT、TEXT は BINARY 照合)
+ */
+function compareSortKeys(a: Row, b: Row, descending: boolean[]): number {
+  for (const [i, desc] of descending.entries()) {
+    const cmp = compareValues(a[i], b[i]);
+    if (cmp !== 0) return desc ? -cmp : cmp;
+  }
+  return 0;
+}
+
+/**
+ * OFFSET の分を読み飛ばし、LIMIT の件数まで返す (limit が null なら上限なし)
+ */
+function* limitRows(
+  rows: Iterable<BTreeResult<Row>>,
+  limit: number | null,
+  offset: number,
+): Generator<BTreeResult<Row>> {
+  if (limit === 0) return;
+
+  let skipped = 0;
+  let count = 0;
+  for (const result of rows) {
+    if (!result.success) {
+      yield result;
+      return;
+    }
+    if (skipped < offset) {
+      skipped++;
+      continue;
     }
+    yield result;
+    if (limit !== null && ++count >= limit) return;
+  }
+}
+
+/**
+ * 読み出した結果を、値の並びに変換した結果にする
+ */
+function* mapRows<T>(results: Iterable<BTreeResult<T>>, transform: (data: T) => Row): Generator<BTreeResult<Row>> {
+  for (const result of results) {
+    yield result.success ? { success: true, data: transform(result.data) } : result;
+  }
+}
+
+/**
+ * 条件の値をカラムの型に変換する (キーの範囲や統計と比べるため)
+ * NULL や、変換した値と元の値の比較 (compare) が等しくならない値は undefined
+ */
+function comparableValue(colDef: ColumnDef, value: LiteralValue | null): Exclude<ColumnValue, null> | undefined {
+  // TEXT のカラムと TEXT 以外の値の比較はカラムの値の方を変換するので、キーの並び順が使えない
+  if (colDef.type === "TEXT" && typeof value !== "string") return undefined;
+  const cast = castValue(colDef.type, value);
+  return cast !== undefined && cast !== null && compare("=", cast, value) === true ? cast : undefined;
+}
 
-    const writeResult = this.pager.writePage(header.schemaPage, page);
-    if (!writeResult.success) {
-      return { success: false, error: writeResult.error };
+/**
+ * 行キーごとにテーブルの B+Tree を引いてレコードを返す (見つからない行キーは飛ばす)
+ */
+function* lookupRows(tree: BTree<BTreeKey>, keys: BTreeKey[]): Generator<BTreeResult<BTreeRecord<BTreeKey>>> {
+  for (const key of keys) {
+    const searchResult = tree.search(key);
+    if (!searchResult.success) {
+      yield searchResult;
+      return;
+    }
+    if (searchResult.data !== null) {
+      yield { success: true, data: searchResult.data };
     }
+  }
+}
+
+// ============================================================
+// REAL の算術演算
+//
+// JS の number では 7 と 7.0 を区別できないので、REAL のカラム・小数点を付けて書いたリテラル・
+// AVG などを含む算術演算に、評価する前に real の印を付ける (7.0 / 2 = 3.5、7 / 2 = 3)
+// ============================================================
+
+/** 数値の算術演算子 (|| を除く) */
+const NUMERIC_OPERATORS: BinaryOperator[] = ["+", "-", "*", "/", "%"];
+
+/**
+ * SELECT の各句の式に bindRealArithmetic を適用する
+ */
+function bindRealSelect(scope: ColumnScope, stmt: SelectStatement): SelectStatement {
+  const bind = (expr: Expression) => bindRealArithmetic(scope, expr);
+  return {
+    ...stmt,
+    columns: stmt.columns.map((item) =>
+      item.type === "EXPRESSION" ? { ...item, expression: bind(item.expression) } : item,
+    ),
+    joins: stmt.joins.map((join) => ({ ...join, on: bind(join.on) })),
+    where: stmt.where && bind(stmt.where),
+    groupBy: stmt.groupBy.map(bind),
+    having: stmt.having && bind(stmt.having),
+    orderBy: stmt.orderBy.map((item) => ({ ...item, expression: bind(item.expression) })),
+  };
+}
 
-    return { success: true, message: "Schema saved" };
+/**
+ * オペランドが REAL になる算術演算に real を付けた式を返す
+ */
+function bindRealArithmetic(scope: ColumnScope, expr: Expression): Expression {
+  const bound = mapChildren(expr, (child) => bindRealArithmetic(scope, child));
+  if (
+    bound.type === "BINARY" &&
+    NUMERIC_OPERATORS.includes(bound.operator) &&
+    (isRealExpression(scope, bound.left) || isRealExpression(scope, bound.right))
+  ) {
+    return { ...bound, real: true };
   }
+  return bound;
+}
+
+/**
+ * 式の値が REAL になるか (中の算術演算には bindRealArithmetic で印が付いているものとする)
+ * AVG と ROUND は常に REAL、CASE / COALESCE などはどれかの候補が REAL なら REAL とみなす
+ */
+function isRealExpression(scope: ColumnScope, expr: Expression): boolean {
+  const isReal = (e: Expression | null) => e !== null && isRealExpression(scope, e);
+  switch (expr.type) {
+    case "COLUMN":
+      return columnTypeOf(scope, expr) === "REAL";
+    case "LITERAL":
+    case "BINARY":
+      return expr.real === true;
+    case "UNARY":
+      return expr.operator === "-" && isReal(expr.operand);
+    case "AGGREGATE":
+      return expr.func === "AVG" || (expr.func !== "COUNT" && isReal(expr.argument));
+    case "FUNCTION":
+      if (expr.name === "ROUND") return true;
+      return ["ABS", "COALESCE", "IFNULL"].includes(expr.name) && expr.args.some(isReal);
+    case "CASE":
+      return [...expr.branches.map((branch) => branch.then), expr.elseResult].some(isReal);
+  }
+}
+
+/** カラム参照が指すカラムの型 (解決できなければ undefined) */
+function columnTypeOf(scope: ColumnScope, column: ColumnRef): ColumnType | undefined {
+  const position = scope.positions.get(columnKey(column));
+  if (position === undefined) return undefined;
+  const table = scope.tables[tableIndexAt(scope, position)];
+  return table.schema.columns[position - table.offset].type;
 }
 
 // ============================================================
-// ヘルパー関数
+// 式の評価
+//
+// SQLite と同じく、比較・AND・OR・NOT の結果は 1 (真) / 0 (偽) / NULL (UNKNOWN)。
+// NULL との比較は UNKNOWN になり、AND / OR / NOT は三値論理で組み合わせる。
+// WHERE は結果が真の行だけを残す (UNKNOWN の行も除く)
 // ============================================================
 
-function convertValue(
-  colDef: ColumnDef,
-  raw: string | number,
-): { success: true; value: ColumnValue } | { success: false; error: string } {
-  if (colDef.type === "INTEGER") {
-    if (typeof raw === "number") {
-      return { success: true, value: raw };
-    }
-    const num = Number(raw);
-    if (Number.isNaN(num) || !Number.isInteger(num)) {
-      return { success: false, error: `Invalid INTEGER value for column '${colDef.name}': ${raw}` };
+/** カラム名 (小文字) → テーブル上の位置 */
+function columnPositions(schema: Pick<TableSchema, "columns">): Map<string, number> {
+  return new Map(schema.columns.map((c, i) => [c.name.toLowerCase(), i]));
+}
+
+/** SELECT で参照できるテーブル (FROM / JOIN に書いた順) */
+type ScopeTable = {
+  name: string; // 式でテーブルを指す名前 (別名があれば別名)
+  tableName: string; // テーブル名 (小文字)
+  schema: TableSchema;
+  offset: number; // 結合した行の中での先頭カラムの位置
+};
+
+/** 式のカラム参照を、結合した行の中の位置に解決する表 */
+type ColumnScope = {
+  tables: ScopeTable[];
+  positions: Map<string, number>; // "カラム" / "テーブル.カラム" (小文字) → 位置
+  ambiguous: Set<string>; // 複数のテーブルにあり、修飾しないと決まらないカラム名 (小文字)
+};
+
+function columnScope(tables: Omit<ScopeTable, "offset">[]): ColumnScope {
+  const scope: ColumnScope = { tables: [], positions: new Map(), ambiguous: new Set() };
+  let offset = 0;
+  for (const table of tables) {
+    scope.tables.push({ ...table, offset });
+    for (const [i, column] of table.schema.columns.entries()) {
+      const name = column.name.toLowerCase();
+      scope.positions.set(`${table.name.toLowerCase()}.${name}`, offset + i);
+      if (scope.positions.has(name) || scope.ambiguous.has(name)) {
+        scope.positions.delete(name);
+        scope.ambiguous.add(name);
+      } else {
+        scope.positions.set(name, offset + i);
+      }
     }
-    return { success: true, value: num };
+    offset += table.schema.columns.length;
   }
+  return scope;
+}
 
-  // TEXT
-  return { success: true, value: String(raw) };
+/** カラム参照を引くキー ("カラム" または "テーブル.カラム"、小文字) */
+function columnKey(column: Expression & { type: "COLUMN" }): string {
+  return (column.table === undefined ? column.name : `${column.table}.${column.name}`).toLowerCase();
 }
 
-function matchesCondition(
-  recordValue: ColumnValue,
-  operator: string,
-  conditionValue: string | number,
-): boolean {
-  if (recordValue === null) {
-    return false;
+/** 結合した行の中の位置が、何番目のテーブルのカラムか */
+function tableIndexAt(scope: ColumnScope, position: number): number {
+  return scope.tables.findLastIndex((table) => table.offset <= position);
+}
+
+/** 解決済みのカラム参照が、何番目のテーブルのカラムか */
+function tableIndexOf(scope: ColumnScope, column: Expression & { type: "COLUMN" }): number {
+  return tableIndexAt(scope, scope.positions.get(columnKey(column))!);
+}
+
+/**
+ * 式の中で解決できないカラムがあればエラーメッセージを返す (すべて解決できれば null)
+ */
+function findColumnError(scope: ColumnScope, expr: Expression): string | null {
+  const column = columnsOf(expr).find((c) => !scope.positions.has(columnKey(c)));
+  if (!column) return null;
+  if (scope.ambiguous.has(columnKey(column))) return `Column '${column.name}' is ambiguous`;
+
+  const name = renderExpression(column);
+  return scope.tables.length === 1
+    ? `Column '${name}' does not exist in table '${scope.tables[0].schema.name}'`
+    : `Column '${name}' does not exist`;
+}
+
+/**
+ * 式に含まれるカラム参照 (集約関数の引数の中も含む)
+ */
+function columnsOf(expr: Expression): (Expression & { type: "COLUMN" })[] {
+  switch (expr.type) {
+    case "COLUMN":
+      return [expr];
+    case "AGGREGATE":
+      return expr.argument ? columnsOf(expr.argument) : [];
+    default:
+      return childExpressions(expr).flatMap(columnsOf);
+  }
+}
+
+/**
+ * 1行の値に対して式を評価する (カラムはテーブルにあることを確認済みとする)
+ * 集約関数の呼び出しは、AGGREGATE が行に付け加えた値 (位置は aggregates) を返す
+ */
+function evaluate(
+  expr: Expression,
+  positions: Map<string, number>,
+  values: ColumnValue[],
+  aggregates?: Map<Expression, number>,
+): ColumnValue {
+  switch (expr.type) {
+    case "COLUMN":
+      return values[positions.get(columnKey(expr))!] ?? null;
+    case "LITERAL":
+      return expr.value;
+    case "AGGREGATE": {
+      const position = aggregates?.get(expr);
+      return position === undefined ? null : (values[position] ?? null);
+    }
+    case "UNARY": {
+      const operand = evaluate(expr.operand, positions, values, aggregates);
+      switch (expr.operator) {
+        case "-":
+          return negative(operand);
+        case "NOT":
+          return fromTruth(negate(isTrue(operand)));
+        case "IS NULL":
+          return fromTruth(operand === null);
+        case "IS NOT NULL":
+          return fromTruth(operand !== null);
+      }
+    }
+    case "BINARY": {
+      const left = evaluate(expr.left, positions, values, aggregates);
+      const right = evaluate(expr.right, positions, values, aggregates);
+      switch (expr.operator) {
+        case "AND":
+          return fromTruth(and(isTrue(left), isTrue(right)));
+        case "OR":
+          return fromTruth(or(isTrue(left), isTrue(right)));
+        case "IS DISTINCT FROM":
+          return fromTruth(isDistinct(left, right));
+        case "IS NOT DISTINCT FROM":
+          return fromTruth(!isDistinct(left, right));
+        default:
+          return isComparisonOperator(expr.operator)
+            ? fromTruth(compare(expr.operator, left, right))
+            : arithmetic(expr.operator, left, right, expr.real);
+      }
+    }
+    case "FUNCTION":
+      return callFunction(expr.name, expr.args.map((arg) => evaluate(arg, positions, values, aggregates)));
+    case "CASE": {
+      // 最初に一致した WHEN の THEN を返す (operand があれば = で比べ、なければ条件が真か)
+      const operand = expr.operand && evaluate(expr.operand, positions, values, aggregates);
+      for (const branch of expr.branches) {
+        const when = evaluate(branch.when, positions, values, aggregates);
+        if (expr.operand ? compare("=", operand, when) : isTrue(when)) {
+          return evaluate(branch.then, positions, values, aggregates);
+        }
+      }
+      return expr.elseResult && evaluate(expr.elseResult, positions, values, aggregates);
+    }
+  }
+}
+
+/**
+ * 式に含まれる集約関数の呼び出しを返す (引数の中は見ない)
+ */
+function collectAggregates(expr: Expression): (Expression & { type: "AGGREGATE" })[] {
+  switch (expr.type) {
+    case "AGGREGATE":
+      return [expr];
+    default:
+      return childExpressions(expr).flatMap(collectAggregates);
   }
+}
+
+function containsAggregate(expr: Expression): boolean {
+  return collectAggregates(expr).length > 0;
+}
 
-  // 型を揃える
-  let a: number | string = recordValue as number | string;
-  let b: number | string = conditionValue;
+/**
+ * 集約関数の外にあり、GROUP BY の式にも含まれないカラムの名前を返す (なければ null)
+ */
+function findUngroupedColumn(positions: Map<string, number>, expr: Expression, groupBy: Expression[]): string | null {
+  if (groupBy.some((g) => sameExpression(positions, g, expr))) return null;
+  switch (expr.type) {
+    case "COLUMN":
+      return renderExpression(expr);
+    case "AGGREGATE":
+      return null;
+    default:
+      for (const child of childExpressions(expr)) {
+        const ungrouped = findUngroupedColumn(positions, child, groupBy);
+        if (ungrouped) return ungrouped;
+      }
+      return null;
+  }
+}
 
-  // 両方数値に変換可能なら数値比較
-  if (typeof a === "number" && typeof b === "string") {
-    const bNum = Number(b);
-    if (!Number.isNaN(bNum)) b = bNum;
+/**
+ * 2つの式が同じ形か (カラムは修飾の有無によらず、同じカラムを指せば同じとみなす)
+ */
+function sameExpression(positions: Map<string, number>, a: Expression, b: Expression): boolean {
+  const same = (x: Expression, y: Expression) => sameExpression(positions, x, y);
+  const sameList = (xs: Expression[], ys: Expression[]) =>
+    xs.length === ys.length && xs.every((x, i) => same(x, ys[i]));
+  switch (a.type) {
+    case "COLUMN":
+      return b.type === "COLUMN" && positions.get(columnKey(a)) === positions.get(columnKey(b));
+    case "LITERAL":
+      return b.type === "LITERAL" && a.value === b.value && !a.real === !b.real;
+    case "AGGREGATE":
+      return (
+        b.type === "AGGREGATE" &&
+        a.func === b.func &&
+        (a.argument === null ? b.argument === null : b.argument !== null && same(a.argument, b.argument))
+      );
+    case "UNARY":
+      return b.type === "UNARY" && a.operator === b.operator && same(a.operand, b.operand);
+    case "BINARY":
+      return b.type === "BINARY" && a.operator === b.operator && same(a.left, b.left) && same(a.right, b.right);
+    case "FUNCTION":
+      return b.type === "FUNCTION" && a.name === b.name && sameList(a.args, b.args);
+    case "CASE":
+      return (
+        b.type === "CASE" &&
+        (a.operand === null) === (b.operand === null) &&
+        a.branches.length === b.branches.length &&
+        (a.elseResult === null) === (b.elseResult === null) &&
+        sameList(caseParts(a), caseParts(b))
+      );
   }
-  if (typeof a === "string" && typeof b === "number") {
-    const aNum = Number(a);
-    if (!Number.isNaN(aNum)) a = aNum;
+}
+
+/** 真偽値 (null = UNKNOWN) */
+type Truth = boolean | null;
+
+/**
+ * 値を真偽値として読む (NULL は UNKNOWN、数値は 0 以外が真、TEXT は数値に直して判定)
+ */
+function isTrue(value: ColumnValue): Truth {
+  if (value === null) return null;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "bigint") return value !== 0n;
+  if (typeof value !== "number" && typeof value !== "string") return false;
+  const num = typeof value === "number" ? value : Number(value);
+  return !Number.isNaN(num) && num !== 0;
+}
+
+function fromTruth(truth: Truth): ColumnValue {
+  return truth === null ? null : truth ? 1 : 0;
+}
+
+function negate(a: Truth): Truth {
+  return a === null ? null : !a;
+}
+
+/** 偽が1つでもあれば偽、そうでなく UNKNOWN があれば UNKNOWN */
+function and(a: Truth, b: Truth): Truth {
+  if (a === false || b === false) return false;
+  if (a === null || b === null) return null;
+  return true;
+}
+
+/** 真が1つでもあれば真、そうでなく UNKNOWN があれば UNKNOWN */
+function or(a: Truth, b: Truth): Truth {
+  if (a === true || b === true) return true;
+  if (a === null || b === null) return null;
+  return false;
+}
+
+/**
+ * 2つの値を比較する (どちらかが NULL なら UNKNOWN)
+ * 型を揃えてから B+Tree のキーと同じ順序で比べる (TEXT 同士は BINARY 照合)
+ */
+function compare(operator: ComparisonOperator, left: ColumnValue, right: ColumnValue): Truth {
+  if (left === null || right === null) {
+    return null;
   }
 
+  const cmp = compareValues(alignForComparison(left, right), alignForComparison(right, left));
   switch (operator) {
     case "=":
-      return a === b;
+      return cmp === 0;
     case "!=":
-      return a !== b;
+      return cmp !== 0;
     case ">":
-      return a > b;
+      return cmp > 0;
     case "<":
-      return a < b;
+      return cmp < 0;
     case ">=":
-      return a >= b;
+      return cmp >= 0;
     case "<=":
-      return a <= b;
-    default:
-      return false;
+      return cmp <= 0;
+  }
+}
+
+/**
+ * IS DISTINCT FROM: NULL 同士は等しく、NULL と NULL 以外は異なるとみなす比較 (UNKNOWN にならない)
+ */
+function isDistinct(left: ColumnValue, right: ColumnValue): boolean {
+  if (left === null || right === null) return left !== right;
+  return compare("!=", left, right) === true;
+}
+
+/**
+ * other と比べるために value の型を揃える
+ * TRUE / FALSE は 1 / 0 とし、TEXT は相手の型 (数値・日付) として読めればその型にする
+ */
+function alignForComparison(value: ColumnValue, other: ColumnValue): ColumnValue {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value !== "string") return value;
+
+  if (typeof other === "number" || typeof other === "boolean" || typeof other === "bigint") {
+    // BIGINT と比べる整数の TEXT は精度を落とさないよう bigint にする
+    const big = typeof other === "bigint" ? castValue("BIGINT", value) : undefined;
+    const num = Number(value);
+    return big ?? (Number.isNaN(num) ? value : num);
+  }
+  if (other instanceof Date) {
+    return castValue(other instanceof CalendarDate ? "DATE" : "TIMESTAMP", value) ?? value;
   }
+  return value;
 }
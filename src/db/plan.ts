@@ -0,0 +1,333 @@
+import { isComparisonOperator, renderExpression } from "../sql/parser.ts";
+import type { ComparisonOperator, Expression, LiteralValue, OrderByItem } from "../sql/parser.ts";
+import type { ColumnValue, KeyBound } from "./btree.ts";
+import type { SecondaryIndex } from "./secondary-index.ts";
+
+// ============================================================
+// 実行計画
+//
+// SELECT は構文木から物理演算子の木を組み立ててから実行する。
+// 葉はテーブルの読み方 (全件走査、PRIMARY KEY かインデックスの範囲走査) で、
+// その上に JOIN / FILTER / AGGREGATE / SORT / PROJECT / LIMIT を重ねる。
+// 各演算子は子の行を1行ずつ受け取って返す (SORT と AGGREGATE だけは
+// 子の行をすべて読んでから返す)。
+//
+// 各ノードには返す行数の見積もりを持たせ、EXPLAIN で表示する。
+// ANALYZE したテーブルは統計 (stats.ts) から行数と条件の絞り込み率を見積もり、
+// そうでなければ行数は DEFAULT_TABLE_ROWS、絞り込み率は演算子ごとの決まった値とする
+// ============================================================
+
+/** WHERE の AND で繋がった条件のうち「カラム 比較演算子 値」の形のもの */
+export type ColumnCondition = {
+  colIdx: number;
+  operator: ComparisonOperator;
+  value: LiteralValue;
+};
+
+/** WHERE の条件から組み立てた、キーの先頭カラムに対する走査範囲 */
+export type KeyRange = {
+  lower: KeyBound<ColumnValue[]> | null;
+  upper: KeyBound<ColumnValue[]> | null;
+  score: number; // 絞り込みの強さの目安 (= のカラムごとに 2、範囲条件に 1)
+  constraint: string; // 範囲に使った条件の表記 (例: "a=? AND b>?")
+  conditions: ColumnCondition[]; // 範囲に使った条件
+};
+
+/** テーブルの読み方 */
+export type AccessPath =
+  | { type: "FULL_SCAN" }
+  | { type: "PRIMARY_KEY"; range: KeyRange }
+  | { type: "INDEX"; index: SecondaryIndex; range: KeyRange };
+
+/** JOIN のテーブル (内側) から、外側の1行に結合する行を探す方法 */
+export type JoinStrategy = "NESTED_LOOP" | "INDEX_NESTED_LOOP" | "HASH";
+
+export type AggregateCall = Expression & { type: "AGGREGATE" };
+
+/** SELECT の結果の1カラム */
+export type OutputColumn = {
+  name: string;
+  expression: Expression;
+};
+
+/** テーブルを読む葉の演算子 */
+export type ScanNode = {
+  type: "SCAN";
+  tableName: string; // テーブル名 (小文字)
+  label: string; // 表示用の名前 (例: "users AS u")
+  width: number; // テーブルのカラム数 (短い行は NULL で埋める)
+  path: AccessPath;
+  filter: Expression | null; // テーブル単体で判定できる条件 (修飾を外したもの)
+  descending: boolean; // 行キーの逆順にたどるか
+  rows: number;
+};
+
+/**
+ * 演算子の木の1ノード
+ * rows は返す行数の見積もり (JOIN の内側の SCAN は1回読むごとの行数)
+ */
+export type PlanNode =
+  | ScanNode
+  | {
+      type: "JOIN";
+      joinType: "INNER" | "LEFT";
+      strategy: JoinStrategy;
+      on: Expression;
+      innerKeys: Expression[]; // 等号の条件の内側のカラム (修飾を外したもの)
+      outerKeys: Expression[]; // innerKeys と等しくなる外側の式
+      outer: PlanNode;
+      inner: ScanNode;
+      rows: number;
+    }
+  | { type: "FILTER"; predicate: Expression; input: PlanNode; rows: number }
+  | { type: "AGGREGATE"; groupBy: Expression[]; aggregates: AggregateCall[]; input: PlanNode; rows: number }
+  | { type: "SORT"; orderBy: OrderByItem[]; input: PlanNode; rows: number }
+  | { type: "PROJECT"; outputs: OutputColumn[]; input: PlanNode; rows: number }
+  | { type: "LIMIT"; limit: number | null; offset: number; input: PlanNode; rows: number };
+
+export type PlanNodeOf<T extends PlanNode["type"]> = Extract<PlanNode, { type: T }>;
+
+/** 統計がないテーブルの行数の見積もり */
+export const DEFAULT_TABLE_ROWS = 1000;
+
+/** 一意でないカラムの = に一致する行数の見積もり (1つの値が何行に現れるか) */
+const EQUAL_ROWS = 10;
+
+/** 条件の種類ごとの絞り込み率 (一致する行の割合) の見積もり */
+const SELECTIVITY = {
+  NOT_EQUAL: 0.9,
+  RANGE: 0.25,
+  OTHER: 0.5, // カラムだけの条件など
+} as const;
+
+/** GROUP BY でまとめたあとのグループ数の見積もり (行数に対する割合) */
+const GROUP_RATIO = 0.1;
+
+// ============================================================
+// 見積もり
+// ============================================================
+
+/**
+ * 比較の条件1つの絞り込み率を、一意性や統計から見積もる関数 (見積もれなければ null)
+ */
+export type ComparisonEstimator = (condition: Expression & { type: "BINARY" }) => number | null;
+
+/**
+ * tableRows 行のテーブルで、条件に一致する行の割合を見積もる
+ * 比較はまず estimateComparison で見積もり、できなければ演算子ごとの
+ * 決まった値 (= は1つの値に EQUAL_ROWS 行が一致するとみなす) を使う
+ */
+export function selectivity(
+  condition: Expression,
+  tableRows: number,
+  estimateComparison: ComparisonEstimator = () => null,
+): number {
+  const estimate = (expr: Expression) => selectivity(expr, tableRows, estimateComparison);
+  switch (condition.type) {
+    case "UNARY":
+      return condition.operator === "NOT" ? 1 - estimate(condition.operand) : SELECTIVITY.OTHER;
+    case "BINARY":
+      switch (condition.operator) {
+        case "AND":
+          return estimate(condition.left) * estimate(condition.right);
+        case "OR": {
+          const left = estimate(condition.left);
+          const right = estimate(condition.right);
+          return left + right - left * right;
+        }
+        default:
+          if (!isComparisonOperator(condition.operator)) return SELECTIVITY.OTHER;
+          return estimateComparison(condition) ?? comparisonSelectivity(condition.operator, tableRows);
+      }
+    default:
+      return SELECTIVITY.OTHER;
+  }
+}
+
+/**
+ * 統計がないときの、比較の条件1つの絞り込み率
+ */
+export function comparisonSelectivity(operator: ComparisonOperator, tableRows: number): number {
+  switch (operator) {
+    case "=":
+      return Math.min(1, EQUAL_ROWS / Math.max(tableRows, 1));
+    case "!=":
+      return SELECTIVITY.NOT_EQUAL;
+    default:
+      return SELECTIVITY.RANGE;
+  }
+}
+
+/**
+ * テーブルの読み方のコストを、読む行数を単位に見積もる
+ * 全件走査はすべての行、範囲走査は木を降りる分 (log2 行数) と範囲の行を読む。
+ * インデックスはさらに一致した行ごとにテーブルの B+Tree を降りて行を引く
+ */
+export function accessCost(type: AccessPath["type"], tableRows: number, matchedRows: number): number {
+  const seek = Math.log2(tableRows + 1);
+  switch (type) {
+    case "FULL_SCAN":
+      return tableRows;
+    case "PRIMARY_KEY":
+      return seek + matchedRows;
+    case "INDEX":
+      return seek + matchedRows * (1 + seek);
+  }
+}
+
+/**
+ * GROUP BY でまとめたあとの行数を見積もる (GROUP BY がなければ1行)
+ */
+export function estimateGroups(inputRows: number, groupBy: Expression[]): number {
+  return groupBy.length === 0 ? 1 : roundRows(inputRows * GROUP_RATIO);
+}
+
+/**
+ * 見積もりの行数を整数にする (1行未満でも 0 より大きければ1行とみなす)
+ */
+export function roundRows(rows: number): number {
+  return rows <= 0 ? 0 : Math.max(1, Math.round(rows));
+}
+
+// ============================================================
+// 表示 (EXPLAIN / EXPLAIN QUERY PLAN)
+// ============================================================
+
+/** EXPLAIN の1行 (演算子の木を根から深さ優先でたどった順) */
+export type ExplainRow = {
+  id: number;
+  parent: number; // 親の id (根は 0)
+  operator: string; // 演算子の名前 (木の深さの分だけ字下げする)
+  detail: string;
+  rows: number;
+};
+
+/** EXPLAIN QUERY PLAN の1行 (テーブルを読む順と、途中で作る一時的な構造) */
+export type QueryPlanRow = {
+  id: number;
+  detail: string;
+  rows: number;
+};
+
+/**
+ * 演算子の木をすべて並べる
+ */
+export function explainPlan(root: PlanNode): ExplainRow[] {
+  const rows: ExplainRow[] = [];
+  const visit = (node: PlanNode, parent: number, depth: number): void => {
+    const id = rows.length + 1;
+    rows.push({ id, parent, operator: "  ".repeat(depth) + node.type, detail: nodeDetail(node), rows: node.rows });
+    for (const child of childrenOf(node)) visit(child, id, depth + 1);
+  };
+  visit(root, 0, 0);
+  return rows;
+}
+
+/**
+ * テーブルの読み方 (SCAN / SEARCH) と、ハッシュ表や外部ソートを使う箇所を実行する順に並べる
+ * (例: "SEARCH users AS u USING PRIMARY KEY (id=?)", "USE EXTERNAL SORT FOR ORDER BY")
+ * 行数は、結合するテーブルならそこまで結合した行数
+ */
+export function explainQueryPlan(root: PlanNode): QueryPlanRow[] {
+  const rows: QueryPlanRow[] = [];
+  const add = (detail: string, count: number) => rows.push({ id: rows.length + 1, detail, rows: count });
+  const visit = (node: PlanNode): void => {
+    switch (node.type) {
+      case "SCAN":
+        add(accessDetail(node), node.rows);
+        return;
+      case "JOIN": {
+        visit(node.outer);
+        const leftJoin = node.joinType === "LEFT" ? " (LEFT JOIN)" : "";
+        const access =
+          node.strategy === "HASH"
+            ? `SEARCH ${node.inner.label} USING HASH TABLE (${keyConstraint(node.innerKeys)})`
+            : accessDetail(node.inner);
+        add(access + leftJoin, node.rows);
+        return;
+      }
+      case "AGGREGATE":
+        visit(node.input);
+        if (node.groupBy.length > 0) add("USE HASH TABLE FOR GROUP BY", node.rows);
+        return;
+      case "SORT":
+        visit(node.input);
+        add("USE EXTERNAL SORT FOR ORDER BY", node.rows);
+        return;
+      default:
+        visit(node.input);
+    }
+  };
+  visit(root);
+  return rows;
+}
+
+function childrenOf(node: PlanNode): PlanNode[] {
+  switch (node.type) {
+    case "SCAN":
+      return [];
+    case "JOIN":
+      return [node.outer, node.inner];
+    default:
+      return [node.input];
+  }
+}
+
+function nodeDetail(node: PlanNode): string {
+  switch (node.type) {
+    case "SCAN": {
+      const filter = node.filter ? ` WHERE ${renderExpression(node.filter)}` : "";
+      return accessDetail(node) + filter;
+    }
+    case "JOIN":
+      return `${node.joinType} JOIN (${JOIN_STRATEGY_NAMES[node.strategy]}) ON ${renderExpression(node.on)}`;
+    case "FILTER":
+      return renderExpression(node.predicate);
+    case "AGGREGATE": {
+      const aggregates = node.aggregates.map(renderExpression).join(", ");
+      if (node.groupBy.length === 0) return aggregates;
+      const groupBy = `GROUP BY ${node.groupBy.map(renderExpression).join(", ")}`;
+      return aggregates === "" ? groupBy : `${groupBy}: ${aggregates}`;
+    }
+    case "SORT":
+      return `ORDER BY ${node.orderBy.map(renderOrderByItem).join(", ")}`;
+    case "PROJECT":
+      return node.outputs.map((o) => o.name).join(", ");
+    case "LIMIT":
+      return [node.limit !== null ? `LIMIT ${node.limit}` : "", node.offset > 0 ? `OFFSET ${node.offset}` : ""]
+        .filter((part) => part !== "")
+        .join(" ");
+  }
+}
+
+const JOIN_STRATEGY_NAMES: { [strategy in JoinStrategy]: string } = {
+  NESTED_LOOP: "NESTED LOOP",
+  INDEX_NESTED_LOOP: "INDEX NESTED LOOP",
+  HASH: "HASH",
+};
+
+/**
+ * テーブルの読み方の表記 (全件なら SCAN、範囲を絞るなら SEARCH)
+ */
+function accessDetail(node: ScanNode): string {
+  const order = node.descending ? " (DESC)" : "";
+  switch (node.path.type) {
+    case "FULL_SCAN":
+      return `SCAN ${node.label}${order}`;
+    case "PRIMARY_KEY":
+      return `SEARCH ${node.label} USING PRIMARY KEY (${node.path.range.constraint})${order}`;
+    case "INDEX": {
+      const name = node.path.index.schema.name;
+      return `SEARCH ${node.label} USING INDEX ${name} (${node.path.range.constraint})${order}`;
+    }
+  }
+}
+
+function keyConstraint(keys: Expression[]): string {
+  return keys.map((key) => `${renderExpression(key)}=?`).join(" AND ");
+}
+
+function renderOrderByItem(item: OrderByItem): string {
+  const sql = renderExpression(item.expression);
+  return item.direction === "DESC" ? `${sql} DESC` : sql;
+}
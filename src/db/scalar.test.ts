@@ -0,0 +1,86 @@
+import { describe, test, expect } from "bun:test";
+import { arithmetic, callFunction, negative } from "./scalar.ts";
+
+describe("算術演算", () => {
+  test("TEXT を数値に直して計算し、NULL があれば NULL", () => {
+    expect(arithmetic("+", 1, "2")).toBe(3);
+    expect(arithmetic("-", "abc", 1)).toBe(-1);
+    expect(arithmetic("*", 3, 4)).toBe(12);
+    expect(arithmetic("+", null, 1)).toBeNull();
+    expect(negative("5")).toBe(-5);
+    expect(negative(null)).toBeNull();
+  });
+
+  test("整数同士の / は切り捨て、/ と % の 0 除算は NULL", () => {
+    expect(arithmetic("/", 7, 2)).toBe(3);
+    expect(arithmetic("/", -7, 2)).toBe(-3);
+    expect(arithmetic("/", 7.5, 2)).toBe(3.75);
+    expect(arithmetic("%", -7, 3)).toBe(-1);
+    expect(arithmetic("%", 7.9, 2.5)).toBe(1);
+    expect(arithmetic("/", 1, 0)).toBeNull();
+    expect(arithmetic("%", 1, 0.5)).toBeNull();
+  });
+
+  test("real を付けると整数の値でも浮動小数点数で計算する", () => {
+    expect(arithmetic("/", 7, 2, true)).toBe(3.5);
+    expect(arithmetic("/", 7n, 2, true)).toBe(3.5);
+    expect(arithmetic("+", 2n ** 62n, 1, true)).toBe(2 ** 62 + 1);
+    expect(arithmetic("/", 7, 0, true)).toBeNull();
+  });
+
+  test("|| は TEXT として連結する", () => {
+    expect(arithmetic("||", "a", 1)).toBe("a1");
+    expect(arithmetic("||", "a", null)).toBeNull();
+    expect(arithmetic("||", true, new Uint8Array([0xab]))).toBe("trueAB");
+  });
+
+  test("BIGINT を含む整数の演算は bigint で計算し、64bit を超えたら number にする", () => {
+    expect(arithmetic("+", 2n ** 62n, 1)).toBe(2n ** 62n + 1n);
+    expect(arithmetic("/", -7n, 2n)).toBe(-3n);
+    expect(arithmetic("%", 7n, 0)).toBeNull();
+    expect(arithmetic("*", 2n ** 62n, 2)).toBe(2 ** 63);
+    expect(arithmetic("+", 1n, 0.5)).toBe(1.5);
+    expect(negative(-(2n ** 63n))).toBe(2 ** 63);
+    expect(callFunction("ABS", [-5n])).toBe(5n);
+  });
+});
+
+describe("組み込み関数", () => {
+  test("文字列関数は ASCII の英字だけを変換し、文字数はコードポイントで数える", () => {
+    expect(callFunction("UPPER", ["abcé"])).toBe("ABCé");
+    expect(callFunction("LOWER", ["ABC"])).toBe("abc");
+    expect(callFunction("LENGTH", ["日本🍣"])).toBe(3);
+    expect(callFunction("LENGTH", [-12])).toBe(3);
+    expect(callFunction("TRIM", ["  a b  "])).toBe("a b");
+    expect(callFunction("TRIM", ["xxaxyx", "xy"])).toBe("a");
+    expect(callFunction("UPPER", [null])).toBeNull();
+  });
+
+  test("SUBSTR は SQLite と同じく負の位置と長さを扱う", () => {
+    expect(callFunction("SUBSTR", ["abcdef", 2, 3])).toBe("bcd");
+    expect(callFunction("SUBSTR", ["abcdef", 3])).toBe("cdef");
+    expect(callFunction("SUBSTR", ["abcdef", -2])).toBe("ef");
+    expect(callFunction("SUBSTR", ["abcdef", 0, 2])).toBe("a");
+    expect(callFunction("SUBSTR", ["abcdef", 4, -2])).toBe("bc");
+    expect(callFunction("SUBSTR", ["abcdef", -8, 4])).toBe("ab");
+    expect(callFunction("SUBSTR", ["日本語", 2, 1])).toBe("本");
+  });
+
+  test("数値の関数と NULL の置き換え", () => {
+    expect(callFunction("ABS", [-3])).toBe(3);
+    expect(callFunction("ROUND", [2.5])).toBe(3);
+    expect(callFunction("ROUND", [-2.5])).toBe(-3);
+    expect(callFunction("ROUND", [3.14159, 2])).toBe(3.14);
+    expect(callFunction("ROUND", [-0.4])).toBe(0);
+    expect(callFunction("COALESCE", [null, null, "x", "y"])).toBe("x");
+    expect(callFunction("IFNULL", [null, null])).toBeNull();
+  });
+
+  test("CURRENT_TIMESTAMP は呼び出した時刻", () => {
+    const before = Date.now();
+    const now = callFunction("CURRENT_TIMESTAMP", []);
+    expect(now).toBeInstanceOf(Date);
+    expect((now as Date).getTime()).toBeGreaterThanOrEqual(before);
+    expect((now as Date).getTime()).toBeLessThanOrEqual(Date.now());
+  });
+});
@@ -0,0 +1,210 @@
+import { isInt64, valueToText } from "./value.ts";
+import type { ColumnValue } from "./btree.ts";
+import type { ArithmeticOperator, ScalarFunction } from "../sql/parser.ts";
+
+// ============================================================
+// 算術演算と組み込み関数
+//
+// 行ごとに値を計算する。NULL の扱いと型の変換は SQLite に合わせる:
+//   - 引数に NULL があれば結果も NULL (COALESCE / IFNULL を除く)
+//   - 算術演算は TEXT を数値に直して計算する (数値にならなければ 0、TRUE / FALSE は 1 / 0)
+//   - BIGINT を含む整数同士の演算は bigint で計算する (64bit を超えたら number で計算し直す)
+//   - 整数同士の / は小数点以下を切り捨て、/ と % の 0 除算は NULL
+//   - REAL のカラムや小数のリテラルを含む演算 (real) は、値が整数でも浮動小数点数で計算する
+//   - || と文字列関数は数値などを TEXT に直して扱う (valueToText)
+//   - CURRENT_TIMESTAMP は呼び出した時刻 (TIMESTAMP の値)
+// ============================================================
+
+/**
+ * 算術演算子と文字列の連結 (||)
+ * real はオペランドに REAL の値があること (7.0 / 2 = 3.5 のように、整数の値でも / を切り捨てない)
+ */
+export function arithmetic(
+  operator: ArithmeticOperator,
+  left: ColumnValue,
+  right: ColumnValue,
+  real = false,
+): ColumnValue {
+  if (left === null || right === null) return null;
+  if (operator === "||") return valueToText(left) + valueToText(right);
+  if (!real && (typeof left === "bigint" || typeof right === "bigint")) {
+    const result = bigintArithmetic(operator, left, right);
+    if (result !== undefined) return result;
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      if (b === 0) return null;
+      return !real && Number.isInteger(a) && Number.isInteger(b) ? Math.trunc(a / b) : a / b;
+    case "%": {
+      // 小数は整数に切り捨ててから余りを求める
+      const divisor = Math.trunc(b);
+      return divisor === 0 ? null : Math.trunc(a) % divisor;
+    }
+  }
+}
+
+/**
+ * 整数同士の演算を bigint で行う (小数があるか、結果が 64bit に収まらなければ undefined)
+ */
+function bigintArithmetic(
+  operator: ArithmeticOperator,
+  left: Exclude<ColumnValue, null>,
+  right: Exclude<ColumnValue, null>,
+): bigint | null | undefined {
+  const toBigInt = (value: Exclude<ColumnValue, null>) => {
+    const num = typeof value === "boolean" ? Number(value) : value;
+    return typeof num === "bigint" ? num : Number.isInteger(num) ? BigInt(num as number) : undefined;
+  };
+  const a = toBigInt(left);
+  const b = toBigInt(right);
+  if (a === undefined || b === undefined) return undefined;
+
+  let result: bigint;
+  switch (operator) {
+    case "+":
+      result = a + b;
+      break;
+    case "-":
+      result = a - b;
+      break;
+    case "*":
+      result = a * b;
+      break;
+    case "/":
+      if (b === 0n) return null;
+      result = a / b;
+      break;
+    case "%":
+      if (b === 0n) return null;
+      result = a % b;
+      break;
+    default:
+      return undefined;
+  }
+  return isInt64(result) ? result : undefined;
+}
+
+/**
+ * 単項の - (符号の反転。BIGINT の最小値は反転すると 64bit を超えるので number にする)
+ */
+export function negative(value: ColumnValue): ColumnValue {
+  if (value === null) return null;
+  if (typeof value === "bigint") return isInt64(-value) ? -value : -Number(value);
+  // 0 - x にして -0 を作らない
+  return 0 - toNumber(value);
+}
+
+/**
+ * 組み込み関数を呼ぶ (引数の数はパーサーで確認済みとする)
+ */
+export function callFunction(name: ScalarFunction, args: ColumnValue[]): ColumnValue {
+  if (name === "COALESCE" || name === "IFNULL") {
+    return args.find((arg) => arg !== null) ?? null;
+  }
+  if (args.some((arg) => arg === null)) return null;
+
+  const [value, ...rest] = args as Exclude<ColumnValue, null>[];
+  switch (name) {
+    case "UPPER":
+      // SQLite と同じく ASCII の英字だけを変換する
+      return valueToText(value).replace(/[a-z]/g, (c) => c.toUpperCase());
+    case "LOWER":
+      return valueToText(value).replace(/[A-Z]/g, (c) => c.toLowerCase());
+    case "LENGTH":
+      // BLOB はバイト数
+      return value instanceof Uint8Array ? value.length : [...valueToText(value)].length;
+    case "SUBSTR":
+      return substr(valueToText(value), toInteger(rest[0]), rest.length > 1 ? toInteger(rest[1]) : null);
+    case "TRIM":
+      return trim(valueToText(value), rest.length > 0 ? valueToText(rest[0]) : " ");
+    case "ABS":
+      if (typeof value === "bigint") return value < 0n ? negative(value) : value;
+      return Math.abs(toNumber(value));
+    case "ROUND":
+      if (typeof value === "bigint") return value;
+      return round(toNumber(value), rest.length > 0 ? toInteger(rest[0]) : 0);
+    case "CURRENT_TIMESTAMP":
+      return new Date();
+  }
+}
+
+/**
+ * SUBSTR(text, start, length): start は1始まりの文字位置 (負なら末尾から数える)、
+ * length が負なら start の前の文字を返す (length が null なら末尾まで)
+ */
+function substr(text: string, start: number, length: number | null): string {
+  const chars = [...text];
+  let from = start;
+  let count = length ?? chars.length;
+  const backward = count < 0;
+  if (backward) count = -count;
+
+  if (from < 0) {
+    from += chars.length;
+    if (from < 0) {
+      count = Math.max(0, count + from);
+      from = 0;
+    }
+  } else if (from > 0) {
+    from--;
+  } else if (count > 0) {
+    // start = 0 は1文字目の手前を指すので、1文字少なく返す
+    count--;
+  }
+
+  if (backward) {
+    from -= count;
+    if (from < 0) {
+      count += from;
+      from = 0;
+    }
+  }
+  return chars.slice(from, from + count).join("");
+}
+
+/**
+ * 両端から characters に含まれる文字を取り除く
+ */
+function trim(text: string, characters: string): string {
+  const chars = [...text];
+  const remove = new Set(characters);
+  let start = 0;
+  let end = chars.length;
+  while (start < end && remove.has(chars[start])) start++;
+  while (end > start && remove.has(chars[end - 1])) end--;
+  return chars.slice(start, end).join("");
+}
+
+/**
+ * 小数点以下 digits 桁に丸める (0.5 は 0 から遠い方へ。digits が負なら 0 桁)
+ */
+function round(value: number, digits: number): number {
+  const factor = 10 ** Math.max(0, digits);
+  const rounded = Math.round(Math.abs(value) * factor) / factor;
+  return value < 0 && rounded !== 0 ? -rounded : rounded;
+}
+
+/**
+ * 計算に使う数値 (数値として読めない TEXT と、BLOB・日付は 0)
+ */
+function toNumber(value: Exclude<ColumnValue, null>): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value !== "string") return 0;
+  const num = Number(value);
+  return Number.isNaN(num) ? 0 : num;
+}
+
+function toInteger(value: Exclude<ColumnValue, null>): number {
+  return Math.trunc(toNumber(value));
+}
@@ -0,0 +1,98 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { SecondaryIndex } from "./secondary-index.ts";
+import { Pager } from "../storage/pager.ts";
+import { unlinkSync, existsSync } from "node:fs";
+
+const TEST_DB = "/tmp/test_secondary_index.db";
+
+afterEach(() => {
+  if (existsSync(TEST_DB)) {
+    unlinkSync(TEST_DB);
+  }
+});
+
+function createIndex(unique: boolean): { pager: Pager; index: SecondaryIndex } {
+  const pagerResult = Pager.open(TEST_DB);
+  if (!pagerResult.success) throw new Error(pagerResult.error);
+
+  // テーブル (id, email, age) の email カラムに張る
+  const indexResult = SecondaryIndex.create(pagerResult.data, {
+    name: "idx_email",
+    tableName: "users",
+    columns: ["email"],
+    columnIndexes: [1],
+    unique,
+    rowKeyType: "integer",
+  });
+  if (!indexResult.success) throw new Error(indexResult.error);
+
+  return { pager: pagerResult.data, index: indexResult.data };
+}
+
+// ============================================================
+// 登録と検索
+// ============================================================
+
+describe("SecondaryIndex", () => {
+  test("同じ値の行が複数あってもすべての行キーが引ける", () => {
+    const { pager, index } = createIndex(false);
+
+    index.insert(1, [1, "a@example.com", 20]);
+    index.insert(2, [2, "b@example.com", 30]);
+    index.insert(3, [3, "a@example.com", 40]);
+
+    const bound = { key: ["a@example.com"], inclusive: true };
+    const result = index.findRowKeys(bound, bound);
+    expect(result.success && result.data).toEqual([1, 3]);
+
+    expect(index.delete(1, [1, "a@example.com", 20]).success).toBe(true);
+    const afterDelete = index.findRowKeys(bound, bound);
+    expect(afterDelete.success && afterDelete.data).toEqual([3]);
+
+    pager.close();
+  });
+
+  test("UNIQUE なら同じ値は拒否し、NULL は何件でも許す", () => {
+    const { pager, index } = createIndex(true);
+
+    expect(index.insert(1, [1, "a@example.com", 20]).success).toBe(true);
+    const duplicate = index.insert(2, [2, "a@example.com", 30]);
+    expect(duplicate.success).toBe(false);
+    if (!duplicate.success) {
+      expect(duplicate.error).toBe("UNIQUE constraint failed: users.email");
+    }
+
+    expect(index.insert(3, [3, null, 20]).success).toBe(true);
+    expect(index.insert(4, [4, null, 30]).success).toBe(true);
+
+    pager.close();
+  });
+
+  test("キーに収まらない長い値は、UNIQUE の判定より前に大きさのエラーで拒否する", () => {
+    const { pager, index } = createIndex(true);
+    const fits = "a".repeat(1008); // 要素数 2 + (型タグ 1 + 長さ 2 + 1008) + 行キー 5 = 1018
+    const tooLong = "a".repeat(1300);
+
+    expect(index.checkKeySize(1, [1, fits, 20]).success).toBe(true);
+    expect(index.insert(1, [1, fits, 20]).success).toBe(true);
+    expect(index.insert(2, [2, fits, 30])).toEqual({
+      success: false,
+      error: "UNIQUE constraint failed: users.email",
+    });
+    expect(index.insert(3, [3, tooLong, 40])).toEqual({
+      success: false,
+      error: "Key too large for index 'idx_email' on users.email: 1310 bytes (max 1018)",
+    });
+
+    pager.close();
+  });
+
+  test("affects は対象カラムの変更だけを見る", () => {
+    const { pager, index } = createIndex(false);
+
+    expect(index.affects([1, "a", 20], [1, "a", 99])).toBe(false);
+    expect(index.affects([1, "a", 20], [1, "b", 20])).toBe(true);
+
+    pager.close();
+  });
+});
@@ -0,0 +1,142 @@
+import type { Pager } from "../storage/pager.ts";
+import { BTree } from "./btree.ts";
+import type { BTreeKey, BTreeOptions, BTreeResult, ColumnValue, KeyBound } from "./btree.ts";
+
+// ============================================================
+// セカンダリインデックス
+//
+// インデックスごとに composite キーの B+Tree を1つ持つ。
+// キー = [対象カラムの値..., 行キー]、値は持たない。
+// 行キーが複合キー (PRIMARY KEY が複数カラムなど) なら、その要素を末尾に並べる。
+// 行キーを末尾に含めるので、同じ値の行が複数あってもキーは重複しない。
+// 対象カラムの値で範囲を絞って rangeScan し、末尾の行キーでテーブルを引く。
+// ============================================================
+
+export type IndexKey = ColumnValue[];
+
+/** スキーマ上のインデックス情報 */
+export type IndexSchema = {
+  name: string;
+  tableName: string;
+  columns: string[]; // 対象カラム名 (テーブル定義の表記)
+  columnIndexes: number[]; // 対象カラムのテーブル上の位置
+  unique: boolean;
+  rowKeyType: "integer" | "composite"; // 対象テーブルの行キーの形式
+  rootPageNum: number;
+  catalogId: number; // sqlight_schema 上の行のキー (登録前は 0)
+};
+
+export class SecondaryIndex {
+  readonly schema: IndexSchema;
+  private tree: BTree<IndexKey>;
+
+  private constructor(schema: IndexSchema, tree: BTree<IndexKey>) {
+    this.schema = schema;
+    this.tree = tree;
+  }
+
+  /**
+   * 空のインデックスを作成する (カタログへの登録は呼び出し側で行う)
+   */
+  static create(
+    pager: Pager,
+    definition: Omit<IndexSchema, "rootPageNum" | "catalogId">,
+    options: BTreeOptions = {},
+  ): BTreeResult<SecondaryIndex> {
+    const treeResult = BTree.create<IndexKey>(pager, { ...options, keyType: "composite" });
+    if (!treeResult.success) return treeResult;
+
+    const tree = treeResult.data;
+    const schema = { ...definition, rootPageNum: tree.getRootPageNum(), catalogId: 0 };
+    return { success: true, data: new SecondaryIndex(schema, tree) };
+  }
+
+  /**
+   * 既存のインデックスをルートページ番号から復元
+   */
+  static open(pager: Pager, schema: IndexSchema, options: BTreeOptions = {}): SecondaryIndex {
+    const tree = BTree.open<IndexKey>(pager, schema.rootPageNum, { ...options, keyType: "composite" });
+    return new SecondaryIndex(schema, tree);
+  }
+
+  getTree(): BTree<IndexKey> {
+    return this.tree;
+  }
+
+  /**
+   * 行をインデックスに追加する
+   * UNIQUE なら、対象カラムが同じ値 (NULL を含まない) の行が既にあれば拒否する
+   */
+  insert(rowKey: BTreeKey, values: ColumnValue[]): BTreeResult<void> {
+    const sizeResult = this.checkKeySize(rowKey, values);
+    if (!sizeResult.success) return sizeResult;
+
+    const indexed = this.indexedValues(values);
+
+    if (this.schema.unique && !indexed.includes(null)) {
+      const bound = { key: indexed, inclusive: true };
+      const existing = this.tree.rangeScan(bound, bound);
+      if (!existing.success) return existing;
+      if (existing.data.length > 0) {
+        return { success: false, error: `UNIQUE constraint failed: ${this.qualifiedColumns()}` };
+      }
+    }
+
+    return this.tree.insert({ key: [...indexed, ...rowKeyParts(rowKey)], values: [] });
+  }
+
+  /**
+   * 行のインデックスキーが B+Tree に格納できる大きさか検証する
+   * キーはオーバーフローページに追い出せないので、長い TEXT / BLOB の値はインデックスに登録できない
+   * (書き込む前に呼べば、テーブルやほかのインデックスを触る前に拒否できる)
+   */
+  checkKeySize(rowKey: BTreeKey, values: ColumnValue[]): BTreeResult<void> {
+    const size = this.tree.keySize([...this.indexedValues(values), ...rowKeyParts(rowKey)]);
+    const max = this.tree.maxKeySize();
+    if (size > max) {
+      const target = `index '${this.schema.name}' on ${this.qualifiedColumns()}`;
+      return { success: false, error: `Key too large for ${target}: ${size} bytes (max ${max})` };
+    }
+    return { success: true, data: undefined };
+  }
+
+  delete(rowKey: BTreeKey, values: ColumnValue[]): BTreeResult<void> {
+    return this.tree.delete([...this.indexedValues(values), ...rowKeyParts(rowKey)]);
+  }
+
+  /**
+   * 対象カラムの値の範囲に入る行の行キーを返す (インデックス順)
+   */
+  findRowKeys(lower: KeyBound<IndexKey> | null, upper: KeyBound<IndexKey> | null): BTreeResult<BTreeKey[]> {
+    const scanResult = this.tree.rangeScan(lower, upper);
+    if (!scanResult.success) return scanResult;
+
+    return {
+      success: true,
+      data: scanResult.data.map(({ key }) => {
+        const parts = key.slice(this.schema.columnIndexes.length);
+        return this.schema.rowKeyType === "integer" ? (parts[0] as number) : parts;
+      }),
+    };
+  }
+
+  /**
+   * 対象カラムの値が変わるか (変わらなければ UPDATE でインデックスを触らなくてよい)
+   */
+  affects(oldValues: ColumnValue[], newValues: ColumnValue[]): boolean {
+    return this.schema.columnIndexes.some((i) => (oldValues[i] ?? null) !== (newValues[i] ?? null));
+  }
+
+  private indexedValues(values: ColumnValue[]): IndexKey {
+    return this.schema.columnIndexes.map((i) => values[i] ?? null);
+  }
+
+  /** エラーメッセージ用の対象カラムの表記 (users.email, ...) */
+  private qualifiedColumns(): string {
+    return this.schema.columns.map((col) => `${this.schema.tableName}.${col}`).join(", ");
+  }
+}
+
+function rowKeyParts(rowKey: BTreeKey): ColumnValue[] {
+  return typeof rowKey === "number" ? [rowKey] : rowKey;
+}
@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { ExternalSorter } from "./sorter.ts";
+import type { Row } from "./sorter.ts";
+import { compareValues } from "./btree.ts";
+import { CalendarDate } from "./value.ts";
+import { mkdirSync, readdirSync, rmSync } from "node:fs";
+
+const TEMP_DIR = "/tmp/test_sorter";
+
+beforeEach(() => {
+  mkdirSync(TEMP_DIR, { recursive: true });
+});
+
+afterEach(() => {
+  rmSync(TEMP_DIR, { recursive: true, force: true });
+});
+
+/** 先頭の値で比べる */
+const byFirst = (a: Row, b: Row) => compareValues(a[0], b[0]);
+
+describe("ExternalSorter", () => {
+  test("メモリに収まる行はそのまま並べ替える", () => {
+    const sorter = new ExternalSorter(byFirst, { tempDir: TEMP_DIR });
+    for (const value of [3, null, "b", 1, "a", 2]) {
+      sorter.add([value]);
+    }
+
+    expect([...sorter.sorted()].map((row) => row[0])).toEqual([null, 1, 2, 3, "a", "b"]);
+    expect(sorter.getStats()).toEqual({ runs: 0, spilledPages: 0 });
+  });
+
+  test("上限を超えるとランを書き出し、マージしても順序と同順位の並びを保つ", () => {
+    const sorter = new ExternalSorter(byFirst, { memoryBudget: 2000, pageSize: 256, tempDir: TEMP_DIR });
+    const rows: Row[] = [];
+    for (let i = 0; i < 1000; i++) {
+      rows.push([(i * 7919) % 97, i, i % 3 === 0 ? null : `row${i}`]);
+    }
+    for (const row of rows) sorter.add(row);
+
+    const sorted = [...sorter.sorted()];
+    const stats = sorter.getStats();
+    expect(stats.runs).toBeGreaterThan(5);
+    expect(stats.spilledPages).toBeGreaterThan(stats.runs);
+
+    // 同じキーの行は追加した順 (2番目の値の昇順) に並ぶ
+    const expected = [...rows].sort((a, b) => byFirst(a, b) || (a[1] as number) - (b[1] as number));
+    expect(sorted).toEqual(expected);
+  });
+
+  test("ページより長い行もページをまたいで読み戻せる", () => {
+    const sorter = new ExternalSorter(byFirst, { memoryBudget: 1000, pageSize: 128, tempDir: TEMP_DIR });
+    const rows: Row[] = [];
+    for (let i = 20; i > 0; i--) {
+      rows.push([i, "あ".repeat(i * 10), -(2 ** 40) - i]);
+    }
+    for (const row of rows) sorter.add(row);
+
+    expect([...sorter.sorted()]).toEqual([...rows].reverse());
+    expect(sorter.getStats().runs).toBeGreaterThan(1);
+  });
+
+  test("BIGINT・BOOLEAN・BLOB・日付の値も型を保って読み戻せる", () => {
+    const sorter = new ExternalSorter(byFirst, { memoryBudget: 500, pageSize: 128, tempDir: TEMP_DIR });
+    const rows: Row[] = [];
+    for (let i = 30; i > 0; i--) {
+      rows.push([
+        BigInt(i) * 2n ** 40n,
+        i % 2 === 0,
+        new Uint8Array([i, 0]),
+        CalendarDate.fromEpochDays(i),
+        new Date(i * 1000.5),
+        i / 4,
+      ]);
+    }
+    for (const row of rows) sorter.add(row);
+
+    const sorted = [...sorter.sorted()];
+    expect(sorted).toEqual([...rows].reverse());
+    expect(sorted[0][3]).toBeInstanceOf(CalendarDate);
+    expect(sorted[0][4]).not.toBeInstanceOf(CalendarDate);
+    expect(sorter.getStats().runs).toBeGreaterThan(1);
+  });
+
+  test("一時ファイルはディレクトリに残らない (途中で読むのをやめても)", () => {
+    const sorter = new ExternalSorter(byFirst, { memoryBudget: 500, tempDir: TEMP_DIR });
+    for (let i = 0; i < 200; i++) {
+      sorter.add([200 - i]);
+    }
+    expect(readdirSync(TEMP_DIR)).toEqual([]);
+
+    for (const row of sorter.sorted()) {
+      expect(row).toEqual([1]);
+      break;
+    }
+    expect(readdirSync(TEMP_DIR)).toEqual([]);
+  });
+});
@@ -0,0 +1,365 @@
+import { openSync, closeSync, readSync, writeSync, unlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CalendarDate } from "./value.ts";
+import type { ColumnValue } from "./btree.ts";
+
+// ============================================================
+// 外部マージソート
+//
+// 行をメモリ上に溜め、見積もりのバイト数が上限を超えたら並べ替えて
+// 一時ファイルに書き出す (= ラン)。最後に各ランの先頭をページ単位で
+// 読みながらヒープでマージするので、メモリに載るのは上限分の行と
+// ランごとのページ1枚だけになる。同じ順位の行は追加した順に返す。
+//
+// 一時ファイルは作った直後に削除し、開いたファイルディスクリプタ経由で
+// 読み書きする (途中で終了してもファイルは残らない)。
+//
+// ランの形式: ページ境界に揃えて書き始める行の並び
+//   行: u32(行のバイト数) + u16(値の数) + 値の並び
+//   値: u8 型タグ + 本体
+//       0x00=NULL, 0x01=数値 (f64), 0x02=TEXT, 0x03=BIGINT (i64), 0x04=BOOLEAN (u8),
+//       0x05=BLOB, 0x06=DATE (f64 ミリ秒), 0x07=TIMESTAMP (f64 ミリ秒)
+//       TEXT / BLOB は u32(バイト数) + 本体 (TEXT は UTF-8)
+// ============================================================
+
+export type Row = ColumnValue[];
+
+export type SorterOptions = {
+  /** メモリ上に溜める行の見積もりバイト数の上限 (超えたら一時ファイルに書き出す) */
+  memoryBudget?: number;
+  /** 一時ファイルの読み書きの単位 */
+  pageSize?: number;
+  /** 一時ファイルを作るディレクトリ */
+  tempDir?: string;
+};
+
+export type SorterStats = {
+  runs: number; // 一時ファイルに書き出したランの数
+  spilledPages: number; // 一時ファイルに書いたページ数
+};
+
+export const DEFAULT_SORT_MEMORY_BUDGET = 4 * 1024 * 1024;
+
+const DEFAULT_PAGE_SIZE = 4096;
+
+/** 行ごとに見積もるオブジェクトのオーバーヘッド */
+const ROW_OVERHEAD = 32;
+
+/** 一時ファイルの名前を重複させないための連番 */
+let tempFileSeq = 0;
+
+/** 一時ファイル上のラン (ページ境界から始まる行の並び) */
+type Run = {
+  offset: number; // 先頭のバイト位置
+  length: number; // バイト数
+};
+
+export class ExternalSorter {
+  private readonly compare: (a: Row, b: Row) => number;
+  private readonly memoryBudget: number;
+  private readonly pageSize: number;
+  private readonly tempDir: string;
+
+  private buffer: Row[] = [];
+  private bufferBytes = 0;
+  private fd: number | null = null;
+  private fileSize = 0;
+  private runs: Run[] = [];
+  private spilledPages = 0;
+
+  constructor(compare: (a: Row, b: Row) => number, options: SorterOptions = {}) {
+    this.compare = compare;
+    this.memoryBudget = options.memoryBudget ?? DEFAULT_SORT_MEMORY_BUDGET;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    this.tempDir = options.tempDir ?? tmpdir();
+  }
+
+  /**
+   * 行を追加する。メモリの上限を超えたら溜めた行を1つのランとして書き出す
+   */
+  add(row: Row): void {
+    this.buffer.push(row);
+    this.bufferBytes += estimateRowBytes(row);
+    if (this.bufferBytes > this.memoryBudget) {
+      this.spill();
+    }
+  }
+
+  /**
+   * 並べ替えた行を1件ずつ返す (呼び出し後は add() できない)
+   * 読み終わるか途中でやめると一時ファイルを閉じる
+   */
+  *sorted(): Generator<Row> {
+    const inMemory = this.buffer.sort(this.compare);
+    this.buffer = [];
+    this.bufferBytes = 0;
+
+    if (this.fd === null) {
+      yield* inMemory;
+      return;
+    }
+
+    const fd = this.fd;
+    try {
+      // 先に書いたランほど前の行なので、同じ順位ならランの番号が小さいほうを先に返す
+      const sources: Iterator<Row>[] = [...this.runs.map((run) => this.readRun(fd, run)), inMemory.values()];
+      const heap = new MergeHeap((a, b) => this.compare(a.row, b.row) || a.source - b.source);
+      for (const [source, iterator] of sources.entries()) {
+        const first = iterator.next();
+        if (!first.done) heap.push({ row: first.value, source });
+      }
+
+      for (let head = heap.pop(); head !== undefined; head = heap.pop()) {
+        yield head.row;
+        const next = sources[head.source].next();
+        if (!next.done) heap.push({ row: next.value, source: head.source });
+      }
+    } finally {
+      this.close();
+    }
+  }
+
+  getStats(): SorterStats {
+    return { runs: this.runs.length, spilledPages: this.spilledPages };
+  }
+
+  /**
+   * 一時ファイルを閉じる (sorted() を最後まで読まない場合に呼ぶ)
+   */
+  close(): void {
+    if (this.fd !== null) {
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  /**
+   * 溜めた行を並べ替え、ページ境界から1つのランとして書き出す
+   */
+  private spill(): void {
+    if (this.fd === null) {
+      const path = join(this.tempDir, `sqlight-sort-${process.pid}-${tempFileSeq++}.tmp`);
+      this.fd = openSync(path, "w+");
+      unlinkSync(path);
+    }
+
+    const rows = this.buffer.sort(this.compare);
+    const encoded = Buffer.concat(rows.map(encodeRow));
+    const pageCount = Math.ceil(encoded.length / this.pageSize);
+    const page = Buffer.alloc(this.pageSize);
+    for (let i = 0; i < pageCount; i++) {
+      page.fill(0);
+      encoded.copy(page, 0, i * this.pageSize, (i + 1) * this.pageSize);
+      writeSync(this.fd, page, 0, this.pageSize, this.fileSize + i * this.pageSize);
+    }
+
+    this.runs.push({ offset: this.fileSize, length: encoded.length });
+    this.fileSize += pageCount * this.pageSize;
+    this.spilledPages += pageCount;
+    this.buffer = [];
+    this.bufferBytes = 0;
+  }
+
+  /**
+   * ランをページ単位で読みながら行を1件ずつ返す
+   * 行がページをまたぐ場合は、読み残しと次のページをつないでから読む
+   */
+  private *readRun(fd: number, run: Run): Generator<Row> {
+    let pending = Buffer.alloc(0);
+    let position = 0; // ランの先頭から読み込んだバイト数
+
+    const fill = (needed: number): void => {
+      while (pending.length < needed && position < run.length) {
+        const page = Buffer.alloc(this.pageSize);
+        readSync(fd, page, 0, this.pageSize, run.offset + position);
+        const used = Math.min(this.pageSize, run.length - position);
+        pending = Buffer.concat([pending, page.subarray(0, used)]);
+        position += used;
+      }
+    };
+
+    for (;;) {
+      fill(4);
+      if (pending.length < 4) return;
+
+      const rowLength = pending.readUInt32LE(0);
+      fill(4 + rowLength);
+      yield decodeRow(pending, 4);
+      pending = pending.subarray(4 + rowLength);
+    }
+  }
+}
+
+// ============================================================
+// マージ用の二分ヒープ (最小の要素を先頭に保つ)
+// ============================================================
+
+type HeapEntry = { row: Row; source: number };
+
+class MergeHeap {
+  private readonly compare: (a: HeapEntry, b: HeapEntry) => number;
+  private entries: HeapEntry[] = [];
+
+  constructor(compare: (a: HeapEntry, b: HeapEntry) => number) {
+    this.compare = compare;
+  }
+
+  push(entry: HeapEntry): void {
+    const entries = this.entries;
+    entries.push(entry);
+
+    let i = entries.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(entries[i], entries[parent]) >= 0) break;
+      [entries[i], entries[parent]] = [entries[parent], entries[i]];
+      i = parent;
+    }
+  }
+
+  pop(): HeapEntry | undefined {
+    const entries = this.entries;
+    if (entries.length === 0) return undefined;
+
+    const top = entries[0];
+    const last = entries.pop()!;
+    if (entries.length > 0) {
+      entries[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < entries.length && this.compare(entries[left], entries[smallest]) < 0) smallest = left;
+        if (right < entries.length && this.compare(entries[right], entries[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        [entries[i], entries[smallest]] = [entries[smallest], entries[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * メモリ上で行が占めるバイト数の見積もり (JS の文字列は1文字 2 バイトとみなす)
+ */
+function estimateRowBytes(row: Row): number {
+  let size = ROW_OVERHEAD;
+  for (const value of row) {
+    if (typeof value === "string") size += 16 + value.length * 2;
+    else if (value instanceof Uint8Array) size += 64 + value.length;
+    else size += 8;
+  }
+  return size;
+}
+
+/** 行の値の型タグ */
+const ROW_TAG = {
+  NULL: 0x00,
+  NUMBER: 0x01,
+  TEXT: 0x02,
+  BIGINT: 0x03,
+  BOOLEAN: 0x04,
+  BLOB: 0x05,
+  DATE: 0x06,
+  TIMESTAMP: 0x07,
+} as const;
+
+function encodedValueSize(value: ColumnValue): number {
+  if (value === null) return 1;
+  if (typeof value === "boolean") return 2;
+  if (typeof value === "string") return 5 + Buffer.byteLength(value, "utf-8");
+  if (value instanceof Uint8Array) return 5 + value.length;
+  return 9;
+}
+
+function encodeRow(row: Row): Buffer {
+  const size = row.reduce<number>((total, value) => total + encodedValueSize(value), 4 + 2);
+
+  const buf = Buffer.alloc(size);
+  buf.writeUInt32LE(size - 4, 0);
+  buf.writeUInt16LE(row.length, 4);
+  let offset = 6;
+  for (const value of row) {
+    if (value === null) {
+      buf.writeUInt8(ROW_TAG.NULL, offset);
+    } else if (typeof value === "number") {
+      buf.writeUInt8(ROW_TAG.NUMBER, offset);
+      buf.writeDoubleLE(value, offset + 1);
+    } else if (typeof value === "bigint") {
+      buf.writeUInt8(ROW_TAG.BIGINT, offset);
+      buf.writeBigInt64LE(value, offset + 1);
+    } else if (typeof value === "boolean") {
+      buf.writeUInt8(ROW_TAG.BOOLEAN, offset);
+      buf.writeUInt8(value ? 1 : 0, offset + 1);
+    } else if (value instanceof Date) {
+      buf.writeUInt8(value instanceof CalendarDate ? ROW_TAG.DATE : ROW_TAG.TIMESTAMP, offset);
+      buf.writeDoubleLE(value.getTime(), offset + 1);
+    } else if (value instanceof Uint8Array) {
+      buf.writeUInt8(ROW_TAG.BLOB, offset);
+      buf.writeUInt32LE(value.length, offset + 1);
+      buf.set(value, offset + 5);
+    } else {
+      buf.writeUInt8(ROW_TAG.TEXT, offset);
+      buf.writeUInt32LE(Buffer.byteLength(value, "utf-8"), offset + 1);
+      buf.write(value, offset + 5, "utf-8");
+    }
+    offset += encodedValueSize(value);
+  }
+  return buf;
+}
+
+function decodeRow(buf: Buffer, offset: number): Row {
+  const valueCount = buf.readUInt16LE(offset);
+  offset += 2;
+
+  const row: Row = [];
+  for (let i = 0; i < valueCount; i++) {
+    const typeTag = buf.readUInt8(offset);
+    offset += 1;
+    switch (typeTag) {
+      case ROW_TAG.NULL:
+        row.push(null);
+        break;
+      case ROW_TAG.NUMBER:
+        row.push(buf.readDoubleLE(offset));
+        offset += 8;
+        break;
+      case ROW_TAG.BIGINT:
+        row.push(buf.readBigInt64LE(offset));
+        offset += 8;
+        break;
+      case ROW_TAG.BOOLEAN:
+        row.push(buf.readUInt8(offset) !== 0);
+        offset += 1;
+        break;
+      case ROW_TAG.DATE:
+        row.push(new CalendarDate(buf.readDoubleLE(offset)));
+        offset += 8;
+        break;
+      case ROW_TAG.TIMESTAMP:
+        row.push(new Date(buf.readDoubleLE(offset)));
+        offset += 8;
+        break;
+      case ROW_TAG.BLOB:
+      case ROW_TAG.TEXT: {
+        const length = buf.readUInt32LE(offset);
+        const start = offset + 4;
+        row.push(
+          typeTag === ROW_TAG.BLOB
+            ? new Uint8Array(buf.subarray(start, start + length))
+            : buf.toString("utf-8", start, start + length),
+        );
+        offset = start + length;
+        break;
+      }
+    }
+  }
+  return row;
+}
@@ -0,0 +1,109 @@
+import { describe, test, expect } from "bun:test";
+import { StatsCollector, columnSelectivity, equalSelectivity, statsFromRows, statsToRows } from "./stats.ts";
+import type { ColumnValue } from "./btree.ts";
+import type { ColumnDef } from "../sql/parser.ts";
+
+const COLUMNS: ColumnDef[] = [
+  { name: "id", type: "INTEGER", constraints: [] },
+  { name: "name", type: "TEXT", constraints: [] },
+];
+
+/** 1カラムの値を順に加えた統計 */
+function collect(values: ColumnValue[]) {
+  const collector = new StatsCollector(1);
+  for (const value of values) collector.add([value]);
+  return collector.result();
+}
+
+describe("StatsCollector", () => {
+  test("値の種類数と NULL の数を数え、NULL でない値を等分する区間の端を持つ", () => {
+    // 1..99 のうち 10 の倍数が NULL
+    const stats = collect(Array.from({ length: 100 }, (_, i) => (i % 10 === 0 ? null : i)));
+    expect(stats.rowCount).toBe(100);
+    expect(stats.columns[0]).toEqual({
+      distinct: 90,
+      nulls: 10,
+      histogram: [1, 9, 19, 29, 39, 49, 59, 69, 79, 89, 99],
+    });
+  });
+
+  test("数値より TEXT を大きいとみなして並べ、値がなければヒストグラムは空", () => {
+    expect(collect([null, null]).columns[0]).toEqual({ distinct: 0, nulls: 2, histogram: [] });
+
+    const column = collect(["b", 2, "a", 2]).columns[0]!;
+    expect(column.distinct).toBe(3);
+    expect([column.histogram.at(0), column.histogram.at(-1)]).toEqual([2, "b"]);
+  });
+
+  test("メモリの上限を超える値は一時ファイルに書き出しながら並べ、同じ統計になる", () => {
+    const rows = Array.from({ length: 2000 }, (_, i): ColumnValue[] => [(i * 7919) % 2000, `name${i % 300}`, null]);
+    const inMemory = new StatsCollector(3);
+    const spilled = new StatsCollector(3, { memoryBudget: 4 * 1024, pageSize: 512 });
+    for (const row of rows) {
+      inMemory.add(row);
+      spilled.add(row);
+    }
+
+    const stats = spilled.result();
+    expect(spilled.getSortStats().runs).toBeGreaterThan(1);
+    expect(inMemory.getSortStats().runs).toBe(0);
+    expect(stats).toEqual(inMemory.result());
+    expect(stats.columns.map((column) => column && [column.distinct, column.nulls])).toEqual([
+      [2000, 0],
+      [300, 0],
+      [0, 2000],
+    ]);
+    expect(stats.columns[0]!.histogram).toEqual([0, 199, 399, 599, 799, 999, 1199, 1399, 1599, 1799, 1999]);
+  });
+});
+
+describe("見積もり", () => {
+  // 0..99 が1つずつと NULL が 100 行
+  const stats = collect([...Array.from({ length: 100 }, (_, i) => i), ...new Array(100).fill(null)]);
+  const column = stats.columns[0]!;
+
+  test("= は値の種類数で割り、範囲外の値なら 0", () => {
+    expect(columnSelectivity(column, 200, [{ operator: "=", value: 50 }])).toBe(0.005);
+    expect(columnSelectivity(column, 200, [{ operator: "=", value: "50" }])).toBe(0.005);
+    expect(columnSelectivity(column, 200, [{ operator: "=", value: 100 }])).toBe(0);
+    expect(equalSelectivity(column, 200)).toBe(0.005);
+  });
+
+  test("範囲条件はヒストグラムの区間の中を線形に補間する", () => {
+    expect(columnSelectivity(column, 200, [{ operator: ">", value: 89 }])).toBeCloseTo(0.05);
+    expect(
+      columnSelectivity(column, 200, [
+        { operator: ">=", value: 20 },
+        { operator: "<", value: 60 },
+      ]),
+    ).toBeCloseTo(0.2, 1);
+    expect(columnSelectivity(column, 200, [{ operator: "<", value: -1 }])).toBe(0);
+    expect(columnSelectivity(column, 200, [{ operator: "!=", value: 1 }])).toBeCloseTo(0.495);
+  });
+});
+
+describe("保存形式", () => {
+  test("カラムごとの行にして読み戻せる", () => {
+    const collector = new StatsCollector(2);
+    collector.add([1, "a"]);
+    collector.add([2, null]);
+    const stats = collector.result();
+
+    const rows = statsToRows("Users", COLUMNS, stats);
+    expect(rows).toEqual([
+      ["Users", "id", 2, 2, 0, "[1,1,1,1,1,1,2,2,2,2,2]"],
+      ["Users", "name", 2, 1, 1, '["a","a","a","a","a","a","a","a","a","a","a"]'],
+    ]);
+    expect(statsFromRows(COLUMNS, rows)).toEqual(stats);
+  });
+
+  test("カラム名は大文字小文字を区別せずに対応づけ、壊れた行は使わない", () => {
+    const stats = statsFromRows(COLUMNS, [
+      ["users", "ID", 5, 5, 0, "[1,5]"],
+      ["users", "name", 5, 3, 0, "not json"],
+      ["users", "missing", 5, 1, 0, "[]"],
+    ]);
+    expect(stats).toEqual({ rowCount: 5, columns: [{ distinct: 5, nulls: 0, histogram: [1, 5] }, null] });
+    expect(statsFromRows(COLUMNS, [])).toBeNull();
+  });
+});
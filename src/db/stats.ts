@@ -0,0 +1,274 @@
+import { compareValues } from "./btree.ts";
+import { ExternalSorter } from "./sorter.ts";
+import { valueToText } from "./value.ts";
+import type { ColumnValue } from "./btree.ts";
+import type { Row, SorterOptions, SorterStats } from "./sorter.ts";
+import type { ColumnDef, ComparisonOperator, LiteralValue } from "../sql/parser.ts";
+
+// ============================================================
+// テーブルの統計 (ANALYZE)
+//
+// ANALYZE はテーブルを全件読み、行数とカラムごとの値の種類数・NULL の数・
+// ヒストグラムを集めてシステムテーブル sqlight_stat に保存する。
+// 実行計画はこの統計で条件に一致する行数を見積もり、全件走査・PRIMARY KEY の
+// 範囲走査・インデックスのうち読む行数の少ないものを選ぶ。
+// 統計は ANALYZE した時点のもので、その後の書き込みでは更新しない。
+//
+// ヒストグラムは等頻度 (equi-depth): NULL でない値を昇順に並べて
+// HISTOGRAM_BUCKETS 個の区間に等分し、区間の端の値 (最小値から最大値まで) を持つ。
+// 端の値は JSON で保存できるよう数値か TEXT にする (statValue)
+//
+// 値を並べるのは ORDER BY と同じ外部マージソートで、メモリの上限を超えた値は
+// 一時ファイルに書き出す。大きなテーブルでもメモリに載るのは上限分の値だけになる
+//
+// 行の形式 (カラムごとに1行):
+//   [tbl, col, row_count, distinct_count, null_count, histogram (端の値の JSON 配列)]
+// ============================================================
+
+export const STAT_TABLE_NAME = "sqlight_stat";
+
+export const STAT_TABLE_SQL =
+  `CREATE TABLE ${STAT_TABLE_NAME} (tbl TEXT, col TEXT, row_count INTEGER, ` +
+  "distinct_count INTEGER, null_count INTEGER, histogram TEXT)";
+
+const HISTOGRAM_BUCKETS = 10;
+
+/** ヒストグラムに持つ値 (数値か TEXT) */
+type StatValue = number | string;
+
+export type ColumnStats = {
+  distinct: number; // NULL でない値の種類数
+  nulls: number;
+  histogram: StatValue[]; // 区間の端の値 (昇順。NULL でない値がなければ空)
+};
+
+export type TableStats = {
+  rowCount: number;
+  columns: (ColumnStats | null)[]; // テーブルのカラム順 (統計のないカラムは null)
+};
+
+/**
+ * テーブルの行を1行ずつ受け取って統計を集める
+ * NULL でない値を [カラムの位置, 値] の行として外部ソートにかけ、
+ * result() でカラムごとに昇順に読みながら種類数とヒストグラムの端を数える
+ */
+export class StatsCollector {
+  private rowCount = 0;
+  private readonly nulls: number[];
+  private readonly sorter: ExternalSorter;
+
+  constructor(width: number, sortOptions: SorterOptions = {}) {
+    this.nulls = new Array(width).fill(0);
+    this.sorter = new ExternalSorter(compareColumnValues, sortOptions);
+  }
+
+  add(row: ColumnValue[]): void {
+    this.rowCount++;
+    for (let i = 0; i < this.nulls.length; i++) {
+      const value = row[i] ?? null;
+      if (value === null) this.nulls[i]++;
+      else this.sorter.add([i, value]);
+    }
+  }
+
+  /**
+   * 集めた統計を返す (呼び出し後は add() できない)
+   */
+  result(): TableStats {
+    const columns: ColumnStats[] = this.nulls.map((nulls) => ({ distinct: 0, nulls, histogram: [] }));
+    const positions = this.nulls.map((nulls) => histogramPositions(this.rowCount - nulls));
+
+    let previous: Row | null = null;
+    let rank = 0; // カラムの中での値の順位
+    for (const row of this.sorter.sorted()) {
+      const colIdx = row[0] as number;
+      const value = row[1]!;
+      rank = previous !== null && previous[0] === colIdx ? rank + 1 : 0;
+
+      const column = columns[colIdx];
+      if (rank === 0 || compareValues(previous![1], value) !== 0) column.distinct++;
+      for (const position of positions[colIdx]) {
+        if (position === rank) column.histogram.push(statValue(value));
+      }
+      previous = row;
+    }
+    return { rowCount: this.rowCount, columns };
+  }
+
+  getSortStats(): SorterStats {
+    return this.sorter.getStats();
+  }
+
+  /**
+   * 一時ファイルを閉じる (result() を呼ばずにやめる場合に呼ぶ)
+   */
+  close(): void {
+    this.sorter.close();
+  }
+}
+
+/** [カラムの位置, 値] の行をカラムの位置、値の順に比べる */
+function compareColumnValues(a: Row, b: Row): number {
+  return (a[0] as number) - (b[0] as number) || compareValues(a[1], b[1]);
+}
+
+/**
+ * NULL でない値 count 個を昇順に並べたとき、区間の端になる値の順位
+ * (最小値と、等分した各区間の最後の値。値がなければ空)
+ */
+function histogramPositions(count: number): number[] {
+  if (count === 0) return [];
+  const positions = [0];
+  for (let k = 1; k <= HISTOGRAM_BUCKETS; k++) {
+    positions.push(Math.ceil((k * count) / HISTOGRAM_BUCKETS) - 1);
+  }
+  return positions;
+}
+
+/**
+ * ヒストグラムに持つ値にする (並び順が変わらないように、BIGINT と TRUE / FALSE は数値、
+ * 日付はミリ秒、BLOB は16進数の TEXT にする)
+ */
+function statValue(value: LiteralValue): StatValue {
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (value instanceof Uint8Array) return valueToText(value);
+  return value;
+}
+
+// ============================================================
+// 保存形式との変換
+// ============================================================
+
+/**
+ * テーブルの統計を sqlight_stat の行にする
+ */
+export function statsToRows(tableName: string, columns: ColumnDef[], stats: TableStats): ColumnValue[][] {
+  return columns.flatMap((column, i) => {
+    const columnStats = stats.columns[i];
+    if (!columnStats) return [];
+    const { distinct, nulls, histogram } = columnStats;
+    return [[tableName, column.name, stats.rowCount, distinct, nulls, JSON.stringify(histogram)]];
+  });
+}
+
+/**
+ * sqlight_stat の1テーブル分の行から統計を読む
+ * 行をカラム名でテーブルのカラムに対応づけ、形式の壊れた行は使わない
+ * (行がなければ null)
+ */
+export function statsFromRows(columns: ColumnDef[], rows: ColumnValue[][]): TableStats | null {
+  let rowCount: number | null = null;
+  const columnStats: (ColumnStats | null)[] = columns.map(() => null);
+
+  for (const [, col, count, distinct, nulls, histogramJson] of rows) {
+    const colIdx = columns.findIndex((c) => typeof col === "string" && c.name.toLowerCase() === col.toLowerCase());
+    if (colIdx === -1 || !isCount(count) || !isCount(distinct) || !isCount(nulls)) continue;
+    const histogram = parseHistogram(histogramJson);
+    if (histogram === null) continue;
+    rowCount = count;
+    columnStats[colIdx] = { distinct, nulls, histogram };
+  }
+
+  return rowCount === null ? null : { rowCount, columns: columnStats };
+}
+
+function isCount(value: ColumnValue | undefined): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function parseHistogram(json: ColumnValue | undefined): StatValue[] | null {
+  if (typeof json !== "string") return null;
+  try {
+    const bounds: unknown = JSON.parse(json);
+    if (!Array.isArray(bounds) || !bounds.every((b) => typeof b === "number" || typeof b === "string")) return null;
+    return bounds;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================
+// 見積もり
+// ============================================================
+
+/**
+ * 1つのカラムに対する「カラム 比較演算子 値」の条件 (AND で繋がったもの) に
+ * 一致する行の割合を見積もる
+ * = は値がヒストグラムの範囲内なら NULL でない行を値の種類数で割った割合、
+ * 範囲条件はヒストグラムで下端から上端までに入る割合とする
+ */
+export function columnSelectivity(
+  stats: ColumnStats,
+  rowCount: number,
+  conditions: { operator: ComparisonOperator; value: LiteralValue }[],
+): number {
+  const { histogram } = stats;
+  if (rowCount === 0 || histogram.length === 0) return 0;
+  const nonNull = (rowCount - stats.nulls) / rowCount;
+  const equal = nonNull / stats.distinct;
+
+  let low = 0;
+  let high = 1;
+  let notEqual = 1;
+  for (const condition of conditions) {
+    const value = alignValue(statValue(condition.value), histogram[0]);
+    switch (condition.operator) {
+      case "=": {
+        const outside = compareValues(value, histogram[0]) < 0 || compareValues(value, histogram.at(-1)!) > 0;
+        return outside ? 0 : equal;
+      }
+      case "!=":
+        notEqual *= 1 - 1 / stats.distinct;
+        break;
+      case ">":
+      case ">=":
+        low = Math.max(low, fractionBelow(histogram, value));
+        break;
+      case "<":
+      case "<=":
+        high = Math.min(high, fractionBelow(histogram, value));
+        break;
+    }
+  }
+  return nonNull * Math.max(0, high - low) * notEqual;
+}
+
+/**
+ * 値が実行時に決まる「カラム = 式」(JOIN の結合条件など) に一致する行の割合
+ */
+export function equalSelectivity(stats: ColumnStats, rowCount: number): number {
+  if (rowCount === 0 || stats.distinct === 0) return 0;
+  return (rowCount - stats.nulls) / rowCount / stats.distinct;
+}
+
+/**
+ * NULL でない値のうち value より小さいものの割合
+ * 値を含む区間の中は、数値なら線形に補間し、TEXT なら区間の半分とみなす
+ */
+function fractionBelow(histogram: StatValue[], value: StatValue): number {
+  const buckets = histogram.length - 1;
+  if (compareValues(value, histogram[0]) <= 0) return 0;
+  for (let i = 1; i <= buckets; i++) {
+    const lo = histogram[i - 1];
+    const hi = histogram[i];
+    if (compareValues(value, hi) > 0) continue;
+    const within =
+      typeof value === "number" && typeof lo === "number" && typeof hi === "number" && hi > lo
+        ? (value - lo) / (hi - lo)
+        : 0.5;
+    return (i - 1 + within) / buckets;
+  }
+  return 1;
+}
+
+/**
+ * 比較のときと同じく、数値のカラムと比べる TEXT は数値として読めれば数値にする
+ */
+function alignValue(value: StatValue, sample: StatValue): StatValue {
+  if (typeof value === "string" && typeof sample === "number" && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
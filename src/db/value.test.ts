@@ -0,0 +1,63 @@
+import { describe, test, expect } from "bun:test";
+import { CalendarDate, castValue, formatValue, parseDate, parseTimestamp, valueToText } from "./value.ts";
+
+describe("castValue", () => {
+  test("数値の型の間は値が変わらない場合だけ変換し、TEXT は読めれば変換する", () => {
+    expect(castValue("INTEGER", "42")).toBe(42);
+    expect(castValue("INTEGER", true)).toBe(1);
+    expect(castValue("INTEGER", 1.5)).toBeUndefined();
+    expect(castValue("INTEGER", 2n ** 60n)).toBeUndefined();
+    expect(castValue("INTEGER", " ")).toBeUndefined();
+    expect(castValue("REAL", "1e3")).toBe(1000);
+    expect(castValue("BIGINT", "9223372036854775807")).toBe(2n ** 63n - 1n);
+    expect(castValue("BIGINT", 2n ** 63n)).toBeUndefined();
+    expect(castValue("BIGINT", 1.5)).toBeUndefined();
+  });
+
+  test("BOOLEAN は 0 / 1 と 'true' / 'false' だけ、BLOB は BLOB だけを受け付ける", () => {
+    expect(castValue("BOOLEAN", 0)).toBe(false);
+    expect(castValue("BOOLEAN", " TRUE ")).toBe(true);
+    expect(castValue("BOOLEAN", 2)).toBeUndefined();
+    expect(castValue("BLOB", new Uint8Array([1]))).toEqual(new Uint8Array([1]));
+    expect(castValue("BLOB", "01")).toBeUndefined();
+    expect(castValue("TEXT", new Uint8Array([0xab, 1]))).toBe("AB01");
+    expect(castValue("TEXT", null)).toBeNull();
+  });
+
+  test("DATE は時刻を切り捨て、TIMESTAMP はミリ秒まで持つ", () => {
+    const date = castValue("DATE", "2024-01-15T23:30:00-01:00");
+    expect(date).toBeInstanceOf(CalendarDate);
+    expect(String(date)).toBe("2024-01-16");
+    expect(castValue("DATE", new Date(Date.UTC(2024, 0, 15, 12)))).toEqual(new CalendarDate(Date.UTC(2024, 0, 15)));
+    expect(castValue("TIMESTAMP", "2024-01-15 09:30:00.1234+09:00")).toEqual(new Date("2024-01-15T00:30:00.123Z"));
+    expect(castValue("TIMESTAMP", 0)).toBeUndefined();
+  });
+});
+
+describe("ISO-8601", () => {
+  test("時刻と時差を省略でき、存在しない日付や時刻は読まない", () => {
+    expect(parseTimestamp("2024-02-29")).toEqual(new Date("2024-02-29T00:00:00Z"));
+    expect(parseTimestamp("2024-02-29T12:00")).toEqual(new Date("2024-02-29T12:00:00Z"));
+    expect(parseTimestamp("2024-01-01T00:00:00-0530")).toEqual(new Date("2024-01-01T05:30:00Z"));
+    expect(parseTimestamp("2023-02-29")).toBeUndefined();
+    expect(parseTimestamp("2024-01-01T24:00")).toBeUndefined();
+    expect(parseTimestamp("20240101")).toBeUndefined();
+  });
+
+  test("0〜99 年もそのままの年として読む", () => {
+    expect(parseDate("0099-12-31")?.toJSON()).toBe("0099-12-31");
+    expect(CalendarDate.fromEpochDays(-1).toJSON()).toBe("1969-12-31");
+    expect(new CalendarDate(Date.UTC(2024, 0, 15, 12)).epochDays).toBe(19737);
+  });
+});
+
+describe("TEXT 表記", () => {
+  test("BLOB は16進数、日付は ISO-8601 にし、表示では NULL と BLOB をリテラルの形にする", () => {
+    expect(valueToText(new Date("2024-01-15T00:30:00Z"))).toBe("2024-01-15T00:30:00.000Z");
+    expect(valueToText(false)).toBe("false");
+    expect(valueToText(2n ** 63n - 1n)).toBe("9223372036854775807");
+    expect(formatValue(null)).toBe("NULL");
+    expect(formatValue(new Uint8Array([0, 255]))).toBe("X'00FF'");
+    expect(formatValue(parseDate("2024-01-15")!)).toBe("2024-01-15");
+  });
+});
@@ -0,0 +1,185 @@
+import type { ColumnValue } from "./btree.ts";
+import type { ColumnType } from "../sql/parser.ts";
+
+// ============================================================
+// カラムの型と値
+//
+// 値の型は JS の型で区別し、B+Tree のセルにも型ごとのタグを付けて書き込む:
+//   INTEGER   number (安全な整数)       REAL       number (float64)
+//   BIGINT    bigint (符号付き 64bit)   BOOLEAN    boolean
+//   TEXT      string                    BLOB       Uint8Array
+//   DATE      CalendarDate (UTC の日付) TIMESTAMP  Date (ミリ秒まで)
+// INSERT / UPDATE はカラムの型に変換してから書き込み (castValue)、変換できない値はエラーにする。
+// DATE / TIMESTAMP は ISO-8601 の TEXT ('2024-01-15', '2024-01-15T09:30:00+09:00') から変換し、
+// 時差のない時刻は UTC とみなす
+// ============================================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const BIGINT_MIN = -(2n ** 63n);
+const BIGINT_MAX = 2n ** 63n - 1n;
+
+/**
+ * DATE の値 (時刻を持たない日付)
+ * UTC のその日の 0 時を指す Date で、TEXT にすると YYYY-MM-DD になる
+ */
+export class CalendarDate extends Date {
+  /** epochMs を含む日付 (UTC) */
+  constructor(epochMs: number) {
+    super(Math.floor(epochMs / MS_PER_DAY) * MS_PER_DAY);
+  }
+
+  /** UTC の 1970-01-01 からの日数で作る */
+  static fromEpochDays(days: number): CalendarDate {
+    return new CalendarDate(days * MS_PER_DAY);
+  }
+
+  get epochDays(): number {
+    return Math.round(this.getTime() / MS_PER_DAY);
+  }
+
+  toJSON(): string {
+    return this.toISOString().slice(0, 10);
+  }
+
+  toString(): string {
+    return this.toJSON();
+  }
+}
+
+/**
+ * 値をカラムの型に変換する (変換できなければ undefined。NULL はそのまま)
+ *
+ * 数値の型の間は値が変わらない場合だけ変換し、TRUE / FALSE は 1 / 0 とみなす。
+ * 数値・真偽値・日付は TEXT から読めれば変換し、TEXT にはどの値も変換できる
+ */
+export function castValue(type: ColumnType, value: ColumnValue): ColumnValue | undefined {
+  if (value === null) return null;
+
+  switch (type) {
+    case "INTEGER": {
+      const num = typeof value === "bigint" ? Number(value) : toNumeric(value);
+      return num !== undefined && Number.isSafeInteger(num) ? num : undefined;
+    }
+    case "BIGINT": {
+      const big = typeof value === "bigint" ? value : toBigInt(value);
+      return big !== undefined && isInt64(big) ? big : undefined;
+    }
+    case "REAL": {
+      const num = typeof value === "bigint" ? Number(value) : toNumeric(value);
+      return num !== undefined && Number.isFinite(num) ? num : undefined;
+    }
+    case "BOOLEAN":
+      if (typeof value === "boolean") return value;
+      if (value === 0 || value === 0n) return false;
+      if (value === 1 || value === 1n) return true;
+      if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+        return value.trim().toLowerCase() === "true";
+      }
+      return undefined;
+    case "TEXT":
+      return valueToText(value);
+    case "BLOB":
+      return value instanceof Uint8Array ? value : undefined;
+    case "DATE":
+      if (value instanceof Date) return new CalendarDate(value.getTime());
+      return typeof value === "string" ? parseDate(value) : undefined;
+    case "TIMESTAMP":
+      if (value instanceof Date) return new Date(value.getTime());
+      return typeof value === "string" ? parseTimestamp(value) : undefined;
+  }
+}
+
+/**
+ * BIGINT (符号付き 64bit) の範囲に収まるか
+ */
+export function isInt64(value: bigint): boolean {
+  return value >= BIGINT_MIN && value <= BIGINT_MAX;
+}
+
+/**
+ * 数値の型に変換する前の数値 (TEXT は数値として読めるときだけ。TRUE / FALSE は 1 / 0)
+ */
+function toNumeric(value: ColumnValue): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") {
+    const num = Number(value);
+    return Number.isNaN(num) ? undefined : num;
+  }
+  return undefined;
+}
+
+function toBigInt(value: ColumnValue): bigint | undefined {
+  if (typeof value === "string" && /^\s*[+-]?\d+\s*$/.test(value)) return BigInt(value.trim());
+  const num = toNumeric(value);
+  return num !== undefined && Number.isSafeInteger(num) ? BigInt(num) : undefined;
+}
+
+// ============================================================
+// ISO-8601
+// ============================================================
+
+// YYYY-MM-DD[(T| )hh:mm[:ss[.fff]][Z|±hh:mm]]
+const ISO_8601 = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+/**
+ * ISO-8601 の日時を読む (読めなければ undefined)
+ * 時刻を省略すると 0 時、時差を省略すると UTC とし、ミリ秒より細かい桁は切り捨てる
+ */
+export function parseTimestamp(text: string): Date | undefined {
+  const match = ISO_8601.exec(text.trim());
+  if (!match) return undefined;
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map((part) => Number(part ?? 0));
+  if (hour > 23 || minute > 59 || second > 59) return undefined;
+  const millis = Math.floor(Number(match[7] ?? 0) * 1000);
+
+  // Date.UTC は 0〜99 年を 1900 年代とみなすので、年は setUTCFullYear で設定する
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  date.setUTCHours(hour, minute, second, millis);
+  return new Date(date.getTime() - zoneOffsetMinutes(match[8]) * 60 * 1000);
+}
+
+/**
+ * ISO-8601 の日付を読む (時刻があれば UTC に直したときの日付。読めなければ undefined)
+ */
+export function parseDate(text: string): CalendarDate | undefined {
+  const timestamp = parseTimestamp(text);
+  return timestamp && new CalendarDate(timestamp.getTime());
+}
+
+/** Z / ±hh:mm / ±hhmm を UTC からの分に直す (省略時は 0) */
+function zoneOffsetMinutes(zone: string | undefined): number {
+  if (zone === undefined || zone.toUpperCase() === "Z") return 0;
+  const digits = zone.replace(":", "");
+  const minutes = Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5));
+  return zone.startsWith("-") ? -minutes : minutes;
+}
+
+// ============================================================
+// TEXT 表記
+// ============================================================
+
+/**
+ * 値を TEXT にする (|| や文字列関数、TEXT のカラムへの変換に使う)
+ * TRUE / FALSE は true / false、BLOB は16進数、日付は ISO-8601
+ */
+export function valueToText(value: Exclude<ColumnValue, null>): string {
+  if (value instanceof Uint8Array) return Buffer.from(value).toString("hex").toUpperCase();
+  if (value instanceof Date) return value.toJSON();
+  return String(value);
+}
+
+/**
+ * 表示用の表記 (NULL と BLOB は SQL のリテラルと同じ形にする)
+ */
+export function formatValue(value: ColumnValue): string {
+  if (value === null) return "NULL";
+  if (value instanceof Uint8Array) return `X'${valueToText(value)}'`;
+  return valueToText(value);
+}
@@ -0,0 +1,54 @@
+import { describe, test, expect, afterEach, spyOn } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { printRows } from "./main.ts";
+import { Database } from "./db/database.ts";
+import { parse } from "./sql/parser.ts";
+
+const TEST_DB = "/tmp/test_main.db";
+
+afterEach(() => {
+  for (const path of [TEST_DB, `${TEST_DB}-journal`, `${TEST_DB}-wal`]) {
+    if (existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+});
+
+describe("printRows", () => {
+  test("カラム幅の先読み (100 行) より多い行もすべて表示する", () => {
+    const openResult = Database.open(TEST_DB);
+    if (!openResult.success) throw new Error(openResult.error);
+    const db = openResult.db!;
+
+    const run = (sql: string) => {
+      const parsed = parse(sql);
+      if (!parsed.success) throw new Error(parsed.error);
+      return parsed.statement;
+    };
+    db.execute(run("CREATE TABLE t (id INTEGER PRIMARY KEY, name TEXT);"));
+    for (let i = 1; i <= 150; i++) {
+      db.execute(run(`INSERT INTO t (id, name) VALUES (${i}, 'row${i}');`));
+    }
+
+    const select = run("SELECT id, name FROM t;");
+    if (select.type !== "SELECT") throw new Error("not a SELECT");
+    const queryResult = db.query(select);
+    if (!queryResult.success) throw new Error(queryResult.error);
+
+    const lines: string[] = [];
+    const log = spyOn(console, "log").mockImplementation((line: string) => {
+      lines.push(line);
+    });
+    try {
+      printRows(queryResult.stream);
+    } finally {
+      log.mockRestore();
+    }
+
+    // 罫線・ヘッダー・罫線 + 150 行 + 罫線 + 行数
+    expect(lines.length).toBe(155);
+    expect(lines.at(-3)).toBe("| 150 | row150 |");
+    expect(lines.at(-1)).toBe("(150 rows)");
+    db.close();
+  });
+});
@@ -1,6 +1,7 @@
 import { parse } from "./sql/parser.ts";
 import { Database } from "./db/database.ts";
-import type { Record as DbRecord } from "./db/database.ts";
+import { formatValue } from "./db/value.ts";
+import type { Record as DbRecord, RowStream } from "./db/database.ts";
 
 const PROMPT = "> ";
 const CONTINUATION = "... ";
@@ -15,20 +16,37 @@ function printWelcome(): void {
   console.log("");
 }
 
+/** カラム幅を決めるために先読みする行数 */
+const WIDTH_SAMPLE_ROWS = 100;
+
 /**
  * SELECT結果をテーブル形式で表示
+ * 先頭の数行だけ読んでカラム幅を決め、残りは読みながらそのまま出力する
+ * (for..of を break すると行のジェネレーターが閉じてしまうので、先読みは next() で行う)
  */
-function printTable(columns: string[], records: DbRecord[]): void {
-  if (records.length === 0) {
-    console.log("(0 rows)");
+export function printRows(stream: RowStream): void {
+  const { columns } = stream;
+  const sample: DbRecord[] = [];
+  while (sample.length < WIDTH_SAMPLE_ROWS) {
+    const next = stream.rows.next();
+    if (next.done) break;
+    sample.push(next.value);
+  }
+
+  if (sample.length === 0) {
+    if (stream.error !== null) {
+      console.log(`Error: ${stream.error}`);
+    } else {
+      console.log("(0 rows)");
+    }
     return;
   }
 
-  // 各カラムの最大幅を計算
+  // 各カラムの最大幅を計算 (先読みした行の範囲で)
   const widths = columns.map((col) => col.length);
-  for (const record of records) {
+  for (const record of sample) {
     for (let i = 0; i < columns.length; i++) {
-      const val = formatValue(record[columns[i]]);
+      const val = formatValue(record[columns[i]] ?? null);
       widths[i] = Math.max(widths[i], val.length);
     }
   }
@@ -43,25 +61,33 @@ function printTable(columns: string[], records: DbRecord[]): void {
   console.log(border);
 
   // レコード
-  for (const record of records) {
+  const printRecord = (record: DbRecord): void => {
     const row =
       "|" +
       columns
         .map((col, i) => {
-          const val = formatValue(record[col]);
+          const val = formatValue(record[col] ?? null);
           return ` ${val.padEnd(widths[i])} |`;
         })
         .join("");
     console.log(row);
+  };
+
+  let count = 0;
+  for (const record of sample) {
+    printRecord(record);
+    count++;
+  }
+  for (const record of stream.rows) {
+    printRecord(record);
+    count++;
   }
 
   console.log(border);
-  console.log(`(${records.length} row${records.length === 1 ? "" : "s"})`);
-}
-
-function formatValue(val: unknown): string {
-  if (val === null || val === undefined) return "NULL";
-  return String(val);
+  console.log(`(${count} row${count === 1 ? "" : "s"})`);
+  if (stream.error !== null) {
+    console.log(`Error: ${stream.error}`);
+  }
 }
 
 async function main(): Promise<void> {
@@ -107,15 +133,25 @@ async function main(): Promise<void> {
       continue;
     }
 
-    // 実行
-    const execResult = db.execute(parseResult.statement);
-    if (!execResult.success) {
-      console.log(`Error: ${execResult.error}`);
-    } else if (execResult.columns && execResult.records) {
-      // SELECT 結果をテーブル表示
-      printTable(execResult.columns, execResult.records);
+    // 実行 (SELECT は結果を溜めずに1行ずつ表示する)
+    const statement = parseResult.statement;
+    if (statement.type === "SELECT") {
+      const queryResult = db.query(statement);
+      if (!queryResult.success) {
+        console.log(`Error: ${queryResult.error}`);
+      } else {
+        printRows(queryResult.stream);
+      }
     } else {
-      console.log(execResult.message);
+      const execResult = db.execute(statement);
+      if (!execResult.success) {
+        console.log(`Error: ${execResult.error}`);
+      } else if (execResult.columns && execResult.records) {
+        // PRAGMA などの結果をテーブル表示
+        printRows({ columns: execResult.columns, rows: execResult.records.values(), error: null });
+      } else {
+        console.log(execResult.message);
+      }
     }
 
     console.log("");
@@ -127,4 +163,7 @@ async function main(): Promise<void> {
   console.log("\nBye!");
 }
 
-main();
+// テストから printRows を読み込んだときは REPL を起動しない
+if (import.meta.main) {
+  main();
+}
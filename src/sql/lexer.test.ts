@@ -162,7 +162,7 @@ describe("Lexer: INSERT INTO", () => {
 
 describe("Lexer: 演算子", () => {
   test("比較演算子", () => {
-    const lexer = new Lexer("= != > < >= <=");
+    const lexer = new Lexer("= != > < >= <= -");
     const expected = [
       { type: TokenType.EQ, literal: "=" },
       { type: TokenType.NEQ, literal: "!=" },
@@ -170,6 +170,86 @@ describe("Lexer: 演算子", () => {
       { type: TokenType.LT, literal: "<" },
       { type: TokenType.GTE, literal: ">=" },
       { type: TokenType.LTE, literal: "<=" },
+      { type: TokenType.MINUS, literal: "-" },
+      { type: TokenType.EOF, literal: "" },
+    ];
+    for (const e of expected) {
+      const token = lexer.nextToken();
+      expect(token.type).toBe(e.type);
+      expect(token.literal).toBe(e.literal);
+    }
+  });
+
+  test("論理演算子と括弧", () => {
+    const lexer = new Lexer("NOT (a AND b) or c");
+    const expected = [
+      { type: TokenType.NOT, literal: "NOT" },
+      { type: TokenType.LPAREN, literal: "(" },
+      { type: TokenType.IDENT, literal: "a" },
+      { type: TokenType.AND, literal: "AND" },
+      { type: TokenType.IDENT, literal: "b" },
+      { type: TokenType.RPAREN, literal: ")" },
+      { type: TokenType.OR, literal: "or" },
+      { type: TokenType.IDENT, literal: "c" },
+      { type: TokenType.EOF, literal: "" },
+    ];
+    for (const e of expected) {
+      const token = lexer.nextToken();
+      expect(token.type).toBe(e.type);
+      expect(token.literal).toBe(e.literal);
+    }
+  });
+
+  test("JOIN と修飾されたカラム名", () => {
+    const lexer = new Lexer("users AS u LEFT OUTER JOIN orders o ON u.id = o.user_id");
+    const expected = [
+      { type: TokenType.IDENT, literal: "users" },
+      { type: TokenType.AS, literal: "AS" },
+      { type: TokenType.IDENT, literal: "u" },
+      { type: TokenType.LEFT, literal: "LEFT" },
+      { type: TokenType.OUTER, literal: "OUTER" },
+      { type: TokenType.JOIN, literal: "JOIN" },
+      { type: TokenType.IDENT, literal: "orders" },
+      { type: TokenType.IDENT, literal: "o" },
+      { type: TokenType.ON, literal: "ON" },
+      { type: TokenType.IDENT, literal: "u" },
+      { type: TokenType.DOT, literal: "." },
+      { type: TokenType.IDENT, literal: "id" },
+      { type: TokenType.EQ, literal: "=" },
+      { type: TokenType.IDENT, literal: "o" },
+      { type: TokenType.DOT, literal: "." },
+      { type: TokenType.IDENT, literal: "user_id" },
+      { type: TokenType.EOF, literal: "" },
+    ];
+    for (const e of expected) {
+      const token = lexer.nextToken();
+      expect(token.type).toBe(e.type);
+      expect(token.literal).toBe(e.literal);
+    }
+  });
+
+  test("算術演算子・文字列の連結と CASE", () => {
+    const lexer = new Lexer("CASE WHEN a+1 THEN b*2/c%3 ELSE d||'x' END |");
+    const expected = [
+      { type: TokenType.CASE, literal: "CASE" },
+      { type: TokenType.WHEN, literal: "WHEN" },
+      { type: TokenType.IDENT, literal: "a" },
+      { type: TokenType.PLUS, literal: "+" },
+      { type: TokenType.NUMBER, literal: "1" },
+      { type: TokenType.THEN, literal: "THEN" },
+      { type: TokenType.IDENT, literal: "b" },
+      { type: TokenType.ASTERISK, literal: "*" },
+      { type: TokenType.NUMBER, literal: "2" },
+      { type: TokenType.SLASH, literal: "/" },
+      { type: TokenType.IDENT, literal: "c" },
+      { type: TokenType.PERCENT, literal: "%" },
+      { type: TokenType.NUMBER, literal: "3" },
+      { type: TokenType.ELSE, literal: "ELSE" },
+      { type: TokenType.IDENT, literal: "d" },
+      { type: TokenType.CONCAT, literal: "||" },
+      { type: TokenType.STRING, literal: "x" },
+      { type: TokenType.END, literal: "END" },
+      { type: TokenType.ILLEGAL, literal: "|" },
       { type: TokenType.EOF, literal: "" },
     ];
     for (const e of expected) {
@@ -200,6 +280,68 @@ describe("Lexer: 文字列リテラル", () => {
   });
 });
 
+describe("Lexer: 数値・BLOB・真偽値のリテラル", () => {
+  /** 入力を EOF までトークンにする */
+  function tokenize(input: string) {
+    const lexer = new Lexer(input);
+    const tokens: { type: string; literal: string }[] = [];
+    for (let token = lexer.nextToken(); token.type !== TokenType.EOF; token = lexer.nextToken()) {
+      tokens.push({ type: token.type, literal: token.literal });
+    }
+    return tokens;
+  }
+
+  test("小数と指数", () => {
+    expect(tokenize("3.14 1e10 2.5E-3 7e+2")).toEqual([
+      { type: TokenType.NUMBER, literal: "3.14" },
+      { type: TokenType.NUMBER, literal: "1e10" },
+      { type: TokenType.NUMBER, literal: "2.5E-3" },
+      { type: TokenType.NUMBER, literal: "7e+2" },
+    ]);
+    // 小数点や e の後に数字がなければ数値はそこまで
+    expect(tokenize("1.x 2e")).toEqual([
+      { type: TokenType.NUMBER, literal: "1" },
+      { type: TokenType.DOT, literal: "." },
+      { type: TokenType.IDENT, literal: "x" },
+      { type: TokenType.NUMBER, literal: "2" },
+      { type: TokenType.IDENT, literal: "e" },
+    ]);
+  });
+
+  test("X'..' は BLOB、桁数が奇数か16進数でなければ ILLEGAL", () => {
+    expect(tokenize("X'0aFF' x''")).toEqual([
+      { type: TokenType.BLOB, literal: "0aFF" },
+      { type: TokenType.BLOB, literal: "" },
+    ]);
+    expect(tokenize("X'ABC'")).toEqual([{ type: TokenType.ILLEGAL, literal: "X'ABC'" }]);
+    expect(tokenize("X'zz'")).toEqual([{ type: TokenType.ILLEGAL, literal: "X'zz'" }]);
+    expect(tokenize("xy")).toEqual([{ type: TokenType.IDENT, literal: "xy" }]);
+  });
+
+  test("TRUE / FALSE / NULL と IS / DISTINCT はキーワード", () => {
+    expect(tokenize("true FALSE null").map((t) => t.type)).toEqual([
+      TokenType.TRUE_KW,
+      TokenType.FALSE_KW,
+      TokenType.NULL_KW,
+    ]);
+    expect(tokenize("is Not distinct FROM").map((t) => t.type)).toEqual([
+      TokenType.IS,
+      TokenType.NOT,
+      TokenType.DISTINCT,
+      TokenType.FROM,
+    ]);
+  });
+
+  test("DEFAULT / CHECK / CURRENT_TIMESTAMP はキーワード", () => {
+    expect(tokenize("default Check current_timestamp checkpoint").map((t) => t.type)).toEqual([
+      TokenType.DEFAULT,
+      TokenType.CHECK,
+      TokenType.CURRENT_TIMESTAMP,
+      TokenType.CHECKPOINT,
+    ]);
+  });
+});
+
 // ============================================================
 // コメント
 // ============================================================
@@ -40,9 +40,34 @@ export class Lexer {
       case "*":
         token = new Token(TokenType.ASTERISK, this.currentCharacter);
         break;
+      case ".":
+        token = new Token(TokenType.DOT, this.currentCharacter);
+        break;
       case "=":
         token = new Token(TokenType.EQ, this.currentCharacter);
         break;
+      case "+":
+        token = new Token(TokenType.PLUS, this.currentCharacter);
+        break;
+      case "-":
+        // "--" はコメントとして読み飛ばし済みなので、ここに来るのは単独の "-"
+        token = new Token(TokenType.MINUS, this.currentCharacter);
+        break;
+      case "/":
+        token = new Token(TokenType.SLASH, this.currentCharacter);
+        break;
+      case "%":
+        token = new Token(TokenType.PERCENT, this.currentCharacter);
+        break;
+      case "|":
+        if (this.peekChar() === "|") {
+          const ch = this.currentCharacter;
+          this.readChar();
+          token = new Token(TokenType.CONCAT, ch + this.currentCharacter);
+        } else {
+          token = new Token(TokenType.ILLEGAL, this.currentCharacter);
+        }
+        break;
       case "!":
         if (this.peekChar() === "=") {
           const ch = this.currentCharacter;
@@ -77,6 +102,9 @@ export class Lexer {
         token = new Token(TokenType.EOF, "");
         return token;
       default:
+        if ((this.currentCharacter === "x" || this.currentCharacter === "X") && this.peekChar() === "'") {
+          return this.readBlob();
+        }
         if (this.isLetter(this.currentCharacter)) {
           const literal = this.readIdentifier();
           const type = Token.lookupIdent(literal);
@@ -169,14 +197,43 @@ export class Lexer {
     return this.input.substring(start, this.position);
   }
 
+  /**
+   * 数値: <整数部>[.<小数部>][(e|E)[+|-]<指数>]
+   * 小数点や e の後に数字が続かなければ、そこで数値を終える
+   */
   private readNumber(): string {
     const start = this.position;
-    while (this.isDigit(this.currentCharacter)) {
+    this.readDigits();
+    if (this.currentCharacter === "." && this.isDigit(this.peekChar())) {
       this.readChar();
+      this.readDigits();
+    }
+    if (this.currentCharacter === "e" || this.currentCharacter === "E") {
+      const sign = this.peekChar() === "+" || this.peekChar() === "-" ? 1 : 0;
+      if (this.isDigit(this.input[this.readPosition + sign] ?? "")) {
+        for (let i = 0; i <= sign; i++) this.readChar();
+        this.readDigits();
+      }
     }
     return this.input.substring(start, this.position);
   }
 
+  private readDigits(): void {
+    while (this.isDigit(this.currentCharacter)) {
+      this.readChar();
+    }
+  }
+
+  /**
+   * BLOB のリテラル X'<16進数>' (桁数が奇数か16進数でない文字があれば ILLEGAL)
+   */
+  private readBlob(): Token {
+    this.readChar(); // skip X
+    const hex = this.readString("'").literal;
+    const valid = hex.length % 2 === 0 && /^[0-9a-fA-F]*$/.test(hex);
+    return valid ? new Token(TokenType.BLOB, hex) : new Token(TokenType.ILLEGAL, `X'${hex}'`);
+  }
+
   private readString(quote: string): Token {
     // クォート文字をスキップ
     this.readChar();
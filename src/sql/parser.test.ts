@@ -1,11 +1,39 @@
 import { describe, test, expect } from "bun:test";
-import { parse } from "./parser.ts";
+import { parse, renderExpression } from "./parser.ts";
 import type {
   CreateTableStatement,
+  CreateIndexStatement,
+  DropIndexStatement,
   InsertStatement,
   SelectStatement,
+  UpdateStatement,
+  DeleteStatement,
+  TransactionStatement,
+  PragmaStatement,
+  ExplainStatement,
+  Expression,
+  ComparisonOperator,
+  AggregateFunction,
 } from "./parser.ts";
 
+/** 式の AST を組み立てるヘルパー */
+const column = (name: string): Expression => ({ type: "COLUMN", name });
+const literal = (value: string | number): Expression => ({ type: "LITERAL", value });
+const compare = (operator: ComparisonOperator, left: Expression, right: Expression): Expression => ({
+  type: "BINARY",
+  operator,
+  left,
+  right,
+});
+const and = (left: Expression, right: Expression): Expression => ({ type: "BINARY", operator: "AND", left, right });
+const or = (left: Expression, right: Expression): Expression => ({ type: "BINARY", operator: "OR", left, right });
+const not = (operand: Expression): Expression => ({ type: "UNARY", operator: "NOT", operand });
+const aggregate = (func: AggregateFunction, argument: Expression | null): Expression => ({
+  type: "AGGREGATE",
+  func,
+  argument,
+});
+
 // ============================================================
 // CREATE TABLE
 // ============================================================
@@ -34,6 +62,17 @@ describe("CREATE TABLE", () => {
     expect(stmt.columns[0].type).toBe("INTEGER");
   });
 
+  test("REAL / BIGINT / BOOLEAN / BLOB / DATE / TIMESTAMP 型 (型名はカラム名にも使える)", () => {
+    const result = parse("CREATE TABLE t (a real, b BigInt, c BOOLEAN, d BLOB, date DATE, e TIMESTAMP);");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as CreateTableStatement;
+    expect(stmt.columns.map((c) => c.type)).toEqual(["REAL", "BIGINT", "BOOLEAN", "BLOB", "DATE", "TIMESTAMP"]);
+    expect(stmt.columns[4].name).toBe("date");
+    expect(parse("CREATE TABLE t (a DATETIME);").success).toBe(false);
+  });
+
   test("PRIMARY KEY 制約", () => {
     const result = parse(
       "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);",
@@ -80,6 +119,85 @@ describe("CREATE TABLE", () => {
     expect(stmt.columns[2].constraints).toEqual(["UNIQUE"]);
   });
 
+  test("テーブル制約の UNIQUE (複数カラム)", () => {
+    const result = parse("CREATE TABLE members (team_id INTEGER, email TEXT, UNIQUE (team_id, email));");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as CreateTableStatement;
+    expect(stmt.columns).toHaveLength(2);
+    expect(stmt.tableConstraints).toEqual([{ type: "UNIQUE", columns: ["team_id", "email"] }]);
+  });
+
+  test("テーブル制約の PRIMARY KEY (複数カラム)", () => {
+    const result = parse("CREATE TABLE members (tenant_id INTEGER, email TEXT, PRIMARY KEY (tenant_id, email));");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as CreateTableStatement;
+    expect(stmt.columns.map((c) => c.constraints)).toEqual([[], []]);
+    expect(stmt.tableConstraints).toEqual([{ type: "PRIMARY_KEY", columns: ["tenant_id", "email"] }]);
+  });
+
+  test("DEFAULT と CHECK (カラム制約とテーブル制約)", () => {
+    const result = parse(
+      "CREATE TABLE t (a INTEGER DEFAULT -1 CHECK (a != 0) CHECK (a < 10), b TEXT DEFAULT ('x' || 'y'), " +
+        "c TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, d TEXT DEFAULT NULL, CHECK (a < LENGTH(b)));",
+    );
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as CreateTableStatement;
+    const a = { type: "COLUMN", name: "a" } as const;
+    expect(stmt.columns[0]).toEqual({
+      name: "a",
+      type: "INTEGER",
+      constraints: [],
+      defaultValue: { type: "LITERAL", value: -1 },
+      check: {
+        type: "BINARY",
+        operator: "AND",
+        left: { type: "BINARY", operator: "!=", left: a, right: { type: "LITERAL", value: 0 } },
+        right: { type: "BINARY", operator: "<", left: a, right: { type: "LITERAL", value: 10 } },
+      },
+    });
+    expect(stmt.columns[1].defaultValue).toEqual({
+      type: "BINARY",
+      operator: "||",
+      left: { type: "LITERAL", value: "x" },
+      right: { type: "LITERAL", value: "y" },
+    });
+    expect(stmt.columns[2].constraints).toEqual(["NOT_NULL"]);
+    expect(stmt.columns[2].defaultValue).toEqual({ type: "FUNCTION", name: "CURRENT_TIMESTAMP", args: [] });
+    expect(stmt.columns[3].defaultValue).toEqual({ type: "LITERAL", value: null });
+    expect(stmt.tableConstraints).toEqual([
+      {
+        type: "CHECK",
+        expression: {
+          type: "BINARY",
+          operator: "<",
+          left: a,
+          right: { type: "FUNCTION", name: "LENGTH", args: [{ type: "COLUMN", name: "b" }] },
+        },
+      },
+    ]);
+  });
+
+  test("括弧のない DEFAULT の式や、括弧のない CHECK はエラー", () => {
+    expect(parse("CREATE TABLE t (a INTEGER DEFAULT 1 + 2);").success).toBe(false);
+    expect(parse("CREATE TABLE t (a INTEGER DEFAULT b);").success).toBe(false);
+    expect(parse("CREATE TABLE t (a INTEGER DEFAULT);").success).toBe(false);
+    expect(parse("CREATE TABLE t (a INTEGER CHECK a > 0);").success).toBe(false);
+    expect(parse("CREATE TABLE t (a INTEGER, CHECK (a > 0);").success).toBe(false);
+  });
+
+  test("カラムリストのないテーブル制約はエラー", () => {
+    expect(parse("CREATE TABLE t (a INTEGER, UNIQUE);").success).toBe(false);
+    expect(parse("CREATE TABLE t (a INTEGER, UNIQUE (a);").success).toBe(false);
+    expect(parse("CREATE TABLE t (a INTEGER, PRIMARY KEY);").success).toBe(false);
+    expect(parse("CREATE TABLE t (a INTEGER, PRIMARY (a));").success).toBe(false);
+  });
+
   test("複数行のCREATE TABLE", () => {
     const sql = `CREATE TABLE users (
       id INTEGER PRIMARY KEY,
@@ -105,6 +223,54 @@ describe("CREATE TABLE", () => {
   });
 });
 
+// ============================================================
+// CREATE INDEX / DROP INDEX
+// ============================================================
+
+describe("CREATE INDEX / DROP INDEX", () => {
+  test("単一カラムのインデックス", () => {
+    const result = parse("CREATE INDEX idx_name ON users (name);");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as CreateIndexStatement;
+    expect(stmt).toEqual({
+      type: "CREATE_INDEX",
+      indexName: "idx_name",
+      tableName: "users",
+      columns: ["name"],
+      unique: false,
+      sql: "CREATE INDEX idx_name ON users (name)",
+    });
+  });
+
+  test("UNIQUE 付きの複合インデックス", () => {
+    const result = parse("CREATE UNIQUE INDEX idx_ab ON t (a, b);");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as CreateIndexStatement;
+    expect(stmt.unique).toBe(true);
+    expect(stmt.columns).toEqual(["a", "b"]);
+  });
+
+  test("ON やカラムリストがなければエラー", () => {
+    expect(parse("CREATE INDEX idx users (name);").success).toBe(false);
+    expect(parse("CREATE INDEX idx ON users;").success).toBe(false);
+    expect(parse("CREATE INDEX idx ON users ();").success).toBe(false);
+    expect(parse("CREATE UNIQUE TABLE t (id INTEGER);").success).toBe(false);
+  });
+
+  test("DROP INDEX", () => {
+    const result = parse("DROP INDEX idx_name;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as DropIndexStatement;
+    expect(stmt).toEqual({ type: "DROP_INDEX", indexName: "idx_name" });
+  });
+});
+
 // ============================================================
 // INSERT INTO
 // ============================================================
@@ -150,6 +316,35 @@ describe("INSERT INTO", () => {
     expect(stmt.values[2]).toBe("alice@example.com");
   });
 
+  test("負の整数値", () => {
+    const result = parse("INSERT INTO users (id, name) VALUES (-42, 'Alice');");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as InsertStatement;
+    expect(stmt.values).toEqual([-42, "Alice"]);
+  });
+
+  test("小数・大きな整数・真偽値・BLOB のリテラル", () => {
+    const values = "-1.5e3, 9223372036854775807, -9007199254740993, TRUE, false, x'0aFF'";
+    const result = parse(`INSERT INTO t (a, b, c, d, e, f) VALUES (${values});`);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as InsertStatement;
+    expect(stmt.values).toEqual([-1500, 2n ** 63n - 1n, -9007199254740993n, true, false, new Uint8Array([10, 255])]);
+  });
+
+  test("NULL のリテラル", () => {
+    const result = parse("INSERT INTO users (id, name) VALUES (1, NULL);");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as InsertStatement;
+    expect(stmt.values).toEqual([1, null]);
+    expect(parse("INSERT INTO users (id) VALUES (-NULL);").success).toBe(false);
+  });
+
   test("不正な構文でエラー", () => {
     const result = parse("INSERT INTO;");
     expect(result.success).toBe(false);
@@ -169,8 +364,8 @@ describe("SELECT", () => {
     const stmt = result.statement as SelectStatement;
     expect(stmt.type).toBe("SELECT");
     expect(stmt.tableName).toBe("users");
-    expect(stmt.columns).toEqual(["*"]);
-    expect(Object.keys(stmt.where)).toHaveLength(0);
+    expect(stmt.columns).toEqual([{ type: "ALL" }]);
+    expect(stmt.where).toBeNull();
   });
 
   test("特定カラムの指定", () => {
@@ -179,7 +374,10 @@ describe("SELECT", () => {
     if (!result.success) return;
 
     const stmt = result.statement as SelectStatement;
-    expect(stmt.columns).toEqual(["id", "name"]);
+    expect(stmt.columns).toEqual([
+      { type: "EXPRESSION", expression: column("id"), alias: null },
+      { type: "EXPRESSION", expression: column("name"), alias: null },
+    ]);
   });
 
   test("WHERE 条件 (=)", () => {
@@ -188,7 +386,7 @@ describe("SELECT", () => {
     if (!result.success) return;
 
     const stmt = result.statement as SelectStatement;
-    expect(stmt.where["id"]).toEqual({ operator: "=", value: 1 });
+    expect(stmt.where).toEqual(compare("=", column("id"), literal(1)));
   });
 
   test("WHERE 条件 (文字列値)", () => {
@@ -197,7 +395,7 @@ describe("SELECT", () => {
     if (!result.success) return;
 
     const stmt = result.statement as SelectStatement;
-    expect(stmt.where["name"]).toEqual({ operator: "=", value: "Alice" });
+    expect(stmt.where).toEqual(compare("=", column("name"), literal("Alice")));
   });
 
   test("WHERE 条件 (>)", () => {
@@ -206,7 +404,7 @@ describe("SELECT", () => {
     if (!result.success) return;
 
     const stmt = result.statement as SelectStatement;
-    expect(stmt.where["id"]).toEqual({ operator: ">", value: 5 });
+    expect(stmt.where).toEqual(compare(">", column("id"), literal(5)));
   });
 
   test("WHERE 条件 (>=)", () => {
@@ -215,7 +413,7 @@ describe("SELECT", () => {
     if (!result.success) return;
 
     const stmt = result.statement as SelectStatement;
-    expect(stmt.where["id"]).toEqual({ operator: ">=", value: 5 });
+    expect(stmt.where).toEqual(compare(">=", column("id"), literal(5)));
   });
 
   test("WHERE 条件 (!=)", () => {
@@ -224,7 +422,7 @@ describe("SELECT", () => {
     if (!result.success) return;
 
     const stmt = result.statement as SelectStatement;
-    expect(stmt.where["id"]).toEqual({ operator: "!=", value: 3 });
+    expect(stmt.where).toEqual(compare("!=", column("id"), literal(3)));
   });
 
   test("複数AND条件", () => {
@@ -235,8 +433,331 @@ describe("SELECT", () => {
     if (!result.success) return;
 
     const stmt = result.statement as SelectStatement;
-    expect(stmt.where["id"]).toEqual({ operator: ">", value: 0 });
-    expect(stmt.where["name"]).toEqual({ operator: "=", value: "Alice" });
+    expect(stmt.where).toEqual(
+      and(compare(">", column("id"), literal(0)), compare("=", column("name"), literal("Alice"))),
+    );
+  });
+
+  test("同じカラムへの複数の条件はどちらも残る", () => {
+    const result = parse("SELECT * FROM users WHERE id > 1 AND id < 10;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.where).toEqual(and(compare(">", column("id"), literal(1)), compare("<", column("id"), literal(10))));
+  });
+
+  test("AND は OR より強く結びつき、同じ演算子は左から結合する", () => {
+    const result = parse("SELECT * FROM t WHERE a = 1 OR b = 2 AND c = 3 OR d = 4;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.where).toEqual(
+      or(
+        or(compare("=", column("a"), literal(1)), and(compare("=", column("b"), literal(2)), compare("=", column("c"), literal(3)))),
+        compare("=", column("d"), literal(4)),
+      ),
+    );
+  });
+
+  test("IS [NOT] NULL と IS [NOT] DISTINCT FROM は比較と同じ強さで左から結びつく", () => {
+    const where = (sql: string) => {
+      const result = parse(`SELECT * FROM t WHERE ${sql}`);
+      if (!result.success) throw new Error(result.error);
+      return (result.statement as SelectStatement).where;
+    };
+    const isNull = (operand: Expression, negated = false): Expression => ({
+      type: "UNARY",
+      operator: negated ? "IS NOT NULL" : "IS NULL",
+      operand,
+    });
+
+    expect(where("a IS NULL AND NOT b IS NOT NULL")).toEqual(and(isNull(column("a")), not(isNull(column("b"), true))));
+    expect(where("a + 1 IS DISTINCT FROM b")).toEqual({
+      type: "BINARY",
+      operator: "IS DISTINCT FROM",
+      left: { type: "BINARY", operator: "+", left: column("a"), right: literal(1) },
+      right: column("b"),
+    });
+    expect(where("a = NULL IS NULL")).toEqual(isNull(compare("=", column("a"), { type: "LITERAL", value: null })));
+    expect(where("a IS NOT DISTINCT FROM NULL")).toEqual({
+      type: "BINARY",
+      operator: "IS NOT DISTINCT FROM",
+      left: column("a"),
+      right: { type: "LITERAL", value: null },
+    });
+  });
+
+  test("不正な IS でエラー", () => {
+    for (const sql of ["a IS 1", "a IS NOT", "a IS DISTINCT b", "a IS DISTINCT FROM"]) {
+      expect(parse(`SELECT * FROM t WHERE ${sql};`).success).toBe(false);
+    }
+    const result = parse("SELECT * FROM t WHERE a IS TRUE;");
+    expect(!result.success && result.error).toBe("Invalid IS expression");
+  });
+
+  test("NOT は比較より弱く AND より強い", () => {
+    const result = parse("SELECT * FROM t WHERE NOT a = 1 AND b = 2;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.where).toEqual(and(not(compare("=", column("a"), literal(1))), compare("=", column("b"), literal(2))));
+  });
+
+  test("括弧で優先順位を変えられる", () => {
+    const result = parse("SELECT * FROM t WHERE (a = 1 OR b = 2) AND NOT (c = 3);");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.where).toEqual(
+      and(or(compare("=", column("a"), literal(1)), compare("=", column("b"), literal(2))), not(compare("=", column("c"), literal(3)))),
+    );
+  });
+
+  test("値を左辺に書ける", () => {
+    const result = parse("SELECT * FROM t WHERE -5 < a;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.where).toEqual(compare("<", literal(-5), column("a")));
+  });
+
+  test("不完全な WHERE 式でエラー", () => {
+    expect(parse("SELECT * FROM t WHERE (a = 1;")).toEqual({ success: false, error: "Missing ')' in expression" });
+    expect(parse("SELECT * FROM t WHERE a = 1 AND;")).toEqual({ success: false, error: "Unexpected end of expression" });
+    expect(parse("SELECT * FROM t WHERE a = ,;")).toEqual({ success: false, error: "Invalid expression: ," });
+  });
+
+  test("ORDER BY / LIMIT / OFFSET", () => {
+    const result = parse("SELECT * FROM users WHERE age > 20 ORDER BY age DESC, name, id ASC LIMIT 10 OFFSET 20;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.where).toEqual(compare(">", column("age"), literal(20)));
+    expect(stmt.orderBy).toEqual([
+      { expression: column("age"), direction: "DESC" },
+      { expression: column("name"), direction: "ASC" },
+      { expression: column("id"), direction: "ASC" },
+    ]);
+    expect(stmt.limit).toBe(10);
+    expect(stmt.offset).toBe(20);
+  });
+
+  test("ORDER BY / LIMIT を省略した場合", () => {
+    const result = parse("SELECT * FROM users LIMIT 5;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.orderBy).toEqual([]);
+    expect(stmt.limit).toBe(5);
+    expect(stmt.offset).toBe(0);
+
+    const plain = parse("SELECT * FROM users;");
+    expect(plain.success && (plain.statement as SelectStatement).limit).toBeNull();
+  });
+
+  test("不正な ORDER BY / LIMIT / OFFSET でエラー", () => {
+    expect(parse("SELECT * FROM users ORDER age;")).toEqual({ success: false, error: "Invalid ORDER BY clause" });
+    expect(parse("SELECT * FROM users ORDER BY;")).toEqual({ success: false, error: "Invalid ORDER BY clause" });
+    expect(parse("SELECT * FROM users LIMIT 'ten';")).toEqual({ success: false, error: "Invalid LIMIT clause" });
+    expect(parse("SELECT * FROM users LIMIT 1 OFFSET;")).toEqual({ success: false, error: "Invalid OFFSET clause" });
+  });
+
+  test("集約関数と GROUP BY / HAVING", () => {
+    const result = parse(
+      "SELECT dept, COUNT(*), avg(age) FROM users WHERE age > 20 " +
+        "GROUP BY dept HAVING COUNT(*) > 1 ORDER BY COUNT(*) DESC;",
+    );
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const countAll = aggregate("COUNT", null);
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.columns).toEqual([
+      { type: "EXPRESSION", expression: column("dept"), alias: null },
+      { type: "EXPRESSION", expression: countAll, alias: null },
+      { type: "EXPRESSION", expression: aggregate("AVG", column("age")), alias: null },
+    ]);
+    expect(stmt.where).toEqual(compare(">", column("age"), literal(20)));
+    expect(stmt.groupBy).toEqual([column("dept")]);
+    expect(stmt.having).toEqual(compare(">", countAll, literal(1)));
+    expect(stmt.orderBy).toEqual([{ expression: countAll, direction: "DESC" }]);
+  });
+
+  test("不正な集約関数・GROUP BY / HAVING でエラー", () => {
+    expect(parse("SELECT LEN(name) FROM users;")).toEqual({ success: false, error: "Unknown function: LEN" });
+    expect(parse("SELECT SUM() FROM users;")).toEqual({ success: false, error: "Invalid argument for SUM()" });
+    expect(parse("SELECT SUM(*) FROM users;")).toEqual({ success: false, error: "Invalid argument for SUM()" });
+    expect(parse("SELECT COUNT(id FROM users;")).toEqual({ success: false, error: "Missing ')' after COUNT argument" });
+    expect(parse("SELECT dept FROM users GROUP dept;")).toEqual({ success: false, error: "Invalid GROUP BY clause" });
+    expect(parse("SELECT dept FROM users GROUP BY dept HAVING;")).toEqual({
+      success: false,
+      error: "Invalid HAVING clause",
+    });
+  });
+
+  test("式を SQL の表記に戻す (出力カラム名)", () => {
+    const render = (sql: string) => {
+      const result = parse(sql);
+      if (!result.success) throw new Error(result.error);
+      const item = (result.statement as SelectStatement).columns[0];
+      return item.type === "EXPRESSION" ? renderExpression(item.expression) : "*";
+    };
+
+    expect(render("SELECT count(*) FROM t")).toBe("COUNT(*)");
+    expect(render("SELECT Sum( age ) FROM t")).toBe("SUM(age)");
+    expect(render("SELECT MAX(name) = 'Bob' FROM t")).toBe("MAX(name) = 'Bob'");
+    expect(render("SELECT COUNT(t.id) FROM t")).toBe("COUNT(t.id)");
+    expect(render("SELECT (a = 1 OR b = 2) AND NOT c > 3 FROM t")).toBe("(a = 1 OR b = 2) AND NOT c > 3");
+    expect(render("SELECT (a + b) * 2 - c % 3 FROM t")).toBe("(a + b) * 2 - c % 3");
+    expect(render("SELECT -(-1), - (a - b) FROM t")).toBe("-(-1)");
+    expect(render("SELECT upper(name) || '!' FROM t")).toBe("UPPER(name) || '!'");
+    expect(render("SELECT case when a > 1 then 'x' end FROM t")).toBe("CASE WHEN a > 1 THEN 'x' END");
+    expect(render("SELECT a = true OR b = X'0a' FROM t")).toBe("a = TRUE OR b = X'0A'");
+    expect(render("SELECT (a IS NULL) IS NOT NULL FROM t")).toBe("a IS NULL IS NOT NULL");
+    expect(render("SELECT (a AND b) IS NULL FROM t")).toBe("(a AND b) IS NULL");
+    expect(render("SELECT a IS NOT DISTINCT FROM (b IS NULL) FROM t")).toBe("a IS NOT DISTINCT FROM (b IS NULL)");
+    expect(render("SELECT current_timestamp FROM t")).toBe("CURRENT_TIMESTAMP");
+    expect(render("SELECT 7.0 / 2 FROM t")).toBe("7.0 / 2");
+    expect(render("SELECT 7 / 2.50 FROM t")).toBe("7 / 2.5");
+    expect(render("SELECT 1e3 - 7 FROM t")).toBe("1000.0 - 7");
+  });
+
+  test("算術演算子の優先順位", () => {
+    const where = (condition: string) => {
+      const result = parse(`SELECT * FROM t WHERE ${condition}`);
+      if (!result.success) throw new Error(result.error);
+      return (result.statement as SelectStatement).where;
+    };
+    const binary = (operator: "+" | "-" | "*" | "||", left: Expression, right: Expression): Expression => ({
+      type: "BINARY",
+      operator,
+      left,
+      right,
+    });
+
+    // * は + より、+ は比較より強く結びつき、同じ強さなら左から
+    expect(where("a + b * 2 > 10")).toEqual(
+      compare(">", binary("+", column("a"), binary("*", column("b"), literal(2))), literal(10)),
+    );
+    expect(where("a - b - 1 = 0")).toEqual(
+      compare("=", binary("-", binary("-", column("a"), column("b")), literal(1)), literal(0)),
+    );
+    // || は * より強く、単項の - はさらに強い
+    expect(where("a * b || c = 'x'")).toEqual(
+      compare("=", binary("*", column("a"), binary("||", column("b"), column("c"))), literal("x")),
+    );
+    expect(where("-a * 2 = -4")).toEqual(
+      compare("=", binary("*", { type: "UNARY", operator: "-", operand: column("a") }, literal(2)), literal(-4)),
+    );
+  });
+
+  test("組み込み関数と CASE", () => {
+    const result = parse(
+      "SELECT substr(name, 2, 3), COALESCE(a, b, 0), " +
+        "CASE dept WHEN 'a' THEN 1 WHEN 'b' THEN 2 END, CASE WHEN age >= 20 THEN 'adult' ELSE 'minor' END FROM t;",
+    );
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const { columns } = result.statement as SelectStatement;
+    expect(columns.map((c) => c.type === "EXPRESSION" && c.expression)).toEqual([
+      { type: "FUNCTION", name: "SUBSTR", args: [column("name"), literal(2), literal(3)] },
+      { type: "FUNCTION", name: "COALESCE", args: [column("a"), column("b"), literal(0)] },
+      {
+        type: "CASE",
+        operand: column("dept"),
+        branches: [
+          { when: literal("a"), then: literal(1) },
+          { when: literal("b"), then: literal(2) },
+        ],
+        elseResult: null,
+      },
+      {
+        type: "CASE",
+        operand: null,
+        branches: [{ when: compare(">=", column("age"), literal(20)), then: literal("adult") }],
+        elseResult: literal("minor"),
+      },
+    ]);
+  });
+
+  test("不正な関数呼び出し・CASE でエラー", () => {
+    const wrongArgs = (name: string) => ({ success: false as const, error: `Wrong number of arguments for ${name}()` });
+    expect(parse("SELECT UPPER() FROM t;")).toEqual(wrongArgs("UPPER"));
+    expect(parse("SELECT SUBSTR(name) FROM t;")).toEqual(wrongArgs("SUBSTR"));
+    expect(parse("SELECT IFNULL(a, b, c) FROM t;")).toEqual(wrongArgs("IFNULL"));
+    expect(parse("SELECT COALESCE(a) FROM t;")).toEqual(wrongArgs("COALESCE"));
+    expect(parse("SELECT ROUND(a, 1 FROM t;")).toEqual({ success: false, error: "Missing ')' after ROUND arguments" });
+    expect(parse("SELECT CASE END FROM t;")).toEqual({ success: false, error: "Invalid expression: END" });
+    expect(parse("SELECT CASE WHEN a THEN 1 FROM t;")).toEqual({ success: false, error: "Invalid CASE expression" });
+    expect(parse("SELECT CASE WHEN a 1 END FROM t;")).toEqual({ success: false, error: "Invalid CASE expression" });
+  });
+
+  test("SELECT の式の別名", () => {
+    const result = parse("SELECT age * 2 AS double, name n, id FROM users ORDER BY double;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    expect(stmt.columns.map((c) => c.type === "EXPRESSION" && c.alias)).toEqual(["double", "n", null]);
+    expect(stmt.orderBy).toEqual([{ expression: column("double"), direction: "ASC" }]);
+    expect(parse("SELECT name AS FROM users;")).toEqual({ success: false, error: "Missing alias after AS" });
+  });
+
+  test("JOIN と別名・修飾したカラム", () => {
+    const result = parse(
+      "SELECT u.name, o.amount FROM users AS u LEFT OUTER JOIN orders o ON o.user_id = u.id " +
+        "INNER JOIN items ON items.order_id = o.id AND items.qty > 1 JOIN tags ON tags.id = 1 WHERE u.id = 3;",
+    );
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as SelectStatement;
+    const qualified = (table: string, name: string): Expression => ({ type: "COLUMN", table, name });
+    expect(stmt.tableName).toBe("users");
+    expect(stmt.alias).toBe("u");
+    expect(stmt.columns).toEqual([
+      { type: "EXPRESSION", expression: qualified("u", "name"), alias: null },
+      { type: "EXPRESSION", expression: qualified("o", "amount"), alias: null },
+    ]);
+    expect(stmt.joins).toEqual([
+      {
+        joinType: "LEFT",
+        tableName: "orders",
+        alias: "o",
+        on: compare("=", qualified("o", "user_id"), qualified("u", "id")),
+      },
+      {
+        joinType: "INNER",
+        tableName: "items",
+        alias: null,
+        on: and(
+          compare("=", qualified("items", "order_id"), qualified("o", "id")),
+          compare(">", qualified("items", "qty"), literal(1)),
+        ),
+      },
+      { joinType: "INNER", tableName: "tags", alias: null, on: compare("=", qualified("tags", "id"), literal(1)) },
+    ]);
+    expect(stmt.where).toEqual(compare("=", qualified("u", "id"), literal(3)));
+
+    const plain = parse("SELECT * FROM users;");
+    expect(plain.success && (plain.statement as SelectStatement).alias).toBeNull();
+    expect(plain.success && (plain.statement as SelectStatement).joins).toEqual([]);
+  });
+
+  test("不正な JOIN でエラー", () => {
+    expect(parse("SELECT * FROM a JOIN b;")).toEqual({ success: false, error: "Missing ON clause for JOIN b" });
+    expect(parse("SELECT * FROM a JOIN b ON;")).toEqual({ success: false, error: "Invalid JOIN clause" });
+    expect(parse("SELECT * FROM a LEFT b ON a.id = b.id;")).toEqual({ success: false, error: "Invalid JOIN clause" });
+    expect(parse("SELECT * FROM a AS;")).toEqual({ success: false, error: "Missing alias after AS" });
+    expect(parse("SELECT a. FROM a;")).toEqual({ success: false, error: "Invalid column reference: a." });
   });
 
   test("セミコロンなしでも動作", () => {
@@ -250,6 +771,246 @@ describe("SELECT", () => {
   });
 });
 
+// ============================================================
+// UPDATE
+// ============================================================
+
+describe("UPDATE", () => {
+  test("単一カラムの UPDATE", () => {
+    const result = parse("UPDATE users SET name = 'Bob' WHERE id = 1;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as UpdateStatement;
+    expect(stmt.type).toBe("UPDATE");
+    expect(stmt.tableName).toBe("users");
+    expect(stmt.assignments).toEqual([{ column: "name", value: literal("Bob") }]);
+    expect(stmt.where).toEqual(compare("=", column("id"), literal(1)));
+  });
+
+  test("複数カラムの UPDATE", () => {
+    const result = parse("UPDATE users SET name = 'Bob', age = 30;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as UpdateStatement;
+    expect(stmt.assignments).toEqual([
+      { column: "name", value: literal("Bob") },
+      { column: "age", value: literal(30) },
+    ]);
+    expect(stmt.where).toBeNull();
+  });
+
+  test("SET の右辺には式を書ける", () => {
+    const result = parse("UPDATE y SET v = v + 1, w = NULL WHERE id = 1;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as UpdateStatement;
+    expect(stmt.assignments).toEqual([
+      { column: "v", value: { type: "BINARY", operator: "+", left: column("v"), right: literal(1) } },
+      { column: "w", value: { type: "LITERAL", value: null } },
+    ]);
+    expect(stmt.where).toEqual(compare("=", column("id"), literal(1)));
+    expect(parse("UPDATE y SET v = WHERE id = 1;").success).toBe(false);
+  });
+
+  test("SET がない場合エラー", () => {
+    const result = parse("UPDATE users name = 'Bob';");
+    expect(result.success).toBe(false);
+  });
+
+  test("= がない場合エラー", () => {
+    const result = parse("UPDATE users SET name 'Bob';");
+    expect(result.success).toBe(false);
+  });
+
+  test("SET や WHERE の後に読み残したトークンがあればエラー", () => {
+    const result = parse("UPDATE y SET v = 10 WHERE id = 1 ORDER BY id;");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBe("Invalid UPDATE syntax near 'ORDER'");
+    }
+    expect(parse("UPDATE y SET v = 10 x WHERE id = 1;").success).toBe(false);
+    expect(parse("UPDATE y SET v = 10 WHERE id = 1").success).toBe(true);
+  });
+});
+
+// ============================================================
+// DELETE
+// ============================================================
+
+describe("DELETE", () => {
+  test("WHERE 付き DELETE", () => {
+    const result = parse("DELETE FROM users WHERE id = 1;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as DeleteStatement;
+    expect(stmt.type).toBe("DELETE");
+    expect(stmt.tableName).toBe("users");
+    expect(stmt.where).toEqual(compare("=", column("id"), literal(1)));
+  });
+
+  test("WHERE なし DELETE", () => {
+    const result = parse("DELETE FROM users;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as DeleteStatement;
+    expect(stmt.where).toBeNull();
+  });
+
+  test("FROM がない場合エラー", () => {
+    const result = parse("DELETE users;");
+    expect(result.success).toBe(false);
+  });
+
+  test("WHERE の式の後に未対応の演算子が続けばエラー (WHERE a だけを残さない)", () => {
+    for (const tail of ["a BETWEEN 1 AND 10", "a IN (1, 2)", "a LIKE 'x%'", "a = 1 garbage"]) {
+      const result = parse(`DELETE FROM t WHERE ${tail};`);
+      expect(result.success).toBe(false);
+    }
+    const result = parse("DELETE FROM t WHERE a BETWEEN 1 AND 10;");
+    if (!result.success) {
+      expect(result.error).toBe("Invalid DELETE syntax near 'BETWEEN'");
+    }
+    expect(parse("UPDATE t SET a = 1 WHERE a IN (1, 2);").success).toBe(false);
+    expect(parse("SELECT * FROM t WHERE a LIKE 'x%' ORDER BY a;").success).toBe(false);
+    expect(parse("SELECT * FROM t WHERE a = 1 ORDER BY a LIMIT 1 OFFSET 2 x;").success).toBe(false);
+  });
+});
+
+// ============================================================
+// BEGIN / COMMIT / ROLLBACK
+// ============================================================
+
+describe("トランザクション制御", () => {
+  test("BEGIN / COMMIT / ROLLBACK", () => {
+    for (const type of ["BEGIN", "COMMIT", "ROLLBACK"] as const) {
+      const result = parse(`${type};`);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const stmt = result.statement as TransactionStatement;
+      expect(stmt.type).toBe(type);
+    }
+  });
+
+  test("BEGIN TRANSACTION", () => {
+    const result = parse("BEGIN TRANSACTION;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.statement.type).toBe("BEGIN");
+  });
+
+  test("余分なトークンがあるとエラー", () => {
+    const result = parse("COMMIT users;");
+    expect(result.success).toBe(false);
+  });
+});
+
+// ============================================================
+// PRAGMA / CHECKPOINT
+// ============================================================
+
+describe("PRAGMA / CHECKPOINT", () => {
+  test("PRAGMA journal_mode = WAL", () => {
+    const result = parse("PRAGMA journal_mode = WAL;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const stmt = result.statement as PragmaStatement;
+    expect(stmt.type).toBe("PRAGMA");
+    expect(stmt.name).toBe("journal_mode");
+    expect(stmt.value).toBe("WAL");
+  });
+
+  test("キーワードと同じ値 (DELETE) も指定できる", () => {
+    const result = parse("PRAGMA journal_mode = DELETE;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect((result.statement as PragmaStatement).value).toBe("DELETE");
+  });
+
+  test("値を省略すると問い合わせになる", () => {
+    const result = parse("PRAGMA journal_mode;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect((result.statement as PragmaStatement).value).toBeNull();
+  });
+
+  test("CHECKPOINT", () => {
+    const result = parse("CHECKPOINT;");
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.statement.type).toBe("CHECKPOINT");
+  });
+
+  test("不正な PRAGMA はエラー", () => {
+    expect(parse("PRAGMA;").success).toBe(false);
+    expect(parse("PRAGMA journal_mode =;").success).toBe(false);
+    expect(parse("PRAGMA journal_mode = WAL extra;").success).toBe(false);
+  });
+});
+
+// ============================================================
+// ANALYZE
+// ============================================================
+
+describe("ANALYZE", () => {
+  test("テーブル名は省略できる", () => {
+    expect(parse("ANALYZE users;")).toEqual({ success: true, statement: { type: "ANALYZE", tableName: "users" } });
+    expect(parse("analyze")).toEqual({ success: true, statement: { type: "ANALYZE", tableName: null } });
+  });
+
+  test("テーブル名のあとに続きがあればエラー", () => {
+    expect(parse("ANALYZE users extra;")).toEqual({ success: false, error: "Invalid ANALYZE syntax" });
+    expect(parse("ANALYZE 1;")).toEqual({ success: false, error: "Invalid ANALYZE syntax" });
+  });
+});
+
+// ============================================================
+// EXPLAIN
+// ============================================================
+
+describe("EXPLAIN", () => {
+  test("EXPLAIN と EXPLAIN QUERY PLAN は SELECT 文を包む", () => {
+    for (const [sql, queryPlan] of [
+      ["EXPLAIN SELECT * FROM users WHERE id = 1;", false],
+      ["explain query plan SELECT * FROM users WHERE id = 1;", true],
+    ] as const) {
+      const result = parse(sql);
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+
+      const stmt = result.statement as ExplainStatement;
+      expect(stmt.type).toBe("EXPLAIN");
+      expect(stmt.queryPlan).toBe(queryPlan);
+      expect(stmt.statement.tableName).toBe("users");
+      expect(stmt.statement.where).toEqual(compare("=", column("id"), literal(1)));
+    }
+  });
+
+  test("QUERY と PLAN はカラム名に使える", () => {
+    const result = parse("SELECT query, plan FROM t;");
+    expect(result.success).toBe(true);
+  });
+
+  test("SELECT 以外や QUERY PLAN の書き間違いはエラー", () => {
+    expect(parse("EXPLAIN DELETE FROM users;")).toEqual({
+      success: false,
+      error: "EXPLAIN supports only SELECT statements",
+    });
+    expect(parse("EXPLAIN QUERY SELECT * FROM users;")).toEqual({ success: false, error: "Invalid EXPLAIN syntax" });
+    expect(parse("EXPLAIN SELECT FROM users;").success).toBe(false);
+  });
+});
+
 // ============================================================
 // 共通エラーケース
 // ============================================================
@@ -2,10 +2,16 @@ import { Lexer } from "./lexer.ts";
 import { Token, TokenType } from "./token.ts";
 
 // ============================================================
-// 型定義 — Statement, WHERE条件, カラム定義
+// 型定義 — Statement, 式, カラム定義
 // ============================================================
 
-export type ColumnType = "INTEGER" | "TEXT";
+export type ColumnType = "INTEGER" | "BIGINT" | "REAL" | "BOOLEAN" | "TEXT" | "BLOB" | "DATE" | "TIMESTAMP";
+
+/**
+ * SQL に書ける NULL 以外の値 (整数は number で正確に表せなければ bigint、X'..' は Uint8Array)
+ * Date は SQL には書けず、実行時に行の値を条件に当てはめるときに使う
+ */
+export type LiteralValue = string | number | bigint | boolean | Uint8Array | Date;
 
 export type ColumnConstraint = "PRIMARY_KEY" | "NOT_NULL" | "UNIQUE";
 
@@ -13,34 +19,185 @@ export type ColumnDef = {
   name: string;
   type: ColumnType;
   constraints: ColumnConstraint[];
+  defaultValue?: Expression; // DEFAULT <式> (INSERT で値を省略したときに評価する)
+  check?: Expression; // CHECK (<式>) (複数あれば AND でまとめる)
 };
 
-export type WhereCondition = {
-  operator: "=" | "!=" | ">" | "<" | ">=" | "<=";
-  value: string | number;
+/** カラム定義の後に書くテーブル制約 (例: UNIQUE (a, b), PRIMARY KEY (a, b), CHECK (a < b)) */
+export type TableConstraint =
+  | { type: "UNIQUE"; columns: string[] }
+  | { type: "PRIMARY_KEY"; columns: string[] }
+  | { type: "CHECK"; expression: Expression };
+
+export type ComparisonOperator = "=" | "!=" | ">" | "<" | ">=" | "<=";
+
+/** 算術演算子と文字列の連結 (||) */
+export type ArithmeticOperator = "+" | "-" | "*" | "/" | "%" | "||";
+
+/** NULL 同士を等しいとみなす比較 (結果は UNKNOWN にならない) */
+export type DistinctOperator = "IS DISTINCT FROM" | "IS NOT DISTINCT FROM";
+
+export type BinaryOperator = ComparisonOperator | ArithmeticOperator | DistinctOperator | "AND" | "OR";
+
+export type AggregateFunction = "COUNT" | "SUM" | "AVG" | "MIN" | "MAX";
+
+/** 行ごとに値を計算する組み込み関数 */
+export type ScalarFunction =
+  | "UPPER"
+  | "LOWER"
+  | "LENGTH"
+  | "SUBSTR"
+  | "TRIM"
+  | "ABS"
+  | "COALESCE"
+  | "IFNULL"
+  | "ROUND"
+  | "CURRENT_TIMESTAMP";
+
+/** 単項演算子 (IS NULL / IS NOT NULL は後ろに書く) */
+export type UnaryOperator = "NOT" | "-" | "IS NULL" | "IS NOT NULL";
+
+/** CASE の WHEN <when> THEN <then> */
+export type CaseBranch = {
+  when: Expression;
+  then: Expression;
 };
 
+/**
+ * SELECT のカラムや WHERE / HAVING / ORDER BY に書く式
+ * 比較・AND・OR の結果は SQLite と同じく 1 / 0 / NULL (UNKNOWN) として扱う
+ */
+export type Expression =
+  | { type: "COLUMN"; table?: string; name: string } // table = 修飾したテーブル名か別名 (例: u.id)
+  // real = 小数点か指数を付けて書いた数値 (7.0 のように整数の値でも REAL として計算する)
+  | { type: "LITERAL"; value: LiteralValue | null; real?: boolean } // null = NULL
+  | { type: "UNARY"; operator: UnaryOperator; operand: Expression }
+  // real = REAL として計算する算術演算 (パーサーは付けず、実行時にオペランドの型から付ける)
+  | { type: "BINARY"; operator: BinaryOperator; left: Expression; right: Expression; real?: boolean }
+  | { type: "AGGREGATE"; func: AggregateFunction; argument: Expression | null } // argument が null = COUNT(*)
+  | { type: "FUNCTION"; name: ScalarFunction; args: Expression[] }
+  // operand があれば CASE <operand> WHEN <値> ...、なければ CASE WHEN <条件> ...
+  | { type: "CASE"; operand: Expression | null; branches: CaseBranch[]; elseResult: Expression | null };
+
+/** SELECT のカラムリストの1項目 (* または式) */
+export type SelectItem =
+  | { type: "ALL" }
+  | { type: "EXPRESSION"; expression: Expression; alias: string | null }; // alias が null = 別名なし
+
 export type CreateTableStatement = {
   type: "CREATE_TABLE";
   tableName: string;
   columns: ColumnDef[];
+  tableConstraints: TableConstraint[];
+  sql?: string; // 元の CREATE 文 (parse() が付与し、カタログに保存される)
+};
+
+export type CreateIndexStatement = {
+  type: "CREATE_INDEX";
+  indexName: string;
+  tableName: string;
+  columns: string[];
+  unique: boolean;
+  sql?: string; // 元の CREATE 文 (parse() が付与し、カタログに保存される)
+};
+
+export type DropIndexStatement = {
+  type: "DROP_INDEX";
+  indexName: string;
 };
 
 export type InsertStatement = {
   type: "INSERT";
   tableName: string;
   columns: string[];
-  values: (string | number)[];
+  values: (LiteralValue | null)[]; // null = NULL
+};
+
+/** FROM のテーブルに続けて結合するテーブル */
+export type JoinClause = {
+  joinType: "INNER" | "LEFT";
+  tableName: string;
+  alias: string | null; // null = 別名なし (テーブル名で参照する)
+  on: Expression;
+};
+
+/** ORDER BY の1項目 */
+export type OrderByItem = {
+  expression: Expression;
+  direction: "ASC" | "DESC";
 };
 
 export type SelectStatement = {
   type: "SELECT";
   tableName: string;
-  columns: string[];
-  where: Record<string, WhereCondition>;
+  alias: string | null; // null = 別名なし (テーブル名で参照する)
+  joins: JoinClause[]; // 空 = JOIN なし
+  columns: SelectItem[];
+  where: Expression | null; // null = WHERE なし
+  groupBy: Expression[]; // 空 = GROUP BY なし
+  having: Expression | null; // null = HAVING なし
+  orderBy: OrderByItem[]; // 空 = ORDER BY なし
+  limit: number | null; // null (または負の数) = 上限なし
+  offset: number; // 0 = 読み飛ばさない
+};
+
+/** SET <column> = <式> (式は更新前の行の値で評価する) */
+export type Assignment = {
+  column: string;
+  value: Expression;
+};
+
+export type UpdateStatement = {
+  type: "UPDATE";
+  tableName: string;
+  assignments: Assignment[];
+  where: Expression | null; // null = WHERE なし
+};
+
+export type DeleteStatement = {
+  type: "DELETE";
+  tableName: string;
+  where: Expression | null; // null = WHERE なし
+};
+
+export type TransactionStatement = {
+  type: "BEGIN" | "COMMIT" | "ROLLBACK";
+};
+
+export type PragmaStatement = {
+  type: "PRAGMA";
+  name: string;
+  value: string | null; // null = 現在値の問い合わせ
+};
+
+export type CheckpointStatement = {
+  type: "CHECKPOINT";
+};
+
+export type AnalyzeStatement = {
+  type: "ANALYZE";
+  tableName: string | null; // null = すべてのテーブル
 };
 
-export type Statement = CreateTableStatement | InsertStatement | SelectStatement;
+export type ExplainStatement = {
+  type: "EXPLAIN";
+  queryPlan: boolean; // true = EXPLAIN QUERY PLAN (テーブルの読み方だけを表示)
+  statement: SelectStatement;
+};
+
+export type Statement =
+  | CreateTableStatement
+  | CreateIndexStatement
+  | DropIndexStatement
+  | InsertStatement
+  | SelectStatement
+  | UpdateStatement
+  | DeleteStatement
+  | TransactionStatement
+  | PragmaStatement
+  | CheckpointStatement
+  | AnalyzeStatement
+  | ExplainStatement;
 
 export type ParseResult =
   | { success: true; statement: Statement }
@@ -52,7 +209,188 @@ export type ParseResult =
 
 export function parse(sql: string): ParseResult {
   const parser = new SqlParser(sql);
-  return parser.parse();
+  const result = parser.parse();
+
+  // CREATE 文はカタログに元の SQL を残すので、末尾の ; を除いて添えておく
+  if (result.success && (result.statement.type === "CREATE_TABLE" || result.statement.type === "CREATE_INDEX")) {
+    result.statement.sql = sql.trim().replace(/;\s*$/, "");
+  }
+  return result;
+}
+
+// ============================================================
+// 演算子の優先順位 (弱い順に OR < AND < NOT < 比較・IS < + - < * / % < || < 単項の -)
+// ============================================================
+
+const PRECEDENCE = {
+  LOWEST: 0,
+  OR: 1,
+  AND: 2,
+  NOT: 3,
+  COMPARISON: 4,
+  ADDITIVE: 5,
+  MULTIPLICATIVE: 6,
+  CONCAT: 7,
+  NEGATE: 8,
+} as const;
+
+/** 二項演算子のトークンの優先順位 (二項演算子でなければ LOWEST) */
+function binaryPrecedence(type: TokenType): number {
+  switch (type) {
+    case TokenType.OR:
+      return PRECEDENCE.OR;
+    case TokenType.AND:
+      return PRECEDENCE.AND;
+    case TokenType.EQ:
+    case TokenType.NEQ:
+    case TokenType.GT:
+    case TokenType.LT:
+    case TokenType.GTE:
+    case TokenType.LTE:
+    case TokenType.IS:
+      return PRECEDENCE.COMPARISON;
+    case TokenType.PLUS:
+    case TokenType.MINUS:
+      return PRECEDENCE.ADDITIVE;
+    case TokenType.ASTERISK:
+    case TokenType.SLASH:
+    case TokenType.PERCENT:
+      return PRECEDENCE.MULTIPLICATIVE;
+    case TokenType.CONCAT:
+      return PRECEDENCE.CONCAT;
+    default:
+      return PRECEDENCE.LOWEST;
+  }
+}
+
+const COMPARISON_OPERATORS: BinaryOperator[] = ["=", "!=", ">", "<", ">=", "<="];
+
+export function isComparisonOperator(operator: BinaryOperator): operator is ComparisonOperator {
+  return COMPARISON_OPERATORS.includes(operator);
+}
+
+type ExpressionResult = { success: true; expression: Expression } | { success: false; error: string };
+type AliasResult = { success: true; alias: string | null } | { success: false; error: string };
+type JoinResult = { success: true; join: JoinClause } | { success: false; error: string };
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ["COUNT", "SUM", "AVG", "MIN", "MAX"];
+
+/** キーワードではない型名 */
+const EXTRA_COLUMN_TYPES: ColumnType[] = ["BIGINT", "REAL", "BOOLEAN", "BLOB", "DATE", "TIMESTAMP"];
+
+/** 組み込み関数が受け取る引数の数 [最小, 最大] */
+const SCALAR_FUNCTIONS: { [name in ScalarFunction]: [number, number] } = {
+  UPPER: [1, 1],
+  LOWER: [1, 1],
+  LENGTH: [1, 1],
+  SUBSTR: [2, 3],
+  TRIM: [1, 2],
+  ABS: [1, 1],
+  COALESCE: [2, Infinity],
+  IFNULL: [2, 2],
+  ROUND: [1, 2],
+  CURRENT_TIMESTAMP: [0, 0], // キーワードとして括弧を付けずに書く
+};
+
+// ============================================================
+// 式を SQL の文字列に戻す (結果のカラム名などに使う)
+// ============================================================
+
+/**
+ * 式を SQL として書き直す (例: COUNT(*), SUM(age), a = 1 AND (b = 2 OR c = 3), (a + b) * 2)
+ * 元の優先順位を保つのに必要な括弧だけを付ける
+ */
+export function renderExpression(expr: Expression): string {
+  switch (expr.type) {
+    case "COLUMN":
+      return expr.table === undefined ? expr.name : `${expr.table}.${expr.name}`;
+    case "LITERAL":
+      return renderLiteral(expr.value, expr.real);
+    case "AGGREGATE":
+      return `${expr.func}(${expr.argument === null ? "*" : renderExpression(expr.argument)})`;
+    case "FUNCTION":
+      if (expr.name === "CURRENT_TIMESTAMP") return expr.name;
+      return `${expr.name}(${expr.args.map(renderExpression).join(", ")})`;
+    case "CASE": {
+      const operand = expr.operand ? ` ${renderExpression(expr.operand)}` : "";
+      const branches = expr.branches.map((b) => ` WHEN ${renderExpression(b.when)} THEN ${renderExpression(b.then)}`);
+      const elseResult = expr.elseResult ? ` ELSE ${renderExpression(expr.elseResult)}` : "";
+      return `CASE${operand}${branches.join("")}${elseResult} END`;
+    }
+    case "UNARY": {
+      if (expr.operator === "NOT") return `NOT ${renderOperand(expr.operand, PRECEDENCE.NOT)}`;
+      if (expr.operator !== "-") return `${renderOperand(expr.operand, PRECEDENCE.COMPARISON)} ${expr.operator}`;
+      // "--" は行コメントになるので、負の数の符号を反転するときは括弧で包む
+      const operand = renderOperand(expr.operand, PRECEDENCE.NEGATE);
+      return operand.startsWith("-") ? `-(${operand})` : `-${operand}`;
+    }
+    case "BINARY": {
+      const precedence = operatorPrecedence(expr.operator);
+      // 左結合なので、右辺に同じ強さの演算子があれば括弧が要る
+      return `${renderOperand(expr.left, precedence)} ${expr.operator} ${renderOperand(expr.right, precedence + 1)}`;
+    }
+  }
+}
+
+function renderOperand(expr: Expression, minPrecedence: number): string {
+  let precedence: number = Infinity;
+  if (expr.type === "BINARY") precedence = operatorPrecedence(expr.operator);
+  if (expr.type === "UNARY") precedence = unaryPrecedence(expr.operator);
+  const sql = renderExpression(expr);
+  return precedence < minPrecedence ? `(${sql})` : sql;
+}
+
+function unaryPrecedence(operator: UnaryOperator): number {
+  switch (operator) {
+    case "NOT":
+      return PRECEDENCE.NOT;
+    case "-":
+      return PRECEDENCE.NEGATE;
+    default:
+      return PRECEDENCE.COMPARISON;
+  }
+}
+
+function operatorPrecedence(operator: BinaryOperator): number {
+  switch (operator) {
+    case "OR":
+      return PRECEDENCE.OR;
+    case "AND":
+      return PRECEDENCE.AND;
+    case "+":
+    case "-":
+      return PRECEDENCE.ADDITIVE;
+    case "*":
+    case "/":
+    case "%":
+      return PRECEDENCE.MULTIPLICATIVE;
+    case "||":
+      return PRECEDENCE.CONCAT;
+    default:
+      return PRECEDENCE.COMPARISON;
+  }
+}
+
+function renderLiteral(value: LiteralValue | null, real = false): string {
+  if (value === null) return "NULL";
+  if (typeof value === "string") return `'${value.replaceAll("'", "''")}'`;
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (value instanceof Uint8Array) {
+    return `X'${Array.from(value, (byte) => byte.toString(16).padStart(2, "0").toUpperCase()).join("")}'`;
+  }
+  if (value instanceof Date) return `'${value.toJSON()}'`;
+  // REAL のリテラルは整数の値でも小数点を付ける (7.0 / 2 と 7 / 2 を別の名前にする)
+  const text = String(value);
+  return real && /^-?\d+$/.test(text) ? `${text}.0` : text;
+}
+
+/**
+ * 数値のリテラルを読む (number で正確に表せない整数は bigint)
+ */
+function parseNumber(literal: string): number | bigint | undefined {
+  const num = Number(literal);
+  if (/^\d+$/.test(literal) && !Number.isSafeInteger(num)) return BigInt(literal);
+  return Number.isFinite(num) ? num : undefined;
 }
 
 // ============================================================
@@ -96,6 +434,15 @@ class SqlParser {
     return false;
   }
 
+  /**
+   * 文の最後まで読んだか確かめる (次が ; か入力の終わりでなければエラー)
+   * 読み残したトークンを無視すると、WHERE の続きなどを黙って捨ててしまう
+   */
+  private expectStatementEnd(statement: string): { success: false; error: string } | null {
+    if (this.peekTokenIs(TokenType.SEMICOLON) || this.peekTokenIs(TokenType.EOF)) return null;
+    return { success: false, error: `Invalid ${statement} syntax near '${this.peekToken.literal}'` };
+  }
+
   // ============================================================
   // メインの解析
   // ============================================================
@@ -106,14 +453,45 @@ class SqlParser {
     }
 
     if (this.curTokenIs(TokenType.CREATE)) {
+      if (this.peekTokenIs(TokenType.INDEX) || this.peekTokenIs(TokenType.UNIQUE)) {
+        return this.parseCreateIndex();
+      }
       return this.parseCreateTable();
     }
+    if (this.curTokenIs(TokenType.DROP)) {
+      return this.parseDropIndex();
+    }
     if (this.curTokenIs(TokenType.INSERT)) {
       return this.parseInsert();
     }
     if (this.curTokenIs(TokenType.SELECT)) {
       return this.parseSelect();
     }
+    if (this.curTokenIs(TokenType.UPDATE)) {
+      return this.parseUpdate();
+    }
+    if (this.curTokenIs(TokenType.DELETE)) {
+      return this.parseDelete();
+    }
+    if (
+      this.curTokenIs(TokenType.BEGIN) ||
+      this.curTokenIs(TokenType.COMMIT) ||
+      this.curTokenIs(TokenType.ROLLBACK)
+    ) {
+      return this.parseTransaction();
+    }
+    if (this.curTokenIs(TokenType.PRAGMA)) {
+      return this.parsePragma();
+    }
+    if (this.curTokenIs(TokenType.CHECKPOINT)) {
+      return this.parseCheckpoint();
+    }
+    if (this.curTokenIs(TokenType.ANALYZE)) {
+      return this.parseAnalyze();
+    }
+    if (this.curTokenIs(TokenType.EXPLAIN)) {
+      return this.parseExplain();
+    }
 
     return { success: false, error: "Unsupported SQL statement" };
   }
@@ -137,11 +515,59 @@ class SqlParser {
       return { success: false, error: "Invalid CREATE TABLE syntax" };
     }
 
-    // カラム定義をパース
+    // カラム定義とテーブル制約をパース
     const columns: ColumnDef[] = [];
+    const tableConstraints: TableConstraint[] = [];
 
     while (!this.peekTokenIs(TokenType.RPAREN) && !this.peekTokenIs(TokenType.EOF)) {
       this.nextToken();
+
+      // UNIQUE (a, b)
+      if (this.curTokenIs(TokenType.UNIQUE)) {
+        if (!this.expectPeek(TokenType.LPAREN)) {
+          return { success: false, error: "Invalid UNIQUE constraint" };
+        }
+        const uniqueColumns = this.parseIdentifierList();
+        if (!uniqueColumns || !this.expectPeek(TokenType.RPAREN)) {
+          return { success: false, error: "Invalid UNIQUE constraint" };
+        }
+        tableConstraints.push({ type: "UNIQUE", columns: uniqueColumns });
+
+        if (this.peekTokenIs(TokenType.COMMA)) {
+          this.nextToken();
+        }
+        continue;
+      }
+
+      // CHECK (<式>)
+      if (this.curTokenIs(TokenType.CHECK)) {
+        const checkResult = this.parseCheck();
+        if (!checkResult.success) return checkResult;
+        tableConstraints.push({ type: "CHECK", expression: checkResult.expression });
+
+        if (this.peekTokenIs(TokenType.COMMA)) {
+          this.nextToken();
+        }
+        continue;
+      }
+
+      // PRIMARY KEY (a, b)
+      if (this.curTokenIs(TokenType.PRIMARY)) {
+        if (!this.expectPeek(TokenType.KEY) || !this.expectPeek(TokenType.LPAREN)) {
+          return { success: false, error: "Invalid PRIMARY KEY constraint" };
+        }
+        const keyColumns = this.parseIdentifierList();
+        if (!keyColumns || !this.expectPeek(TokenType.RPAREN)) {
+          return { success: false, error: "Invalid PRIMARY KEY constraint" };
+        }
+        tableConstraints.push({ type: "PRIMARY_KEY", columns: keyColumns });
+
+        if (this.peekTokenIs(TokenType.COMMA)) {
+          this.nextToken();
+        }
+        continue;
+      }
+
       const colResult = this.parseColumnDef();
       if (!colResult.success) {
         return colResult;
@@ -164,7 +590,7 @@ class SqlParser {
 
     return {
       success: true,
-      statement: { type: "CREATE_TABLE", tableName, columns },
+      statement: { type: "CREATE_TABLE", tableName, columns, tableConstraints },
     };
   }
 
@@ -189,14 +615,27 @@ class SqlParser {
     }
 
     // 制約（オプション）
-    const constraints: ColumnConstraint[] = [];
+    const column: ColumnDef = { name: colName, type: colType, constraints: [] };
+    const constraints = column.constraints;
     while (
       this.peekTokenIs(TokenType.PRIMARY) ||
       this.peekTokenIs(TokenType.NOT) ||
-      this.peekTokenIs(TokenType.UNIQUE)
+      this.peekTokenIs(TokenType.UNIQUE) ||
+      this.peekTokenIs(TokenType.DEFAULT) ||
+      this.peekTokenIs(TokenType.CHECK)
     ) {
       this.nextToken();
-      if (this.curTokenIs(TokenType.PRIMARY)) {
+      if (this.curTokenIs(TokenType.DEFAULT)) {
+        const defaultResult = this.parseDefault();
+        if (!defaultResult.success) return defaultResult;
+        column.defaultValue = defaultResult.expression;
+      } else if (this.curTokenIs(TokenType.CHECK)) {
+        const checkResult = this.parseCheck();
+        if (!checkResult.success) return checkResult;
+        column.check = column.check
+          ? { type: "BINARY", operator: "AND", left: column.check, right: checkResult.expression }
+          : checkResult.expression;
+      } else if (this.curTokenIs(TokenType.PRIMARY)) {
         if (this.expectPeek(TokenType.KEY)) {
           constraints.push("PRIMARY_KEY");
         }
@@ -209,19 +648,109 @@ class SqlParser {
       }
     }
 
-    return {
-      success: true,
-      column: { name: colName, type: colType, constraints },
-    };
+    return { success: true, column };
+  }
+
+  /**
+   * DEFAULT <リテラル> / DEFAULT -<数値> / DEFAULT CURRENT_TIMESTAMP / DEFAULT (<式>)
+   * 呼び出し時は DEFAULT、戻ったときは値の最後のトークンにいる
+   */
+  private parseDefault(): ExpressionResult {
+    this.nextToken();
+    if (this.curTokenIs(TokenType.LPAREN) || this.curTokenIs(TokenType.CURRENT_TIMESTAMP)) {
+      return this.parsePrefixExpression();
+    }
+    const value = this.parseValue();
+    if (value === undefined) {
+      return { success: false, error: `Invalid DEFAULT value: ${this.currentToken.literal}` };
+    }
+    return { success: true, expression: this.literalExpression(value) };
+  }
+
+  /**
+   * CHECK (<式>) (カラム制約とテーブル制約で共通)
+   * 呼び出し時は CHECK、戻ったときは閉じ括弧にいる
+   */
+  private parseCheck(): ExpressionResult {
+    if (!this.expectPeek(TokenType.LPAREN)) {
+      return { success: false, error: "Invalid CHECK constraint" };
+    }
+    this.nextToken();
+    const exprResult = this.parseExpression(PRECEDENCE.LOWEST);
+    if (!exprResult.success) return exprResult;
+    if (!this.expectPeek(TokenType.RPAREN)) {
+      return { success: false, error: "Invalid CHECK constraint" };
+    }
+    return exprResult;
   }
 
   private parseColumnType(): ColumnType | null {
     if (this.curTokenIs(TokenType.INTEGER_KW)) return "INTEGER";
     if (this.curTokenIs(TokenType.INT_KW)) return "INTEGER"; // INT → INTEGER に正規化
     if (this.curTokenIs(TokenType.TEXT_KW)) return "TEXT";
+    // それ以外の型名は予約語にしない (date などをカラム名にも使えるように)
+    if (this.curTokenIs(TokenType.IDENT)) {
+      const name = this.currentToken.literal.toUpperCase();
+      return EXTRA_COLUMN_TYPES.find((type) => type === name) ?? null;
+    }
     return null;
   }
 
+  // ============================================================
+  // CREATE INDEX / DROP INDEX パーサー
+  // ============================================================
+
+  private parseCreateIndex(): ParseResult {
+    // CREATE [UNIQUE] INDEX <indexName> ON <tableName> (<col>, ...)
+    const unique = this.peekTokenIs(TokenType.UNIQUE);
+    if (unique) {
+      this.nextToken();
+    }
+    if (!this.expectPeek(TokenType.INDEX)) {
+      return { success: false, error: "Invalid CREATE INDEX syntax" };
+    }
+    if (!this.expectPeek(TokenType.IDENT)) {
+      return { success: false, error: "Invalid CREATE INDEX syntax" };
+    }
+    const indexName = this.currentToken.literal;
+
+    if (!this.expectPeek(TokenType.ON)) {
+      return { success: false, error: "Invalid CREATE INDEX syntax" };
+    }
+    if (!this.expectPeek(TokenType.IDENT)) {
+      return { success: false, error: "Invalid CREATE INDEX syntax" };
+    }
+    const tableName = this.currentToken.literal;
+
+    if (!this.expectPeek(TokenType.LPAREN)) {
+      return { success: false, error: "Invalid CREATE INDEX syntax" };
+    }
+    const columns = this.parseIdentifierList();
+    if (!columns || columns.length === 0) {
+      return { success: false, error: "Invalid CREATE INDEX syntax" };
+    }
+    if (!this.expectPeek(TokenType.RPAREN)) {
+      return { success: false, error: "Invalid CREATE INDEX syntax" };
+    }
+
+    return {
+      success: true,
+      statement: { type: "CREATE_INDEX", indexName, tableName, columns, unique },
+    };
+  }
+
+  private parseDropIndex(): ParseResult {
+    // DROP INDEX <indexName> (DROP TABLE などは未対応)
+    if (!this.expectPeek(TokenType.INDEX)) {
+      return { success: false, error: "Unsupported SQL statement" };
+    }
+    if (!this.expectPeek(TokenType.IDENT)) {
+      return { success: false, error: "Invalid DROP INDEX syntax" };
+    }
+
+    return { success: true, statement: { type: "DROP_INDEX", indexName: this.currentToken.literal } };
+  }
+
   // ============================================================
   // INSERT INTO パーサー
   // ============================================================
@@ -293,12 +822,12 @@ class SqlParser {
     return identifiers;
   }
 
-  private parseValueList(): { success: true; values: (string | number)[] } | { success: false; error: string } {
-    const values: (string | number)[] = [];
+  private parseValueList(): { success: true; values: (LiteralValue | null)[] } | { success: false; error: string } {
+    const values: (LiteralValue | null)[] = [];
 
     this.nextToken();
     const first = this.parseValue();
-    if (first === null) {
+    if (first === undefined) {
       return { success: false, error: `Invalid value: ${this.currentToken.literal}` };
     }
     values.push(first);
@@ -307,7 +836,7 @@ class SqlParser {
       this.nextToken(); // skip comma
       this.nextToken();
       const val = this.parseValue();
-      if (val === null) {
+      if (val === undefined) {
         return { success: false, error: `Invalid value: ${this.currentToken.literal}` };
       }
       values.push(val);
@@ -321,103 +850,688 @@ class SqlParser {
   // ============================================================
 
   private parseSelect(): ParseResult {
-    // SELECT <columns> FROM <tableName>
+    // SELECT <* または式>, ... FROM <tableName>
+    const columns: SelectItem[] = [];
+    do {
+      if (columns.length > 0) {
+        this.nextToken(); // skip comma
+      }
+      this.nextToken();
+      if (this.curTokenIs(TokenType.ASTERISK)) {
+        columns.push({ type: "ALL" });
+        continue;
+      }
+      if (this.curTokenIs(TokenType.FROM) || this.curTokenIs(TokenType.EOF) || this.curTokenIs(TokenType.SEMICOLON)) {
+        return { success: false, error: "Invalid SELECT syntax" };
+      }
+      const exprResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!exprResult.success) {
+        return exprResult;
+      }
+      const alias = this.parseAlias();
+      if (!alias.success) {
+        return alias;
+      }
+      columns.push({ type: "EXPRESSION", expression: exprResult.expression, alias: alias.alias });
+    } while (this.peekTokenIs(TokenType.COMMA));
+
+    // FROM <tableName> [[AS] <別名>]
+    if (!this.expectPeek(TokenType.FROM)) {
+      return { success: false, error: "Invalid SELECT syntax" };
+    }
+    if (!this.expectPeek(TokenType.IDENT)) {
+      return { success: false, error: "Invalid SELECT syntax" };
+    }
+
+    const tableName = this.currentToken.literal;
+    const alias = this.parseAlias();
+    if (!alias.success) {
+      return alias;
+    }
+
+    // [INNER | LEFT [OUTER]] JOIN <tableName> [[AS] <別名>] ON <式> (0個以上)
+    const joins: JoinClause[] = [];
+    while (this.peekTokenIs(TokenType.JOIN) || this.peekTokenIs(TokenType.INNER) || this.peekTokenIs(TokenType.LEFT)) {
+      const joinResult = this.parseJoin();
+      if (!joinResult.success) {
+        return joinResult;
+      }
+      joins.push(joinResult.join);
+    }
+
+    let where: Expression | null = null;
+
+    // WHERE (オプション)
+    if (this.peekTokenIs(TokenType.WHERE)) {
+      this.nextToken(); // skip WHERE
+      this.nextToken();
+      const whereResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!whereResult.success) {
+        return whereResult;
+      }
+      where = whereResult.expression;
+    }
+
+    // GROUP BY <式>, ... (オプション)
+    const groupBy: Expression[] = [];
+    if (this.peekTokenIs(TokenType.GROUP)) {
+      this.nextToken(); // skip GROUP
+      if (!this.expectPeek(TokenType.BY)) {
+        return { success: false, error: "Invalid GROUP BY clause" };
+      }
+      do {
+        if (groupBy.length > 0) {
+          this.nextToken(); // skip comma
+        }
+        const exprResult = this.parseClauseExpression("GROUP BY");
+        if (!exprResult.success) {
+          return exprResult;
+        }
+        groupBy.push(exprResult.expression);
+      } while (this.peekTokenIs(TokenType.COMMA));
+    }
+
+    // HAVING <式> (オプション)
+    let having: Expression | null = null;
+    if (this.peekTokenIs(TokenType.HAVING)) {
+      this.nextToken(); // skip HAVING
+      const havingResult = this.parseClauseExpression("HAVING");
+      if (!havingResult.success) {
+        return havingResult;
+      }
+      having = havingResult.expression;
+    }
+
+    // ORDER BY <式> [ASC|DESC], ... (オプション)
+    const orderBy: OrderByItem[] = [];
+    if (this.peekTokenIs(TokenType.ORDER)) {
+      this.nextToken(); // skip ORDER
+      if (!this.expectPeek(TokenType.BY)) {
+        return { success: false, error: "Invalid ORDER BY clause" };
+      }
+      do {
+        if (orderBy.length > 0) {
+          this.nextToken(); // skip comma
+        }
+        const exprResult = this.parseClauseExpression("ORDER BY");
+        if (!exprResult.success) {
+          return exprResult;
+        }
+        let direction: OrderByItem["direction"] = "ASC";
+        if (this.peekTokenIs(TokenType.ASC) || this.peekTokenIs(TokenType.DESC)) {
+          this.nextToken();
+          direction = this.curTokenIs(TokenType.DESC) ? "DESC" : "ASC";
+        }
+        orderBy.push({ expression: exprResult.expression, direction });
+      } while (this.peekTokenIs(TokenType.COMMA));
+    }
+
+    // LIMIT <n> [OFFSET <m>] (オプション)
+    let limit: number | null = null;
+    let offset = 0;
+    if (this.peekTokenIs(TokenType.LIMIT)) {
+      this.nextToken(); // skip LIMIT
+      this.nextToken();
+      const value = this.parseValue();
+      if (!Number.isInteger(value)) {
+        return { success: false, error: "Invalid LIMIT clause" };
+      }
+      limit = value as number;
+
+      if (this.peekTokenIs(TokenType.OFFSET)) {
+        this.nextToken(); // skip OFFSET
+        this.nextToken();
+        const offsetValue = this.parseValue();
+        if (!Number.isInteger(offsetValue)) {
+          return { success: false, error: "Invalid OFFSET clause" };
+        }
+        offset = offsetValue as number;
+      }
+    }
+
+    const endError = this.expectStatementEnd("SELECT");
+    if (endError) {
+      return endError;
+    }
+
+    return {
+      success: true,
+      statement: {
+        type: "SELECT",
+        tableName,
+        alias: alias.alias,
+        joins,
+        columns,
+        where,
+        groupBy,
+        having,
+        orderBy,
+        limit,
+        offset,
+      },
+    };
+  }
+
+  /**
+   * テーブル名や SELECT の式に続く [AS] <別名> を読む (別名がなければ null)
+   */
+  private parseAlias(): AliasResult {
+    if (this.peekTokenIs(TokenType.AS)) {
+      this.nextToken(); // skip テーブル名 → AS
+      if (!this.expectPeek(TokenType.IDENT)) {
+        return { success: false, error: "Missing alias after AS" };
+      }
+      return { success: true, alias: this.currentToken.literal };
+    }
+    if (this.peekTokenIs(TokenType.IDENT)) {
+      this.nextToken();
+      return { success: true, alias: this.currentToken.literal };
+    }
+    return { success: true, alias: null };
+  }
+
+  /**
+   * [INNER | LEFT [OUTER]] JOIN <tableName> [[AS] <別名>] ON <式>
+   * 呼び出し時は JOIN の手前、戻ったときは ON の式の最後のトークンにいる
+   */
+  private parseJoin(): JoinResult {
+    const invalid = { success: false, error: "Invalid JOIN clause" } as const;
+
     this.nextToken();
+    let joinType: JoinClause["joinType"] = "INNER";
+    if (this.curTokenIs(TokenType.LEFT)) {
+      joinType = "LEFT";
+      if (this.peekTokenIs(TokenType.OUTER)) {
+        this.nextToken();
+      }
+      if (!this.expectPeek(TokenType.JOIN)) return invalid;
+    } else if (this.curTokenIs(TokenType.INNER)) {
+      if (!this.expectPeek(TokenType.JOIN)) return invalid;
+    }
+
+    if (!this.expectPeek(TokenType.IDENT)) return invalid;
+    const tableName = this.currentToken.literal;
+    const alias = this.parseAlias();
+    if (!alias.success) return alias;
+
+    if (!this.expectPeek(TokenType.ON)) {
+      return { success: false, error: `Missing ON clause for JOIN ${tableName}` };
+    }
+    const onResult = this.parseClauseExpression("JOIN");
+    if (!onResult.success) return onResult;
 
-    // カラムリスト
-    const columns: string[] = [];
-    if (this.curTokenIs(TokenType.ASTERISK)) {
-      columns.push("*");
-    } else if (this.curTokenIs(TokenType.IDENT)) {
-      columns.push(this.currentToken.literal);
-      while (this.peekTokenIs(TokenType.COMMA)) {
+    return { success: true, join: { joinType, tableName, alias: alias.alias, on: onResult.expression } };
+  }
+
+  // ============================================================
+  // UPDATE パーサー
+  // ============================================================
+
+  private parseUpdate(): ParseResult {
+    // UPDATE <tableName> SET
+    if (!this.expectPeek(TokenType.IDENT)) {
+      return { success: false, error: "Invalid UPDATE syntax" };
+    }
+
+    const tableName = this.currentToken.literal;
+
+    if (!this.expectPeek(TokenType.SET)) {
+      return { success: false, error: "Invalid UPDATE syntax" };
+    }
+
+    // <column> = <式> をカンマ区切りで読む
+    const assignments: Assignment[] = [];
+    do {
+      if (assignments.length > 0) {
         this.nextToken(); // skip comma
-        this.nextToken();
-        columns.push(this.currentToken.literal);
       }
-    } else {
-      return { success: false, error: "Invalid SELECT syntax" };
+      if (!this.expectPeek(TokenType.IDENT)) {
+        return { success: false, error: "Invalid UPDATE syntax" };
+      }
+      const column = this.currentToken.literal;
+
+      if (!this.expectPeek(TokenType.EQ)) {
+        return { success: false, error: `Invalid SET clause: ${column}` };
+      }
+
+      const valueResult = this.parseClauseExpression("SET");
+      if (!valueResult.success) {
+        return valueResult;
+      }
+      assignments.push({ column, value: valueResult.expression });
+    } while (this.peekTokenIs(TokenType.COMMA));
+
+    let where: Expression | null = null;
+
+    // WHERE (オプション)
+    if (this.peekTokenIs(TokenType.WHERE)) {
+      this.nextToken(); // skip WHERE
+      this.nextToken();
+      const whereResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!whereResult.success) {
+        return whereResult;
+      }
+      where = whereResult.expression;
+    }
+
+    const endError = this.expectStatementEnd("UPDATE");
+    if (endError) {
+      return endError;
     }
 
-    // FROM
+    return {
+      success: true,
+      statement: { type: "UPDATE", tableName, assignments, where },
+    };
+  }
+
+  // ============================================================
+  // DELETE パーサー
+  // ============================================================
+
+  private parseDelete(): ParseResult {
+    // DELETE FROM <tableName>
     if (!this.expectPeek(TokenType.FROM)) {
-      return { success: false, error: "Invalid SELECT syntax" };
+      return { success: false, error: "Invalid DELETE syntax" };
     }
     if (!this.expectPeek(TokenType.IDENT)) {
-      return { success: false, error: "Invalid SELECT syntax" };
+      return { success: false, error: "Invalid DELETE syntax" };
     }
 
     const tableName = this.currentToken.literal;
-    const where: Record<string, WhereCondition> = {};
+    let where: Expression | null = null;
 
     // WHERE (オプション)
     if (this.peekTokenIs(TokenType.WHERE)) {
       this.nextToken(); // skip WHERE
-      const whereResult = this.parseWhereClause();
+      this.nextToken();
+      const whereResult = this.parseExpression(PRECEDENCE.LOWEST);
       if (!whereResult.success) {
         return whereResult;
       }
-      Object.assign(where, whereResult.conditions);
+      where = whereResult.expression;
+    }
+
+    const endError = this.expectStatementEnd("DELETE");
+    if (endError) {
+      return endError;
     }
 
     return {
       success: true,
-      statement: { type: "SELECT", tableName, columns, where },
+      statement: { type: "DELETE", tableName, where },
     };
   }
 
   // ============================================================
-  // WHERE 句パーサー
+  // BEGIN / COMMIT / ROLLBACK パーサー
   // ============================================================
 
-  private parseWhereClause():
-    | { success: true; conditions: Record<string, WhereCondition> }
-    | { success: false; error: string } {
-    const conditions: Record<string, WhereCondition> = {};
+  private parseTransaction(): ParseResult {
+    const type = this.currentToken.type as TransactionStatement["type"];
 
-    // 最初の条件
-    const first = this.parseWhereCondition();
-    if (!first.success) return first;
-    conditions[first.column] = first.condition;
+    // BEGIN TRANSACTION のように TRANSACTION を続けてもよい
+    if (this.peekTokenIs(TokenType.TRANSACTION)) {
+      this.nextToken();
+    }
 
-    // AND で繋がる追加条件
-    while (this.peekTokenIs(TokenType.AND)) {
-      this.nextToken(); // skip AND
-      const cond = this.parseWhereCondition();
-      if (!cond.success) return cond;
-      conditions[cond.column] = cond.condition;
+    if (!this.peekTokenIs(TokenType.SEMICOLON) && !this.peekTokenIs(TokenType.EOF)) {
+      return { success: false, error: `Invalid ${type} syntax` };
     }
 
-    return { success: true, conditions };
+    return { success: true, statement: { type } };
   }
 
-  private parseWhereCondition():
-    | { success: true; column: string; condition: WhereCondition }
-    | { success: false; error: string } {
-    // カラム名
+  // ============================================================
+  // PRAGMA / CHECKPOINT パーサー
+  // ============================================================
+
+  private parsePragma(): ParseResult {
+    // PRAGMA <name> [= <value>]
     if (!this.expectPeek(TokenType.IDENT)) {
-      return { success: false, error: "Invalid WHERE condition" };
+      return { success: false, error: "Invalid PRAGMA syntax" };
     }
-    const column = this.currentToken.literal;
+    const name = this.currentToken.literal.toLowerCase();
 
-    // 演算子
-    this.nextToken();
-    const operator = this.parseOperator();
-    if (!operator) {
-      return { success: false, error: `Invalid WHERE condition: ${column}` };
+    let value: string | null = null;
+    if (this.peekTokenIs(TokenType.EQ)) {
+      this.nextToken(); // skip =
+      this.nextToken();
+      // WAL / DELETE のようなキーワードも値として受け付ける
+      if (this.curTokenIs(TokenType.EOF) || this.curTokenIs(TokenType.SEMICOLON)) {
+        return { success: false, error: "Invalid PRAGMA syntax" };
+      }
+      value = this.currentToken.literal;
     }
 
-    // 値
-    this.nextToken();
+    if (!this.peekTokenIs(TokenType.SEMICOLON) && !this.peekTokenIs(TokenType.EOF)) {
+      return { success: false, error: "Invalid PRAGMA syntax" };
+    }
+
+    return { success: true, statement: { type: "PRAGMA", name, value } };
+  }
+
+  private parseCheckpoint(): ParseResult {
+    if (!this.peekTokenIs(TokenType.SEMICOLON) && !this.peekTokenIs(TokenType.EOF)) {
+      return { success: false, error: "Invalid CHECKPOINT syntax" };
+    }
+
+    return { success: true, statement: { type: "CHECKPOINT" } };
+  }
+
+  // ============================================================
+  // ANALYZE / EXPLAIN パーサー
+  // ============================================================
+
+  private parseAnalyze(): ParseResult {
+    // ANALYZE [<tableName>]
+    let tableName: string | null = null;
+    if (this.peekTokenIs(TokenType.IDENT)) {
+      this.nextToken();
+      tableName = this.currentToken.literal;
+    }
+
+    if (!this.peekTokenIs(TokenType.SEMICOLON) && !this.peekTokenIs(TokenType.EOF)) {
+      return { success: false, error: "Invalid ANALYZE syntax" };
+    }
+
+    return { success: true, statement: { type: "ANALYZE", tableName } };
+  }
+
+  private parseExplain(): ParseResult {
+    // EXPLAIN [QUERY PLAN] <SELECT 文>
+    // QUERY と PLAN はカラム名などに使えるよう、キーワードにせず識別子として読む
+    let queryPlan = false;
+    if (this.peekTokenIs(TokenType.IDENT) && this.peekToken.literal.toUpperCase() === "QUERY") {
+      this.nextToken();
+      if (!this.peekTokenIs(TokenType.IDENT) || this.peekToken.literal.toUpperCase() !== "PLAN") {
+        return { success: false, error: "Invalid EXPLAIN syntax" };
+      }
+      this.nextToken();
+      queryPlan = true;
+    }
+
+    if (!this.expectPeek(TokenType.SELECT)) {
+      return { success: false, error: "EXPLAIN supports only SELECT statements" };
+    }
+    const selectResult = this.parseSelect();
+    if (!selectResult.success) {
+      return selectResult;
+    }
+
+    return {
+      success: true,
+      statement: { type: "EXPLAIN", queryPlan, statement: selectResult.statement as SelectStatement },
+    };
+  }
+
+  // ============================================================
+  // 式パーサー (precedence climbing)
+  //
+  // parseExpression(minPrecedence) は minPrecedence より強く結びつく
+  // 二項演算子だけを読み進め、それより弱い演算子の手前で呼び出し元に返す。
+  // 呼び出し時は式の先頭のトークン、戻ったときは式の最後のトークンにいる
+  // ============================================================
+
+  private parseExpression(minPrecedence: number): ExpressionResult {
+    const leftResult = this.parsePrefixExpression();
+    if (!leftResult.success) return leftResult;
+
+    let left = leftResult.expression;
+    while (binaryPrecedence(this.peekToken.type) > minPrecedence) {
+      this.nextToken();
+      if (this.curTokenIs(TokenType.IS)) {
+        const isResult = this.parseIs(left);
+        if (!isResult.success) return isResult;
+        left = isResult.expression;
+        continue;
+      }
+      const operator = this.parseBinaryOperator()!;
+      const precedence = binaryPrecedence(this.currentToken.type);
+
+      // 右辺は同じ強さの演算子の手前で止める (左結合)
+      this.nextToken();
+      const rightResult = this.parseExpression(precedence);
+      if (!rightResult.success) return rightResult;
+
+      left = { type: "BINARY", operator, left, right: rightResult.expression };
+    }
+
+    return { success: true, expression: left };
+  }
+
+  private parsePrefixExpression(): ExpressionResult {
+    // NOT <式>: 比較演算子より弱く、AND / OR より強く結びつく
+    if (this.curTokenIs(TokenType.NOT)) {
+      this.nextToken();
+      const operandResult = this.parseExpression(PRECEDENCE.NOT);
+      if (!operandResult.success) return operandResult;
+      return { success: true, expression: { type: "UNARY", operator: "NOT", operand: operandResult.expression } };
+    }
+
+    // -<式>: どの二項演算子より強く結びつく (-<数値> は負の数のリテラルとして下で読む)
+    if (this.curTokenIs(TokenType.MINUS) && !this.peekTokenIs(TokenType.NUMBER)) {
+      this.nextToken();
+      const operandResult = this.parseExpression(PRECEDENCE.NEGATE);
+      if (!operandResult.success) return operandResult;
+      return { success: true, expression: { type: "UNARY", operator: "-", operand: operandResult.expression } };
+    }
+
+    if (this.curTokenIs(TokenType.CASE)) {
+      return this.parseCase();
+    }
+
+    if (this.curTokenIs(TokenType.CURRENT_TIMESTAMP)) {
+      return { success: true, expression: { type: "FUNCTION", name: "CURRENT_TIMESTAMP", args: [] } };
+    }
+
+    // ( <式> )
+    if (this.curTokenIs(TokenType.LPAREN)) {
+      this.nextToken();
+      const innerResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!innerResult.success) return innerResult;
+      if (!this.expectPeek(TokenType.RPAREN)) {
+        return { success: false, error: "Missing ')' in expression" };
+      }
+      return innerResult;
+    }
+
+    // <関数名>(...)
+    if (this.curTokenIs(TokenType.IDENT) && this.peekTokenIs(TokenType.LPAREN)) {
+      const name = this.currentToken.literal.toUpperCase();
+      if (AGGREGATE_FUNCTIONS.includes(name as AggregateFunction)) {
+        return this.parseAggregate(name as AggregateFunction);
+      }
+      if (Object.hasOwn(SCALAR_FUNCTIONS, name)) {
+        return this.parseFunction(name as ScalarFunction);
+      }
+      return { success: false, error: `Unknown function: ${this.currentToken.literal}` };
+    }
+
+    // <テーブル名または別名>.<カラム名>
+    if (this.curTokenIs(TokenType.IDENT) && this.peekTokenIs(TokenType.DOT)) {
+      const table = this.currentToken.literal;
+      this.nextToken(); // skip テーブル名 → .
+      if (!this.expectPeek(TokenType.IDENT)) {
+        return { success: false, error: `Invalid column reference: ${table}.` };
+      }
+      return { success: true, expression: { type: "COLUMN", table, name: this.currentToken.literal } };
+    }
+
+    if (this.curTokenIs(TokenType.IDENT)) {
+      return { success: true, expression: { type: "COLUMN", name: this.currentToken.literal } };
+    }
+
+    if (this.curTokenIs(TokenType.EOF) || this.curTokenIs(TokenType.SEMICOLON)) {
+      return { success: false, error: "Unexpected end of expression" };
+    }
     const value = this.parseValue();
-    if (value === null) {
-      return { success: false, error: `Invalid value in WHERE: ${this.currentToken.literal}` };
+    if (value === undefined) {
+      return { success: false, error: `Invalid expression: ${this.currentToken.literal}` };
+    }
+    return { success: true, expression: this.literalExpression(value) };
+  }
+
+  /**
+   * parseValue() で読んだ値のリテラル (小数点か指数を付けて書いた数値には real を付ける)
+   */
+  private literalExpression(value: LiteralValue | null): Expression {
+    if (typeof value === "number" && this.curTokenIs(TokenType.NUMBER) && /[.e]/i.test(this.currentToken.literal)) {
+      return { type: "LITERAL", value, real: true };
     }
+    return { type: "LITERAL", value };
+  }
+
+  /**
+   * JOIN の ON / GROUP BY / HAVING / ORDER BY に続く式を読む (式がなければ「Invalid <句> clause」)
+   */
+  private parseClauseExpression(clause: string): ExpressionResult {
+    if (this.peekTokenIs(TokenType.EOF) || this.peekTokenIs(TokenType.SEMICOLON) || this.peekTokenIs(TokenType.COMMA)) {
+      return { success: false, error: `Invalid ${clause} clause` };
+    }
+    this.nextToken();
+    return this.parseExpression(PRECEDENCE.LOWEST);
+  }
+
+  /**
+   * 集約関数の呼び出し: <関数名>(<式>) または COUNT(*)
+   * 呼び出し時は関数名、戻ったときは閉じ括弧にいる
+   */
+  private parseAggregate(func: AggregateFunction): ExpressionResult {
+    this.nextToken(); // skip 関数名 → (
+
+    let argument: Expression | null = null;
+    if (func === "COUNT" && this.peekTokenIs(TokenType.ASTERISK)) {
+      this.nextToken();
+    } else {
+      this.nextToken();
+      if (this.curTokenIs(TokenType.RPAREN) || this.curTokenIs(TokenType.ASTERISK)) {
+        return { success: false, error: `Invalid argument for ${func}()` };
+      }
+      const argResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!argResult.success) return argResult;
+      argument = argResult.expression;
+    }
+
+    if (!this.expectPeek(TokenType.RPAREN)) {
+      return { success: false, error: `Missing ')' after ${func} argument` };
+    }
+    return { success: true, expression: { type: "AGGREGATE", func, argument } };
+  }
+
+  /**
+   * 組み込み関数の呼び出し: <関数名>(<式>, ...)
+   * 呼び出し時は関数名、戻ったときは閉じ括弧にいる
+   */
+  private parseFunction(name: ScalarFunction): ExpressionResult {
+    this.nextToken(); // skip 関数名 → (
+
+    const args: Expression[] = [];
+    while (!this.peekTokenIs(TokenType.RPAREN)) {
+      if (args.length > 0 && !this.expectPeek(TokenType.COMMA)) {
+        return { success: false, error: `Missing ')' after ${name} arguments` };
+      }
+      this.nextToken();
+      const argResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!argResult.success) return argResult;
+      args.push(argResult.expression);
+    }
+    this.nextToken(); // → )
 
-    return { success: true, column, condition: { operator, value } };
+    const [min, max] = SCALAR_FUNCTIONS[name];
+    if (args.length < min || args.length > max) {
+      return { success: false, error: `Wrong number of arguments for ${name}()` };
+    }
+    return { success: true, expression: { type: "FUNCTION", name, args } };
   }
 
-  private parseOperator(): WhereCondition["operator"] | null {
+  /**
+   * CASE [<式>] WHEN <式> THEN <式> ... [ELSE <式>] END
+   * 呼び出し時は CASE、戻ったときは END にいる
+   */
+  private parseCase(): ExpressionResult {
+    const invalid = { success: false, error: "Invalid CASE expression" } as const;
+
+    let operand: Expression | null = null;
+    if (!this.peekTokenIs(TokenType.WHEN)) {
+      this.nextToken();
+      const operandResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!operandResult.success) return operandResult;
+      operand = operandResult.expression;
+    }
+
+    const branches: CaseBranch[] = [];
+    while (this.expectPeek(TokenType.WHEN)) {
+      this.nextToken();
+      const whenResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!whenResult.success) return whenResult;
+      if (!this.expectPeek(TokenType.THEN)) return invalid;
+
+      this.nextToken();
+      const thenResult = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!thenResult.success) return thenResult;
+      branches.push({ when: whenResult.expression, then: thenResult.expression });
+    }
+    if (branches.length === 0) return invalid;
+
+    let elseResult: Expression | null = null;
+    if (this.expectPeek(TokenType.ELSE)) {
+      this.nextToken();
+      const result = this.parseExpression(PRECEDENCE.LOWEST);
+      if (!result.success) return result;
+      elseResult = result.expression;
+    }
+
+    if (!this.expectPeek(TokenType.END)) return invalid;
+    return { success: true, expression: { type: "CASE", operand, branches, elseResult } };
+  }
+
+  /**
+   * <式> IS [NOT] NULL / <式> IS [NOT] DISTINCT FROM <式>
+   * 呼び出し時は IS、戻ったときは NULL か右辺の最後のトークンにいる
+   */
+  private parseIs(left: Expression): ExpressionResult {
+    const negated = this.peekTokenIs(TokenType.NOT);
+    if (negated) this.nextToken();
+
+    if (this.expectPeek(TokenType.NULL_KW)) {
+      const operator = negated ? "IS NOT NULL" : "IS NULL";
+      return { success: true, expression: { type: "UNARY", operator, operand: left } };
+    }
+    if (!this.expectPeek(TokenType.DISTINCT) || !this.expectPeek(TokenType.FROM)) {
+      return { success: false, error: "Invalid IS expression" };
+    }
+    this.nextToken();
+    const rightResult = this.parseExpression(PRECEDENCE.COMPARISON);
+    if (!rightResult.success) return rightResult;
+    const operator = negated ? "IS NOT DISTINCT FROM" : "IS DISTINCT FROM";
+    return { success: true, expression: { type: "BINARY", operator, left, right: rightResult.expression } };
+  }
+
+  private parseBinaryOperator(): BinaryOperator | null {
+    switch (this.currentToken.type) {
+      case TokenType.AND:
+        return "AND";
+      case TokenType.OR:
+        return "OR";
+      case TokenType.PLUS:
+        return "+";
+      case TokenType.MINUS:
+        return "-";
+      case TokenType.ASTERISK:
+        return "*";
+      case TokenType.SLASH:
+        return "/";
+      case TokenType.PERCENT:
+        return "%";
+      case TokenType.CONCAT:
+        return "||";
+      default:
+        return this.parseOperator();
+    }
+  }
+
+  private parseOperator(): ComparisonOperator | null {
     switch (this.currentToken.type) {
       case TokenType.EQ:
         return "=";
@@ -440,17 +1554,28 @@ class SqlParser {
   // 値パーサー
   // ============================================================
 
-  private parseValue(): string | number | null {
+  /**
+   * リテラルの値を読む (NULL なら null、値でなければ undefined)
+   */
+  private parseValue(): LiteralValue | null | undefined {
+    if (this.curTokenIs(TokenType.NULL_KW)) return null;
     if (this.curTokenIs(TokenType.STRING)) {
       return this.currentToken.literal;
     }
+    if (this.curTokenIs(TokenType.BLOB)) {
+      return Uint8Array.from(this.currentToken.literal.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+    }
+    if (this.curTokenIs(TokenType.TRUE_KW)) return true;
+    if (this.curTokenIs(TokenType.FALSE_KW)) return false;
+    // 負の数 (-<数値>)
+    if (this.curTokenIs(TokenType.MINUS) && this.peekTokenIs(TokenType.NUMBER)) {
+      this.nextToken();
+      const value = this.parseValue();
+      return typeof value === "number" || typeof value === "bigint" ? -value : undefined;
+    }
     if (this.curTokenIs(TokenType.NUMBER)) {
-      const num = Number(this.currentToken.literal);
-      if (!Number.isNaN(num) && Number.isInteger(num)) {
-        return num;
-      }
-      return null;
+      return parseNumber(this.currentToken.literal);
     }
-    return null;
+    return undefined;
   }
 }
@@ -14,18 +14,58 @@ export const SpecialTokens = {
 export const SqlKeywords = {
   CREATE: "CREATE",
   TABLE: "TABLE",
+  INDEX: "INDEX",
+  ON: "ON",
+  DROP: "DROP",
   INSERT: "INSERT",
   INTO: "INTO",
   VALUES: "VALUES",
   SELECT: "SELECT",
+  UPDATE: "UPDATE",
+  SET: "SET",
+  DELETE: "DELETE",
+  BEGIN: "BEGIN",
+  TRANSACTION: "TRANSACTION",
+  COMMIT: "COMMIT",
+  ROLLBACK: "ROLLBACK",
+  PRAGMA: "PRAGMA",
+  CHECKPOINT: "CHECKPOINT",
+  EXPLAIN: "EXPLAIN",
+  ANALYZE: "ANALYZE",
   FROM: "FROM",
   WHERE: "WHERE",
+  JOIN: "JOIN",
+  INNER: "INNER",
+  LEFT: "LEFT",
+  OUTER: "OUTER",
+  AS: "AS",
+  CASE: "CASE",
+  WHEN: "WHEN",
+  THEN: "THEN",
+  ELSE: "ELSE",
+  END: "END",
   AND: "AND",
+  OR: "OR",
+  ORDER: "ORDER",
+  GROUP: "GROUP",
+  BY: "BY",
+  HAVING: "HAVING",
+  ASC: "ASC",
+  DESC: "DESC",
+  LIMIT: "LIMIT",
+  OFFSET: "OFFSET",
   PRIMARY: "PRIMARY",
   KEY: "KEY",
   NOT: "NOT",
+  IS: "IS",
+  DISTINCT: "DISTINCT",
   NULL_KW: "NULL",
+  TRUE_KW: "TRUE",
+  FALSE_KW: "FALSE",
   UNIQUE: "UNIQUE",
+  DEFAULT: "DEFAULT",
+  CHECK: "CHECK",
+  CURRENT_TIMESTAMP: "CURRENT_TIMESTAMP",
   INT_KW: "INT",
   INTEGER_KW: "INTEGER",
   TEXT_KW: "TEXT",
@@ -42,6 +82,11 @@ export const Operators = {
   LT: "<",
   GTE: ">=",
   LTE: "<=",
+  PLUS: "+",
+  MINUS: "-",
+  SLASH: "/",
+  PERCENT: "%",
+  CONCAT: "||",
 } as const;
 
 // ============================================================
@@ -54,6 +99,7 @@ export const Delimiters = {
   COMMA: ",",
   SEMICOLON: ";",
   ASTERISK: "*",
+  DOT: ".",
 } as const;
 
 // ============================================================
@@ -64,6 +110,7 @@ export const Literals = {
   IDENT: "IDENT",
   NUMBER: "NUMBER",
   STRING: "STRING",
+  BLOB: "BLOB", // X'..' (literal は16進数の部分)
 } as const;
 
 // ============================================================
@@ -93,18 +140,58 @@ export class Token {
   static keywords: Record<string, TokenType> = {
     CREATE: TokenType.CREATE,
     TABLE: TokenType.TABLE,
+    INDEX: TokenType.INDEX,
+    ON: TokenType.ON,
+    DROP: TokenType.DROP,
     INSERT: TokenType.INSERT,
     INTO: TokenType.INTO,
     VALUES: TokenType.VALUES,
     SELECT: TokenType.SELECT,
+    UPDATE: TokenType.UPDATE,
+    SET: TokenType.SET,
+    DELETE: TokenType.DELETE,
+    BEGIN: TokenType.BEGIN,
+    TRANSACTION: TokenType.TRANSACTION,
+    COMMIT: TokenType.COMMIT,
+    ROLLBACK: TokenType.ROLLBACK,
+    PRAGMA: TokenType.PRAGMA,
+    CHECKPOINT: TokenType.CHECKPOINT,
+    EXPLAIN: TokenType.EXPLAIN,
+    ANALYZE: TokenType.ANALYZE,
     FROM: TokenType.FROM,
     WHERE: TokenType.WHERE,
+    JOIN: TokenType.JOIN,
+    INNER: TokenType.INNER,
+    LEFT: TokenType.LEFT,
+    OUTER: TokenType.OUTER,
+    AS: TokenType.AS,
+    CASE: TokenType.CASE,
+    WHEN: TokenType.WHEN,
+    THEN: TokenType.THEN,
+    ELSE: TokenType.ELSE,
+    END: TokenType.END,
     AND: TokenType.AND,
+    OR: TokenType.OR,
+    ORDER: TokenType.ORDER,
+    GROUP: TokenType.GROUP,
+    BY: TokenType.BY,
+    HAVING: TokenType.HAVING,
+    ASC: TokenType.ASC,
+    DESC: TokenType.DESC,
+    LIMIT: TokenType.LIMIT,
+    OFFSET: TokenType.OFFSET,
     PRIMARY: TokenType.PRIMARY,
     KEY: TokenType.KEY,
     NOT: TokenType.NOT,
+    IS: TokenType.IS,
+    DISTINCT: TokenType.DISTINCT,
     NULL: TokenType.NULL_KW,
+    TRUE: TokenType.TRUE_KW,
+    FALSE: TokenType.FALSE_KW,
     UNIQUE: TokenType.UNIQUE,
+    DEFAULT: TokenType.DEFAULT,
+    CHECK: TokenType.CHECK,
+    CURRENT_TIMESTAMP: TokenType.CURRENT_TIMESTAMP,
     INT: TokenType.INT_KW,
     INTEGER: TokenType.INTEGER_KW,
     TEXT: TokenType.TEXT_KW,
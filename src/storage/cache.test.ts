@@ -0,0 +1,113 @@
+import { describe, test, expect } from "bun:test";
+import { PageCache } from "./cache.ts";
+
+function page(fill: number): Buffer {
+  return Buffer.alloc(16, fill);
+}
+
+/** 書き戻されたページを記録するキャッシュを作る */
+function createCache(capacity: number): { cache: PageCache; written: [number, number][] } {
+  const written: [number, number][] = [];
+  const cache = new PageCache(capacity, (pageNum, data) => written.push([pageNum, data[0]]));
+  return { cache, written };
+}
+
+// ============================================================
+// LRU
+// ============================================================
+
+describe("LRU", () => {
+  test("ヒットとミスが数えられる", () => {
+    const { cache } = createCache(4);
+    expect(cache.get(1)).toBeUndefined();
+    cache.put(1, page(1), false);
+    expect(cache.get(1)![0]).toBe(1);
+    expect(cache.get(1)![0]).toBe(1);
+
+    const stats = cache.getStats();
+    expect(stats.hits).toBe(2);
+    expect(stats.misses).toBe(1);
+    expect(stats.size).toBe(1);
+    expect(stats.capacity).toBe(4);
+
+    cache.resetStats();
+    expect(cache.getStats().hits).toBe(0);
+  });
+
+  test("容量を超えると最も長く使われていないページが追い出される", () => {
+    const { cache } = createCache(2);
+    cache.put(1, page(1), false);
+    cache.put(2, page(2), false);
+    cache.get(1); // 1 を最新にする
+    cache.put(3, page(3), false);
+
+    expect(cache.peek(1)).toBeDefined();
+    expect(cache.peek(2)).toBeUndefined();
+    expect(cache.peek(3)).toBeDefined();
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  test("peek は統計と順序を変えない", () => {
+    const { cache } = createCache(2);
+    cache.put(1, page(1), false);
+    cache.put(2, page(2), false);
+    cache.peek(1);
+    cache.put(3, page(3), false);
+
+    expect(cache.peek(1)).toBeUndefined();
+    expect(cache.getStats().hits).toBe(0);
+  });
+});
+
+// ============================================================
+// dirty ページの書き戻し
+// ============================================================
+
+describe("dirty ページの書き戻し", () => {
+  test("dirty なページだけが追い出し時に書き戻される", () => {
+    const { cache, written } = createCache(1);
+    cache.put(1, page(1), false);
+    cache.put(2, page(2), true);
+    expect(written).toEqual([]);
+
+    cache.put(3, page(3), false);
+    expect(written).toEqual([[2, 2]]);
+  });
+
+  test("flush で dirty なページがページ番号順に書き戻され clean になる", () => {
+    const { cache, written } = createCache(4);
+    cache.put(3, page(3), true);
+    cache.put(1, page(1), true);
+    cache.put(2, page(2), false);
+    expect(cache.getStats().dirty).toBe(2);
+
+    cache.flush();
+    expect(written).toEqual([[1, 1], [3, 3]]);
+    expect(cache.getStats().dirty).toBe(0);
+
+    cache.flush();
+    expect(written.length).toBe(2);
+  });
+
+  test("clean で上書きしても dirty は保たれる", () => {
+    const { cache, written } = createCache(4);
+    cache.put(1, page(1), true);
+    cache.put(1, page(5), false);
+    cache.flush();
+    expect(written).toEqual([[1, 5]]);
+  });
+
+  test("discardFrom / clear は書き戻さずに捨てる", () => {
+    const { cache, written } = createCache(4);
+    cache.put(1, page(1), true);
+    cache.put(2, page(2), true);
+    cache.put(3, page(3), true);
+
+    cache.discardFrom(2);
+    expect(cache.getStats().size).toBe(1);
+
+    cache.clear();
+    cache.flush();
+    expect(written).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+// ============================================================
+// ページキャッシュ (バッファプール)
+//
+// 最近使ったページをメモリに保持し、同じページの readSync を省く。
+// Map の挿入順を LRU の順序として使う (先頭 = 最も古い)。
+// 書き換えたページは dirty として保持し、flush() または追い出し時に
+// writeBack コールバックで書き戻す。
+// ============================================================
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number; // 現在キャッシュしているページ数
+  capacity: number; // 最大ページ数
+  dirty: number; // 書き戻し待ちのページ数
+};
+
+type CacheEntry = {
+  data: Buffer;
+  dirty: boolean;
+};
+
+export class PageCache {
+  private readonly capacity: number;
+  private readonly writeBack: (pageNum: number, data: Buffer) => void;
+  private entries: Map<number, CacheEntry> = new Map();
+
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(capacity: number, writeBack: (pageNum: number, data: Buffer) => void) {
+    this.capacity = capacity;
+    this.writeBack = writeBack;
+  }
+
+  /**
+   * キャッシュ上のページを返す (なければ undefined)
+   * ヒットしたページは LRU の末尾 (最新) に移動する
+   */
+  get(pageNum: number): Buffer | undefined {
+    const entry = this.entries.get(pageNum);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.entries.delete(pageNum);
+    this.entries.set(pageNum, entry);
+    return entry.data;
+  }
+
+  /**
+   * 統計や LRU の順序に影響を与えずにページを覗く
+   */
+  peek(pageNum: number): Buffer | undefined {
+    return this.entries.get(pageNum)?.data;
+  }
+
+  /**
+   * ページを登録する。容量を超えたら最も古いページを追い出す
+   * (dirty なら書き戻してから捨てる)
+   */
+  put(pageNum: number, data: Buffer, dirty: boolean): void {
+    const existing = this.entries.get(pageNum);
+    this.entries.delete(pageNum);
+    this.entries.set(pageNum, { data, dirty: dirty || (existing?.dirty ?? false) });
+
+    while (this.entries.size > this.capacity) {
+      const [oldestNum, oldest] = this.entries.entries().next().value!;
+      this.entries.delete(oldestNum);
+      if (oldest.dirty) {
+        this.writeBack(oldestNum, oldest.data);
+      }
+      this.evictions++;
+    }
+  }
+
+  /**
+   * dirty なページをすべて書き戻す (ページ番号順)
+   */
+  flush(): void {
+    const dirtyPages = [...this.entries].filter(([, entry]) => entry.dirty).sort(([a], [b]) => a - b);
+    for (const [pageNum, entry] of dirtyPages) {
+      this.writeBack(pageNum, entry.data);
+      entry.dirty = false;
+    }
+  }
+
+  /**
+   * 指定ページ番号以降のページを書き戻さずに捨てる (ファイルの切り詰めに合わせる)
+   */
+  discardFrom(pageNum: number): void {
+    for (const num of [...this.entries.keys()]) {
+      if (num >= pageNum) this.entries.delete(num);
+    }
+  }
+
+  /**
+   * すべてのページを書き戻さずに捨てる (ロールバック後など)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): CacheStats {
+    let dirty = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.dirty) dirty++;
+    }
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      capacity: this.capacity,
+      dirty,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+}
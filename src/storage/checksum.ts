@@ -0,0 +1,19 @@
+// ============================================================
+// チェックサム
+//
+// ジャーナル・WAL のレコードが最後まで書かれているか、
+// 別のページの内容と取り違えていないかを確認するために使う
+// ============================================================
+
+/**
+ * FNV-1a (32bit) によるチェックサム
+ * seed にページ番号や直前レコードのチェックサムを渡して連鎖させられる
+ */
+export function checksum(data: Buffer, seed: number): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data[i];
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,113 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { Journal } from "./journal.ts";
+import { openSync, closeSync, readSync, writeSync, fstatSync, unlinkSync, existsSync, truncateSync, statSync } from "node:fs";
+
+const TEST_DB = "/tmp/test_journal.db";
+const TEST_JOURNAL = "/tmp/test_journal.db-journal";
+const PAGE_SIZE = 512;
+
+afterEach(() => {
+  for (const path of [TEST_DB, TEST_JOURNAL]) {
+    if (existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+});
+
+/** 各ページの先頭バイトにページ番号 + fill を書いたファイルを作る */
+function createDbFile(pageCount: number, fill: number): number {
+  const fd = openSync(TEST_DB, "w+");
+  for (let i = 0; i < pageCount; i++) {
+    writeSync(fd, Buffer.alloc(PAGE_SIZE, i + fill), 0, PAGE_SIZE, i * PAGE_SIZE);
+  }
+  return fd;
+}
+
+function readFirstByte(fd: number, pageNum: number): number {
+  const buf = Buffer.alloc(1);
+  readSync(fd, buf, 0, 1, pageNum * PAGE_SIZE);
+  return buf[0];
+}
+
+// ============================================================
+// 書き戻し
+// ============================================================
+
+describe("Journal.rollback", () => {
+  test("退避したページが書き戻され、追加ページは切り捨てられる", () => {
+    const fd = createDbFile(3, 10);
+
+    const journal = Journal.create(TEST_JOURNAL, PAGE_SIZE, 3);
+    const original = Buffer.alloc(PAGE_SIZE);
+    readSync(fd, original, 0, PAGE_SIZE, PAGE_SIZE);
+    journal.append(1, original);
+    journal.close();
+
+    // 本体を書き換え、ページを1つ追加
+    writeSync(fd, Buffer.alloc(PAGE_SIZE, 99), 0, PAGE_SIZE, PAGE_SIZE);
+    writeSync(fd, Buffer.alloc(PAGE_SIZE, 99), 0, PAGE_SIZE, 3 * PAGE_SIZE);
+
+    const result = Journal.rollback(TEST_JOURNAL, fd);
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data).toBe(true);
+
+    expect(readFirstByte(fd, 1)).toBe(11);
+    expect(fstatSync(fd).size).toBe(3 * PAGE_SIZE);
+    expect(existsSync(TEST_JOURNAL)).toBe(false);
+
+    closeSync(fd);
+  });
+
+  test("ジャーナルがなければ何もしない", () => {
+    const fd = createDbFile(2, 0);
+
+    const result = Journal.rollback(TEST_JOURNAL, fd);
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data).toBe(false);
+
+    closeSync(fd);
+  });
+
+  test("書きかけの末尾レコードは無視される", () => {
+    const fd = createDbFile(3, 10);
+
+    const journal = Journal.create(TEST_JOURNAL, PAGE_SIZE, 3);
+    journal.append(1, Buffer.alloc(PAGE_SIZE, 11));
+    journal.append(2, Buffer.alloc(PAGE_SIZE, 12));
+    journal.close();
+
+    // 2件目のレコードの途中でクラッシュした状態を再現
+    truncateSync(TEST_JOURNAL, statSync(TEST_JOURNAL).size - 100);
+
+    writeSync(fd, Buffer.alloc(PAGE_SIZE, 99), 0, PAGE_SIZE, PAGE_SIZE);
+
+    const result = Journal.rollback(TEST_JOURNAL, fd);
+    expect(result.success).toBe(true);
+
+    expect(readFirstByte(fd, 1)).toBe(11);
+    expect(readFirstByte(fd, 2)).toBe(12);
+
+    closeSync(fd);
+  });
+
+  test("ヘッダーが壊れたジャーナルは破棄される", () => {
+    const fd = createDbFile(2, 10);
+
+    const journal = Journal.create(TEST_JOURNAL, PAGE_SIZE, 2);
+    journal.append(1, Buffer.alloc(PAGE_SIZE, 0));
+    journal.close();
+
+    const jfd = openSync(TEST_JOURNAL, "r+");
+    writeSync(jfd, Buffer.from([0xff]), 0, 1, 8);
+    closeSync(jfd);
+
+    const result = Journal.rollback(TEST_JOURNAL, fd);
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data).toBe(false);
+
+    expect(readFirstByte(fd, 1)).toBe(11);
+    expect(existsSync(TEST_JOURNAL)).toBe(false);
+
+    closeSync(fd);
+  });
+});
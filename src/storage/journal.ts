@@ -0,0 +1,146 @@
+import { openSync, closeSync, readSync, writeSync, fsyncSync, ftruncateSync, fstatSync, unlinkSync, existsSync } from "node:fs";
+import type { PagerResult } from "./pager.ts";
+import { checksum } from "./checksum.ts";
+
+// ============================================================
+// ロールバックジャーナル
+//
+// トランザクション中に初めて書き換えるページの「変更前の内容」を
+// 本体ファイルより先にジャーナルへ書き出し、fsync しておく。
+// 途中でクラッシュしてもジャーナルを書き戻せば変更前の状態に戻せる。
+//
+// ファイルレイアウト:
+//   ヘッダー (16 bytes)
+//     [0..3]   u32  マジックナンバー 0x534C4A52 ("SLJR")
+//     [4..7]   u32  ページサイズ
+//     [8..11]  u32  トランザクション開始時の総ページ数
+//     [12..15] u32  ヘッダーのチェックサム
+//   レコードの配列 (各 8 + pageSize bytes)
+//     [0..3]   u32  ページ番号
+//     [4..7]   u32  チェックサム (ページ番号 + ページ内容)
+//     [8..]    変更前のページ内容
+// ============================================================
+
+const JOURNAL_MAGIC = 0x534c4a52; // "SLJR"
+const JOURNAL_HEADER_SIZE = 16;
+const RECORD_HEADER_SIZE = 8;
+
+export class Journal {
+  private fd: number;
+  private readonly path: string;
+  private readonly pageSize: number;
+  private offset: number;
+
+  private constructor(fd: number, path: string, pageSize: number) {
+    this.fd = fd;
+    this.path = path;
+    this.pageSize = pageSize;
+    this.offset = JOURNAL_HEADER_SIZE;
+  }
+
+  /**
+   * 新しいジャーナルを作成し、ヘッダーを fsync する
+   */
+  static create(path: string, pageSize: number, originalTotalPages: number): Journal {
+    const fd = openSync(path, "w+");
+
+    const header = Buffer.alloc(JOURNAL_HEADER_SIZE, 0);
+    header.writeUInt32LE(JOURNAL_MAGIC, 0);
+    header.writeUInt32LE(pageSize, 4);
+    header.writeUInt32LE(originalTotalPages, 8);
+    header.writeUInt32LE(checksum(header.subarray(0, 12), 0), 12);
+    writeSync(fd, header, 0, JOURNAL_HEADER_SIZE, 0);
+    fsyncSync(fd);
+
+    return new Journal(fd, path, pageSize);
+  }
+
+  /**
+   * 変更前のページ内容を追記し、本体ファイルに触れる前に fsync する
+   */
+  append(pageNum: number, original: Buffer): void {
+    const record = Buffer.alloc(RECORD_HEADER_SIZE + this.pageSize, 0);
+    record.writeUInt32LE(pageNum, 0);
+    record.writeUInt32LE(checksum(original, pageNum), 4);
+    original.copy(record, RECORD_HEADER_SIZE, 0, this.pageSize);
+
+    writeSync(this.fd, record, 0, record.length, this.offset);
+    this.offset += record.length;
+    fsyncSync(this.fd);
+  }
+
+  /**
+   * ジャーナルを閉じる (ファイルは残す)
+   */
+  close(): void {
+    closeSync(this.fd);
+  }
+
+  /**
+   * ジャーナルを閉じて削除する (= コミット完了)
+   */
+  delete(): void {
+    this.close();
+    if (existsSync(this.path)) {
+      unlinkSync(this.path);
+    }
+  }
+
+  /**
+   * ジャーナルの内容を本体ファイルに書き戻し、ジャーナルを削除する
+   *
+   * ヘッダーが壊れている場合は本体ファイルに一度も書き込んでいない
+   * (ヘッダーの fsync 前にクラッシュした) ので、ジャーナルを捨てるだけでよい。
+   * 末尾のレコードが途中までしか書かれていない場合も同様に、そのページは
+   * まだ本体で書き換えられていないので無視する。
+   *
+   * 戻り値は書き戻しを行ったかどうか
+   */
+  static rollback(path: string, dbFd: number): PagerResult<boolean> {
+    if (!existsSync(path)) {
+      return { success: true, data: false };
+    }
+
+    const fd = openSync(path, "r");
+    const fileSize = fstatSync(fd).size;
+
+    const header = Buffer.alloc(JOURNAL_HEADER_SIZE, 0);
+    const headerBytes = readSync(fd, header, 0, JOURNAL_HEADER_SIZE, 0);
+    const valid =
+      headerBytes === JOURNAL_HEADER_SIZE &&
+      header.readUInt32LE(0) === JOURNAL_MAGIC &&
+      header.readUInt32LE(12) === checksum(header.subarray(0, 12), 0);
+
+    if (!valid) {
+      closeSync(fd);
+      unlinkSync(path);
+      return { success: true, data: false };
+    }
+
+    const pageSize = header.readUInt32LE(4);
+    const originalTotalPages = header.readUInt32LE(8);
+    const record = Buffer.alloc(RECORD_HEADER_SIZE + pageSize);
+
+    let offset = JOURNAL_HEADER_SIZE;
+    while (offset + record.length <= fileSize) {
+      readSync(fd, record, 0, record.length, offset);
+      offset += record.length;
+
+      const pageNum = record.readUInt32LE(0);
+      const data = record.subarray(RECORD_HEADER_SIZE);
+      if (record.readUInt32LE(4) !== checksum(data, pageNum)) {
+        break;
+      }
+
+      writeSync(dbFd, data, 0, pageSize, pageNum * pageSize);
+    }
+
+    // トランザクション中に追加されたページを切り捨てる
+    ftruncateSync(dbFd, originalTotalPages * pageSize);
+    fsyncSync(dbFd);
+
+    closeSync(fd);
+    unlinkSync(path);
+    return { success: true, data: true };
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { Pager, PAGE_TYPE } from "./pager.ts";
+import { writeOverflowChain, readOverflowChain, freeOverflowChain } from "./overflow.ts";
+import { unlinkSync, existsSync } from "node:fs";
+
+const TEST_DB = "/tmp/test_overflow.db";
+
+afterEach(() => {
+  if (existsSync(TEST_DB)) {
+    unlinkSync(TEST_DB);
+  }
+});
+
+function openPager(): Pager {
+  const result = Pager.open(TEST_DB);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+// ============================================================
+// チェーンの読み書き
+// ============================================================
+
+describe("オーバーフローチェーン", () => {
+  test("複数ページにまたがるデータを書き出して読み戻せる", () => {
+    const pager = openPager();
+    const data = Buffer.alloc(10000);
+    for (let i = 0; i < data.length; i++) data[i] = i % 251;
+
+    const writeResult = writeOverflowChain(pager, data);
+    expect(writeResult.success).toBe(true);
+    if (!writeResult.success) return;
+
+    // 4089 bytes/ページ → 3 ページ
+    expect(pager.getHeader().totalPages).toBe(5);
+    const firstPage = pager.readPage(writeResult.data);
+    expect(firstPage.success && firstPage.data[0]).toBe(PAGE_TYPE.OVERFLOW);
+
+    const readResult = readOverflowChain(pager, writeResult.data, data.length);
+    expect(readResult.success).toBe(true);
+    if (readResult.success) {
+      expect(readResult.data.equals(data)).toBe(true);
+    }
+
+    pager.close();
+  });
+
+  test("解放したページはフリーリストに戻る", () => {
+    const pager = openPager();
+    const writeResult = writeOverflowChain(pager, Buffer.alloc(10000, 1));
+    if (!writeResult.success) throw new Error(writeResult.error);
+
+    expect(freeOverflowChain(pager, writeResult.data).success).toBe(true);
+    expect(pager.getHeader().freePageCount).toBe(3);
+
+    pager.close();
+  });
+
+  test("オーバーフローページ以外をたどるとエラー", () => {
+    const pager = openPager();
+
+    const readResult = readOverflowChain(pager, 1, 100);
+    expect(readResult.success).toBe(false);
+    if (!readResult.success) {
+      expect(readResult.error).toContain("not an overflow page");
+    }
+
+    pager.close();
+  });
+});
@@ -0,0 +1,105 @@
+import { PAGE_TYPE } from "./pager.ts";
+import type { Pager, PagerResult } from "./pager.ts";
+
+// ============================================================
+// オーバーフローページ
+//
+// リーフに収まらない大きな値は、先頭から順にオーバーフローページの
+// チェーンに書き出し、リーフには先頭ページ番号とバイト数だけを残す。
+//
+// ページレイアウト:
+//   [0]      u8   ページタイプ (0x05)
+//   [1..4]   u32  次のオーバーフローページ番号 (0 = 終端)
+//   [5..6]   u16  このページに格納したバイト数
+//   [7..]    データ
+// ============================================================
+
+const OVERFLOW_NEXT_OFFSET = 1;
+const OVERFLOW_LENGTH_OFFSET = 5;
+const OVERFLOW_HEADER_SIZE = 7;
+
+/**
+ * データをオーバーフローページのチェーンに書き出し、先頭ページ番号を返す
+ */
+export function writeOverflowChain(pager: Pager, data: Buffer): PagerResult<number> {
+  const pageSize = pager.getPageSize();
+  const chunkSize = pageSize - OVERFLOW_HEADER_SIZE;
+  const chunkCount = Math.max(1, Math.ceil(data.length / chunkSize));
+
+  // 次ページ番号を書けるよう、先にチェーン全体のページを確保する
+  const pageNums: number[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    const allocResult = pager.allocatePage();
+    if (!allocResult.success) return allocResult;
+    pageNums.push(allocResult.data);
+  }
+
+  for (let i = 0; i < chunkCount; i++) {
+    const chunk = data.subarray(i * chunkSize, (i + 1) * chunkSize);
+    const page = Buffer.alloc(pageSize, 0);
+    page.writeUInt8(PAGE_TYPE.OVERFLOW, 0);
+    page.writeUInt32LE(pageNums[i + 1] ?? 0, OVERFLOW_NEXT_OFFSET);
+    page.writeUInt16LE(chunk.length, OVERFLOW_LENGTH_OFFSET);
+    chunk.copy(page, OVERFLOW_HEADER_SIZE);
+
+    const writeResult = pager.writePage(pageNums[i], page);
+    if (!writeResult.success) return writeResult;
+  }
+
+  return { success: true, data: pageNums[0] };
+}
+
+/**
+ * チェーンをたどって length バイトのデータを読み出す
+ */
+export function readOverflowChain(pager: Pager, firstPageNum: number, length: number): PagerResult<Buffer> {
+  const data = Buffer.alloc(length);
+  let offset = 0;
+  let pageNum = firstPageNum;
+
+  while (offset < length) {
+    if (pageNum === 0) {
+      return { success: false, error: `Overflow chain ended early (${offset} of ${length} bytes)` };
+    }
+
+    const readResult = readOverflowPage(pager, pageNum);
+    if (!readResult.success) return readResult;
+
+    const page = readResult.data;
+    const chunkLength = page.readUInt16LE(OVERFLOW_LENGTH_OFFSET);
+    page.copy(data, offset, OVERFLOW_HEADER_SIZE, OVERFLOW_HEADER_SIZE + Math.min(chunkLength, length - offset));
+    offset += chunkLength;
+    pageNum = page.readUInt32LE(OVERFLOW_NEXT_OFFSET);
+  }
+
+  return { success: true, data };
+}
+
+/**
+ * チェーンのページをすべてフリーリストに戻す
+ */
+export function freeOverflowChain(pager: Pager, firstPageNum: number): PagerResult<void> {
+  let pageNum = firstPageNum;
+
+  while (pageNum !== 0) {
+    const readResult = readOverflowPage(pager, pageNum);
+    if (!readResult.success) return readResult;
+
+    const next = readResult.data.readUInt32LE(OVERFLOW_NEXT_OFFSET);
+    const freeResult = pager.freePage(pageNum);
+    if (!freeResult.success) return freeResult;
+    pageNum = next;
+  }
+
+  return { success: true, data: undefined };
+}
+
+function readOverflowPage(pager: Pager, pageNum: number): PagerResult<Buffer> {
+  const readResult = pager.readPage(pageNum);
+  if (!readResult.success) return readResult;
+
+  if (readResult.data.readUInt8(0) !== PAGE_TYPE.OVERFLOW) {
+    return { success: false, error: `Page ${pageNum} is not an overflow page` };
+  }
+  return readResult;
+}
@@ -1,12 +1,17 @@
 import { describe, test, expect, afterEach } from "bun:test";
 import { Pager, PAGE_TYPE } from "./pager.ts";
-import { unlinkSync, existsSync } from "node:fs";
+import { unlinkSync, existsSync, copyFileSync, statSync } from "node:fs";
 
 const TEST_DB = "/tmp/test_pager.db";
+const CRASH_DB = "/tmp/test_pager_crash.db";
 
 afterEach(() => {
-  if (existsSync(TEST_DB)) {
-    unlinkSync(TEST_DB);
+  for (const db of [TEST_DB, CRASH_DB]) {
+    for (const path of [db, `${db}-journal`, `${db}-wal`]) {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
   }
 });
 
@@ -126,6 +131,142 @@ describe("ページ割り当て", () => {
   });
 });
 
+// ============================================================
+// フリーリスト
+// ============================================================
+
+describe("フリーリスト", () => {
+  test("解放したページが次の allocatePage で再利用される", () => {
+    const result = Pager.open(TEST_DB);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const pager = result.data;
+    pager.allocatePage(); // page 2
+    pager.allocatePage(); // page 3
+
+    expect(pager.freePage(2).success).toBe(true);
+    expect(pager.getHeader().freeListTrunk).toBe(2);
+    expect(pager.getHeader().freePageCount).toBe(1);
+
+    const reused = pager.allocatePage();
+    expect(reused.success).toBe(true);
+    if (reused.success) expect(reused.data).toBe(2);
+
+    // ファイルは伸びていない
+    expect(pager.getHeader().totalPages).toBe(4);
+    expect(pager.getHeader().freeListTrunk).toBe(0);
+    expect(pager.getHeader().freePageCount).toBe(0);
+
+    pager.close();
+  });
+
+  test("trunk ページにページタイプと空きページ番号が記録される", () => {
+    const result = Pager.open(TEST_DB);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const pager = result.data;
+    for (let i = 0; i < 3; i++) pager.allocatePage(); // page 2, 3, 4
+
+    pager.freePage(2); // trunk になる
+    pager.freePage(4); // trunk に追記される
+
+    const trunkResult = pager.readPage(2);
+    expect(trunkResult.success).toBe(true);
+    if (!trunkResult.success) return;
+
+    expect(trunkResult.data.readUInt8(0)).toBe(PAGE_TYPE.FREE_LIST);
+    expect(trunkResult.data.readUInt32LE(1)).toBe(0);  // 次の trunk なし
+    expect(trunkResult.data.readUInt32LE(5)).toBe(1);  // 空きページ数
+    expect(trunkResult.data.readUInt32LE(9)).toBe(4);
+
+    // trunk の中身 → trunk 自体の順に再利用される
+    const first = pager.allocatePage();
+    const second = pager.allocatePage();
+    const third = pager.allocatePage();
+    expect(first.success && first.data).toBe(4);
+    expect(second.success && second.data).toBe(2);
+    expect(third.success && third.data).toBe(5);
+
+    pager.close();
+  });
+
+  test("trunk が満杯になると新しい trunk がチェーンされる", () => {
+    const result = Pager.open(TEST_DB, 512);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    // 512 バイトページの trunk には (512 - 9) / 4 = 125 件まで入る
+    const pager = result.data;
+    const pages: number[] = [];
+    for (let i = 0; i < 130; i++) {
+      const alloc = pager.allocatePage();
+      if (alloc.success) pages.push(alloc.data);
+    }
+    for (const pageNum of pages) {
+      expect(pager.freePage(pageNum).success).toBe(true);
+    }
+
+    const header = pager.getHeader();
+    expect(header.freePageCount).toBe(130);
+    expect(header.freeListTrunk).not.toBe(pages[0]);
+
+    const trunkResult = pager.readPage(header.freeListTrunk);
+    expect(trunkResult.success).toBe(true);
+    if (trunkResult.success) {
+      expect(trunkResult.data.readUInt32LE(1)).toBe(pages[0]); // 古い trunk に繋がる
+    }
+
+    // 全ページを再利用し終えるまでファイルは伸びない
+    const reused = new Set<number>();
+    for (let i = 0; i < 130; i++) {
+      const alloc = pager.allocatePage();
+      if (alloc.success) reused.add(alloc.data);
+    }
+    expect([...reused].sort((a, b) => a - b)).toEqual(pages);
+    expect(pager.getHeader().totalPages).toBe(132);
+    expect(pager.getHeader().freePageCount).toBe(0);
+
+    pager.close();
+  });
+
+  test("フリーリストがファイル再オープン後も維持される", () => {
+    const result1 = Pager.open(TEST_DB);
+    expect(result1.success).toBe(true);
+    if (!result1.success) return;
+
+    result1.data.allocatePage(); // page 2
+    result1.data.allocatePage(); // page 3
+    result1.data.freePage(3);
+    result1.data.close();
+
+    const result2 = Pager.open(TEST_DB);
+    expect(result2.success).toBe(true);
+    if (!result2.success) return;
+
+    expect(result2.data.getHeader().freeListTrunk).toBe(3);
+    expect(result2.data.getHeader().freePageCount).toBe(1);
+
+    const reused = result2.data.allocatePage();
+    expect(reused.success && reused.data).toBe(3);
+
+    result2.data.close();
+  });
+
+  test("ヘッダーページやスキーマページは解放できない", () => {
+    const result = Pager.open(TEST_DB);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    expect(result.data.freePage(0).success).toBe(false);
+    expect(result.data.freePage(1).success).toBe(false);
+    expect(result.data.freePage(999).success).toBe(false);
+
+    result.data.close();
+  });
+});
+
 // ============================================================
 // ページ読み書き
 // ============================================================
@@ -229,3 +370,378 @@ describe("ページ読み書き", () => {
     pager.close();
   });
 });
+
+// ============================================================
+// トランザクション (ロールバックジャーナル)
+// ============================================================
+
+describe("トランザクション", () => {
+  function openWithPage(fill: number): { pager: Pager; pageNum: number } {
+    const result = Pager.open(TEST_DB);
+    if (!result.success) throw new Error(result.error);
+
+    const pager = result.data;
+    const allocResult = pager.allocatePage();
+    if (!allocResult.success) throw new Error(allocResult.error);
+
+    pager.writePage(allocResult.data, Buffer.alloc(4096, fill));
+    return { pager, pageNum: allocResult.data };
+  }
+
+  test("書き込み時にジャーナルが作られ、commit で削除される", () => {
+    const { pager, pageNum } = openWithPage(1);
+
+    expect(pager.begin().success).toBe(true);
+    expect(existsSync(`${TEST_DB}-journal`)).toBe(false);
+
+    pager.writePage(pageNum, Buffer.alloc(4096, 2));
+    expect(existsSync(`${TEST_DB}-journal`)).toBe(true);
+
+    expect(pager.commit().success).toBe(true);
+    expect(existsSync(`${TEST_DB}-journal`)).toBe(false);
+
+    const readResult = pager.readPage(pageNum);
+    expect(readResult.success && readResult.data[0]).toBe(2);
+
+    pager.close();
+  });
+
+  test("rollback で変更前のページとヘッダーに戻る", () => {
+    const { pager, pageNum } = openWithPage(1);
+    pager.flush();
+    const sizeBefore = statSync(TEST_DB).size;
+
+    pager.begin();
+    pager.writePage(pageNum, Buffer.alloc(4096, 2));
+    pager.allocatePage();
+    pager.allocatePage();
+    expect(pager.getHeader().totalPages).toBe(5);
+
+    expect(pager.rollback().success).toBe(true);
+
+    expect(pager.getHeader().totalPages).toBe(3);
+    expect(statSync(TEST_DB).size).toBe(sizeBefore);
+    expect(existsSync(`${TEST_DB}-journal`)).toBe(false);
+
+    const readResult = pager.readPage(pageNum);
+    expect(readResult.success && readResult.data[0]).toBe(1);
+
+    pager.close();
+  });
+
+  test("二重の begin や トランザクション外の commit はエラー", () => {
+    const result = Pager.open(TEST_DB);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+
+    const pager = result.data;
+    expect(pager.commit().success).toBe(false);
+    expect(pager.rollback().success).toBe(false);
+
+    expect(pager.begin().success).toBe(true);
+    expect(pager.begin().success).toBe(false);
+    expect(pager.commit().success).toBe(true);
+
+    pager.close();
+  });
+
+  test("rollbackStatement で文の実行前に戻り、トランザクションは継続する", () => {
+    const { pager, pageNum } = openWithPage(1);
+
+    pager.begin();
+    pager.writePage(pageNum, Buffer.alloc(4096, 2));
+
+    expect(pager.beginStatement().success).toBe(true);
+    pager.writePage(pageNum, Buffer.alloc(4096, 3));
+    pager.allocatePage();
+    expect(pager.rollbackStatement().success).toBe(true);
+
+    // 文の直前 (= 2) に戻り、追加ページもなくなる
+    expect(pager.isInTransaction()).toBe(true);
+    expect(pager.getHeader().totalPages).toBe(3);
+    const afterStatement = pager.readPage(pageNum);
+    expect(afterStatement.success && afterStatement.data[0]).toBe(2);
+
+    // トランザクション全体のロールバックでは begin 前 (= 1) に戻る
+    pager.rollback();
+    const afterRollback = pager.readPage(pageNum);
+    expect(afterRollback.success && afterRollback.data[0]).toBe(1);
+
+    pager.close();
+  });
+
+  test("コミット前にクラッシュしたファイルは開くときに書き戻される", () => {
+    const { pager, pageNum } = openWithPage(1);
+
+    pager.begin();
+    pager.writePage(pageNum, Buffer.alloc(4096, 2));
+    pager.allocatePage();
+
+    // トランザクション途中の本体とジャーナルをコピー = クラッシュ時点のディスク
+    copyFileSync(TEST_DB, CRASH_DB);
+    copyFileSync(`${TEST_DB}-journal`, `${CRASH_DB}-journal`);
+    pager.commit();
+    pager.close();
+
+    const crashed = Pager.open(CRASH_DB);
+    expect(crashed.success).toBe(true);
+    if (!crashed.success) return;
+
+    expect(existsSync(`${CRASH_DB}-journal`)).toBe(false);
+    expect(crashed.data.getHeader().totalPages).toBe(3);
+
+    const readResult = crashed.data.readPage(pageNum);
+    expect(readResult.success && readResult.data[0]).toBe(1);
+
+    crashed.data.close();
+  });
+});
+
+// ============================================================
+// WAL モード
+// ============================================================
+
+describe("WAL モード", () => {
+  function openPager(path = TEST_DB, walAutoCheckpoint?: number): Pager {
+    const result = Pager.open(path, 4096, { walAutoCheckpoint });
+    if (!result.success) throw new Error(result.error);
+    return result.data;
+  }
+
+  test("ジャーナルモードはヘッダーに保存される", () => {
+    const pager1 = openPager();
+    expect(pager1.getJournalMode()).toBe("DELETE");
+    expect(pager1.setJournalMode("WAL").success).toBe(true);
+    expect(existsSync(`${TEST_DB}-wal`)).toBe(true);
+    pager1.close();
+
+    const pager2 = openPager();
+    expect(pager2.getJournalMode()).toBe("WAL");
+    expect(pager2.setJournalMode("DELETE").success).toBe(true);
+    expect(existsSync(`${TEST_DB}-wal`)).toBe(false);
+    pager2.close();
+
+    const pager3 = openPager();
+    expect(pager3.getJournalMode()).toBe("DELETE");
+    pager3.close();
+  });
+
+  test("コミットしたページは WAL から読まれ、本体ファイルは書き換わらない", () => {
+    const pager = openPager();
+    pager.setJournalMode("WAL");
+    const sizeBefore = statSync(TEST_DB).size;
+
+    pager.begin();
+    const allocResult = pager.allocatePage();
+    if (!allocResult.success) throw new Error(allocResult.error);
+    pager.writePage(allocResult.data, Buffer.alloc(4096, 7));
+    expect(existsSync(`${TEST_DB}-journal`)).toBe(false);
+    expect(pager.commit().success).toBe(true);
+
+    expect(statSync(TEST_DB).size).toBe(sizeBefore);
+    expect(pager.getWalFrameCount()).toBeGreaterThan(0);
+    const readResult = pager.readPage(allocResult.data);
+    expect(readResult.success && readResult.data[0]).toBe(7);
+
+    // チェックポイントで本体に反映される
+    const checkpointResult = pager.checkpoint();
+    expect(checkpointResult.success && checkpointResult.data).toBeGreaterThan(0);
+    expect(pager.getWalFrameCount()).toBe(0);
+    expect(statSync(TEST_DB).size).toBe(sizeBefore + 4096);
+
+    pager.close();
+  });
+
+  test("rollback で未コミットのページが破棄される", () => {
+    const pager = openPager();
+    pager.setJournalMode("WAL");
+    const allocResult = pager.allocatePage();
+    if (!allocResult.success) throw new Error(allocResult.error);
+    pager.writePage(allocResult.data, Buffer.alloc(4096, 1));
+    const framesBefore = pager.getWalFrameCount();
+
+    pager.begin();
+    pager.writePage(allocResult.data, Buffer.alloc(4096, 2));
+    pager.allocatePage();
+    expect(pager.rollback().success).toBe(true);
+
+    expect(pager.getWalFrameCount()).toBe(framesBefore);
+    expect(pager.getHeader().totalPages).toBe(3);
+    const readResult = pager.readPage(allocResult.data);
+    expect(readResult.success && readResult.data[0]).toBe(1);
+
+    pager.close();
+  });
+
+  test("チェックポイント前にクラッシュしてもコミット済みの変更は WAL から復元される", () => {
+    const pager = openPager();
+    pager.setJournalMode("WAL");
+
+    pager.begin();
+    const allocResult = pager.allocatePage();
+    if (!allocResult.success) throw new Error(allocResult.error);
+    pager.writePage(allocResult.data, Buffer.alloc(4096, 5));
+    pager.commit();
+
+    // 未コミットのトランザクションはディスクに現れない
+    pager.begin();
+    pager.writePage(allocResult.data, Buffer.alloc(4096, 6));
+
+    copyFileSync(TEST_DB, CRASH_DB);
+    copyFileSync(`${TEST_DB}-wal`, `${CRASH_DB}-wal`);
+    pager.rollback();
+    pager.close();
+
+    const crashed = openPager(CRASH_DB);
+    expect(crashed.getJournalMode()).toBe("WAL");
+    expect(crashed.getHeader().totalPages).toBe(3);
+    const readResult = crashed.readPage(allocResult.data);
+    expect(readResult.success && readResult.data[0]).toBe(5);
+    crashed.close();
+  });
+
+  test("フレーム数が閾値に達すると自動でチェックポイントされる", () => {
+    const pager = openPager(TEST_DB, 4);
+    pager.setJournalMode("WAL");
+
+    for (let i = 0; i < 3; i++) {
+      pager.begin();
+      pager.allocatePage();
+      pager.commit();
+      expect(pager.getWalFrameCount()).toBeLessThan(4);
+    }
+    expect(statSync(TEST_DB).size).toBeGreaterThan(2 * 4096);
+
+    pager.close();
+  });
+
+  test("トランザクション中はモード変更やチェックポイントができない", () => {
+    const pager = openPager();
+    pager.begin();
+    expect(pager.setJournalMode("WAL").success).toBe(false);
+    expect(pager.checkpoint().success).toBe(false);
+    pager.commit();
+    pager.close();
+  });
+});
+
+// ============================================================
+// ページキャッシュ
+// ============================================================
+
+describe("ページキャッシュ", () => {
+  test("同じページの読み込みはキャッシュから返される", () => {
+    const result = Pager.open(TEST_DB);
+    if (!result.success) throw new Error(result.error);
+    const pager = result.data;
+    pager.resetCacheStats();
+
+    pager.readPage(1);
+    pager.readPage(1);
+    pager.readPage(1);
+
+    const stats = pager.getCacheStats();
+    expect(stats.hits).toBeGreaterThanOrEqual(2);
+    expect(stats.misses).toBe(0);
+
+    pager.close();
+  });
+
+  test("返されたバッファを書き換えてもキャッシュには影響しない", () => {
+    const result = Pager.open(TEST_DB);
+    if (!result.success) throw new Error(result.error);
+    const pager = result.data;
+
+    const first = pager.readPage(1);
+    if (!first.success) throw new Error(first.error);
+    first.data[0] = 0xee;
+
+    const second = pager.readPage(1);
+    expect(second.success && second.data[0]).toBe(PAGE_TYPE.SCHEMA);
+
+    pager.close();
+  });
+
+  test("書き込みは flush まで本体ファイルに反映されない", () => {
+    const result = Pager.open(TEST_DB);
+    if (!result.success) throw new Error(result.error);
+    const pager = result.data;
+    pager.flush();
+    const sizeBefore = statSync(TEST_DB).size;
+
+    pager.allocatePage();
+    expect(pager.getCacheStats().dirty).toBeGreaterThan(0);
+    expect(statSync(TEST_DB).size).toBe(sizeBefore);
+
+    pager.flush();
+    expect(pager.getCacheStats().dirty).toBe(0);
+    expect(statSync(TEST_DB).size).toBe(sizeBefore + 4096);
+
+    pager.close();
+  });
+
+  test("容量を超えると追い出され、dirty なページは書き戻される", () => {
+    const result = Pager.open(TEST_DB, 4096, { cacheSize: 2 });
+    if (!result.success) throw new Error(result.error);
+    const pager = result.data;
+
+    const pageNums: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const allocResult = pager.allocatePage();
+      if (!allocResult.success) throw new Error(allocResult.error);
+      pager.writePage(allocResult.data, Buffer.alloc(4096, 10 + i));
+      pageNums.push(allocResult.data);
+    }
+
+    const stats = pager.getCacheStats();
+    expect(stats.size).toBeLessThanOrEqual(2);
+    expect(stats.evictions).toBeGreaterThan(0);
+    pager.close();
+
+    // 追い出し・close 時の書き戻しで全ページがディスクに残っている
+    const reopened = Pager.open(TEST_DB);
+    if (!reopened.success) throw new Error(reopened.error);
+    pageNums.forEach((pageNum, i) => {
+      const readResult = reopened.data.readPage(pageNum);
+      expect(readResult.success && readResult.data[0]).toBe(10 + i);
+    });
+    reopened.data.close();
+  });
+
+  test("cacheSize: 0 では毎回ファイルから読む", () => {
+    const result = Pager.open(TEST_DB, 4096, { cacheSize: 0 });
+    if (!result.success) throw new Error(result.error);
+    const pager = result.data;
+    pager.resetCacheStats();
+
+    pager.readPage(1);
+    pager.readPage(1);
+
+    const stats = pager.getCacheStats();
+    expect(stats.hits).toBe(0);
+    expect(stats.misses).toBe(2);
+    expect(stats.size).toBe(0);
+
+    pager.close();
+  });
+
+  test("rollback でキャッシュ上の未コミットの変更も破棄される", () => {
+    const result = Pager.open(TEST_DB);
+    if (!result.success) throw new Error(result.error);
+    const pager = result.data;
+    const allocResult = pager.allocatePage();
+    if (!allocResult.success) throw new Error(allocResult.error);
+    pager.writePage(allocResult.data, Buffer.alloc(4096, 1));
+
+    pager.begin();
+    pager.writePage(allocResult.data, Buffer.alloc(4096, 2));
+    const duringTx = pager.readPage(allocResult.data);
+    expect(duringTx.success && duringTx.data[0]).toBe(2);
+    pager.rollback();
+
+    const afterRollback = pager.readPage(allocResult.data);
+    expect(afterRollback.success && afterRollback.data[0]).toBe(1);
+
+    pager.close();
+  });
+});
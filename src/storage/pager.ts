@@ -1,5 +1,9 @@
 import { openSync, closeSync, readSync, writeSync, fstatSync, type BunFile } from "fs";
-import { existsSync } from "node:fs";
+import { existsSync, fsyncSync, ftruncateSync, unlinkSync } from "node:fs";
+import { Journal } from "./journal.ts";
+import { Wal } from "./wal.ts";
+import { PageCache } from "./cache.ts";
+import type { CacheStats } from "./cache.ts";
 
 // ============================================================
 // 型定義
@@ -9,20 +13,38 @@ export type PageType =
   | 0x00   // Unused
   | 0x01   // Schema
   | 0x02   // LeafNode
-  | 0x03;  // InternalNode
+  | 0x03   // InternalNode
+  | 0x04   // FreeList (trunk)
+  | 0x05;  // Overflow
 
 export const PAGE_TYPE = {
   UNUSED: 0x00 as PageType,
   SCHEMA: 0x01 as PageType,
   LEAF_NODE: 0x02 as PageType,
   INTERNAL_NODE: 0x03 as PageType,
+  FREE_LIST: 0x04 as PageType,
+  OVERFLOW: 0x05 as PageType,
 } as const;
 
+/** DELETE: ロールバックジャーナル方式, WAL: Write-Ahead Log 方式 */
+export type JournalMode = "DELETE" | "WAL";
+
 export type FileHeader = {
   magic: number;         // 0x53514C54 ("SQLT")
   pageSize: number;      // デフォルト 4096
   totalPages: number;    // ファイル内の総ページ数
   schemaPage: number;    // スキーマページ番号 (通常 1)
+  freeListTrunk: number; // 先頭のフリーリスト trunk ページ番号 (0 = なし)
+  freePageCount: number; // フリーリスト上のページ数 (trunk を含む)
+  journalMode: JournalMode; // ジャーナルモード
+  formatVersion: number; // レコード形式のバージョン (FORMAT_VERSION を参照)
+};
+
+export type PagerOptions = {
+  /** ページキャッシュに保持する最大ページ数 (0 = キャッシュしない) */
+  cacheSize?: number;
+  /** WAL のフレーム数がこの値以上になったらコミット後に自動でチェックポイントする */
+  walAutoCheckpoint?: number;
 };
 
 export type PagerResult<T> =
@@ -35,6 +57,18 @@ export type PagerResult<T> =
 
 const MAGIC_NUMBER = 0x53514C54; // "SQLT"
 const DEFAULT_PAGE_SIZE = 4096;
+const DEFAULT_WAL_AUTO_CHECKPOINT = 1000;
+const DEFAULT_CACHE_SIZE = 256;
+
+/**
+ * レコード形式のバージョン
+ *   0: 整数キーを u32 で保存する (この項目がなかった頃のファイル)
+ *   1: 整数キーを i64 で保存する
+ */
+export const FORMAT_VERSION = {
+  LEGACY: 0,
+  CURRENT: 1,
+} as const;
 
 // ファイルヘッダーレイアウト
 const HEADER_MAGIC_OFFSET = 0;
@@ -45,7 +79,30 @@ const HEADER_TOTAL_PAGES_OFFSET = 6;
 const HEADER_TOTAL_PAGES_SIZE = 4;
 const HEADER_SCHEMA_PAGE_OFFSET = 10;
 const HEADER_SCHEMA_PAGE_SIZE = 4;
-const FILE_HEADER_SIZE = 14;
+const HEADER_FREE_LIST_TRUNK_OFFSET = 14;
+const HEADER_FREE_LIST_TRUNK_SIZE = 4;
+const HEADER_FREE_PAGE_COUNT_OFFSET = 18;
+const HEADER_FREE_PAGE_COUNT_SIZE = 4;
+const HEADER_JOURNAL_MODE_OFFSET = 22;
+const HEADER_JOURNAL_MODE_SIZE = 1;
+const HEADER_FORMAT_VERSION_OFFSET = 23;
+const HEADER_FORMAT_VERSION_SIZE = 1;
+const FILE_HEADER_SIZE = 24;
+
+const JOURNAL_MODE_TAG: { [mode in JournalMode]: number } = {
+  DELETE: 0x00,
+  WAL: 0x01,
+};
+
+// フリーリスト trunk ページレイアウト
+//   [0]      u8   ページタイプ (0x04)
+//   [1..4]   u32  次の trunk ページ番号 (0 = なし)
+//   [5..8]   u32  この trunk が保持する空きページ数
+//   [9..]    u32  空きページ番号の配列
+const TRUNK_NEXT_OFFSET = 1;
+const TRUNK_COUNT_OFFSET = 5;
+const TRUNK_ENTRIES_OFFSET = 9;
+const TRUNK_ENTRY_SIZE = 4;
 
 // ============================================================
 // Pager クラス
@@ -55,22 +112,67 @@ export class Pager {
   private fd: number;
   private header: FileHeader;
   private readonly pageSize: number;
-
-  private constructor(fd: number, header: FileHeader) {
+  private readonly journalPath: string;
+  private readonly walPath: string;
+  private readonly walAutoCheckpoint: number;
+  private readonly cache: PageCache;
+
+  // WAL モードのときだけ使う
+  private wal: Wal | null = null;
+  private pendingPages: Map<number, Buffer> | null = null; // コミット待ちのページ
+
+  // トランザクション状態
+  private inTransaction = false;
+  private journal: Journal | null = null;
+  private journaledPages: Set<number> = new Set();
+  private headerAtBegin: FileHeader | null = null;
+
+  // 文単位のセーブポイント (トランザクション内で1文だけ取り消すため)
+  private statementImages: Map<number, Buffer> | null = null;
+  private headerAtStatement: FileHeader | null = null;
+
+  private constructor(fd: number, header: FileHeader, filePath: string, options: PagerOptions) {
     this.fd = fd;
     this.header = header;
     this.pageSize = header.pageSize;
+    this.journalPath = journalPathFor(filePath);
+    this.walPath = walPathFor(filePath);
+    this.walAutoCheckpoint = options.walAutoCheckpoint ?? DEFAULT_WAL_AUTO_CHECKPOINT;
+    this.cache = new PageCache(options.cacheSize ?? DEFAULT_CACHE_SIZE, (pageNum, data) => {
+      writeSync(this.fd, data, 0, this.pageSize, pageNum * this.pageSize);
+    });
   }
 
   /**
    * データベースファイルを開く（なければ新規作成）
+   *
+   * ジャーナルが残っている (= 前回のトランザクションがコミット前に中断した)
+   * 場合は、ヘッダーを読む前にジャーナルを書き戻して変更前の状態に戻す。
+   * WAL モードのファイルは WAL を読み込み、コミット済みのフレームを反映して開く
    */
-  static open(filePath: string, pageSize = DEFAULT_PAGE_SIZE): PagerResult<Pager> {
+  static open(filePath: string, pageSize = DEFAULT_PAGE_SIZE, options: PagerOptions = {}): PagerResult<Pager> {
     const isNew = !existsSync(filePath);
+    const journalPath = journalPathFor(filePath);
+    const walPath = walPathFor(filePath);
+
+    // 本体のないジャーナル・WAL は書き戻し先がないので捨てる
+    if (isNew) {
+      for (const path of [journalPath, walPath]) {
+        if (existsSync(path)) unlinkSync(path);
+      }
+    }
 
     // ファイルを開く (読み書きモード、なければ作成)
     const fd = openSync(filePath, isNew ? "w+" : "r+");
 
+    if (!isNew) {
+      const recoverResult = Journal.rollback(journalPath, fd);
+      if (!recoverResult.success) {
+        closeSync(fd);
+        return recoverResult;
+      }
+    }
+
     if (isNew) {
       // 新規ファイル: ヘッダーとスキーマページを初期化
       const header: FileHeader = {
@@ -78,9 +180,13 @@ export class Pager {
         pageSize,
         totalPages: 2, // ヘッダーページ(0) + スキーマページ(1)
         schemaPage: 1,
+        freeListTrunk: 0,
+        freePageCount: 0,
+        journalMode: "DELETE",
+        formatVersion: FORMAT_VERSION.CURRENT,
       };
 
-      const pager = new Pager(fd, header);
+      const pager = new Pager(fd, header, filePath, options);
 
       // ページ0: ファイルヘッダーを書き込み
       const headerPage = Buffer.alloc(pageSize, 0);
@@ -106,15 +212,51 @@ export class Pager {
       return headerResult;
     }
 
-    return { success: true, data: new Pager(fd, headerResult.data) };
+    const pager = new Pager(fd, headerResult.data, filePath, options);
+
+    if (headerResult.data.journalMode !== "WAL") {
+      // DELETE モードに切り替え済み (チェックポイント済み) の WAL は不要
+      if (existsSync(walPath)) unlinkSync(walPath);
+      return { success: true, data: pager };
+    }
+
+    const walResult = Wal.open(walPath, headerResult.data.pageSize);
+    if (!walResult.success) {
+      closeSync(fd);
+      return walResult;
+    }
+    pager.wal = walResult.data;
+
+    // ヘッダーページが WAL 上で更新されていればそちらが最新
+    const walHeaderPage = pager.wal.read(0);
+    if (walHeaderPage) {
+      const walHeaderResult = readFileHeader(walHeaderPage);
+      if (!walHeaderResult.success) {
+        pager.wal.close();
+        closeSync(fd);
+        return walHeaderResult;
+      }
+      pager.header = walHeaderResult.data;
+    }
+
+    return { success: true, data: pager };
   }
 
   /**
    * 新しいページを割り当てて、そのページ番号を返す
+   * フリーリストに空きページがあればそれを再利用し、なければファイル末尾に追加する
    */
   allocatePage(): PagerResult<number> {
-    const pageNum = this.header.totalPages;
-    this.header.totalPages++;
+    let pageNum: number;
+
+    if (this.header.freeListTrunk !== 0) {
+      const reuseResult = this.takeFreePage();
+      if (!reuseResult.success) return reuseResult;
+      pageNum = reuseResult.data;
+    } else {
+      pageNum = this.header.totalPages;
+      this.header.totalPages++;
+    }
 
     // 新しいページをゼロ初期化して書き込み
     const emptyPage = Buffer.alloc(this.pageSize, 0);
@@ -126,19 +268,70 @@ export class Pager {
     return { success: true, data: pageNum };
   }
 
+  /**
+   * 不要になったページをフリーリストに戻す
+   *
+   * 先頭 trunk に空きがあればページ番号を追記し、満杯 (または trunk がない) なら
+   * 解放されたページ自体を新しい trunk にしてチェーンの先頭に繋ぐ
+   */
+  freePage(pageNum: number): PagerResult<void> {
+    if (pageNum <= 0 || pageNum >= this.header.totalPages || pageNum === this.header.schemaPage) {
+      return { success: false, error: `Page ${pageNum} cannot be freed` };
+    }
+
+    const trunkPageNum = this.header.freeListTrunk;
+    if (trunkPageNum !== 0) {
+      const readResult = this.readPage(trunkPageNum);
+      if (!readResult.success) return readResult;
+
+      const trunk = readResult.data;
+      const count = trunk.readUInt32LE(TRUNK_COUNT_OFFSET);
+      if (count < this.maxTrunkEntries()) {
+        trunk.writeUInt32LE(pageNum, TRUNK_ENTRIES_OFFSET + count * TRUNK_ENTRY_SIZE);
+        trunk.writeUInt32LE(count + 1, TRUNK_COUNT_OFFSET);
+        this.writePageRaw(trunkPageNum, trunk);
+
+        // 解放したページは未使用としてゼロクリアしておく
+        this.writePageRaw(pageNum, Buffer.alloc(this.pageSize, 0));
+
+        this.header.freePageCount++;
+        this.flushHeader();
+        return { success: true, data: undefined };
+      }
+    }
+
+    // 解放されたページを新しい trunk にする
+    const newTrunk = Buffer.alloc(this.pageSize, 0);
+    newTrunk.writeUInt8(PAGE_TYPE.FREE_LIST, 0);
+    newTrunk.writeUInt32LE(trunkPageNum, TRUNK_NEXT_OFFSET);
+    newTrunk.writeUInt32LE(0, TRUNK_COUNT_OFFSET);
+    this.writePageRaw(pageNum, newTrunk);
+
+    this.header.freeListTrunk = pageNum;
+    this.header.freePageCount++;
+    this.flushHeader();
+    return { success: true, data: undefined };
+  }
+
   /**
    * 指定ページ番号のデータを読み込む
+   *
+   * キャッシュにあればファイルを読まずにそのコピーを返す
+   * (呼び出し側が返り値を書き換えてもキャッシュには影響しない)
    */
   readPage(pageNum: number): PagerResult<Buffer> {
     if (pageNum < 0 || pageNum >= this.header.totalPages) {
       return { success: false, error: `Page ${pageNum} out of range (0..${this.header.totalPages - 1})` };
     }
 
-    const buf = Buffer.alloc(this.pageSize);
-    const offset = pageNum * this.pageSize;
-    readSync(this.fd, buf, 0, this.pageSize, offset);
+    const cached = this.cache.get(pageNum);
+    if (cached) {
+      return { success: true, data: Buffer.from(cached) };
+    }
 
-    return { success: true, data: buf };
+    const data = this.readPageRaw(pageNum);
+    this.cache.put(pageNum, Buffer.from(data), false);
+    return { success: true, data };
   }
 
   /**
@@ -157,6 +350,217 @@ export class Pager {
     return { success: true, data: undefined };
   }
 
+  // ============================================================
+  // トランザクション
+  //
+  // DELETE モード:
+  //   begin() 以降、各ページを初めて書き換える直前に変更前の内容を
+  //   ジャーナルへ退避する。commit() でジャーナルを削除し、
+  //   rollback() でジャーナルを書き戻して begin() 時点の状態に戻す。
+  // WAL モード:
+  //   begin() 以降の書き込みはメモリ上に溜めておき、commit() で
+  //   まとめて WAL に追記する。rollback() は溜めたページを捨てるだけ。
+  //
+  // begin() していない間の書き込みは1ページずつ直接反映される。
+  // ============================================================
+
+  begin(): PagerResult<void> {
+    if (this.inTransaction) {
+      return { success: false, error: "Transaction already active" };
+    }
+
+    // ジャーナルに退避する「変更前の内容」はファイルから読むので、先に書き戻しておく
+    this.cache.flush();
+
+    this.inTransaction = true;
+    this.headerAtBegin = { ...this.header };
+    this.journaledPages.clear();
+    if (this.wal) {
+      this.pendingPages = new Map();
+    }
+    return { success: true, data: undefined };
+  }
+
+  commit(): PagerResult<void> {
+    if (!this.inTransaction) {
+      return { success: false, error: "No active transaction" };
+    }
+
+    if (this.wal) {
+      this.wal.appendTransaction(this.pendingPages!, this.header.totalPages);
+      this.endTransaction();
+      this.autoCheckpoint();
+      return { success: true, data: undefined };
+    }
+
+    this.cache.flush();
+    if (this.journal) {
+      // 本体ファイルへの書き込みを確定させてからジャーナルを消す
+      fsyncSync(this.fd);
+      this.journal.delete();
+    }
+
+    this.endTransaction();
+    return { success: true, data: undefined };
+  }
+
+  rollback(): PagerResult<void> {
+    if (!this.inTransaction) {
+      return { success: false, error: "No active transaction" };
+    }
+
+    if (this.journal) {
+      this.journal.close();
+      const rollbackResult = Journal.rollback(this.journalPath, this.fd);
+      if (!rollbackResult.success) return rollbackResult;
+    }
+
+    // 書き戻し前の変更や WAL 上の未コミットのページを含むので丸ごと捨てる
+    this.cache.clear();
+    this.header = this.headerAtBegin!;
+    this.endTransaction();
+    return { success: true, data: undefined };
+  }
+
+  isInTransaction(): boolean {
+    return this.inTransaction;
+  }
+
+  /**
+   * トランザクション内で文単位のセーブポイントを設定する
+   *
+   * 以降に書き換えたページの直前の内容をメモリに控えておき、
+   * rollbackStatement() で文の実行前の状態に戻せるようにする。
+   * (クラッシュ時はトランザクション全体がジャーナルで巻き戻るので、ディスクには残さない)
+   */
+  beginStatement(): PagerResult<void> {
+    if (!this.inTransaction) {
+      return { success: false, error: "No active transaction" };
+    }
+
+    this.statementImages = new Map();
+    this.headerAtStatement = { ...this.header };
+    return { success: true, data: undefined };
+  }
+
+  endStatement(): void {
+    this.statementImages = null;
+    this.headerAtStatement = null;
+  }
+
+  rollbackStatement(): PagerResult<void> {
+    if (!this.statementImages) {
+      return { success: false, error: "No active statement" };
+    }
+
+    const images = this.statementImages;
+    const header = this.headerAtStatement!;
+    this.endStatement();
+
+    for (const [pageNum, image] of images) {
+      this.writePageRaw(pageNum, image);
+    }
+
+    // 文の中で追加されたページを切り捨て、ヘッダーを戻す
+    this.header = header;
+    if (this.pendingPages) {
+      for (const pageNum of this.pendingPages.keys()) {
+        if (pageNum >= header.totalPages) this.pendingPages.delete(pageNum);
+      }
+    } else {
+      ftruncateSync(this.fd, header.totalPages * this.pageSize);
+    }
+    this.cache.discardFrom(header.totalPages);
+    this.flushHeader();
+    return { success: true, data: undefined };
+  }
+
+  // ============================================================
+  // ジャーナルモード / チェックポイント
+  // ============================================================
+
+  getJournalMode(): JournalMode {
+    return this.header.journalMode;
+  }
+
+  /**
+   * ジャーナルモードを切り替え、ヘッダーに記録する
+   *
+   * WAL → DELETE では先にチェックポイントして WAL を空にしてから削除する。
+   * どちらの場合もモードを書いたヘッダーは本体ファイルに直接書き込む
+   */
+  setJournalMode(mode: JournalMode): PagerResult<void> {
+    if (this.inTransaction) {
+      return { success: false, error: "Cannot change journal mode within a transaction" };
+    }
+    if (this.header.journalMode === mode) {
+      return { success: true, data: undefined };
+    }
+
+    // ヘッダーページを直接書き換えるので、キャッシュは書き戻して空にする
+    this.cache.flush();
+    this.cache.clear();
+
+    if (mode === "WAL") {
+      this.header.journalMode = "WAL";
+      this.writeHeaderToFile();
+
+      const walResult = Wal.open(this.walPath, this.pageSize);
+      if (!walResult.success) return walResult;
+      this.wal = walResult.data;
+      return { success: true, data: undefined };
+    }
+
+    this.wal!.checkpoint(this.fd);
+    this.header.journalMode = "DELETE";
+    this.writeHeaderToFile();
+    this.wal!.delete();
+    this.wal = null;
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * WAL のコミット済みフレームを本体ファイルに書き戻す
+   * 戻り値は書き戻したフレーム数 (DELETE モードでは常に 0)
+   */
+  checkpoint(): PagerResult<number> {
+    if (this.inTransaction) {
+      return { success: false, error: "Cannot checkpoint within a transaction" };
+    }
+    if (!this.wal) {
+      return { success: true, data: 0 };
+    }
+
+    const frameCount = this.wal.getFrameCount();
+    this.wal.checkpoint(this.fd);
+    return { success: true, data: frameCount };
+  }
+
+  /**
+   * 書き戻し待ちのページをファイルに書き込む
+   */
+  flush(): void {
+    this.cache.flush();
+  }
+
+  /**
+   * ページキャッシュのヒット / ミス / 追い出し回数などを返す
+   */
+  getCacheStats(): CacheStats {
+    return this.cache.getStats();
+  }
+
+  resetCacheStats(): void {
+    this.cache.resetStats();
+  }
+
+  /**
+   * WAL に溜まっているフレーム数 (DELETE モードでは常に 0)
+   */
+  getWalFrameCount(): number {
+    return this.wal?.getFrameCount() ?? 0;
+  }
+
   /**
    * ファイルヘッダー情報を取得
    */
@@ -175,15 +579,154 @@ export class Pager {
    * ファイルを閉じる
    */
   close(): void {
+    // コミットされていない変更は破棄する
+    if (this.inTransaction) {
+      this.rollback();
+    }
     this.flushHeader();
+    this.cache.flush();
+
+    // WAL は本体に書き戻してから削除する
+    if (this.wal) {
+      this.wal.checkpoint(this.fd);
+      this.wal.delete();
+      this.wal = null;
+    }
     closeSync(this.fd);
   }
 
   // --- private ---
 
+  /**
+   * トランザクション中に初めて書き換えるページの元の内容をジャーナルに退避する
+   * (トランザクション開始後に追加されたページはロールバック時に切り捨てるので不要)
+   */
+  private journalOriginalPage(pageNum: number): void {
+    if (this.journaledPages.has(pageNum) || pageNum >= this.headerAtBegin!.totalPages) {
+      return;
+    }
+
+    if (!this.journal) {
+      this.journal = Journal.create(this.journalPath, this.pageSize, this.headerAtBegin!.totalPages);
+    }
+
+    const original = Buffer.alloc(this.pageSize, 0);
+    readSync(this.fd, original, 0, this.pageSize, pageNum * this.pageSize);
+    this.journal.append(pageNum, original);
+    this.journaledPages.add(pageNum);
+  }
+
+  /**
+   * 文の中で初めて書き換えるページの直前の内容を控える
+   */
+  private rememberStatementImage(pageNum: number): void {
+    if (this.statementImages!.has(pageNum) || pageNum >= this.headerAtStatement!.totalPages) {
+      return;
+    }
+
+    const cached = this.cache.peek(pageNum);
+    this.statementImages!.set(pageNum, cached ? Buffer.from(cached) : this.readPageRaw(pageNum));
+  }
+
+  /**
+   * WAL モードでは 未コミットのページ → WAL → 本体ファイル の順に探す
+   */
+  private readPageRaw(pageNum: number): Buffer {
+    const pending = this.pendingPages?.get(pageNum);
+    if (pending) {
+      return Buffer.from(pending);
+    }
+
+    const fromWal = this.wal?.read(pageNum);
+    if (fromWal) {
+      return fromWal;
+    }
+
+    const buf = Buffer.alloc(this.pageSize);
+    readSync(this.fd, buf, 0, this.pageSize, pageNum * this.pageSize);
+    return buf;
+  }
+
+  private autoCheckpoint(): void {
+    if (this.wal && this.wal.getFrameCount() >= this.walAutoCheckpoint) {
+      this.wal.checkpoint(this.fd);
+    }
+  }
+
+  private endTransaction(): void {
+    this.endStatement();
+    this.inTransaction = false;
+    this.journal = null;
+    this.journaledPages.clear();
+    this.headerAtBegin = null;
+    this.pendingPages = null;
+  }
+
+  /**
+   * フリーリストから空きページを1つ取り出す
+   * 先頭 trunk に空きページ番号が残っていればその末尾を、空なら trunk 自体を返す
+   */
+  private takeFreePage(): PagerResult<number> {
+    const trunkPageNum = this.header.freeListTrunk;
+    const readResult = this.readPage(trunkPageNum);
+    if (!readResult.success) return readResult;
+
+    const trunk = readResult.data;
+    if (trunk.readUInt8(0) !== PAGE_TYPE.FREE_LIST) {
+      return { success: false, error: `Page ${trunkPageNum} is not a free-list trunk page` };
+    }
+
+    const count = trunk.readUInt32LE(TRUNK_COUNT_OFFSET);
+    this.header.freePageCount--;
+
+    if (count > 0) {
+      const pageNum = trunk.readUInt32LE(TRUNK_ENTRIES_OFFSET + (count - 1) * TRUNK_ENTRY_SIZE);
+      trunk.writeUInt32LE(count - 1, TRUNK_COUNT_OFFSET);
+      this.writePageRaw(trunkPageNum, trunk);
+      return { success: true, data: pageNum };
+    }
+
+    this.header.freeListTrunk = trunk.readUInt32LE(TRUNK_NEXT_OFFSET);
+    return { success: true, data: trunkPageNum };
+  }
+
+  private maxTrunkEntries(): number {
+    return Math.floor((this.pageSize - TRUNK_ENTRIES_OFFSET) / TRUNK_ENTRY_SIZE);
+  }
+
   private writePageRaw(pageNum: number, data: Buffer): void {
-    const offset = pageNum * this.pageSize;
-    writeSync(this.fd, data, 0, this.pageSize, offset);
+    if (this.statementImages) {
+      this.rememberStatementImage(pageNum);
+    }
+
+    if (this.wal) {
+      if (this.pendingPages) {
+        this.pendingPages.set(pageNum, Buffer.from(data));
+      } else {
+        this.wal.appendTransaction(new Map([[pageNum, Buffer.from(data)]]), this.header.totalPages);
+        this.autoCheckpoint();
+      }
+      // WAL 側が最新の内容を持つので、キャッシュには clean として載せる
+      this.cache.put(pageNum, Buffer.from(data), false);
+      return;
+    }
+
+    if (this.inTransaction) {
+      this.journalOriginalPage(pageNum);
+    }
+
+    // 本体ファイルへは flush / 追い出し時に書き戻す
+    this.cache.put(pageNum, Buffer.from(data), true);
+  }
+
+  /**
+   * ヘッダーページを WAL を経由せずに本体ファイルへ書き込む (ジャーナルモード切り替え用)
+   */
+  private writeHeaderToFile(): void {
+    const headerPage = Buffer.alloc(this.pageSize, 0);
+    writeFileHeader(headerPage, this.header);
+    writeSync(this.fd, headerPage, 0, this.pageSize, 0);
+    fsyncSync(this.fd);
   }
 
   private flushHeader(): void {
@@ -197,11 +740,23 @@ export class Pager {
 // ヘッダー読み書きヘルパー
 // ============================================================
 
+function journalPathFor(filePath: string): string {
+  return `${filePath}-journal`;
+}
+
+function walPathFor(filePath: string): string {
+  return `${filePath}-wal`;
+}
+
 function writeFileHeader(buf: Buffer, header: FileHeader): void {
   buf.writeUInt32LE(header.magic, HEADER_MAGIC_OFFSET);
   buf.writeUInt16LE(header.pageSize, HEADER_PAGE_SIZE_OFFSET);
   buf.writeUInt32LE(header.totalPages, HEADER_TOTAL_PAGES_OFFSET);
   buf.writeUInt32LE(header.schemaPage, HEADER_SCHEMA_PAGE_OFFSET);
+  buf.writeUInt32LE(header.freeListTrunk, HEADER_FREE_LIST_TRUNK_OFFSET);
+  buf.writeUInt32LE(header.freePageCount, HEADER_FREE_PAGE_COUNT_OFFSET);
+  buf.writeUInt8(JOURNAL_MODE_TAG[header.journalMode], HEADER_JOURNAL_MODE_OFFSET);
+  buf.writeUInt8(header.formatVersion, HEADER_FORMAT_VERSION_OFFSET);
 }
 
 function readFileHeader(buf: Buffer): PagerResult<FileHeader> {
@@ -217,6 +772,11 @@ function readFileHeader(buf: Buffer): PagerResult<FileHeader> {
       pageSize: buf.readUInt16LE(HEADER_PAGE_SIZE_OFFSET),
       totalPages: buf.readUInt32LE(HEADER_TOTAL_PAGES_OFFSET),
       schemaPage: buf.readUInt32LE(HEADER_SCHEMA_PAGE_OFFSET),
+      freeListTrunk: buf.readUInt32LE(HEADER_FREE_LIST_TRUNK_OFFSET),
+      freePageCount: buf.readUInt32LE(HEADER_FREE_PAGE_COUNT_OFFSET),
+      journalMode: buf.readUInt8(HEADER_JOURNAL_MODE_OFFSET) === JOURNAL_MODE_TAG.WAL ? "WAL" : "DELETE",
+      // 以前のファイルではこのバイトは 0 のまま
+      formatVersion: buf.readUInt8(HEADER_FORMAT_VERSION_OFFSET),
     },
   };
 }
@@ -0,0 +1,141 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { Wal } from "./wal.ts";
+import { openSync, closeSync, readSync, writeSync, fstatSync, unlinkSync, existsSync, truncateSync, statSync } from "node:fs";
+
+const TEST_DB = "/tmp/test_wal.db";
+const TEST_WAL = "/tmp/test_wal.db-wal";
+const PAGE_SIZE = 512;
+
+afterEach(() => {
+  for (const path of [TEST_DB, TEST_WAL]) {
+    if (existsSync(path)) {
+      unlinkSync(path);
+    }
+  }
+});
+
+function openWal(): Wal {
+  const result = Wal.open(TEST_WAL, PAGE_SIZE);
+  if (!result.success) throw new Error(result.error);
+  return result.data;
+}
+
+function page(fill: number): Buffer {
+  return Buffer.alloc(PAGE_SIZE, fill);
+}
+
+// ============================================================
+// 追記と読み込み
+// ============================================================
+
+describe("追記と読み込み", () => {
+  test("コミットしたページは最新のフレームが読める", () => {
+    const wal = openWal();
+    expect(wal.read(1)).toBeNull();
+
+    wal.appendTransaction(new Map([[1, page(10)], [2, page(20)]]), 3);
+    wal.appendTransaction(new Map([[1, page(11)]]), 3);
+
+    expect(wal.getFrameCount()).toBe(3);
+    expect(wal.read(1)![0]).toBe(11);
+    expect(wal.read(2)![0]).toBe(20);
+    expect(wal.read(3)).toBeNull();
+
+    wal.delete();
+    expect(existsSync(TEST_WAL)).toBe(false);
+  });
+
+  test("開き直すとコミット済みのフレームが復元される", () => {
+    const wal1 = openWal();
+    wal1.appendTransaction(new Map([[1, page(10)], [2, page(20)]]), 3);
+    wal1.close();
+
+    const wal2 = openWal();
+    expect(wal2.getFrameCount()).toBe(2);
+    expect(wal2.read(1)![0]).toBe(10);
+    expect(wal2.read(2)![0]).toBe(20);
+    wal2.close();
+  });
+});
+
+// ============================================================
+// 復旧
+// ============================================================
+
+describe("復旧", () => {
+  test("書きかけのトランザクションのフレームは無視される", () => {
+    const wal1 = openWal();
+    wal1.appendTransaction(new Map([[1, page(10)]]), 2);
+    wal1.appendTransaction(new Map([[1, page(11)], [2, page(21)]]), 3);
+    wal1.close();
+
+    // 2つ目のトランザクションのコミットフレームの途中でクラッシュした状態を再現
+    truncateSync(TEST_WAL, statSync(TEST_WAL).size - 100);
+
+    const wal2 = openWal();
+    expect(wal2.getFrameCount()).toBe(1);
+    expect(wal2.read(1)![0]).toBe(10);
+    expect(wal2.read(2)).toBeNull();
+
+    // 無効なフレームの位置から追記を再開できる
+    wal2.appendTransaction(new Map([[2, page(22)]]), 3);
+    wal2.close();
+
+    const wal3 = openWal();
+    expect(wal3.getFrameCount()).toBe(2);
+    expect(wal3.read(2)![0]).toBe(22);
+    wal3.close();
+  });
+
+  test("チェックサムが合わないフレーム以降は無視される", () => {
+    const wal1 = openWal();
+    wal1.appendTransaction(new Map([[1, page(10)]]), 2);
+    wal1.appendTransaction(new Map([[1, page(11)]]), 2);
+    wal1.close();
+
+    // 2つ目のフレームのページ内容を壊す
+    const fd = openSync(TEST_WAL, "r+");
+    writeSync(fd, Buffer.from([0xff]), 0, 1, 16 + (16 + PAGE_SIZE) + 16);
+    closeSync(fd);
+
+    const wal2 = openWal();
+    expect(wal2.getFrameCount()).toBe(1);
+    expect(wal2.read(1)![0]).toBe(10);
+    wal2.close();
+  });
+});
+
+// ============================================================
+// チェックポイント
+// ============================================================
+
+describe("チェックポイント", () => {
+  test("最新のフレームが本体に書き戻され、WAL は空になる", () => {
+    const dbFd = openSync(TEST_DB, "w+");
+    writeSync(dbFd, page(0), 0, PAGE_SIZE, 0);
+    writeSync(dbFd, page(1), 0, PAGE_SIZE, PAGE_SIZE);
+
+    const wal = openWal();
+    wal.appendTransaction(new Map([[1, page(10)], [2, page(20)]]), 3);
+    wal.appendTransaction(new Map([[1, page(11)]]), 3);
+
+    wal.checkpoint(dbFd);
+    expect(wal.getFrameCount()).toBe(0);
+    expect(wal.read(1)).toBeNull();
+    expect(fstatSync(dbFd).size).toBe(3 * PAGE_SIZE);
+
+    const buf = Buffer.alloc(1);
+    readSync(dbFd, buf, 0, 1, PAGE_SIZE);
+    expect(buf[0]).toBe(11);
+    readSync(dbFd, buf, 0, 1, 2 * PAGE_SIZE);
+    expect(buf[0]).toBe(20);
+
+    // チェックポイント前の世代のフレームは開き直しても復元されない
+    wal.close();
+    const reopened = openWal();
+    expect(reopened.getFrameCount()).toBe(0);
+    reopened.close();
+
+    closeSync(dbFd);
+  });
+});
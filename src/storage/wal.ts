@@ -0,0 +1,242 @@
+import { openSync, closeSync, readSync, writeSync, fsyncSync, ftruncateSync, fstatSync, unlinkSync, existsSync } from "node:fs";
+import type { PagerResult } from "./pager.ts";
+import { checksum } from "./checksum.ts";
+
+// ============================================================
+// Write-Ahead Log (WAL)
+//
+// 本体ファイルのページをその場で書き換える代わりに、コミットされた
+// ページの内容を WAL ファイルの末尾に「フレーム」として追記していく。
+// 読み込み時はまず WAL インデックス (ページ番号 → 最新フレーム) を引き、
+// 見つからなければ本体ファイルを読む。
+// チェックポイントで各ページの最新フレームを本体に書き戻し、WAL を空にする。
+//
+// ファイルレイアウト:
+//   ヘッダー (16 bytes)
+//     [0..3]   u32  マジックナンバー 0x534C574C ("SLWL")
+//     [4..7]   u32  ページサイズ
+//     [8..11]  u32  ソルト (チェックポイントごとに +1)
+//     [12..15] u32  ヘッダーのチェックサム
+//   フレームの配列 (各 16 + pageSize bytes)
+//     [0..3]   u32  ページ番号
+//     [4..7]   u32  コミット後の総ページ数 (0 = コミットフレームではない)
+//     [8..11]  u32  ソルト (ヘッダーと一致しないフレームは古い世代)
+//     [12..15] u32  チェックサム (直前フレームのチェックサム + フレームヘッダー + ページ内容)
+//     [16..]   ページ内容
+//
+// コミットフレーム (総ページ数 != 0) までのフレームだけが有効。
+// 書きかけのトランザクションのフレームは開き直したときに無視される。
+// ============================================================
+
+const WAL_MAGIC = 0x534c574c; // "SLWL"
+const WAL_HEADER_SIZE = 16;
+const FRAME_HEADER_SIZE = 16;
+
+export class Wal {
+  private fd: number;
+  private readonly path: string;
+  private readonly pageSize: number;
+  private salt: number;
+
+  /** コミット済みフレームのインデックス: ページ番号 → フレーム番号 */
+  private index: Map<number, number> = new Map();
+  private frameCount = 0;
+  private lastChecksum: number;
+  /** 最後のコミットフレームが記録した総ページ数 (0 = コミットなし) */
+  private committedTotalPages = 0;
+
+  private constructor(fd: number, path: string, pageSize: number, salt: number) {
+    this.fd = fd;
+    this.path = path;
+    this.pageSize = pageSize;
+    this.salt = salt;
+    this.lastChecksum = salt;
+  }
+
+  /**
+   * WAL ファイルを開き (なければ作成)、有効なフレームからインデックスを組み立てる
+   */
+  static open(path: string, pageSize: number): PagerResult<Wal> {
+    const isNew = !existsSync(path);
+    const fd = openSync(path, isNew ? "w+" : "r+");
+
+    const header = Buffer.alloc(WAL_HEADER_SIZE, 0);
+    const headerBytes = isNew ? 0 : readSync(fd, header, 0, WAL_HEADER_SIZE, 0);
+    const valid =
+      headerBytes === WAL_HEADER_SIZE &&
+      header.readUInt32LE(0) === WAL_MAGIC &&
+      header.readUInt32LE(12) === checksum(header.subarray(0, 12), 0);
+
+    if (!valid) {
+      // 新規または壊れたヘッダー: 空の WAL として初期化する
+      const wal = new Wal(fd, path, pageSize, 1);
+      wal.reset(1);
+      return { success: true, data: wal };
+    }
+
+    if (header.readUInt32LE(4) !== pageSize) {
+      closeSync(fd);
+      return { success: false, error: `WAL page size ${header.readUInt32LE(4)} does not match ${pageSize}` };
+    }
+
+    const wal = new Wal(fd, path, pageSize, header.readUInt32LE(8));
+    wal.recover();
+    return { success: true, data: wal };
+  }
+
+  /**
+   * ページの最新のコミット済み内容を返す (WAL になければ null)
+   */
+  read(pageNum: number): Buffer | null {
+    const frame = this.index.get(pageNum);
+    if (frame === undefined) return null;
+
+    const buf = Buffer.alloc(this.pageSize);
+    readSync(this.fd, buf, 0, this.pageSize, this.frameOffset(frame) + FRAME_HEADER_SIZE);
+    return buf;
+  }
+
+  /**
+   * 1トランザクション分のページをフレームとして追記し、最後をコミットフレームにする
+   */
+  appendTransaction(pages: Map<number, Buffer>, totalPages: number): void {
+    if (pages.size === 0) return;
+
+    const entries = [...pages.entries()];
+    const frames = Buffer.alloc(entries.length * (FRAME_HEADER_SIZE + this.pageSize), 0);
+    let checksumChain = this.lastChecksum;
+
+    entries.forEach(([pageNum, data], i) => {
+      const offset = i * (FRAME_HEADER_SIZE + this.pageSize);
+      const isCommit = i === entries.length - 1;
+      frames.writeUInt32LE(pageNum, offset);
+      frames.writeUInt32LE(isCommit ? totalPages : 0, offset + 4);
+      frames.writeUInt32LE(this.salt, offset + 8);
+      data.copy(frames, offset + FRAME_HEADER_SIZE, 0, this.pageSize);
+
+      checksumChain = frameChecksum(frames, offset, this.pageSize, checksumChain);
+      frames.writeUInt32LE(checksumChain, offset + 12);
+    });
+
+    writeSync(this.fd, frames, 0, frames.length, this.frameOffset(this.frameCount));
+    fsyncSync(this.fd);
+
+    // fsync 後にインデックスへ反映 (= コミット完了)
+    entries.forEach(([pageNum], i) => {
+      this.index.set(pageNum, this.frameCount + i);
+    });
+    this.frameCount += entries.length;
+    this.lastChecksum = checksumChain;
+    this.committedTotalPages = totalPages;
+  }
+
+  /**
+   * 各ページの最新フレームを本体ファイルに書き戻し、WAL を空にする
+   */
+  checkpoint(dbFd: number): void {
+    if (this.frameCount === 0) return;
+
+    const buf = Buffer.alloc(this.pageSize);
+    for (const [pageNum, frame] of this.index) {
+      readSync(this.fd, buf, 0, this.pageSize, this.frameOffset(frame) + FRAME_HEADER_SIZE);
+      writeSync(dbFd, buf, 0, this.pageSize, pageNum * this.pageSize);
+    }
+    ftruncateSync(dbFd, this.committedTotalPages * this.pageSize);
+    fsyncSync(dbFd);
+
+    this.reset(this.salt + 1);
+  }
+
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  close(): void {
+    closeSync(this.fd);
+  }
+
+  /**
+   * WAL を閉じてファイルを削除する (チェックポイント済みであること)
+   */
+  delete(): void {
+    this.close();
+    if (existsSync(this.path)) {
+      unlinkSync(this.path);
+    }
+  }
+
+  // --- private ---
+
+  /**
+   * 既存の WAL を先頭から読み、コミットフレームまでの有効なフレームをインデックスに載せる
+   */
+  private recover(): void {
+    const fileSize = fstatSync(this.fd).size;
+    const frameSize = FRAME_HEADER_SIZE + this.pageSize;
+    const frame = Buffer.alloc(frameSize);
+
+    const pending: Map<number, number> = new Map();
+    let checksumChain = this.salt;
+    let frameNum = 0;
+
+    while (this.frameOffset(frameNum) + frameSize <= fileSize) {
+      readSync(this.fd, frame, 0, frameSize, this.frameOffset(frameNum));
+
+      if (frame.readUInt32LE(8) !== this.salt) break;
+      const expected = frameChecksum(frame, 0, this.pageSize, checksumChain);
+      if (frame.readUInt32LE(12) !== expected) break;
+      checksumChain = expected;
+
+      pending.set(frame.readUInt32LE(0), frameNum);
+      frameNum++;
+
+      const totalPages = frame.readUInt32LE(4);
+      if (totalPages !== 0) {
+        for (const [pageNum, num] of pending) {
+          this.index.set(pageNum, num);
+        }
+        pending.clear();
+        this.frameCount = frameNum;
+        this.lastChecksum = checksumChain;
+        this.committedTotalPages = totalPages;
+      }
+    }
+
+    // 未コミットのフレームは以降の追記で上書きされる
+  }
+
+  private reset(salt: number): void {
+    this.salt = salt;
+    this.index.clear();
+    this.frameCount = 0;
+    this.lastChecksum = salt;
+    this.committedTotalPages = 0;
+
+    const header = Buffer.alloc(WAL_HEADER_SIZE, 0);
+    header.writeUInt32LE(WAL_MAGIC, 0);
+    header.writeUInt32LE(this.pageSize, 4);
+    header.writeUInt32LE(salt, 8);
+    header.writeUInt32LE(checksum(header.subarray(0, 12), 0), 12);
+
+    ftruncateSync(this.fd, 0);
+    writeSync(this.fd, header, 0, WAL_HEADER_SIZE, 0);
+    fsyncSync(this.fd);
+  }
+
+  private frameOffset(frame: number): number {
+    return WAL_HEADER_SIZE + frame * (FRAME_HEADER_SIZE + this.pageSize);
+  }
+}
+
+// ============================================================
+// ヘルパー関数
+// ============================================================
+
+/**
+ * フレームヘッダー (チェックサム欄を除く 12 bytes) とページ内容のチェックサム
+ * 直前フレームのチェックサムを seed にして連鎖させる
+ */
+function frameChecksum(buf: Buffer, offset: number, pageSize: number, seed: number): number {
+  const headerSum = checksum(buf.subarray(offset, offset + 12), seed);
+  return checksum(buf.subarray(offset + FRAME_HEADER_SIZE, offset + FRAME_HEADER_SIZE + pageSize), headerSum);
+}